@@ -0,0 +1,100 @@
+import { BookStatus, PrismaClient, TransactionStatus } from '@prisma/client';
+
+/**
+ * One-off backfill for databases created before books had physical copies.
+ * Gives every book without copies one copy that takes the book's status, and links
+ * every loan without a copy to one: a loan still out gets a copy of its own (added
+ * if the book has none free), a closed loan the book's first copy. Safe to run again;
+ * once it reports nothing left to link, Transaction.copyId can be made required.
+ */
+
+const prisma = new PrismaClient();
+
+const ACTIVE_LOAN_STATUSES: TransactionStatus[] = [TransactionStatus.CHECKED_OUT, TransactionStatus.OVERDUE];
+
+// Same barcodes as the seed data, e.g. "LMS-9780261103573-1"
+function barcodeFor(isbn: string, copyNumber: number): string {
+  return `LMS-${isbn.replace(/\D/g, '')}-${copyNumber}`;
+}
+
+async function main() {
+  const booksWithoutCopies = await prisma.book.findMany({
+    where: { copies: { none: {} } },
+    select: { id: true, isbn: true, status: true, isDeleted: true, deletedAt: true, createdAt: true },
+  });
+
+  for (const book of booksWithoutCopies) {
+    await prisma.bookCopy.create({
+      data: {
+        bookId: book.id,
+        barcode: barcodeFor(book.isbn, 1),
+        status: book.status,
+        acquisitionDate: book.createdAt,
+        isDeleted: book.isDeleted,
+        deletedAt: book.deletedAt,
+      },
+    });
+  }
+
+  console.log(`Added a copy to ${booksWithoutCopies.length} book(s).`);
+
+  const unlinkedLoans = await prisma.transaction.findMany({
+    where: { copyId: null },
+    select: { id: true, status: true, book: { select: { id: true, isbn: true } } },
+    orderBy: { checkoutDate: 'asc' },
+  });
+
+  let copiesAdded = 0;
+
+  for (const loan of unlinkedLoans) {
+    const copies = await prisma.bookCopy.findMany({
+      where: { bookId: loan.book.id },
+      select: {
+        id: true,
+        transactions: { where: { status: { in: ACTIVE_LOAN_STATUSES } }, select: { id: true } },
+      },
+      orderBy: { acquisitionDate: 'asc' },
+    });
+
+    let copyId = copies[0].id;
+
+    if (ACTIVE_LOAN_STATUSES.includes(loan.status)) {
+      // Two loans can't be out on the same copy
+      const freeCopy = copies.find((copy) => copy.transactions.length === 0);
+
+      if (freeCopy) {
+        copyId = freeCopy.id;
+      } else {
+        const added = await prisma.bookCopy.create({
+          data: {
+            bookId: loan.book.id,
+            barcode: barcodeFor(loan.book.isbn, copies.length + 1),
+          },
+        });
+        copyId = added.id;
+        copiesAdded += 1;
+      }
+
+      await prisma.bookCopy.update({
+        where: { id: copyId },
+        data: { status: BookStatus.CHECKED_OUT },
+      });
+    }
+
+    await prisma.transaction.update({
+      where: { id: loan.id },
+      data: { copyId },
+    });
+  }
+
+  console.log(`Linked ${unlinkedLoans.length} loan(s) to a copy, adding ${copiesAdded} copy(ies) for loans still out.`);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -1,40 +1,12 @@
-import { PrismaClient, UserRole, UserStatus, BookStatus, Permission } from '@prisma/client';
+import { PrismaClient, UserRole, UserStatus, BookStatus } from '@prisma/client';
 import * as bcrypt from 'bcryptjs';
+import { syncSystemRoles } from '../src/lib/auth/rbac/role-management';
 
 const prisma = new PrismaClient();
 
 async function main() {
-  // Create roles
-  const roles = [
-    {
-      name: UserRole.ADMIN,
-      description: 'System administrator with full access',
-      isSystem: true,
-    },
-    {
-      name: UserRole.LIBRARIAN,
-      description: 'Library staff with management capabilities',
-      isSystem: true,
-    },
-    {
-      name: UserRole.MEMBER,
-      description: 'Library member with borrowing privileges',
-      isSystem: true,
-    },
-    {
-      name: UserRole.USER,
-      description: 'Basic user with limited access',
-      isSystem: true,
-    },
-  ];
-
-  for (const role of roles) {
-    await prisma.role.upsert({
-      where: { name: role.name },
-      update: {},
-      create: role,
-    });
-  }
+  // Create the system roles and their default permissions
+  await syncSystemRoles(prisma);
 
   // Create admin user
   const adminPassword = await bcrypt.hash('admin123', 10);
@@ -121,79 +93,71 @@ async function main() {
   ];
 
   for (const book of books) {
-    await prisma.book.upsert({
+    const createdBook = await prisma.book.upsert({
       where: { isbn: book.isbn },
       update: {},
       create: book,
     });
+
+    // Create two physical copies of each book
+    for (let i = 1; i <= 2; i++) {
+      const barcode = `LMS-${book.isbn.replace(/\D/g, '')}-${i}`;
+      await prisma.bookCopy.upsert({
+        where: { barcode },
+        update: {},
+        create: {
+          bookId: createdBook.id,
+          barcode,
+          shelfLocation: `${book.category.substring(0, 3).toUpperCase()}-${i}`,
+        },
+      });
+    }
   }
 
-  // Create role permissions
-  const adminPermissions = Object.values(Permission);
-  const librarianPermissions = [
-    Permission.BOOK_CREATE,
-    Permission.BOOK_READ,
-    Permission.BOOK_UPDATE,
-    Permission.TRANSACTION_CREATE,
-    Permission.TRANSACTION_READ,
-    Permission.TRANSACTION_UPDATE,
-    Permission.RESERVATION_CREATE,
-    Permission.RESERVATION_READ,
-    Permission.RESERVATION_UPDATE,
-    Permission.REPORT_VIEW,
-  ];
-  const memberPermissions = [
-    Permission.BOOK_READ,
-    Permission.TRANSACTION_READ,
-    Permission.RESERVATION_CREATE,
-    Permission.RESERVATION_READ,
-  ];
+  // Create the category hierarchy; genres sit under Fiction
+  const fiction = await prisma.category.upsert({
+    where: { name: 'Fiction' },
+    update: {},
+    create: { name: 'Fiction', description: 'Novels and short stories' },
+  });
 
-  // Assign permissions to roles
-  for (const permission of adminPermissions) {
-    await prisma.rolePermission.upsert({
-      where: {
-        role_permission: {
-          role: UserRole.ADMIN,
-          permission,
-        },
-      },
+  for (const name of ['Fantasy', 'Science Fiction']) {
+    await prisma.category.upsert({
+      where: { name },
       update: {},
-      create: {
-        role: UserRole.ADMIN,
-        permission,
-      },
+      create: { name, parentId: fiction.id },
     });
   }
 
-  for (const permission of librarianPermissions) {
-    await prisma.rolePermission.upsert({
-      where: {
-        role_permission: {
-          role: UserRole.LIBRARIAN,
-          permission,
-        },
-      },
-      update: {},
-      create: {
-        role: UserRole.LIBRARIAN,
-        permission,
-      },
-    });
+  // Add every category and tag books already use, so existing catalogues can be
+  // brought under the managed vocabulary by running the seed again
+  const usedCategories = await prisma.book.findMany({ distinct: ['category'], select: { category: true } });
+  for (const { category } of usedCategories) {
+    await prisma.category.upsert({ where: { name: category }, update: {}, create: { name: category } });
   }
 
-  for (const permission of memberPermissions) {
-    await prisma.rolePermission.upsert({
-      where: {
-        role_permission: {
-          role: UserRole.MEMBER,
-          permission,
-        },
-      },
-      update: {},
-      create: {
-        role: UserRole.MEMBER,
-        permission,
+  const taggedBooks = await prisma.book.findMany({ select: { tags: true } });
+  for (const name of new Set(taggedBooks.flatMap((book) => book.tags))) {
+    await prisma.tag.upsert({ where: { name }, update: {}, create: { name } });
+  }
+
+  // Create the default circulation policy (applies to every role and category)
+  const defaultPolicy = await prisma.circulationPolicy.findFirst({
+    where: { role: null, category: null },
+  });
+
+  if (!defaultPolicy) {
+    await prisma.circulationPolicy.create({
+      data: {
+        name: 'Standard Loan',
+        loanPeriodDays: 14,
+        dailyFineRate: 0.5,
+        gracePeriodDays: 0,
+        lostItemFee: 50,
+        damagedItemFee: 15,
+        maxActiveLoans: 5,
+        maxOverdueItems: 0,
+        maxFineBalance: 10,
       },
     });
   }
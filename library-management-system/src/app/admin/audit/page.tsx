@@ -0,0 +1,302 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
+import { format } from 'date-fns';
+import { AuditAction, AuditEntityType, UserRole } from '@prisma/client';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import AuditEventChanges from '@/components/audit/audit-event-changes';
+import { AlertCircle, Download, Loader2, RefreshCw } from 'lucide-react';
+
+interface AuditEvent {
+  id: string;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  reason: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  actor: { id: string; name: string | null; email: string } | null;
+}
+
+interface Pagination {
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+const ENTITY_TYPES = Object.values(AuditEntityType);
+const ACTIONS = Object.values(AuditAction);
+
+export default function AuditLogPage() {
+  const { data: session } = useSession();
+
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [entityType, setEntityType] = useState('all');
+  const [action, setAction] = useState('all');
+  const [entityId, setEntityId] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [page, setPage] = useState(1);
+
+  // Check if user is authorized
+  const isAuthorized = session?.user?.role === UserRole.ADMIN;
+
+  // Query string for the current filters, shared by the table and the export
+  const buildParams = useCallback(() => {
+    const params = new URLSearchParams();
+    if (entityType !== 'all') params.set('entityType', entityType);
+    if (action !== 'all') params.set('action', action);
+    if (entityId.trim()) params.set('entityId', entityId.trim());
+    if (from) params.set('from', from);
+    if (to) params.set('to', to);
+    return params;
+  }, [entityType, action, entityId, from, to]);
+
+  const fetchEvents = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const params = buildParams();
+      params.set('page', String(page));
+
+      const response = await fetch(`/api/audit-events?${params.toString()}`);
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to fetch audit log');
+      }
+
+      const data = await response.json();
+      setEvents(data.events);
+      setPagination(data.pagination);
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+      setError(error instanceof Error ? error.message : 'An unknown error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [buildParams, page]);
+
+  useEffect(() => {
+    if (isAuthorized) {
+      fetchEvents();
+    }
+  }, [isAuthorized, fetchEvents]);
+
+  const exportCsv = () => {
+    const params = buildParams();
+    params.set('format', 'csv');
+    window.location.href = `/api/audit-events?${params.toString()}`;
+  };
+
+  if (!isAuthorized) {
+    return (
+      <div className="container mx-auto p-6">
+        <div className="p-4 rounded-md bg-red-50 border border-red-200 text-red-800">
+          <div className="flex items-center gap-2 mb-2">
+            <AlertCircle className="h-5 w-5" />
+            <h3 className="font-semibold">Access Denied</h3>
+          </div>
+          <p>
+            You do not have permission to access this page. Please contact an administrator.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6">
+      <h1 className="text-2xl font-bold mb-6">Audit Log</h1>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Staff Changes</CardTitle>
+          <CardDescription>
+            Changes staff have made to books, members, loans, fines, reservations and roles.
+            Events can&apos;t be edited or deleted.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col md:flex-row md:flex-wrap gap-2">
+            <Select
+              value={entityType}
+              onValueChange={(value) => {
+                setEntityType(value);
+                setPage(1);
+              }}
+            >
+              <SelectTrigger className="md:w-[180px]">
+                <SelectValue placeholder="Entity" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All entities</SelectItem>
+                {ENTITY_TYPES.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={action}
+              onValueChange={(value) => {
+                setAction(value);
+                setPage(1);
+              }}
+            >
+              <SelectTrigger className="md:w-[200px]">
+                <SelectValue placeholder="Action" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All actions</SelectItem>
+                {ACTIONS.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {option.replace(/_/g, ' ')}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="Entity ID"
+              value={entityId}
+              onChange={(e) => {
+                setEntityId(e.target.value);
+                setPage(1);
+              }}
+              className="md:w-[280px]"
+            />
+            <Input
+              type="date"
+              value={from}
+              onChange={(e) => {
+                setFrom(e.target.value);
+                setPage(1);
+              }}
+              className="md:w-[160px]"
+              aria-label="From"
+            />
+            <Input
+              type="date"
+              value={to}
+              onChange={(e) => {
+                setTo(e.target.value);
+                setPage(1);
+              }}
+              className="md:w-[160px]"
+              aria-label="To"
+            />
+            <Button variant="outline" onClick={fetchEvents} disabled={loading} className="flex items-center gap-2">
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+            <Button variant="outline" onClick={exportCsv} className="flex items-center gap-2">
+              <Download className="h-4 w-4" />
+              Export CSV
+            </Button>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 text-red-600 p-3 rounded-md">{error}</div>
+          )}
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Actor</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Entity</TableHead>
+                  <TableHead>Changes</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>IP Address</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading && events.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-6">
+                      <Loader2 className="h-5 w-5 animate-spin inline" />
+                    </TableCell>
+                  </TableRow>
+                ) : events.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-6 text-gray-500">
+                      No events match these filters.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  events.map((event) => (
+                    <TableRow key={event.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(event.createdAt), 'MMM d, yyyy HH:mm')}
+                      </TableCell>
+                      <TableCell>
+                        {event.actor ? (
+                          <>
+                            <p className="font-medium">{event.actor.name || event.actor.email}</p>
+                            {event.actor.name && <p className="text-xs text-gray-500">{event.actor.email}</p>}
+                          </>
+                        ) : (
+                          <span className="text-gray-500">—</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{event.action.replace(/_/g, ' ')}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <p className="font-medium">{event.entityType}</p>
+                        <p className="text-xs text-gray-500 break-all">{event.entityId}</p>
+                      </TableCell>
+                      <TableCell className="max-w-[360px]">
+                        <AuditEventChanges before={event.before} after={event.after} />
+                      </TableCell>
+                      <TableCell className="max-w-[200px] text-sm">{event.reason ?? '—'}</TableCell>
+                      <TableCell className="text-sm">{event.ipAddress ?? '—'}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between text-sm">
+              <p className="text-gray-500">
+                Page {pagination.page} of {pagination.totalPages} · {pagination.total} events
+              </p>
+              <div className="space-x-2">
+                <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page >= pagination.totalPages}
+                  onClick={() => setPage(page + 1)}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
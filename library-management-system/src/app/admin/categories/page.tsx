@@ -0,0 +1,433 @@
+'use client';
+
+import { useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { Permission } from '@prisma/client';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { useTaxonomy } from '@/hooks/use-taxonomy';
+import { AlertCircle, GitMerge, Loader2, Plus, Trash2 } from 'lucide-react';
+
+// Select items can't have an empty value
+const NO_PARENT = 'none';
+
+export default function CategoriesPage() {
+  const { data: session } = useSession();
+  const { toast } = useToast();
+  const { categories, tags, loading, refresh } = useTaxonomy();
+
+  const [selectedCategoryId, setSelectedCategoryId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [draftDescription, setDraftDescription] = useState('');
+  const [draftParentId, setDraftParentId] = useState(NO_PARENT);
+  const [categoryMergeTarget, setCategoryMergeTarget] = useState('');
+  const [newCategoryName, setNewCategoryName] = useState('');
+  const [selectedTagId, setSelectedTagId] = useState<string | null>(null);
+  const [draftTagName, setDraftTagName] = useState('');
+  const [tagMergeTarget, setTagMergeTarget] = useState('');
+  const [newTagName, setNewTagName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // Check if user is authorized
+  const isAuthorized = session?.user?.permissions?.includes(Permission.BOOK_MANAGE_CATEGORIES);
+
+  const selectedCategory = categories.find((category) => category.id === selectedCategoryId) ?? null;
+  const selectedTag = tags.find((tag) => tag.id === selectedTagId) ?? null;
+
+  const selectCategory = (id: string) => {
+    const category = categories.find((c) => c.id === id);
+    if (!category) return;
+    setSelectedCategoryId(id);
+    setDraftName(category.name);
+    setDraftDescription(category.description ?? '');
+    setDraftParentId(category.parentId ?? NO_PARENT);
+    setCategoryMergeTarget('');
+  };
+
+  const selectTag = (id: string) => {
+    const tag = tags.find((t) => t.id === id);
+    if (!tag) return;
+    setSelectedTagId(id);
+    setDraftTagName(tag.name);
+    setTagMergeTarget('');
+  };
+
+  // Send a change and report the outcome; returns the response body, or null on failure
+  const submit = async (url: string, method: string, body: object | null, title: string) => {
+    setSaving(true);
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details?.name?._errors?.[0] || data.error || `${title} failed`);
+      }
+
+      toast({
+        title,
+        description: data.message,
+        type: 'success',
+      });
+      await refresh();
+      return data;
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : `${title} failed`,
+        type: 'error',
+      });
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const createCategory = async () => {
+    const data = await submit('/api/books/categories', 'POST', { name: newCategoryName }, 'Category created');
+    if (data) {
+      setNewCategoryName('');
+    }
+  };
+
+  const saveCategory = async () => {
+    if (!selectedCategory) return;
+    await submit(`/api/books/categories/${selectedCategory.id}`, 'PATCH', {
+      name: draftName,
+      description: draftDescription,
+      parentId: draftParentId === NO_PARENT ? null : draftParentId,
+    }, 'Category updated');
+  };
+
+  const mergeCategory = async () => {
+    const target = categories.find((c) => c.id === categoryMergeTarget);
+    if (!selectedCategory || !target) return;
+    if (!confirm(`Move every book in "${selectedCategory.name}" to "${target.name}" and delete "${selectedCategory.name}"?`)) {
+      return;
+    }
+
+    const data = await submit(
+      `/api/books/categories/${selectedCategory.id}/merge`,
+      'POST',
+      { targetId: target.id },
+      'Categories merged'
+    );
+    if (data) {
+      setSelectedCategoryId(null);
+    }
+  };
+
+  const deleteCategory = async () => {
+    if (!selectedCategory || !confirm(`Delete the "${selectedCategory.name}" category?`)) {
+      return;
+    }
+
+    const data = await submit(`/api/books/categories/${selectedCategory.id}`, 'DELETE', null, 'Category deleted');
+    if (data) {
+      setSelectedCategoryId(null);
+    }
+  };
+
+  const createTag = async () => {
+    const data = await submit('/api/books/tags', 'POST', { name: newTagName }, 'Tag created');
+    if (data) {
+      setNewTagName('');
+    }
+  };
+
+  const renameTag = async () => {
+    if (!selectedTag) return;
+    await submit(`/api/books/tags/${selectedTag.id}`, 'PATCH', { name: draftTagName }, 'Tag renamed');
+  };
+
+  const mergeTag = async () => {
+    const target = tags.find((t) => t.id === tagMergeTarget);
+    if (!selectedTag || !target) return;
+    if (!confirm(`Replace "${selectedTag.name}" with "${target.name}" on every book and delete "${selectedTag.name}"?`)) {
+      return;
+    }
+
+    const data = await submit(`/api/books/tags/${selectedTag.id}/merge`, 'POST', { targetId: target.id }, 'Tags merged');
+    if (data) {
+      setSelectedTagId(null);
+    }
+  };
+
+  const deleteTag = async () => {
+    if (!selectedTag) return;
+    if (!confirm(`Delete the "${selectedTag.name}" tag and remove it from ${selectedTag.bookCount} book(s)?`)) {
+      return;
+    }
+
+    const data = await submit(`/api/books/tags/${selectedTag.id}`, 'DELETE', null, 'Tag deleted');
+    if (data) {
+      setSelectedTagId(null);
+    }
+  };
+
+  if (!isAuthorized) {
+    return (
+      <div className="container mx-auto p-6">
+        <div className="p-4 rounded-md bg-red-50 border border-red-200 text-red-800">
+          <div className="flex items-center gap-2 mb-2">
+            <AlertCircle className="h-5 w-5" />
+            <h3 className="font-semibold">Access Denied</h3>
+          </div>
+          <p>
+            You do not have permission to access this page. Please contact an administrator.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6">
+      <h1 className="text-2xl font-bold mb-6">Categories &amp; Tags</h1>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Categories</CardTitle>
+            <CardDescription>Renaming or merging a category updates every book filed under it</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {loading && categories.length === 0 ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin" />
+              </div>
+            ) : (
+              <div className="space-y-1">
+                {categories.map((category) => (
+                  <button
+                    key={category.id}
+                    onClick={() => selectCategory(category.id)}
+                    className={`w-full text-left rounded-md px-3 py-2 hover:bg-gray-50 ${
+                      category.id === selectedCategoryId ? 'bg-gray-100' : ''
+                    }`}
+                    style={{ paddingLeft: `${0.75 + category.depth * 1.25}rem` }}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">{category.name}</span>
+                      <Badge variant="outline">{category.bookCount}</Badge>
+                    </div>
+                    {category.description && (
+                      <p className="text-xs text-gray-500">{category.description}</p>
+                    )}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {selectedCategory && (
+              <div className="rounded-md border p-4 space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="category-name">Name</Label>
+                  <Input
+                    id="category-name"
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    disabled={saving}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="category-description">Description</Label>
+                  <Input
+                    id="category-description"
+                    value={draftDescription}
+                    onChange={(e) => setDraftDescription(e.target.value)}
+                    disabled={saving}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Parent category</Label>
+                  <Select value={draftParentId} onValueChange={setDraftParentId} disabled={saving}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_PARENT}>None (top level)</SelectItem>
+                      {categories
+                        .filter((category) => category.id !== selectedCategory.id)
+                        .map((category) => (
+                          <SelectItem key={category.id} value={category.id}>
+                            <span style={{ paddingLeft: `${category.depth}rem` }}>{category.name}</span>
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex gap-2">
+                  <Button onClick={saveCategory} disabled={saving || !draftName.trim()}>
+                    {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Save changes
+                  </Button>
+                  <Button variant="outline" onClick={deleteCategory} disabled={saving}>
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Delete
+                  </Button>
+                </div>
+
+                <Separator />
+
+                <div className="space-y-2">
+                  <Label>Merge into</Label>
+                  <div className="flex gap-2">
+                    <Select value={categoryMergeTarget} onValueChange={setCategoryMergeTarget} disabled={saving}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select category" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {categories
+                          .filter((category) => category.id !== selectedCategory.id)
+                          .map((category) => (
+                            <SelectItem key={category.id} value={category.id}>
+                              {category.name}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                    <Button variant="outline" onClick={mergeCategory} disabled={saving || !categoryMergeTarget}>
+                      <GitMerge className="h-4 w-4 mr-1" />
+                      Merge
+                    </Button>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {selectedCategory.bookCount} book(s) and {selectedCategory.childCount} subcategories will move
+                  </p>
+                </div>
+              </div>
+            )}
+
+            <Separator />
+
+            <div className="space-y-2">
+              <Label htmlFor="new-category-name">New category</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="new-category-name"
+                  placeholder="e.g. Science Fiction"
+                  value={newCategoryName}
+                  onChange={(e) => setNewCategoryName(e.target.value)}
+                  disabled={saving}
+                />
+                <Button onClick={createCategory} disabled={saving || !newCategoryName.trim()}>
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Tags</CardTitle>
+            <CardDescription>Renaming, merging or deleting a tag updates every book carrying it</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {loading && tags.length === 0 ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin" />
+              </div>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {tags.map((tag) => (
+                  <Badge
+                    key={tag.id}
+                    variant={tag.id === selectedTagId ? 'default' : 'outline'}
+                    className="cursor-pointer"
+                    onClick={() => selectTag(tag.id)}
+                  >
+                    {tag.name} · {tag.bookCount}
+                  </Badge>
+                ))}
+              </div>
+            )}
+
+            {selectedTag && (
+              <div className="rounded-md border p-4 space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="tag-name">Name</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="tag-name"
+                      value={draftTagName}
+                      onChange={(e) => setDraftTagName(e.target.value)}
+                      disabled={saving}
+                    />
+                    <Button onClick={renameTag} disabled={saving || !draftTagName.trim() || draftTagName === selectedTag.name}>
+                      Rename
+                    </Button>
+                    <Button variant="outline" onClick={deleteTag} disabled={saving}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Merge into</Label>
+                  <div className="flex gap-2">
+                    <Select value={tagMergeTarget} onValueChange={setTagMergeTarget} disabled={saving}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select tag" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {tags
+                          .filter((tag) => tag.id !== selectedTag.id)
+                          .map((tag) => (
+                            <SelectItem key={tag.id} value={tag.id}>
+                              {tag.name}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                    <Button variant="outline" onClick={mergeTag} disabled={saving || !tagMergeTarget}>
+                      <GitMerge className="h-4 w-4 mr-1" />
+                      Merge
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            <Separator />
+
+            <div className="space-y-2">
+              <Label htmlFor="new-tag-name">New tag</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="new-tag-name"
+                  placeholder="e.g. Award Winner"
+                  value={newTagName}
+                  onChange={(e) => setNewTagName(e.target.value)}
+                  disabled={saving}
+                />
+                <Button onClick={createTag} disabled={saving || !newTagName.trim()}>
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
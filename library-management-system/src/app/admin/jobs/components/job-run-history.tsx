@@ -0,0 +1,189 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, RefreshCw } from 'lucide-react';
+
+export type JobRunStatus = 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'FAILED';
+
+export interface JobRun {
+  id: string;
+  status: JobRunStatus;
+  trigger: 'SCHEDULE' | 'MANUAL';
+  result: Record<string, number> | null;
+  error: string | null;
+  queuedAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  triggeredBy?: { id: string; name: string | null; email: string } | null;
+}
+
+interface Pagination {
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export const runStatusStyles: Record<JobRunStatus, string> = {
+  QUEUED: 'bg-blue-50 text-blue-700 border-blue-200',
+  RUNNING: 'bg-yellow-50 text-yellow-700 border-yellow-200',
+  SUCCEEDED: 'bg-green-50 text-green-700 border-green-200',
+  FAILED: 'bg-red-50 text-red-700 border-red-200',
+};
+
+export const formatDateTime = (value: string | null) =>
+  value ? format(new Date(value), 'MMM d, yyyy HH:mm:ss') : '—';
+
+const formatDuration = (run: JobRun) => {
+  if (!run.startedAt || !run.finishedAt) {
+    return '—';
+  }
+  const seconds = (new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()) / 1000;
+  return `${seconds.toFixed(1)}s`;
+};
+
+const formatResult = (result: Record<string, number> | null) =>
+  result
+    ? Object.entries(result).map(([key, value]) => `${key}: ${value}`).join(', ')
+    : '—';
+
+interface JobRunHistoryProps {
+  jobId: string;
+  // Bumped by the parent to reload after a manual run is queued
+  refreshKey: number;
+}
+
+export default function JobRunHistory({ jobId, refreshKey }: JobRunHistoryProps) {
+  const [runs, setRuns] = useState<JobRun[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRuns = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/runs?page=${page}`);
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to fetch run history');
+      }
+
+      const data = await response.json();
+      setRuns(data.runs);
+      setPagination(data.pagination);
+    } catch (error) {
+      console.error('Error fetching job runs:', error);
+      setError(error instanceof Error ? error.message : 'An unknown error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [jobId, page]);
+
+  useEffect(() => {
+    fetchRuns();
+  }, [fetchRuns, refreshKey]);
+
+  // Start from the first page when switching jobs
+  useEffect(() => {
+    setPage(1);
+  }, [jobId]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button variant="outline" size="sm" onClick={fetchRuns} disabled={loading} className="flex items-center gap-2">
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 text-red-600 p-3 rounded-md">{error}</div>
+      )}
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Status</TableHead>
+              <TableHead>Trigger</TableHead>
+              <TableHead>Queued</TableHead>
+              <TableHead>Started</TableHead>
+              <TableHead>Duration</TableHead>
+              <TableHead>Result</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading && runs.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-6">
+                  <Loader2 className="h-5 w-5 animate-spin inline" />
+                </TableCell>
+              </TableRow>
+            ) : runs.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-6 text-gray-500">
+                  This job has not run yet.
+                </TableCell>
+              </TableRow>
+            ) : (
+              runs.map((run) => (
+                <TableRow key={run.id}>
+                  <TableCell>
+                    <Badge variant="outline" className={runStatusStyles[run.status]}>
+                      {run.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    {run.trigger === 'MANUAL'
+                      ? `Manual${run.triggeredBy ? ` (${run.triggeredBy.name || run.triggeredBy.email})` : ''}`
+                      : 'Schedule'}
+                  </TableCell>
+                  <TableCell>{formatDateTime(run.queuedAt)}</TableCell>
+                  <TableCell>{formatDateTime(run.startedAt)}</TableCell>
+                  <TableCell>{formatDuration(run)}</TableCell>
+                  <TableCell className="text-sm">
+                    {run.error ? (
+                      <span className="text-red-600">{run.error}</span>
+                    ) : (
+                      formatResult(run.result)
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {pagination && pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between text-sm">
+          <p className="text-gray-500">
+            Page {pagination.page} of {pagination.totalPages} · {pagination.total} runs
+          </p>
+          <div className="space-x-2">
+            <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+              Previous
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page >= pagination.totalPages}
+              onClick={() => setPage(page + 1)}
+            >
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,294 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
+import { UserRole } from '@prisma/client';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/components/ui/use-toast';
+import { AlertCircle, History, Loader2, Play, Save } from 'lucide-react';
+import JobRunHistory, { JobRun, formatDateTime, runStatusStyles } from './components/job-run-history';
+
+interface ScheduledJob {
+  id: string;
+  name: string;
+  description: string | null;
+  cronExpression: string;
+  enabled: boolean;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lockedBy: string | null;
+  lockExpiresAt: string | null;
+  lastRun: JobRun | null;
+}
+
+export default function JobsPage() {
+  const { data: session } = useSession();
+  const { toast } = useToast();
+
+  const [jobs, setJobs] = useState<ScheduledJob[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [schedules, setSchedules] = useState<Record<string, string>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
+  const [historyKey, setHistoryKey] = useState(0);
+
+  // Check if user is authorized
+  const isAuthorized = session?.user?.role === UserRole.ADMIN;
+
+  const fetchJobs = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/jobs');
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to fetch jobs');
+      }
+
+      const data = await response.json();
+      setJobs(data.jobs);
+      setSchedules(
+        Object.fromEntries(data.jobs.map((job: ScheduledJob) => [job.id, job.cronExpression]))
+      );
+    } catch (error) {
+      console.error('Error fetching jobs:', error);
+      setError(error instanceof Error ? error.message : 'An unknown error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAuthorized) {
+      fetchJobs();
+    }
+  }, [isAuthorized, fetchJobs]);
+
+  const updateJob = async (job: ScheduledJob, changes: { enabled?: boolean; cronExpression?: string }) => {
+    setSavingId(job.id);
+
+    try {
+      const response = await fetch(`/api/jobs/${job.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(changes),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        const cronError = data.details?.cronExpression?._errors?.[0];
+        throw new Error(cronError || data.error || 'Failed to update job');
+      }
+
+      toast({
+        title: 'Job updated',
+        description: changes.enabled === undefined
+          ? `${job.name} schedule saved`
+          : `${job.name} ${changes.enabled ? 'resumed' : 'paused'}`,
+        type: 'success',
+      });
+      fetchJobs();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update job',
+        type: 'error',
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const triggerJob = async (job: ScheduledJob) => {
+    setSavingId(job.id);
+
+    try {
+      const response = await fetch(`/api/jobs/${job.id}/runs`, { method: 'POST' });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to queue job');
+      }
+
+      toast({
+        title: 'Run queued',
+        description: `${job.name} will run shortly`,
+        type: 'success',
+      });
+      setSelectedJobId(job.id);
+      setHistoryKey((key) => key + 1);
+      fetchJobs();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to queue job',
+        type: 'error',
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  if (!isAuthorized) {
+    return (
+      <div className="container mx-auto p-6">
+        <div className="p-4 rounded-md bg-red-50 border border-red-200 text-red-800">
+          <div className="flex items-center gap-2 mb-2">
+            <AlertCircle className="h-5 w-5" />
+            <h3 className="font-semibold">Access Denied</h3>
+          </div>
+          <p>
+            You do not have permission to access this page. Please contact an administrator.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const selectedJob = jobs.find((job) => job.id === selectedJobId) ?? null;
+
+  return (
+    <div className="container mx-auto p-6">
+      <h1 className="text-2xl font-bold mb-6">Background Jobs</h1>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Jobs</CardTitle>
+          <CardDescription>
+            Schedules use five-field cron syntax in server time. Paused jobs skip their schedule but can still be run manually.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {error && (
+            <div className="bg-red-50 text-red-600 p-3 rounded-md mb-4">{error}</div>
+          )}
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Job</TableHead>
+                  <TableHead>Schedule</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead>Next Run</TableHead>
+                  <TableHead>Last Run</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading && jobs.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-6">
+                      <Loader2 className="h-5 w-5 animate-spin inline" />
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  jobs.map((job) => {
+                    const schedule = schedules[job.id] ?? job.cronExpression;
+                    const scheduleChanged = schedule.trim() !== job.cronExpression;
+
+                    return (
+                      <TableRow key={job.id}>
+                        <TableCell>
+                          <p className="font-medium">{job.name}</p>
+                          <p className="text-xs text-gray-500">{job.description}</p>
+                          {job.lockedBy && (
+                            <p className="text-xs text-yellow-700 mt-1">Running on {job.lockedBy}</p>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <Input
+                              value={schedule}
+                              onChange={(e) => setSchedules({ ...schedules, [job.id]: e.target.value })}
+                              className="w-[150px] font-mono text-sm"
+                            />
+                            {scheduleChanged && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => updateJob(job, { cronExpression: schedule })}
+                                disabled={savingId === job.id}
+                              >
+                                <Save className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Switch
+                            checked={job.enabled}
+                            onCheckedChange={(checked) => updateJob(job, { enabled: checked })}
+                            disabled={savingId === job.id}
+                          />
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {job.enabled ? formatDateTime(job.nextRunAt) : 'Paused'}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {job.lastRun ? (
+                            <div className="space-y-1">
+                              <Badge variant="outline" className={runStatusStyles[job.lastRun.status]}>
+                                {job.lastRun.status}
+                              </Badge>
+                              <p className="text-xs text-gray-500">{formatDateTime(job.lastRun.queuedAt)}</p>
+                            </div>
+                          ) : (
+                            '—'
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right space-x-2 whitespace-nowrap">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => triggerJob(job)}
+                            disabled={savingId === job.id}
+                            className="inline-flex items-center gap-1"
+                          >
+                            <Play className="h-4 w-4" />
+                            Run now
+                          </Button>
+                          <Button
+                            variant={selectedJobId === job.id ? 'default' : 'outline'}
+                            size="sm"
+                            onClick={() => setSelectedJobId(job.id)}
+                            className="inline-flex items-center gap-1"
+                          >
+                            <History className="h-4 w-4" />
+                            History
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {selectedJob && (
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>Run History: {selectedJob.name}</CardTitle>
+            <CardDescription>{selectedJob.description}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <JobRunHistory jobId={selectedJob.id} refreshKey={historyKey} />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { Metadata } from 'next';
+import { notFound, redirect } from 'next/navigation';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-options';
+import { prisma } from '@/lib/prisma';
+import { Permission } from '@/lib/auth/rbac/types';
+import { getMembershipStatus } from '@/lib/members/library-card';
+import LibraryCard from '@/components/members/library-card';
+
+export const metadata: Metadata = {
+  title: 'Library Card | Library Management System',
+  description: "Print a member's library card.",
+};
+
+export default async function MemberCardPage({
+  params
+}: {
+  params: { id: string }
+}) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.permissions?.includes(Permission.USER_READ)) {
+    redirect('/unauthorized');
+  }
+
+  const member = await prisma.user.findUnique({
+    where: { id: params.id },
+    select: {
+      name: true,
+      status: true,
+      membershipNumber: true,
+      membershipExpiresAt: true,
+    },
+  });
+
+  if (!member) {
+    notFound();
+  }
+
+  return (
+    <main className="container mx-auto py-6">
+      {member.membershipNumber ? (
+        <LibraryCard
+          name={member.name}
+          membershipNumber={member.membershipNumber}
+          membershipExpiresAt={member.membershipExpiresAt?.toISOString() ?? null}
+          membershipStatus={getMembershipStatus(member)}
+        />
+      ) : (
+        <p className="text-muted-foreground">
+          This member has no library card yet. Renew their membership to issue one.
+        </p>
+      )}
+    </main>
+  );
+}
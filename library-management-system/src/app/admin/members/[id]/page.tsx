@@ -5,7 +5,11 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth-options';
 import { prisma } from '@/lib/prisma';
 import { Permission } from '@/lib/auth/rbac/types';
+import { getAccountLockout } from '@/lib/auth/login-throttle';
+import { getMembershipStatus } from '@/lib/members/library-card';
 import MemberDetail from '@/components/members/member-detail';
+import MemberRoles from '@/components/members/member-roles';
+import MemberPrivacy from '@/components/members/member-privacy';
 import { Skeleton } from '@/components/ui/skeleton';
 
 export const metadata: Metadata = {
@@ -24,6 +28,8 @@ async function getMember(id: string) {
       address: true,
       status: true,
       role: true,
+      membershipNumber: true,
+      membershipExpiresAt: true,
       createdAt: true,
       updatedAt: true,
       profileImage: true,
@@ -72,7 +78,10 @@ async function getMember(id: string) {
       fines: {
         select: {
           id: true,
+          type: true,
           amount: true,
+          amountPaid: true,
+          amountWaived: true,
           status: true,
           createdAt: true,
           transactionId: true,
@@ -96,8 +105,17 @@ async function getMember(id: string) {
   if (!member || member.role !== 'MEMBER') {
     return null;
   }
+
+  const lockout = await getAccountLockout(member.email);
   
-  return member;
+  return {
+    ...member,
+    membershipStatus: getMembershipStatus(member),
+    lockout: {
+      failedAttempts: lockout.failedAttempts,
+      lockedUntil: lockout.lockedUntil?.toISOString() ?? null,
+    },
+  };
 }
 
 export default async function MemberDetailPage({
@@ -123,6 +141,21 @@ export default async function MemberDetailPage({
       <Suspense fallback={<MemberDetailSkeleton />}>
         <MemberDetail member={member} />
       </Suspense>
+      {session?.user?.permissions?.includes(Permission.USER_MANAGE_ROLES) && (
+        <div className="mt-6">
+          <MemberRoles memberId={member.id} />
+        </div>
+      )}
+      {(session.user.permissions.includes(Permission.USER_UPDATE) ||
+        session.user.permissions.includes(Permission.USER_DELETE)) && (
+        <div className="mt-6">
+          <MemberPrivacy
+            memberId={member.id}
+            canExport={session.user.permissions.includes(Permission.USER_UPDATE)}
+            canAnonymize={session.user.permissions.includes(Permission.USER_DELETE)}
+          />
+        </div>
+      )}
     </main>
   );
 }
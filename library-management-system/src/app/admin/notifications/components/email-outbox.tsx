@@ -0,0 +1,405 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { Eye, Loader2, RefreshCw, Send } from 'lucide-react';
+
+type EmailStatus = 'QUEUED' | 'SENDING' | 'SENT' | 'FAILED' | 'DELIVERED';
+
+interface OutboxEmail {
+  id: string;
+  to: string;
+  subject: string;
+  status: EmailStatus;
+  template: string | null;
+  attempts: number;
+  lastAttemptAt: string | null;
+  nextAttemptAt: string | null;
+  error: string | null;
+  sentAt: string | null;
+  createdAt: string;
+}
+
+interface OutboxEmailDetail extends OutboxEmail {
+  htmlContent: string | null;
+  textContent: string | null;
+  transaction: { id: string; book: { title: string } } | null;
+  reservation: { id: string; book: { title: string } } | null;
+}
+
+interface Pagination {
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+const STATUS_OPTIONS: EmailStatus[] = ['QUEUED', 'SENDING', 'SENT', 'FAILED', 'DELIVERED'];
+
+const statusStyles: Record<EmailStatus, string> = {
+  QUEUED: 'bg-blue-50 text-blue-700 border-blue-200',
+  SENDING: 'bg-yellow-50 text-yellow-700 border-yellow-200',
+  SENT: 'bg-green-50 text-green-700 border-green-200',
+  FAILED: 'bg-red-50 text-red-700 border-red-200',
+  DELIVERED: 'bg-green-50 text-green-700 border-green-200',
+};
+
+const formatDateTime = (value: string | null) =>
+  value ? format(new Date(value), 'MMM d, yyyy HH:mm') : '—';
+
+export default function EmailOutbox() {
+  const { toast } = useToast();
+
+  const [emails, setEmails] = useState<OutboxEmail[]>([]);
+  const [counts, setCounts] = useState<Partial<Record<EmailStatus, number>>>({});
+  const [templates, setTemplates] = useState<string[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [status, setStatus] = useState('all');
+  const [template, setTemplate] = useState('all');
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState(1);
+
+  const [preview, setPreview] = useState<OutboxEmailDetail | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [resendingId, setResendingId] = useState<string | null>(null);
+
+  // Fetch the outbox for the current filters
+  const fetchOutbox = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ page: String(page) });
+      if (status !== 'all') params.set('status', status);
+      if (template !== 'all') params.set('template', template);
+      if (search.trim()) params.set('search', search.trim());
+
+      const response = await fetch(`/api/notifications/outbox?${params.toString()}`);
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to fetch email outbox');
+      }
+
+      const data = await response.json();
+      setEmails(data.emails);
+      setCounts(data.counts);
+      setTemplates(data.templates);
+      setPagination(data.pagination);
+    } catch (error) {
+      console.error('Error fetching email outbox:', error);
+      setError(error instanceof Error ? error.message : 'An unknown error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [page, status, template, search]);
+
+  useEffect(() => {
+    fetchOutbox();
+  }, [fetchOutbox]);
+
+  // Load the rendered content for the preview dialog
+  const openPreview = async (id: string) => {
+    setPreviewLoading(true);
+
+    try {
+      const response = await fetch(`/api/notifications/outbox/${id}`);
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to load email');
+      }
+
+      const data = await response.json();
+      setPreview(data.email);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load email',
+        type: 'error',
+      });
+    } finally {
+      setPreviewLoading(false);
+    }
+  };
+
+  const handleResend = async (id: string) => {
+    setResendingId(id);
+
+    try {
+      const response = await fetch(`/api/notifications/outbox/${id}/resend`, {
+        method: 'POST',
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to resend email');
+      }
+
+      toast({
+        title: 'Email resent',
+        description: 'A new copy of the email was sent',
+        type: 'success',
+      });
+      setPreview(null);
+      fetchOutbox();
+    } catch (error) {
+      toast({
+        title: 'Resend failed',
+        description: error instanceof Error ? error.message : 'Failed to resend email',
+        type: 'error',
+      });
+      // A failed resend still creates an outbox entry
+      fetchOutbox();
+    } finally {
+      setResendingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+        {STATUS_OPTIONS.map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => {
+              setStatus(status === option ? 'all' : option);
+              setPage(1);
+            }}
+            className={`p-3 rounded border text-left ${status === option ? 'border-primary' : ''}`}
+          >
+            <p className="text-xs font-medium text-gray-500">{option}</p>
+            <p className="text-xl font-bold">{counts[option] ?? 0}</p>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-2">
+        <Input
+          placeholder="Search recipient or subject"
+          value={search}
+          onChange={(e) => {
+            setSearch(e.target.value);
+            setPage(1);
+          }}
+          className="md:w-[280px]"
+        />
+        <Select
+          value={status}
+          onValueChange={(value) => {
+            setStatus(value);
+            setPage(1);
+          }}
+        >
+          <SelectTrigger className="md:w-[180px]">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            {STATUS_OPTIONS.map((option) => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={template}
+          onValueChange={(value) => {
+            setTemplate(value);
+            setPage(1);
+          }}
+        >
+          <SelectTrigger className="md:w-[220px]">
+            <SelectValue placeholder="Template" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All templates</SelectItem>
+            {templates.map((name) => (
+              <SelectItem key={name} value={name}>
+                {name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" onClick={fetchOutbox} disabled={loading} className="flex items-center gap-2">
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 text-red-600 p-3 rounded-md">{error}</div>
+      )}
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Recipient</TableHead>
+              <TableHead>Subject</TableHead>
+              <TableHead>Template</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Attempts</TableHead>
+              <TableHead>Created</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading && emails.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-6">
+                  <Loader2 className="h-5 w-5 animate-spin inline" />
+                </TableCell>
+              </TableRow>
+            ) : emails.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-6 text-gray-500">
+                  No emails match these filters.
+                </TableCell>
+              </TableRow>
+            ) : (
+              emails.map((email) => (
+                <TableRow key={email.id}>
+                  <TableCell className="font-medium">{email.to}</TableCell>
+                  <TableCell className="max-w-[280px] truncate" title={email.subject}>
+                    {email.subject}
+                  </TableCell>
+                  <TableCell>{email.template ?? '—'}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={statusStyles[email.status]}>
+                      {email.status}
+                    </Badge>
+                    {email.status === 'FAILED' && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        {email.nextAttemptAt
+                          ? `Retry ${formatDateTime(email.nextAttemptAt)}`
+                          : 'No more retries'}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>{email.attempts}</TableCell>
+                  <TableCell>{formatDateTime(email.createdAt)}</TableCell>
+                  <TableCell className="text-right space-x-2 whitespace-nowrap">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => openPreview(email.id)}
+                      disabled={previewLoading}
+                    >
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleResend(email.id)}
+                      disabled={resendingId === email.id}
+                    >
+                      {resendingId === email.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Send className="h-4 w-4" />
+                      )}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {pagination && pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between text-sm">
+          <p className="text-gray-500">
+            Page {pagination.page} of {pagination.totalPages} · {pagination.total} emails
+          </p>
+          <div className="space-x-2">
+            <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+              Previous
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page >= pagination.totalPages}
+              onClick={() => setPage(page + 1)}
+            >
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Dialog open={preview !== null} onOpenChange={(open) => !open && setPreview(null)}>
+        <DialogContent className="max-w-3xl">
+          {preview && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{preview.subject}</DialogTitle>
+                <DialogDescription>
+                  To {preview.to} · {preview.template ?? 'no template'} · {preview.status}
+                  {preview.transaction && ` · Loan of "${preview.transaction.book.title}"`}
+                  {preview.reservation && ` · Reservation of "${preview.reservation.book.title}"`}
+                </DialogDescription>
+              </DialogHeader>
+
+              {preview.error && (
+                <div className="bg-red-50 text-red-600 p-3 rounded-md text-sm">
+                  Last error: {preview.error}
+                </div>
+              )}
+
+              {preview.htmlContent ? (
+                // Sandboxed so the stored markup cannot run scripts in the admin page
+                <iframe
+                  title="Email preview"
+                  sandbox=""
+                  srcDoc={preview.htmlContent}
+                  className="w-full h-[420px] rounded border bg-white"
+                />
+              ) : (
+                <p className="text-sm text-gray-500">No stored content for this email.</p>
+              )}
+
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setPreview(null)}>
+                  Close
+                </Button>
+                <Button
+                  onClick={() => handleResend(preview.id)}
+                  disabled={!preview.htmlContent || resendingId === preview.id}
+                  className="flex items-center gap-2"
+                >
+                  {resendingId === preview.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Send className="h-4 w-4" />
+                  )}
+                  Resend
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
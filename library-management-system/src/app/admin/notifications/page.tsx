@@ -2,12 +2,15 @@
 
 import { useState, useEffect } from 'react';
 import { useSession } from 'next-auth/react';
+import Link from 'next/link';
 import { UserRole } from '@prisma/client';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/components/ui/use-toast';
 import { Loader2, CheckCircle, AlertCircle, Mail } from 'lucide-react';
+import EmailOutbox from './components/email-outbox';
 
 interface NotificationType {
   id: string;
@@ -21,6 +24,39 @@ interface NotificationResult {
   failed: number;
 }
 
+interface JobRun {
+  id: string;
+  status: 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'FAILED';
+  result: Partial<NotificationResult> | null;
+  error: string | null;
+  job?: { name: string };
+}
+
+// How long to wait for queued runs before leaving them to finish in the background
+const RUN_POLL_INTERVAL_MS = 2000;
+const RUN_POLL_TIMEOUT_MS = 60 * 1000;
+
+// Poll the queued runs until they have all finished or the timeout passes
+async function waitForRuns(ids: string[]): Promise<JobRun[] | null> {
+  const deadline = Date.now() + RUN_POLL_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, RUN_POLL_INTERVAL_MS));
+
+    const response = await fetch(`/api/jobs/runs?ids=${ids.join(',')}`);
+    if (!response.ok) {
+      throw new Error('Failed to check job progress');
+    }
+
+    const { runs } = (await response.json()) as { runs: JobRun[] };
+    if (runs.every((run) => run.status === 'SUCCEEDED' || run.status === 'FAILED')) {
+      return runs;
+    }
+  }
+
+  return null;
+}
+
 export default function NotificationsPage() {
   const { data: session } = useSession();
   const { toast } = useToast();
@@ -83,21 +119,39 @@ export default function NotificationsPage() {
       }
 
       const data = await response.json();
-      
-      // Handle the different result structures based on notification type
-      if (selectedType === 'all') {
-        setResult(data.result.total);
-      } else {
-        setResult(data.result);
-      }
-      
-      setSuccess(true);
-      if (result) {
+      const runs = await waitForRuns(data.runs.map((run: JobRun) => run.id));
+
+      if (!runs) {
         toast({
-          title: 'Success',
-          description: `Successfully processed ${result.sent} notifications`,
+          title: 'Notifications queued',
+          description: 'The jobs are still running; check Background Jobs for their results',
+          type: 'info',
         });
+        return;
       }
+
+      const failedRun = runs.find((run) => run.status === 'FAILED');
+      if (failedRun) {
+        throw new Error(`${failedRun.job?.name ?? 'Job'} failed: ${failedRun.error ?? 'Unknown error'}`);
+      }
+
+      // Add up the counts from every run
+      const total = runs.reduce<NotificationResult>(
+        (sum, run) => ({
+          processed: sum.processed + (run.result?.processed ?? 0),
+          sent: sum.sent + (run.result?.sent ?? 0),
+          failed: sum.failed + (run.result?.failed ?? 0),
+        }),
+        { processed: 0, sent: 0, failed: 0 }
+      );
+
+      setResult(total);
+      setSuccess(true);
+      toast({
+        title: 'Success',
+        description: `Successfully processed ${total.sent} notifications`,
+        type: 'success',
+      });
     } catch (error) {
       console.error('Error sending notifications:', error);
       const errorMsg = error instanceof Error ? error.message : 'An unknown error occurred';
@@ -130,137 +184,168 @@ export default function NotificationsPage() {
   return (
     <div className="container mx-auto p-6">
       <h1 className="text-2xl font-bold mb-6">Email Notifications</h1>
-      
-      <Card>
-        <CardHeader>
-          <CardTitle>Send Notifications</CardTitle>
-          <CardDescription>
-            Manually trigger notification emails to library members
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium mb-1">
-                Notification Type
-              </label>
-              <Select value={selectedType} onValueChange={setSelectedType}>
-                <SelectTrigger className="w-full md:w-[300px]">
-                  <SelectValue placeholder="Select notification type" />
-                </SelectTrigger>
-                <SelectContent>
-                  {notificationTypes.map((type) => (
-                    <SelectItem key={type.id} value={type.id}>
-                      {type.name}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-              <p className="mt-1 text-sm text-gray-500">
-                {notificationTypes.find(t => t.id === selectedType)?.description}
-              </p>
-            </div>
-
-            <Button
-              onClick={handleSendNotifications}
-              disabled={loading}
-              className="flex items-center gap-2"
-            >
-              {loading ? (
-                <>
-                  <Loader2 className="h-4 w-4 animate-spin" />
-                  Processing...
-                </>
-              ) : (
-                <>
-                  <Mail className="h-4 w-4" />
-                  Send Notifications
-                </>
-              )}
-            </Button>
-
-            {error && (
-              <div className="p-4 rounded-md bg-red-50 border border-red-200 text-red-800 mt-4">
-                <div className="flex items-center gap-2 mb-2">
-                  <AlertCircle className="h-5 w-5" />
-                  <h3 className="font-semibold">Error</h3>
-                </div>
-                <p>{error}</p>
-              </div>
-            )}
 
-            {success && result && (
-              <div className="mt-4 p-4 rounded-md bg-green-50 border border-green-200 text-green-800">
-                <div className="flex items-center gap-2 mb-2">
-                  <CheckCircle className="h-5 w-5" />
-                  <h3 className="font-semibold">Notifications Processed</h3>
+      <Tabs defaultValue="send">
+        <TabsList className="mb-4">
+          <TabsTrigger value="send">Send</TabsTrigger>
+          <TabsTrigger value="outbox">Outbox</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="send">
+          <Card>
+            <CardHeader>
+              <CardTitle>Send Notifications</CardTitle>
+              <CardDescription>
+                Manually trigger notification emails to library members
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium mb-1">
+                    Notification Type
+                  </label>
+                  <Select value={selectedType} onValueChange={setSelectedType}>
+                    <SelectTrigger className="w-full md:w-[300px]">
+                      <SelectValue placeholder="Select notification type" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {notificationTypes.map((type) => (
+                        <SelectItem key={type.id} value={type.id}>
+                          {type.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="mt-1 text-sm text-gray-500">
+                    {notificationTypes.find(t => t.id === selectedType)?.description}
+                  </p>
                 </div>
-                <div className="mt-2 grid grid-cols-3 gap-2 text-sm">
-                  <div className="p-2 bg-gray-100 rounded">
-                    <p className="font-medium">Processed</p>
-                    <p className="text-xl">{result.processed}</p>
-                  </div>
-                  <div className="p-2 bg-green-50 rounded">
-                    <p className="font-medium text-green-700">Sent</p>
-                    <p className="text-xl text-green-700">{result.sent}</p>
+
+                <Button
+                  onClick={handleSendNotifications}
+                  disabled={loading}
+                  className="flex items-center gap-2"
+                >
+                  {loading ? (
+                    <>
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      Processing...
+                    </>
+                  ) : (
+                    <>
+                      <Mail className="h-4 w-4" />
+                      Send Notifications
+                    </>
+                  )}
+                </Button>
+
+                {error && (
+                  <div className="p-4 rounded-md bg-red-50 border border-red-200 text-red-800 mt-4">
+                    <div className="flex items-center gap-2 mb-2">
+                      <AlertCircle className="h-5 w-5" />
+                      <h3 className="font-semibold">Error</h3>
+                    </div>
+                    <p>{error}</p>
                   </div>
-                  <div className="p-2 bg-red-50 rounded">
-                    <p className="font-medium text-red-700">Failed</p>
-                    <p className="text-xl text-red-700">{result.failed}</p>
+                )}
+
+                {success && result && (
+                  <div className="mt-4 p-4 rounded-md bg-green-50 border border-green-200 text-green-800">
+                    <div className="flex items-center gap-2 mb-2">
+                      <CheckCircle className="h-5 w-5" />
+                      <h3 className="font-semibold">Notifications Processed</h3>
+                    </div>
+                    <div className="mt-2 grid grid-cols-3 gap-2 text-sm">
+                      <div className="p-2 bg-gray-100 rounded">
+                        <p className="font-medium">Processed</p>
+                        <p className="text-xl">{result.processed}</p>
+                      </div>
+                      <div className="p-2 bg-green-50 rounded">
+                        <p className="font-medium text-green-700">Sent</p>
+                        <p className="text-xl text-green-700">{result.sent}</p>
+                      </div>
+                      <div className="p-2 bg-red-50 rounded">
+                        <p className="font-medium text-red-700">Failed</p>
+                        <p className="text-xl text-red-700">{result.failed}</p>
+                      </div>
+                    </div>
                   </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle>Email Notification Schedule</CardTitle>
+              <CardDescription>
+                When notifications are automatically sent. Schedules and run history are managed
+                on the <Link href="/admin/jobs" className="underline">Background Jobs</Link> page.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                <div className="rounded border p-4">
+                  <h3 className="font-medium mb-2">Due Date Reminders</h3>
+                  <p className="text-sm text-gray-600">
+                    Sent automatically when books are due in:
+                  </p>
+                  <ul className="list-disc list-inside text-sm ml-2 mt-1">
+                    <li>1 day before due date</li>
+                    <li>3 days before due date</li>
+                    <li>7 days before due date</li>
+                  </ul>
+                </div>
+
+                <div className="rounded border p-4">
+                  <h3 className="font-medium mb-2">Overdue Notices</h3>
+                  <p className="text-sm text-gray-600">
+                    Sent automatically when books are overdue by:
+                  </p>
+                  <ul className="list-disc list-inside text-sm ml-2 mt-1">
+                    <li>1 day overdue</li>
+                    <li>7 days overdue</li>
+                    <li>14 days overdue</li>
+                  </ul>
+                </div>
+
+                <div className="rounded border p-4">
+                  <h3 className="font-medium mb-2">Reservation Notifications</h3>
+                  <p className="text-sm text-gray-600">
+                    Sent automatically:
+                  </p>
+                  <ul className="list-disc list-inside text-sm ml-2 mt-1">
+                    <li>When a reserved book becomes available, including when an earlier hold expires</li>
+                    <li>1 day before reservation expires</li>
+                  </ul>
+                </div>
+
+                <div className="rounded border p-4">
+                  <h3 className="font-medium mb-2">Failed Emails</h3>
+                  <p className="text-sm text-gray-600">
+                    Retried by the email retry job with increasing delays, up to 3 attempts in total
+                  </p>
                 </div>
               </div>
-            )}
-          </div>
-        </CardContent>
-      </Card>
-
-      <Card className="mt-6">
-        <CardHeader>
-          <CardTitle>Email Notification Schedule</CardTitle>
-          <CardDescription>
-            When notifications are automatically sent
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-4">
-            <div className="rounded border p-4">
-              <h3 className="font-medium mb-2">Due Date Reminders</h3>
-              <p className="text-sm text-gray-600">
-                Sent automatically when books are due in:
-              </p>
-              <ul className="list-disc list-inside text-sm ml-2 mt-1">
-                <li>1 day before due date</li>
-                <li>3 days before due date</li>
-                <li>7 days before due date</li>
-              </ul>
-            </div>
-
-            <div className="rounded border p-4">
-              <h3 className="font-medium mb-2">Overdue Notices</h3>
-              <p className="text-sm text-gray-600">
-                Sent automatically when books are overdue by:
-              </p>
-              <ul className="list-disc list-inside text-sm ml-2 mt-1">
-                <li>1 day overdue</li>
-                <li>7 days overdue</li>
-                <li>14 days overdue</li>
-              </ul>
-            </div>
-
-            <div className="rounded border p-4">
-              <h3 className="font-medium mb-2">Reservation Notifications</h3>
-              <p className="text-sm text-gray-600">
-                Sent automatically:
-              </p>
-              <ul className="list-disc list-inside text-sm ml-2 mt-1">
-                <li>When a reserved book becomes available</li>
-                <li>1 day before reservation expires</li>
-              </ul>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="outbox">
+          <Card>
+            <CardHeader>
+              <CardTitle>Outbox</CardTitle>
+              <CardDescription>
+                Every email the system has queued, with its delivery status
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <EmailOutbox />
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
     </div>
   );
 }
@@ -0,0 +1,191 @@
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Chart as ChartJS, CategoryScale, LinearScale, BarElement, Title, Tooltip, Legend } from 'chart.js';
+import { Bar } from 'react-chartjs-2';
+import { FineReport } from '@/types/reports';
+import { DollarSign, HandCoins, Receipt, Wallet } from 'lucide-react';
+
+// Register Chart.js components
+ChartJS.register(CategoryScale, LinearScale, BarElement, Title, Tooltip, Legend);
+
+interface FineCollectionSummaryProps {
+  data: FineReport | null;
+}
+
+const fineTypeLabels: Record<string, string> = {
+  OVERDUE: 'Late return',
+  DAMAGED: 'Damaged item',
+  LOST: 'Lost item',
+  OTHER: 'Other',
+};
+
+const formatMoney = (value: number) => `$${value.toFixed(2)}`;
+
+export default function FineCollectionSummary({ data }: FineCollectionSummaryProps) {
+  if (!data) {
+    return (
+      <div className="p-6 text-center text-gray-500">
+        <p>No fine data available. Please adjust your filters or try again.</p>
+      </div>
+    );
+  }
+
+  // Format data for the assessed vs collected chart
+  const periodChartData = {
+    labels: data.periods.map((item) => item.period),
+    datasets: [
+      {
+        label: 'Assessed',
+        data: data.periods.map((item) => item.assessed),
+        backgroundColor: 'rgba(239, 68, 68, 0.6)',
+        borderColor: 'rgba(239, 68, 68, 1)',
+        borderWidth: 1,
+      },
+      {
+        label: 'Collected',
+        data: data.periods.map((item) => item.collected),
+        backgroundColor: 'rgba(34, 197, 94, 0.6)',
+        borderColor: 'rgba(34, 197, 94, 1)',
+        borderWidth: 1,
+      },
+      {
+        label: 'Waived',
+        data: data.periods.map((item) => item.waived),
+        backgroundColor: 'rgba(107, 114, 128, 0.6)',
+        borderColor: 'rgba(107, 114, 128, 1)',
+        borderWidth: 1,
+      },
+    ],
+  };
+
+  // Format date for display
+  const formattedDate = new Date(data.generatedAt).toLocaleString();
+
+  return (
+    <div className="space-y-6">
+      {/* Report header */}
+      <div className="bg-white p-4 rounded-lg shadow-sm border">
+        <h2 className="text-xl font-semibold mb-2">Fine Collection Summary</h2>
+        <div className="text-sm text-gray-500">
+          <p>Generated: {formattedDate}</p>
+          <p>Timeframe: {data.timeframe === 'all' ? 'All Time' : `Last ${data.timeframe}`}</p>
+        </div>
+      </div>
+
+      {/* Summary statistics */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Assessed</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center justify-between">
+              <div className="text-2xl font-bold">{formatMoney(data.totals.assessed)}</div>
+              <Receipt className="h-6 w-6 text-red-500" />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Collected</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center justify-between">
+              <div className="text-2xl font-bold">{formatMoney(data.totals.collected)}</div>
+              <HandCoins className="h-6 w-6 text-green-500" />
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              {data.totals.collectionRate}% of assessed
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Waived</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center justify-between">
+              <div className="text-2xl font-bold">{formatMoney(data.totals.waived)}</div>
+              <DollarSign className="h-6 w-6 text-gray-500" />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Outstanding (All Time)</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center justify-between">
+              <div className="text-2xl font-bold">{formatMoney(data.totals.outstanding)}</div>
+              <Wallet className="h-6 w-6 text-orange-500" />
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Assessed vs collected per period */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Assessed vs Collected</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {data.periods.length > 0 ? (
+            <div className="h-80">
+              <Bar
+                data={periodChartData}
+                options={{
+                  responsive: true,
+                  maintainAspectRatio: false,
+                  plugins: {
+                    legend: {
+                      position: 'top' as const,
+                    },
+                  },
+                }}
+              />
+            </div>
+          ) : (
+            <p className="text-center text-gray-500 py-8">No fine activity in this period.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Totals by fine reason */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Fines by Reason</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3">Reason</th>
+                  <th className="px-4 py-3">Fines</th>
+                  <th className="px-4 py-3">Assessed</th>
+                  <th className="px-4 py-3">Collected</th>
+                  <th className="px-4 py-3">Waived</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.byType.map((item) => (
+                  <tr key={item.type} className="border-b">
+                    <td className="px-4 py-3 font-medium">{fineTypeLabels[item.type] || item.type}</td>
+                    <td className="px-4 py-3">{item.count}</td>
+                    <td className="px-4 py-3">{formatMoney(item.assessed)}</td>
+                    <td className="px-4 py-3">{formatMoney(item.collected)}</td>
+                    <td className="px-4 py-3">{formatMoney(item.waived)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Chart as ChartJS, CategoryScale, LinearScale, BarElement, Title, Tooltip, Legend } from 'chart.js';
+import { Bar } from 'react-chartjs-2';
+import { FineReport } from '@/types/reports';
+import Link from 'next/link';
+
+// Register Chart.js components
+ChartJS.register(CategoryScale, LinearScale, BarElement, Title, Tooltip, Legend);
+
+interface OutstandingFinesSummaryProps {
+  data: FineReport | null;
+}
+
+const formatMoney = (value: number) => `$${value.toFixed(2)}`;
+
+export default function OutstandingFinesSummary({ data }: OutstandingFinesSummaryProps) {
+  if (!data) {
+    return (
+      <div className="p-6 text-center text-gray-500">
+        <p>No fine data available. Please adjust your filters or try again.</p>
+      </div>
+    );
+  }
+
+  if (data.totals.outstanding === 0) {
+    return (
+      <div className="p-6 text-center text-gray-500">
+        <p>No outstanding fines. Every charge has been paid or waived.</p>
+      </div>
+    );
+  }
+
+  // Format data for the aging chart
+  const agingChartData = {
+    labels: data.aging.map((bucket) => bucket.label),
+    datasets: [
+      {
+        label: 'Outstanding',
+        data: data.aging.map((bucket) => bucket.outstanding),
+        backgroundColor: [
+          'rgba(59, 130, 246, 0.7)', // blue - 0-30 days
+          'rgba(245, 158, 11, 0.7)', // yellow - 31-60 days
+          'rgba(249, 115, 22, 0.7)', // orange - 61-90 days
+          'rgba(239, 68, 68, 0.7)', // red - 90+ days
+        ],
+        borderWidth: 1,
+      },
+    ],
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Aging of unpaid fines */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Outstanding Fines by Age</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="h-64">
+              <Bar
+                data={agingChartData}
+                options={{
+                  responsive: true,
+                  maintainAspectRatio: false,
+                  plugins: {
+                    legend: {
+                      display: false,
+                    },
+                  },
+                }}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Aging Breakdown</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <table className="w-full text-sm text-left">
+              <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3">Age</th>
+                  <th className="px-4 py-3">Fines</th>
+                  <th className="px-4 py-3">Outstanding</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.aging.map((bucket) => (
+                  <tr key={bucket.label} className="border-b">
+                    <td className="px-4 py-3 font-medium">{bucket.label}</td>
+                    <td className="px-4 py-3">{bucket.count}</td>
+                    <td className="px-4 py-3">{formatMoney(bucket.outstanding)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Members owing the most */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Top Debtors</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3">Member</th>
+                  <th className="px-4 py-3">Open Fines</th>
+                  <th className="px-4 py-3">Oldest Fine</th>
+                  <th className="px-4 py-3">Outstanding</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.topDebtors.map((debtor) => (
+                  <tr key={debtor.userId} className="border-b">
+                    <td className="px-4 py-3">
+                      <Link href={`/admin/members/${debtor.userId}`} className="font-medium hover:underline">
+                        {debtor.name || debtor.email}
+                      </Link>
+                      {debtor.name && <div className="text-xs text-gray-500">{debtor.email}</div>}
+                    </td>
+                    <td className="px-4 py-3">{debtor.openFines}</td>
+                    <td className="px-4 py-3">{new Date(debtor.oldestFineDate).toLocaleDateString()}</td>
+                    <td className="px-4 py-3 font-semibold text-red-600">{formatMoney(debtor.outstanding)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
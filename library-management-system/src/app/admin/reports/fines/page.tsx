@@ -0,0 +1,208 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
+import { UserRole } from '@prisma/client';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/components/ui/use-toast';
+import { Download, FileText, HandCoins, Clock, Loader2, AlertTriangle } from 'lucide-react';
+import FineCollectionSummary from './components/fine-collection-summary';
+import OutstandingFinesSummary from './components/outstanding-fines-summary';
+import { FineReport } from '@/types/reports';
+
+
+// Define the report types
+const REPORT_TYPES = {
+  COLLECTION: 'collection',
+  OUTSTANDING: 'outstanding',
+};
+
+// Define the timeframe options
+const TIMEFRAME_OPTIONS = [
+  { value: 'day', label: 'Last 24 Hours' },
+  { value: 'week', label: 'Last 7 Days' },
+  { value: 'month', label: 'Last 30 Days' },
+  { value: 'year', label: 'Last 12 Months' },
+  { value: 'all', label: 'All Time' },
+];
+
+export default function FineReportsPage() {
+  const { data: session } = useSession();
+  const { toast } = useToast();
+
+  const [activeTab, setActiveTab] = useState(REPORT_TYPES.COLLECTION);
+  const [timeframe, setTimeframe] = useState('month');
+
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reportData, setReportData] = useState<FineReport | null>(null);
+
+  // Check if user is authorized
+  const isAuthorized =
+    session?.user?.role === UserRole.ADMIN ||
+    session?.user?.role === UserRole.LIBRARIAN;
+
+  // Fetch report data based on current parameters
+  const fetchReportData = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/reports/fines?timeframe=${timeframe}`);
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to fetch report data');
+      }
+
+      const data = await response.json();
+      setReportData(data.report);
+    } catch (error) {
+      console.error('Error fetching fine report:', error);
+      setError(error instanceof Error ? error.message : 'An unknown error occurred');
+      toast({
+        title: 'Error',
+        description: 'Failed to load fine report data',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [timeframe, toast]);
+
+  // Fetch report data when parameters change
+  useEffect(() => {
+    if (isAuthorized) {
+      fetchReportData();
+    }
+  }, [isAuthorized, fetchReportData]);
+
+  // Handle report export
+  const handleExportReport = (format: 'csv' | 'pdf') => {
+    window.location.href = `/api/reports/fines?format=${format}&timeframe=${timeframe}`;
+
+    toast({
+      title: 'Export Started',
+      description: 'Your report export has started and will download shortly.',
+    });
+  };
+
+  if (!isAuthorized) {
+    return (
+      <div className="container mx-auto p-6">
+        <div className="p-4 rounded-md bg-yellow-50 border border-yellow-200 text-yellow-800">
+          <div className="flex items-center gap-2 mb-2">
+            <AlertTriangle className="h-5 w-5" />
+            <h3 className="font-semibold">Access Denied</h3>
+          </div>
+          <p>
+            You do not have permission to access this page. Please contact an administrator.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6">
+      <h1 className="text-2xl font-bold mb-6">Fine Collection Reports</h1>
+
+      {/* Report Type Tabs */}
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="mb-6">
+        <TabsList className="grid w-full grid-cols-2">
+          <TabsTrigger value={REPORT_TYPES.COLLECTION}>
+            <HandCoins className="h-4 w-4 mr-2" />
+            Collection
+          </TabsTrigger>
+          <TabsTrigger value={REPORT_TYPES.OUTSTANDING}>
+            <Clock className="h-4 w-4 mr-2" />
+            Aging &amp; Debtors
+          </TabsTrigger>
+        </TabsList>
+
+        {/* Filter Controls */}
+        <Card className="mt-4 mb-6">
+          <CardHeader>
+            <CardTitle>Report Parameters</CardTitle>
+            <CardDescription>
+              The timeframe applies to fines assessed, collected and waived; aging and
+              debtors always reflect what is owed today
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-1">
+                  Timeframe
+                </label>
+                <Select value={timeframe} onValueChange={setTimeframe}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select timeframe" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TIMEFRAME_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="mt-4 flex justify-end gap-2">
+              <Button
+                variant="outline"
+                onClick={() => handleExportReport('pdf')}
+                className="flex items-center gap-2"
+              >
+                <FileText className="h-4 w-4" />
+                Export Report (PDF)
+              </Button>
+              <Button
+                onClick={() => handleExportReport('csv')}
+                className="flex items-center gap-2"
+              >
+                <Download className="h-4 w-4" />
+                Export Report (CSV)
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Loading and Error States */}
+        {loading && (
+          <div className="flex justify-center items-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            <span className="ml-2">Loading report data...</span>
+          </div>
+        )}
+
+        {error && !loading && (
+          <div className="p-4 rounded-md bg-red-50 border border-red-200 text-red-800 mb-6">
+            <div className="flex items-center gap-2 mb-2">
+              <AlertTriangle className="h-5 w-5" />
+              <h3 className="font-semibold">Error</h3>
+            </div>
+            <p>{error}</p>
+          </div>
+        )}
+
+        {/* Report Content Areas */}
+        {!loading && !error && (
+          <>
+            <TabsContent value={REPORT_TYPES.COLLECTION} className="mt-0">
+              <FineCollectionSummary data={reportData} />
+            </TabsContent>
+
+            <TabsContent value={REPORT_TYPES.OUTSTANDING} className="mt-0">
+              <OutstandingFinesSummary data={reportData} />
+            </TabsContent>
+          </>
+        )}
+      </Tabs>
+    </div>
+  );
+}
@@ -192,6 +192,41 @@ export default function MaintenanceSummary({ data }: MaintenanceSummaryProps) {
         </CardContent>
       </Card>
 
+      {/* Time spent in each state, from the books' status history */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Time in State</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {data.stateDurations.length === 0 ? (
+            <p className="text-sm text-gray-500">No status changes recorded in this timeframe</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm text-left">
+                <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3">Status</th>
+                    <th className="px-4 py-3">Books</th>
+                    <th className="px-4 py-3">Total Days</th>
+                    <th className="px-4 py-3">Average Days</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.stateDurations.map((state: { status: string; books: number; totalDays: number; averageDays: number }) => (
+                    <tr key={state.status} className="border-b">
+                      <td className="px-4 py-3 font-medium">{state.status.replace('_', ' ')}</td>
+                      <td className="px-4 py-3">{state.books}</td>
+                      <td className="px-4 py-3">{state.totalDays}</td>
+                      <td className="px-4 py-3">{state.averageDays}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Detailed book list */}
       <Card>
         <CardHeader>
@@ -206,6 +241,7 @@ export default function MaintenanceSummary({ data }: MaintenanceSummaryProps) {
                   <th className="px-4 py-3">Author</th>
                   <th className="px-4 py-3">Category</th>
                   <th className="px-4 py-3">Status</th>
+                  <th className="px-4 py-3">Days in Status</th>
                   <th className="px-4 py-3">Last Updated</th>
                   <th className="px-4 py-3">Transaction</th>
                   <th className="px-4 py-3">User</th>
@@ -227,6 +263,9 @@ export default function MaintenanceSummary({ data }: MaintenanceSummaryProps) {
                         {book.status}
                       </span>
                     </td>
+                    <td className="px-4 py-3" title={book.statusReason ?? undefined}>
+                      {book.daysInStatus ?? 'N/A'}
+                    </td>
                     <td className="px-4 py-3">{new Date(book.updatedAt).toLocaleDateString()}</td>
                     <td className="px-4 py-3">
                       {book.lastTransaction ? (
@@ -92,7 +92,7 @@ export default function InventoryReportsPage() {
       }
       
       const data = await response.json();
-      setCategories(data.categories || []);
+      setCategories((data.categories || []).map((c: { name: string }) => c.name));
     } catch (error) {
       console.error('Error fetching categories:', error);
       toast({
@@ -5,7 +5,7 @@ import { UserRole } from '@prisma/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import Link from 'next/link';
-import { AlertTriangle, BookOpen, BarChart3, PieChart, ChevronRight, FileText } from 'lucide-react';
+import { AlertTriangle, BookOpen, BarChart3, PieChart, ChevronRight, FileText, HandCoins } from 'lucide-react';
 
 export default function ReportsPage() {
   const { data: session } = useSession();
@@ -159,6 +159,47 @@ export default function ReportsPage() {
           </div>
         </Card>
 
+        {/* Fine Collection Report Card */}
+        <Card className="flex flex-col">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <HandCoins className="h-5 w-5 text-red-500" />
+              Fine Collection Reports
+            </CardTitle>
+            <CardDescription>
+              Follow fines from assessment to payment
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex-grow">
+            <p className="text-sm text-gray-500 mb-4">
+              Compare fines assessed with fines collected and waived, see how long unpaid
+              fines have been outstanding, and find the members who owe the most.
+            </p>
+            <ul className="text-sm space-y-2 mb-6">
+              <li className="flex items-center gap-2">
+                <div className="w-1.5 h-1.5 rounded-full bg-red-500" />
+                Assessed vs collected per period
+              </li>
+              <li className="flex items-center gap-2">
+                <div className="w-1.5 h-1.5 rounded-full bg-red-500" />
+                Aging of unpaid fines
+              </li>
+              <li className="flex items-center gap-2">
+                <div className="w-1.5 h-1.5 rounded-full bg-red-500" />
+                Top debtors and totals by reason
+              </li>
+            </ul>
+          </CardContent>
+          <div className="px-6 pb-6 mt-auto">
+            <Link href="/admin/reports/fines">
+              <Button className="w-full" variant="outline">
+                View Fine Reports
+                <ChevronRight className="h-4 w-4 ml-2" />
+              </Button>
+            </Link>
+          </div>
+        </Card>
+
         {/* Export Reports Card */}
         <Card className="flex flex-col">
           <CardHeader>
@@ -173,7 +214,8 @@ export default function ReportsPage() {
           <CardContent className="flex-grow">
             <p className="text-sm text-gray-500 mb-4">
               Export any report data in CSV format for further analysis in 
-              spreadsheet applications or other data processing tools.
+              spreadsheet applications or other data processing tools. Fine
+              reports can also be downloaded as PDF.
             </p>
             <ul className="text-sm space-y-2 mb-6">
               <li className="flex items-center gap-2">
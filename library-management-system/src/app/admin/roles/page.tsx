@@ -0,0 +1,452 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
+import { format } from 'date-fns';
+import { UserRole } from '@prisma/client';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { useToast } from '@/components/ui/use-toast';
+import { AlertCircle, Loader2, Plus, Trash2 } from 'lucide-react';
+
+interface RoleSummary {
+  name: string;
+  description: string | null;
+  isSystem: boolean;
+  permissions: string[];
+  userCount: number;
+  editable: boolean;
+}
+
+interface RoleChange {
+  id: string;
+  action: 'ROLE_CREATED' | 'ROLE_UPDATED' | 'ROLE_DELETED' | 'USER_ROLES_CHANGED';
+  added: string[];
+  removed: string[];
+  createdAt: string;
+  changedBy: { name: string | null; email: string } | null;
+}
+
+const ACTION_LABELS: Record<RoleChange['action'], string> = {
+  ROLE_CREATED: 'Created',
+  ROLE_UPDATED: 'Updated',
+  ROLE_DELETED: 'Deleted',
+  USER_ROLES_CHANGED: 'Assignments changed',
+};
+
+// Group permissions by their prefix (USER_, BOOK_, ...) for display
+function groupPermissions(permissions: string[]): [string, string[]][] {
+  const groups = new Map<string, string[]>();
+  for (const permission of permissions) {
+    const group = permission.split('_')[0];
+    groups.set(group, [...(groups.get(group) ?? []), permission]);
+  }
+  return Array.from(groups.entries());
+}
+
+function formatPermission(permission: string): string {
+  return permission.split('_').slice(1).join(' ').toLowerCase();
+}
+
+export default function RolesPage() {
+  const { data: session } = useSession();
+  const { toast } = useToast();
+
+  const [roles, setRoles] = useState<RoleSummary[]>([]);
+  const [allPermissions, setAllPermissions] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedName, setSelectedName] = useState<string | null>(null);
+  const [history, setHistory] = useState<RoleChange[]>([]);
+  const [draftPermissions, setDraftPermissions] = useState<string[]>([]);
+  const [draftDescription, setDraftDescription] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [newRoleName, setNewRoleName] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  // Check if user is authorized
+  const isAuthorized = session?.user?.role === UserRole.ADMIN;
+
+  const selectedRole = roles.find((role) => role.name === selectedName) ?? null;
+
+  const fetchRoles = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/roles');
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to fetch roles');
+      }
+
+      const data = await response.json();
+      setRoles(data.roles);
+      setAllPermissions(data.permissions);
+    } catch (error) {
+      console.error('Error fetching roles:', error);
+      setError(error instanceof Error ? error.message : 'An unknown error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const fetchHistory = useCallback(async (name: string) => {
+    try {
+      const response = await fetch(`/api/roles/${encodeURIComponent(name)}`);
+      if (response.ok) {
+        const data = await response.json();
+        setHistory(data.history);
+      }
+    } catch (error) {
+      console.error('Error fetching role history:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAuthorized) {
+      fetchRoles();
+    }
+  }, [isAuthorized, fetchRoles]);
+
+  const selectRole = (role: RoleSummary) => {
+    setSelectedName(role.name);
+    setDraftPermissions(role.permissions);
+    setDraftDescription(role.description ?? '');
+    setHistory([]);
+    fetchHistory(role.name);
+  };
+
+  // Pending changes against the saved permissions, shown before saving
+  const added = selectedRole ? draftPermissions.filter((p) => !selectedRole.permissions.includes(p)) : [];
+  const removed = selectedRole ? selectedRole.permissions.filter((p) => !draftPermissions.includes(p)) : [];
+  const descriptionChanged = selectedRole ? draftDescription !== (selectedRole.description ?? '') : false;
+  const hasChanges = added.length > 0 || removed.length > 0 || descriptionChanged;
+
+  const togglePermission = (permission: string, checked: boolean) => {
+    setDraftPermissions((current) =>
+      checked ? [...current, permission] : current.filter((p) => p !== permission)
+    );
+  };
+
+  const saveRole = async () => {
+    if (!selectedRole) return;
+    setSaving(true);
+
+    try {
+      const response = await fetch(`/api/roles/${encodeURIComponent(selectedRole.name)}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          description: draftDescription,
+          ...(selectedRole.editable && { permissions: draftPermissions }),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update role');
+      }
+
+      toast({
+        title: 'Role updated',
+        description: `${data.added.length} permission(s) added, ${data.removed.length} removed`,
+        type: 'success',
+      });
+      await fetchRoles();
+      fetchHistory(selectedRole.name);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update role',
+        type: 'error',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const createRole = async () => {
+    setCreating(true);
+
+    try {
+      const response = await fetch('/api/roles', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name: newRoleName, permissions: [] }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details?.name?._errors?.[0] || data.error || 'Failed to create role');
+      }
+
+      toast({
+        title: 'Role created',
+        description: `Choose the permissions for ${data.name}`,
+        type: 'success',
+      });
+      setNewRoleName('');
+      await fetchRoles();
+      selectRole({ ...data, permissions: [], userCount: 0, editable: true });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to create role',
+        type: 'error',
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const deleteRole = async () => {
+    if (!selectedRole || !confirm(`Delete the "${selectedRole.name}" role?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/roles/${encodeURIComponent(selectedRole.name)}`, {
+        method: 'DELETE',
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete role');
+      }
+
+      toast({
+        title: 'Role deleted',
+        description: data.message,
+        type: 'success',
+      });
+      setSelectedName(null);
+      fetchRoles();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete role',
+        type: 'error',
+      });
+    }
+  };
+
+  if (!isAuthorized) {
+    return (
+      <div className="container mx-auto p-6">
+        <div className="p-4 rounded-md bg-red-50 border border-red-200 text-red-800">
+          <div className="flex items-center gap-2 mb-2">
+            <AlertCircle className="h-5 w-5" />
+            <h3 className="font-semibold">Access Denied</h3>
+          </div>
+          <p>
+            You do not have permission to access this page. Please contact an administrator.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6">
+      <h1 className="text-2xl font-bold mb-6">Roles &amp; Permissions</h1>
+
+      {error && (
+        <div className="bg-red-50 text-red-600 p-3 rounded-md mb-4">{error}</div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card className="md:col-span-1">
+          <CardHeader>
+            <CardTitle>Roles</CardTitle>
+            <CardDescription>System roles can be edited but not deleted</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {loading && roles.length === 0 ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin" />
+              </div>
+            ) : (
+              <div className="space-y-1">
+                {roles.map((role) => (
+                  <button
+                    key={role.name}
+                    onClick={() => selectRole(role)}
+                    className={`w-full text-left rounded-md px-3 py-2 hover:bg-gray-50 ${
+                      role.name === selectedName ? 'bg-gray-100' : ''
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">{role.name}</span>
+                      {role.isSystem && <Badge variant="outline">System</Badge>}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {role.permissions.length} permissions · {role.userCount} {role.userCount === 1 ? 'user' : 'users'}
+                    </p>
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <Separator />
+
+            <div className="space-y-2">
+              <Label htmlFor="new-role-name">New role</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="new-role-name"
+                  placeholder="e.g. Volunteer"
+                  value={newRoleName}
+                  onChange={(e) => setNewRoleName(e.target.value)}
+                  disabled={creating}
+                />
+                <Button onClick={createRole} disabled={creating || newRoleName.trim().length < 2}>
+                  {creating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="md:col-span-2 space-y-6">
+          {!selectedRole ? (
+            <Card>
+              <CardContent className="py-12 text-center text-gray-500">
+                Select a role to edit its permissions
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <Card>
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <CardTitle>{selectedRole.name}</CardTitle>
+                      <CardDescription>
+                        {selectedRole.editable
+                          ? 'Changes apply to everyone with this role on their next request'
+                          : 'Administrators always have every permission'}
+                      </CardDescription>
+                    </div>
+                    {!selectedRole.isSystem && (
+                      <Button variant="outline" size="sm" onClick={deleteRole}>
+                        <Trash2 className="h-4 w-4 mr-1" />
+                        Delete
+                      </Button>
+                    )}
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <div className="space-y-2">
+                    <Label htmlFor="role-description">Description</Label>
+                    <Input
+                      id="role-description"
+                      value={draftDescription}
+                      onChange={(e) => setDraftDescription(e.target.value)}
+                      disabled={saving}
+                    />
+                  </div>
+
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+                    {groupPermissions(allPermissions).map(([group, permissions]) => (
+                      <div key={group} className="space-y-2">
+                        <h4 className="text-sm font-semibold">{group}</h4>
+                        {permissions.map((permission) => (
+                          <label key={permission} className="flex items-center gap-2 text-sm">
+                            <Checkbox
+                              checked={draftPermissions.includes(permission)}
+                              onCheckedChange={(checked) => togglePermission(permission, checked === true)}
+                              disabled={!selectedRole.editable || saving}
+                            />
+                            {formatPermission(permission)}
+                          </label>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+
+                  {hasChanges && (
+                    <div className="rounded-md border p-4 space-y-2">
+                      <h4 className="text-sm font-semibold">Pending changes</h4>
+                      {descriptionChanged && (
+                        <p className="text-sm text-gray-600">Description changed</p>
+                      )}
+                      <div className="flex flex-wrap gap-1">
+                        {added.map((permission) => (
+                          <Badge key={permission} variant="outline" className="bg-green-50 text-green-700 border-green-200">
+                            + {permission}
+                          </Badge>
+                        ))}
+                        {removed.map((permission) => (
+                          <Badge key={permission} variant="outline" className="bg-red-50 text-red-700 border-red-200">
+                            − {permission}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="flex gap-2">
+                    <Button onClick={saveRole} disabled={!hasChanges || saving}>
+                      {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Save changes
+                    </Button>
+                    <Button variant="outline" onClick={() => selectRole(selectedRole)} disabled={!hasChanges || saving}>
+                      Discard
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>History</CardTitle>
+                  <CardDescription>Changes to this role and who made them</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {history.length === 0 ? (
+                    <p className="text-sm text-gray-500">No changes recorded yet</p>
+                  ) : (
+                    <ul className="space-y-3">
+                      {history.map((change) => (
+                        <li key={change.id} className="text-sm">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium">{ACTION_LABELS[change.action]}</span>
+                            <span className="text-gray-500">
+                              {format(new Date(change.createdAt), 'MMM d, yyyy HH:mm')}
+                              {change.changedBy && ` by ${change.changedBy.name || change.changedBy.email}`}
+                            </span>
+                          </div>
+                          {(change.added.length > 0 || change.removed.length > 0) && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {change.added.map((permission) => (
+                                <span key={`+${permission}`} className="text-green-700">+ {permission}</span>
+                              ))}
+                              {change.removed.map((permission) => (
+                                <span key={`-${permission}`} className="text-red-700">− {permission}</span>
+                              ))}
+                            </div>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
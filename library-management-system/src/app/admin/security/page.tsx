@@ -0,0 +1,170 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
+import { UserRole } from '@prisma/client';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/components/ui/use-toast';
+import { AlertCircle, Loader2 } from 'lucide-react';
+
+interface RoleTwoFactorPolicy {
+  role: UserRole;
+  description: string;
+  requireTwoFactor: boolean;
+  userCount: number;
+  enrolledCount: number;
+}
+
+export default function SecuritySettingsPage() {
+  const { data: session } = useSession();
+  const { toast } = useToast();
+
+  const [roles, setRoles] = useState<RoleTwoFactorPolicy[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [savingRole, setSavingRole] = useState<UserRole | null>(null);
+
+  // Check if user is authorized
+  const isAuthorized = session?.user?.role === UserRole.ADMIN;
+
+  const fetchPolicy = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/roles/two-factor');
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to fetch security settings');
+      }
+
+      const data = await response.json();
+      setRoles(data.roles);
+    } catch (error) {
+      console.error('Error fetching security settings:', error);
+      setError(error instanceof Error ? error.message : 'An unknown error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAuthorized) {
+      fetchPolicy();
+    }
+  }, [isAuthorized, fetchPolicy]);
+
+  const updatePolicy = async (policy: RoleTwoFactorPolicy, requireTwoFactor: boolean) => {
+    setSavingRole(policy.role);
+
+    try {
+      const response = await fetch('/api/roles/two-factor', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ role: policy.role, requireTwoFactor }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update policy');
+      }
+
+      toast({
+        title: 'Policy updated',
+        description: data.message,
+        type: 'success',
+      });
+      fetchPolicy();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update policy',
+        type: 'error',
+      });
+    } finally {
+      setSavingRole(null);
+    }
+  };
+
+  if (!isAuthorized) {
+    return (
+      <div className="container mx-auto p-6">
+        <div className="p-4 rounded-md bg-red-50 border border-red-200 text-red-800">
+          <div className="flex items-center gap-2 mb-2">
+            <AlertCircle className="h-5 w-5" />
+            <h3 className="font-semibold">Access Denied</h3>
+          </div>
+          <p>
+            You do not have permission to access this page. Please contact an administrator.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6">
+      <h1 className="text-2xl font-bold mb-6">Security Settings</h1>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Two-Factor Authentication</CardTitle>
+          <CardDescription>
+            When required, staff who haven&apos;t set up an authenticator app are asked to enroll the next time they sign in,
+            and can&apos;t turn two-factor authentication off.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {error && (
+            <div className="bg-red-50 text-red-600 p-3 rounded-md mb-4">{error}</div>
+          )}
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Enrolled</TableHead>
+                  <TableHead>Required</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading && roles.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-center py-6">
+                      <Loader2 className="h-5 w-5 animate-spin inline" />
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  roles.map((policy) => (
+                    <TableRow key={policy.role}>
+                      <TableCell>
+                        <p className="font-medium">{policy.role}</p>
+                        <p className="text-xs text-gray-500">{policy.description}</p>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {policy.enrolledCount} of {policy.userCount} {policy.userCount === 1 ? 'account' : 'accounts'}
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={policy.requireTwoFactor}
+                          onCheckedChange={(checked) => updatePolicy(policy, checked)}
+                          disabled={savingRole === policy.role}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from "next/server";
+import { endOfDay, startOfDay } from "date-fns";
+import { authorize } from "@/lib/auth/policy";
+import { getAuditEvents } from "@/lib/audit/events";
+import { auditEventFilterSchema } from "@/lib/validations/audit";
+
+// Most rows a CSV export will contain
+const MAX_EXPORT_ROWS = 10000;
+
+/**
+ * GET /api/audit-events
+ * Lists audit events, newest first, optionally as a CSV export
+ * The full log requires the SYSTEM_SETTINGS_UPDATE permission; the history of a
+ * single book or member (entityType and entityId both given) is open to staff.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const validationResult = auditEventFilterSchema.safeParse({
+      entityType: searchParams.get("entityType") || undefined,
+      entityId: searchParams.get("entityId") || undefined,
+      action: searchParams.get("action") || undefined,
+      actorId: searchParams.get("actorId") || undefined,
+      from: searchParams.get("from") || undefined,
+      to: searchParams.get("to") || undefined,
+      format: searchParams.get("format") || "json",
+      page: searchParams.get("page") || 1,
+      limit: searchParams.get("limit") || 25,
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid filter parameters",
+          details: validationResult.error.format()
+        },
+        { status: 400 }
+      );
+    }
+
+    const { format, page, limit, from, to, ...filter } = validationResult.data;
+
+    const auth = await authorize(filter.entityType && filter.entityId ? "audit:history" : "audit:read");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const auditFilter = {
+      ...filter,
+      from: from ? startOfDay(new Date(from)) : undefined,
+      to: to ? endOfDay(new Date(to)) : undefined,
+    };
+
+    if (format === "csv") {
+      const { events } = await getAuditEvents(auditFilter, 0, MAX_EXPORT_ROWS);
+
+      return new NextResponse(generateCsv(events), {
+        headers: {
+          "Content-Type": "text/csv",
+          "Content-Disposition": `attachment; filename="audit-log-${new Date().toISOString().split("T")[0]}.csv"`,
+        },
+      });
+    }
+
+    const { events, total } = await getAuditEvents(auditFilter, (page - 1) * limit, limit);
+
+    return NextResponse.json({
+      events,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error("Failed to list audit events:", error);
+    return NextResponse.json(
+      { error: "Failed to list audit events" },
+      { status: 500 }
+    );
+  }
+}
+
+type AuditEventRow = Awaited<ReturnType<typeof getAuditEvents>>["events"][number];
+
+function csvField(value: string | null): string {
+  const text = value ?? "";
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function generateCsv(events: AuditEventRow[]): string {
+  let csv = "Time,Actor,Actor Email,Action,Entity Type,Entity ID,Before,After,Reason,IP Address\n";
+
+  for (const event of events) {
+    csv += [
+      event.createdAt.toISOString(),
+      csvField(event.actor?.name ?? null),
+      csvField(event.actor?.email ?? null),
+      event.action,
+      event.entityType,
+      csvField(event.entityId),
+      csvField(event.before ? JSON.stringify(event.before) : null),
+      csvField(event.after ? JSON.stringify(event.after) : null),
+      csvField(event.reason),
+      csvField(event.ipAddress),
+    ].join(",") + "\n";
+  }
+
+  return csv;
+}
@@ -2,6 +2,9 @@ import { NextResponse } from "next/server";
 import { hash } from "bcryptjs";
 import { UserRole, UserStatus } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
+import { sendVerificationEmail } from "@/lib/auth/email-verification";
+import { normalizeEmail } from "@/lib/auth/email-address";
+import { issueLibraryCard } from "@/lib/members/library-card";
 import type { UserWithRoles } from "@/types/auth";
 
 export async function POST(request: Request): Promise<NextResponse> {
@@ -26,7 +29,7 @@ export async function POST(request: Request): Promise<NextResponse> {
 
     // Check if user already exists
     const existingUser = await prisma.user.findUnique({
-      where: { email: email.toLowerCase() },
+      where: { email: normalizeEmail(email) },
     });
 
     if (existingUser) {
@@ -45,10 +48,12 @@ export async function POST(request: Request): Promise<NextResponse> {
       const newUser = await tx.user.create({
         data: {
           name,
-          email: email.toLowerCase(),
+          email: normalizeEmail(email),
           passwordHash: hashedPassword,
-          status: UserStatus.ACTIVE,
+          // Activated once the email address is confirmed
+          status: UserStatus.PENDING_VERIFICATION,
           role: UserRole.USER,
+          ...(await issueLibraryCard(tx)),
         },
       });
 
@@ -57,6 +62,7 @@ export async function POST(request: Request): Promise<NextResponse> {
         data: {
           userId: newUser.id,
           role: UserRole.USER,
+          ...(await issueLibraryCard(tx)),
         },
       });
 
@@ -68,6 +74,12 @@ export async function POST(request: Request): Promise<NextResponse> {
       } as unknown as UserWithRoles;
     });
 
+    // A failed send is not fatal: the user can request a new link from the verify page
+    const verificationSent = await sendVerificationEmail(user).catch((error) => {
+      console.error("Failed to send verification email:", error);
+      return false;
+    });
+
     // Create the response object that matches UserWithRoles type
     const responseUser = {
       id: user.id,
@@ -85,7 +97,8 @@ export async function POST(request: Request): Promise<NextResponse> {
     return NextResponse.json(
       { 
         user: responseUser,
-        message: "User registered successfully" 
+        verificationSent,
+        message: "Registration successful. Please check your email to verify your account."
       },
       { status: 201 }
     );
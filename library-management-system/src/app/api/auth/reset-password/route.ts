@@ -27,10 +27,13 @@ export async function POST(request: Request) {
     // Hash the new password
     const hashedPassword = await hash(password, 12);
 
-    // Update the user's password
+    // Update the user's password and sign out any existing sessions
     await prisma.user.update({
       where: { id: tokenValidation.userId },
-      data: { passwordHash: hashedPassword },
+      data: {
+        passwordHash: hashedPassword,
+        sessionVersion: { increment: 1 },
+      },
     });
 
     return NextResponse.json(
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getToken } from 'next-auth/jwt';
+import { isSessionTokenActive } from '@/lib/auth/session-revocation';
+
+/**
+ * GET /api/auth/session-status
+ * Whether the session cookie sent with the request is still valid. Used by the
+ * middleware, which runs on the edge and can't check the database itself.
+ */
+export async function GET(request: NextRequest) {
+  const token = await getToken({ req: request });
+
+  if (!token) {
+    return NextResponse.json({ active: false });
+  }
+
+  try {
+    return NextResponse.json({ active: await isSessionTokenActive(token) });
+  } catch (error) {
+    console.error('Session status error:', error);
+    return NextResponse.json({ error: 'Failed to check session' }, { status: 500 });
+  }
+}
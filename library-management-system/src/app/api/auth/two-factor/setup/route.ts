@@ -0,0 +1,98 @@
+import { NextResponse } from 'next/server';
+import { compare } from 'bcryptjs';
+import { LoginFailureReason, UserStatus } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { normalizeEmail } from '@/lib/auth/email-address';
+import {
+  getLockoutMessage,
+  getLoginContext,
+  getLoginRetryAfter,
+  recordLoginFailure,
+} from '@/lib/auth/login-throttle';
+import { beginTwoFactorEnrollment, isTwoFactorRequiredForUser } from '@/lib/auth/two-factor';
+import { twoFactorSignInSetupSchema } from '@/lib/validations/two-factor';
+
+/**
+ * POST /api/auth/two-factor/setup
+ * Start two-factor enrollment from the sign-in form, for staff whose role
+ * requires it but who have not set it up yet. The user finishes signing in
+ * with the first code from their authenticator app.
+ */
+export async function POST(request: Request) {
+  try {
+    const validationResult = twoFactorSignInSetupSchema.safeParse(await request.json());
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid data', details: validationResult.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { email, password } = validationResult.data;
+
+    // This checks the password, so it shares the sign-in lockout
+    const loginContext = getLoginContext(email, Object.fromEntries(request.headers));
+    const retryAfter = await getLoginRetryAfter(loginContext);
+
+    if (retryAfter > 0) {
+      return NextResponse.json(
+        { error: getLockoutMessage(retryAfter) },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+      );
+    }
+
+    // Same case-insensitive lookup as sign-in, so whatever casing passed there works here
+    const user = await prisma.user.findFirst({
+      where: { email: { equals: normalizeEmail(email), mode: 'insensitive' } },
+      select: {
+        id: true,
+        email: true,
+        role: true,
+        status: true,
+        passwordHash: true,
+        twoFactorEnabledAt: true,
+      },
+    });
+
+    if (!user || !(await compare(password, user.passwordHash))) {
+      await recordLoginFailure(loginContext, LoginFailureReason.INVALID_CREDENTIALS, user?.id);
+      return NextResponse.json(
+        { error: 'Invalid email or password' },
+        { status: 401 }
+      );
+    }
+
+    if (user.status !== UserStatus.ACTIVE) {
+      return NextResponse.json(
+        { error: 'Your account is not active. Please contact support.' },
+        { status: 403 }
+      );
+    }
+
+    if (user.twoFactorEnabledAt) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is already set up for this account' },
+        { status: 409 }
+      );
+    }
+
+    // Optional enrollment happens from the profile page once signed in
+    if (!(await isTwoFactorRequiredForUser(user))) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is not required for this account' },
+        { status: 403 }
+      );
+    }
+
+    const enrollment = await beginTwoFactorEnrollment(user);
+
+    return NextResponse.json(enrollment, { status: 200 });
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    return NextResponse.json(
+      { error: 'An error occurred while processing your request' },
+      { status: 500 }
+    );
+  }
+}
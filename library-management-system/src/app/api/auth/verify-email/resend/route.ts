@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { UserStatus } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getVerificationRetryAfter, sendVerificationEmail } from '@/lib/auth/email-verification';
+import { normalizeEmail } from '@/lib/auth/email-address';
+
+const GENERIC_MESSAGE = 'If your account is awaiting verification, you will receive a new verification link';
+
+/**
+ * POST /api/auth/verify-email/resend
+ * Send a new verification link. Rate limited per account.
+ */
+export async function POST(request: Request) {
+  try {
+    const { email } = await request.json();
+
+    if (!email) {
+      return NextResponse.json(
+        { error: 'Email is required' },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: normalizeEmail(String(email)) },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        status: true,
+      },
+    });
+
+    // Return success for unknown or already verified accounts to prevent email enumeration
+    if (!user || user.status !== UserStatus.PENDING_VERIFICATION) {
+      return NextResponse.json({ message: GENERIC_MESSAGE }, { status: 200 });
+    }
+
+    const retryAfter = await getVerificationRetryAfter(user.id);
+
+    if (retryAfter > 0) {
+      return NextResponse.json(
+        {
+          error: `Please wait ${retryAfter} seconds before requesting another verification email`,
+          retryAfter,
+        },
+        {
+          status: 429,
+          headers: { 'Retry-After': String(retryAfter) },
+        }
+      );
+    }
+
+    // Failures are logged by the sender; still return success to prevent email enumeration
+    await sendVerificationEmail(user);
+
+    return NextResponse.json({ message: GENERIC_MESSAGE }, { status: 200 });
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    return NextResponse.json(
+      { error: 'An error occurred while processing your request' },
+      { status: 500 }
+    );
+  }
+}
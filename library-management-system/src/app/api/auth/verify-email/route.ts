@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { verifyEmailToken } from '@/lib/auth/email-verification';
+
+/**
+ * GET /api/auth/verify-email?token=...
+ * Target of the link in the verification email. Activates the account and
+ * redirects to the verify page, which explains the outcome.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const token = searchParams.get('token');
+
+  let status = 'invalid';
+
+  if (token) {
+    try {
+      status = await verifyEmailToken(token);
+    } catch (error) {
+      console.error('Email verification error:', error);
+      status = 'error';
+    }
+  }
+
+  return NextResponse.redirect(new URL(`/auth/verify-email?status=${status}`, request.url));
+}
@@ -0,0 +1,225 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/policy";
+import { prisma } from "@/lib/prisma";
+import { recordAuditEvent } from "@/lib/audit/events";
+import { AuditAction, AuditEntityType, BookStatus } from "@prisma/client";
+import { z } from "zod";
+import { releaseCopy, syncBookStatus } from "@/lib/circulation/copies";
+import { publishHoldReady } from "@/lib/events/circulation";
+
+// Statuses a copy is in while checkout, return and reservations manage it
+const IN_USE_STATUSES: BookStatus[] = [BookStatus.CHECKED_OUT, BookStatus.RESERVED];
+
+// Schema for validating copy updates. Circulation statuses (CHECKED_OUT, RESERVED)
+// are managed by checkout, return and reservations and cannot be set directly.
+const copyUpdateSchema = z.object({
+  shelfLocation: z.string().max(100).nullable().optional(),
+  condition: z.enum(["NEW", "GOOD", "FAIR", "POOR", "DAMAGED"]).optional(),
+  status: z.enum(["AVAILABLE", "LOST", "DAMAGED", "UNDER_MAINTENANCE", "DISCARDED"]).optional(),
+  notes: z.string().nullable().optional(),
+});
+
+// PATCH handler for updating a single copy
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string; copyId: string } }
+) {
+  try {
+    const auth = await authorize("book:update");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const { id, copyId } = params;
+    const body = await req.json();
+
+    // Validate request data
+    const validationResult = copyUpdateSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid data",
+          details: validationResult.error.format()
+        },
+        { status: 400 }
+      );
+    }
+
+    // Find the copy first to ensure it exists
+    const existingCopy = await prisma.bookCopy.findUnique({
+      where: { id: copyId },
+    });
+
+    if (!existingCopy || existingCopy.isDeleted || existingCopy.bookId !== id) {
+      return NextResponse.json(
+        { error: "Copy not found" },
+        { status: 404 }
+      );
+    }
+
+    // A copy that is out on loan or held for a member cannot change status here
+    if (
+      validationResult.data.status &&
+      IN_USE_STATUSES.includes(existingCopy.status)
+    ) {
+      return NextResponse.json(
+        { error: `Cannot change the status of a copy that is ${existingCopy.status.toLowerCase().replace("_", " ")}` },
+        { status: 409 }
+      );
+    }
+
+    const { status, ...details } = validationResult.data;
+
+    // Update the copy and refresh the title status
+    const result = await prisma.$transaction(async (tx) => {
+      // Only change the status while the copy is still free, so a checkout or hold
+      // that claimed it since it was read above isn't overwritten
+      const { count } = await tx.bookCopy.updateMany({
+        where: {
+          id: copyId,
+          isDeleted: false,
+          ...(status ? { status: { notIn: IN_USE_STATUSES } } : {}),
+        },
+        data: status && status !== BookStatus.AVAILABLE ? { ...details, status } : details,
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      // A copy back in circulation goes to the next person in the queue before the shelf
+      let promotedReservation: Awaited<ReturnType<typeof releaseCopy>> = null;
+      if (status === BookStatus.AVAILABLE) {
+        promotedReservation = await releaseCopy(tx, { id: copyId, bookId: id });
+      } else {
+        await syncBookStatus(tx, id);
+      }
+
+      const updatedCopy = await tx.bookCopy.findUniqueOrThrow({
+        where: { id: copyId },
+      });
+
+      await recordAuditEvent({
+        actorId: auth.user.id,
+        action: AuditAction.COPY_UPDATED,
+        entityType: AuditEntityType.BOOK,
+        entityId: id,
+        before: existingCopy,
+        after: updatedCopy,
+        request: req,
+      }, tx);
+
+      return { copy: updatedCopy, promotedReservation };
+    });
+
+    if (!result) {
+      return NextResponse.json(
+        { error: "This copy was just checked out or set aside. Try again." },
+        { status: 409 }
+      );
+    }
+
+    if (result.promotedReservation) {
+      publishHoldReady(result.promotedReservation);
+    }
+
+    return NextResponse.json(result.copy);
+  } catch (error) {
+    console.error("Error updating book copy:", error);
+    return NextResponse.json(
+      { error: "Failed to update book copy" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE handler for soft-deleting a single copy
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string; copyId: string } }
+) {
+  try {
+    const auth = await authorize("book:delete");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const { id, copyId } = params;
+
+    // Find the copy first to ensure it exists
+    const existingCopy = await prisma.bookCopy.findUnique({
+      where: { id: copyId },
+    });
+
+    if (!existingCopy || existingCopy.isDeleted || existingCopy.bookId !== id) {
+      return NextResponse.json(
+        { error: "Copy not found" },
+        { status: 404 }
+      );
+    }
+
+    // Copies that are on loan or held for pickup must be returned or released first
+    if (IN_USE_STATUSES.includes(existingCopy.status)) {
+      return NextResponse.json(
+        { error: "Cannot delete a copy that is checked out or reserved" },
+        { status: 400 }
+      );
+    }
+
+    // Soft delete the copy, unless a checkout or hold claimed it since it was read above
+    const deleted = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.bookCopy.updateMany({
+        where: {
+          id: copyId,
+          isDeleted: false,
+          status: { notIn: IN_USE_STATUSES },
+        },
+        data: {
+          isDeleted: true,
+          deletedAt: new Date(),
+        },
+      });
+
+      if (count === 0) {
+        return false;
+      }
+
+      const deletedCopy = await tx.bookCopy.findUniqueOrThrow({
+        where: { id: copyId },
+      });
+
+      await syncBookStatus(tx, id);
+
+      await recordAuditEvent({
+        actorId: auth.user.id,
+        action: AuditAction.COPY_REMOVED,
+        entityType: AuditEntityType.BOOK,
+        entityId: id,
+        before: existingCopy,
+        after: deletedCopy,
+        request: req,
+      }, tx);
+
+      return true;
+    });
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "This copy was just checked out or set aside. Try again." },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { message: "Copy deleted successfully" },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Error deleting book copy:", error);
+    return NextResponse.json(
+      { error: "Failed to delete book copy" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/policy";
+import { prisma } from "@/lib/prisma";
+import { recordAuditEvent } from "@/lib/audit/events";
+import { AuditAction, AuditEntityType } from "@prisma/client";
+import { z } from "zod";
+import { generateBarcode, getCopyAvailability, releaseCopy } from "@/lib/circulation/copies";
+import { publishHoldReady } from "@/lib/events/circulation";
+
+// Schema for validating copy creation requests
+const copySchema = z.object({
+  barcode: z.string().min(1).max(32).optional(),
+  shelfLocation: z.string().max(100).optional(),
+  acquisitionDate: z.string().datetime().optional(),
+  condition: z.enum(["NEW", "GOOD", "FAIR", "POOR", "DAMAGED"]).optional(),
+  notes: z.string().optional(),
+});
+
+// GET handler for listing the copies of a book
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize("book:read");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const { id } = params;
+
+    // Make sure the book exists
+    const book = await prisma.book.findUnique({
+      where: { id },
+    });
+
+    if (!book || book.isDeleted) {
+      return NextResponse.json(
+        { error: "Book not found" },
+        { status: 404 }
+      );
+    }
+
+    // Get copies, oldest first
+    const copies = await prisma.bookCopy.findMany({
+      where: {
+        bookId: id,
+        isDeleted: false,
+      },
+      orderBy: { acquisitionDate: "asc" },
+    });
+
+    const availability = await getCopyAvailability(prisma, id);
+
+    return NextResponse.json({
+      copies,
+      availability,
+    });
+  } catch (error) {
+    console.error("Error fetching book copies:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch book copies" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST handler for adding a physical copy to a book
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize("book:create");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const { id } = params;
+    const body = await req.json();
+
+    // Validate request data
+    const validationResult = copySchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid data",
+          details: validationResult.error.format()
+        },
+        { status: 400 }
+      );
+    }
+
+    const { barcode, acquisitionDate, ...copyData } = validationResult.data;
+
+    // Make sure the book exists
+    const book = await prisma.book.findUnique({
+      where: { id },
+    });
+
+    if (!book || book.isDeleted) {
+      return NextResponse.json(
+        { error: "Book not found" },
+        { status: 404 }
+      );
+    }
+
+    // Barcodes must be unique across the whole collection
+    if (barcode) {
+      const existingCopy = await prisma.bookCopy.findUnique({
+        where: { barcode },
+      });
+
+      if (existingCopy) {
+        return NextResponse.json(
+          { error: "A copy with this barcode already exists" },
+          { status: 409 }
+        );
+      }
+    }
+
+    // Create the copy and hand it to the next person in the queue, or put it on the shelf
+    const { copy, promotedReservation } = await prisma.$transaction(async (tx) => {
+      const createdCopy = await tx.bookCopy.create({
+        data: {
+          ...copyData,
+          bookId: id,
+          barcode: barcode || generateBarcode(),
+          ...(acquisitionDate ? { acquisitionDate: new Date(acquisitionDate) } : {}),
+        },
+      });
+
+      const promotedReservation = await releaseCopy(tx, createdCopy);
+      const newCopy = await tx.bookCopy.findUniqueOrThrow({
+        where: { id: createdCopy.id },
+      });
+
+      await recordAuditEvent({
+        actorId: auth.user.id,
+        action: AuditAction.COPY_ADDED,
+        entityType: AuditEntityType.BOOK,
+        entityId: id,
+        after: newCopy,
+        request: req,
+      }, tx);
+
+      return { copy: newCopy, promotedReservation };
+    });
+
+    if (promotedReservation) {
+      publishHoldReady(promotedReservation);
+    }
+
+    return NextResponse.json(copy, { status: 201 });
+  } catch (error) {
+    console.error("Error creating book copy:", error);
+    return NextResponse.json(
+      { error: "Failed to create book copy" },
+      { status: 500 }
+    );
+  }
+}
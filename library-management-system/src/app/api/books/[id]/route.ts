@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
-import { withRoleProtection } from "@/lib/auth/rbac/middleware";
-import { Permission } from "@/lib/auth/rbac/types";
+import { authorize } from "@/lib/auth/policy";
 import { prisma } from "@/lib/prisma";
+import { recordAuditEvent } from "@/lib/audit/events";
+import { findUnknownTerms } from "@/lib/books/taxonomy";
+import { AuditAction, AuditEntityType } from "@prisma/client";
 import { z } from "zod";
 
 // Schema for validating book updates
@@ -21,6 +23,7 @@ const bookUpdateSchema = z.object({
   publisher: z.string().optional(),
   description: z.string().optional(),
   coverImage: z.string().url().optional(),
+  tags: z.array(z.string().min(1)).optional(),
   status: z.enum(["AVAILABLE", "CHECKED_OUT", "RESERVED", "LOST", "DAMAGED", "UNDER_MAINTENANCE", "DISCARDED"]).optional(),
 });
 
@@ -29,38 +32,34 @@ export async function GET(
   req: NextRequest,
   { params }: { params: { id: string } }
 ) {
-  return withRoleProtection(
-    req,
-    async (req, user) => {
-      try {
-        const { id } = params;
-        
-        // Fetch the book by ID
-        const book = await prisma.book.findUnique({
-          where: { id },
-        });
-        
-        if (!book || book.isDeleted) {
-          return NextResponse.json(
-            { error: "Book not found" },
-            { status: 404 }
-          );
-        }
-        
-        return NextResponse.json(book);
-      } catch (error) {
-        console.error("Error fetching book:", error);
-        return NextResponse.json(
-          { error: "Failed to fetch book" },
-          { status: 500 }
-        );
-      }
-    },
-    {
-      requireAuth: true,
-      requiredPermissions: [Permission.BOOK_READ],
+  try {
+    const auth = await authorize("book:read");
+    if (!auth.ok) {
+      return auth.response;
     }
-  );
+
+    const { id } = params;
+    
+    // Fetch the book by ID
+    const book = await prisma.book.findUnique({
+      where: { id },
+    });
+    
+    if (!book || book.isDeleted) {
+      return NextResponse.json(
+        { error: "Book not found" },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json(book);
+  } catch (error) {
+    console.error("Error fetching book:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch book" },
+      { status: 500 }
+    );
+  }
 }
 
 // PUT handler for updating a book by ID
@@ -68,72 +67,99 @@ export async function PUT(
   req: NextRequest,
   { params }: { params: { id: string } }
 ) {
-  return withRoleProtection(
-    req,
-    async (req, user) => {
-      try {
-        const { id } = params;
-        const body = await req.json();
-        
-        // Find the book first to ensure it exists
-        const existingBook = await prisma.book.findUnique({
-          where: { id },
-        });
-        
-        if (!existingBook || existingBook.isDeleted) {
-          return NextResponse.json(
-            { error: "Book not found" },
-            { status: 404 }
-          );
-        }
-        
-        // Validate request data
-        const validationResult = bookUpdateSchema.safeParse(body);
-        
-        if (!validationResult.success) {
-          return NextResponse.json(
-            { 
-              error: "Invalid data", 
-              details: validationResult.error.format() 
-            },
-            { status: 400 }
-          );
-        }
-        
-        // If updating ISBN, check it doesn't conflict with another book
-        if (validationResult.data.isbn && validationResult.data.isbn !== existingBook.isbn) {
-          const bookWithSameIsbn = await prisma.book.findUnique({
-            where: { isbn: validationResult.data.isbn },
-          });
-          
-          if (bookWithSameIsbn && bookWithSameIsbn.id !== id) {
-            return NextResponse.json(
-              { error: "Book with this ISBN already exists" },
-              { status: 409 }
-            );
-          }
-        }
-        
-        // Update the book
-        const updatedBook = await prisma.book.update({
-          where: { id },
-          data: validationResult.data,
-        });
-        
-        return NextResponse.json(updatedBook);
-      } catch (error) {
-        console.error("Error updating book:", error);
+  try {
+    const auth = await authorize("book:update");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const { id } = params;
+    const body = await req.json();
+    
+    // Find the book first to ensure it exists
+    const existingBook = await prisma.book.findUnique({
+      where: { id },
+    });
+    
+    if (!existingBook || existingBook.isDeleted) {
+      return NextResponse.json(
+        { error: "Book not found" },
+        { status: 404 }
+      );
+    }
+    
+    // Validate request data
+    const validationResult = bookUpdateSchema.safeParse(body);
+    
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { 
+          error: "Invalid data", 
+          details: validationResult.error.format() 
+        },
+        { status: 400 }
+      );
+    }
+    
+    // Status changes need a reason and must follow the lifecycle, so they go through /status
+    if (validationResult.data.status && validationResult.data.status !== existingBook.status) {
+      return NextResponse.json(
+        { error: "Use /api/books/[id]/status to change a book's status" },
+        { status: 400 }
+      );
+    }
+    
+    // New categories and tags must come from the managed vocabulary
+    const { category, tags } = validationResult.data;
+    const unknownTerms = await findUnknownTerms({
+      category: category !== existingBook.category ? category : undefined,
+      tags: tags?.filter((tag) => !existingBook.tags.includes(tag)),
+    });
+    if (unknownTerms) {
+      return NextResponse.json(
+        { error: unknownTerms },
+        { status: 400 }
+      );
+    }
+    
+    // If updating ISBN, check it doesn't conflict with another book
+    if (validationResult.data.isbn && validationResult.data.isbn !== existingBook.isbn) {
+      const bookWithSameIsbn = await prisma.book.findUnique({
+        where: { isbn: validationResult.data.isbn },
+      });
+      
+      if (bookWithSameIsbn && bookWithSameIsbn.id !== id) {
         return NextResponse.json(
-          { error: "Failed to update book" },
-          { status: 500 }
+          { error: "Book with this ISBN already exists" },
+          { status: 409 }
         );
       }
-    },
-    {
-      requireAuth: true,
-      requiredPermissions: [Permission.BOOK_UPDATE],
     }
-  );
+    
+    // Update the book
+    const updatedBook = await prisma.book.update({
+      where: { id },
+      data: validationResult.data,
+    });
+
+    await recordAuditEvent({
+      actorId: auth.user.id,
+      action: AuditAction.UPDATED,
+      entityType: AuditEntityType.BOOK,
+      entityId: id,
+      before: existingBook,
+      after: updatedBook,
+      request: req,
+    });
+    
+    return NextResponse.json(updatedBook);
+  } catch (error) {
+    console.error("Error updating book:", error);
+    return NextResponse.json(
+      { error: "Failed to update book" },
+      { status: 500 }
+    );
+  }
 }
 
 // DELETE handler for soft-deleting a book by ID
@@ -141,65 +167,71 @@ export async function DELETE(
   req: NextRequest,
   { params }: { params: { id: string } }
 ) {
-  return withRoleProtection(
-    req,
-    async (req, user) => {
-      try {
-        const { id } = params;
-        
-        // Find the book first to ensure it exists
-        const existingBook = await prisma.book.findUnique({
-          where: { id },
-        });
-        
-        if (!existingBook || existingBook.isDeleted) {
-          return NextResponse.json(
-            { error: "Book not found" },
-            { status: 404 }
-          );
-        }
-        
-        // Check if book can be deleted (no active transactions, etc.)
-        const activeTransactions = await prisma.transaction.count({
-          where: {
-            bookId: id,
-            status: {
-              in: ["CHECKED_OUT", "OVERDUE"],
-            },
-          },
-        });
-        
-        if (activeTransactions > 0) {
-          return NextResponse.json(
-            { error: "Cannot delete book with active transactions" },
-            { status: 400 }
-          );
-        }
-        
-        // Soft delete the book
-        const deletedBook = await prisma.book.update({
-          where: { id },
-          data: {
-            isDeleted: true,
-            deletedAt: new Date(),
-          },
-        });
-        
-        return NextResponse.json(
-          { message: "Book deleted successfully" },
-          { status: 200 }
-        );
-      } catch (error) {
-        console.error("Error deleting book:", error);
-        return NextResponse.json(
-          { error: "Failed to delete book" },
-          { status: 500 }
-        );
-      }
-    },
-    {
-      requireAuth: true,
-      requiredPermissions: [Permission.BOOK_DELETE],
+  try {
+    const auth = await authorize("book:delete");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const { id } = params;
+    
+    // Find the book first to ensure it exists
+    const existingBook = await prisma.book.findUnique({
+      where: { id },
+    });
+    
+    if (!existingBook || existingBook.isDeleted) {
+      return NextResponse.json(
+        { error: "Book not found" },
+        { status: 404 }
+      );
     }
-  );
+    
+    // Check if book can be deleted (no active transactions, etc.)
+    const activeTransactions = await prisma.transaction.count({
+      where: {
+        bookId: id,
+        status: {
+          in: ["CHECKED_OUT", "OVERDUE"],
+        },
+      },
+    });
+    
+    if (activeTransactions > 0) {
+      return NextResponse.json(
+        { error: "Cannot delete book with active transactions" },
+        { status: 400 }
+      );
+    }
+    
+    // Soft delete the book
+    const deletedBook = await prisma.book.update({
+      where: { id },
+      data: {
+        isDeleted: true,
+        deletedAt: new Date(),
+      },
+    });
+
+    await recordAuditEvent({
+      actorId: auth.user.id,
+      action: AuditAction.DELETED,
+      entityType: AuditEntityType.BOOK,
+      entityId: id,
+      before: existingBook,
+      after: deletedBook,
+      request: req,
+    });
+    
+    return NextResponse.json(
+      { message: "Book deleted successfully" },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Error deleting book:", error);
+    return NextResponse.json(
+      { error: "Failed to delete book" },
+      { status: 500 }
+    );
+  }
 }
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/policy";
+import { prisma } from "@/lib/prisma";
+import { changeBookStatus, getStatusHistory, STATUS_TRANSITIONS } from "@/lib/books/status";
+import { bookStatusChangeSchema } from "@/lib/validations/book";
+
+// GET handler for a book's status, the statuses it can move to and its status history
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize("book:read");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const book = await prisma.book.findUnique({
+      where: { id: params.id },
+      select: { id: true, status: true, isDeleted: true },
+    });
+
+    if (!book || book.isDeleted) {
+      return NextResponse.json(
+        { error: "Book not found" },
+        { status: 404 }
+      );
+    }
+
+    const history = await getStatusHistory(book.id);
+
+    return NextResponse.json({
+      status: book.status,
+      allowedTransitions: STATUS_TRANSITIONS[book.status],
+      history,
+    });
+  } catch (error) {
+    console.error("Error fetching book status:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch book status" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH handler for moving a book to another status along the allowed transitions
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize("book:update");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const body = await req.json();
+
+    // Validate request data
+    const validationResult = bookStatusChangeSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid data",
+          details: validationResult.error.format()
+        },
+        { status: 400 }
+      );
+    }
+
+    const book = await prisma.book.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!book || book.isDeleted) {
+      return NextResponse.json(
+        { error: "Book not found" },
+        { status: 404 }
+      );
+    }
+
+    const { status, reason } = validationResult.data;
+
+    // The transition is checked against the status as it is when the change is made
+    const result = await changeBookStatus(book.id, status, reason, auth.user.id, req);
+
+    if (!result.ok) {
+      return NextResponse.json(
+        {
+          error: result.error,
+          allowedTransitions: result.allowedTransitions
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(result.book);
+  } catch (error) {
+    console.error("Error updating book status:", error);
+    return NextResponse.json(
+      { error: "Failed to update book status" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/policy";
+import { prisma } from "@/lib/prisma";
+import { findPolicyConflicts, getDescendantIds, mergeCategory } from "@/lib/books/taxonomy";
+import { mergeTermSchema } from "@/lib/validations/taxonomy";
+
+// POST endpoint to fold a category into another, moving its books and subcategories
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize("category:manage");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const data = await request.json();
+
+    // Validate the request data
+    const validationResult = mergeTermSchema.safeParse(data);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid data",
+          details: validationResult.error.format()
+        },
+        { status: 400 }
+      );
+    }
+
+    const { targetId } = validationResult.data;
+    const [source, target] = await Promise.all([
+      prisma.category.findUnique({ where: { id: params.id } }),
+      prisma.category.findUnique({ where: { id: targetId } }),
+    ]);
+
+    if (!source || !target) {
+      return NextResponse.json(
+        { error: "Category not found" },
+        { status: 404 }
+      );
+    }
+
+    if (targetId === params.id || (await getDescendantIds(params.id)).includes(targetId)) {
+      return NextResponse.json(
+        { error: "A category can't be merged into itself or one of its subcategories" },
+        { status: 409 }
+      );
+    }
+
+    // Each role has at most one circulation policy per category
+    const conflictingRoles = await findPolicyConflicts(source.name, target.name);
+    if (conflictingRoles.length > 0) {
+      return NextResponse.json(
+        {
+          error: "Both categories have circulation policies for the same roles; remove one of them first",
+          roles: conflictingRoles
+        },
+        { status: 409 }
+      );
+    }
+
+    const booksMoved = await mergeCategory(params.id, targetId, auth.user.id, request);
+
+    return NextResponse.json({
+      booksMoved,
+      message: `Merged ${source.name} into ${target.name}`,
+    });
+  } catch (error) {
+    console.error("Failed to merge category:", error);
+    return NextResponse.json(
+      { error: "Failed to merge category" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,140 @@
+import { NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { authorize } from "@/lib/auth/policy";
+import { prisma } from "@/lib/prisma";
+import {
+  countBooksInCategory,
+  deleteCategory,
+  getDescendantIds,
+  updateCategory,
+} from "@/lib/books/taxonomy";
+import { updateCategorySchema } from "@/lib/validations/taxonomy";
+
+// PATCH endpoint to rename, describe or move a category; renames rewrite its books
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize("category:manage");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const data = await request.json();
+
+    // Validate the request data
+    const validationResult = updateCategorySchema.safeParse(data);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid data",
+          details: validationResult.error.format()
+        },
+        { status: 400 }
+      );
+    }
+
+    const existingCategory = await prisma.category.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existingCategory) {
+      return NextResponse.json(
+        { error: "Category not found" },
+        { status: 404 }
+      );
+    }
+
+    // A category can't end up underneath itself
+    const { parentId } = validationResult.data;
+    if (parentId) {
+      if (!(await prisma.category.findUnique({ where: { id: parentId } }))) {
+        return NextResponse.json(
+          { error: "Parent category not found" },
+          { status: 404 }
+        );
+      }
+
+      if (parentId === params.id || (await getDescendantIds(params.id)).includes(parentId)) {
+        return NextResponse.json(
+          { error: "A category can't be moved under itself or one of its subcategories" },
+          { status: 409 }
+        );
+      }
+    }
+
+    const result = await updateCategory(params.id, validationResult.data, auth.user.id, request);
+
+    return NextResponse.json({
+      ...result,
+      message: "Category updated successfully",
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return NextResponse.json(
+        { error: "A category with this name already exists" },
+        { status: 409 }
+      );
+    }
+
+    console.error("Failed to update category:", error);
+    return NextResponse.json(
+      { error: "Failed to update category" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE endpoint to remove a category no book, subcategory or policy uses
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize("category:manage");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const existingCategory = await prisma.category.findUnique({
+      where: { id: params.id },
+      include: { _count: { select: { children: true } } },
+    });
+
+    if (!existingCategory) {
+      return NextResponse.json(
+        { error: "Category not found" },
+        { status: 404 }
+      );
+    }
+
+    const [bookCount, policyCount] = await Promise.all([
+      countBooksInCategory(existingCategory.name),
+      prisma.circulationPolicy.count({ where: { category: existingCategory.name } }),
+    ]);
+
+    if (bookCount > 0 || existingCategory._count.children > 0 || policyCount > 0) {
+      return NextResponse.json(
+        {
+          error: "Cannot delete a category that is in use; merge it into another category instead",
+          bookCount,
+          childCount: existingCategory._count.children,
+          policyCount
+        },
+        { status: 409 }
+      );
+    }
+
+    await deleteCategory(params.id, auth.user.id, request);
+
+    return NextResponse.json({ message: "Category deleted successfully" });
+  } catch (error) {
+    console.error("Failed to delete category:", error);
+    return NextResponse.json(
+      { error: "Failed to delete category" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { authorize } from "@/lib/auth/policy";
+import { prisma } from "@/lib/prisma";
+import { createCategory, listCategories } from "@/lib/books/taxonomy";
+import { categorySchema } from "@/lib/validations/taxonomy";
+
+// GET endpoint to list the category hierarchy with book counts
+export async function GET() {
+  try {
+    const auth = await authorize("book:read");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const categories = await listCategories();
+
+    return NextResponse.json({ categories });
+  } catch (error) {
+    console.error("Failed to fetch categories:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch categories" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST endpoint to add a category
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize("category:manage");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const data = await request.json();
+
+    // Validate the request data
+    const validationResult = categorySchema.safeParse(data);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid data",
+          details: validationResult.error.format()
+        },
+        { status: 400 }
+      );
+    }
+
+    const { parentId } = validationResult.data;
+    if (parentId && !(await prisma.category.findUnique({ where: { id: parentId } }))) {
+      return NextResponse.json(
+        { error: "Parent category not found" },
+        { status: 404 }
+      );
+    }
+
+    const category = await createCategory(validationResult.data, auth.user.id, request);
+
+    return NextResponse.json(category, { status: 201 });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return NextResponse.json(
+        { error: "A category with this name already exists" },
+        { status: 409 }
+      );
+    }
+
+    console.error("Failed to create category:", error);
+    return NextResponse.json(
+      { error: "Failed to create category" },
+      { status: 500 }
+    );
+  }
+}
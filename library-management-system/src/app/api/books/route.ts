@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
-import { withRoleProtection } from "@/lib/auth/rbac/middleware";
-import { Permission } from "@/lib/auth/rbac/types";
+import { authorize } from "@/lib/auth/policy";
 import { prisma } from "@/lib/prisma";
+import { recordAuditEvent } from "@/lib/audit/events";
+import { expandCategoryNames, findUnknownTerms } from "@/lib/books/taxonomy";
+import { generateBarcode } from "@/lib/circulation/copies";
+import { AuditAction, AuditEntityType, Prisma } from "@prisma/client";
 import { z } from "zod";
 
 // Schema for validating book creation/update requests
@@ -21,120 +24,167 @@ const bookSchema = z.object({
   publisher: z.string().optional(),
   description: z.string().optional(),
   coverImage: z.string().url().optional(),
+  tags: z.array(z.string().min(1)).optional(),
+  // Physical copies to put into circulation with the new title
+  copies: z.number().int().min(1).max(50).default(1),
 });
 
 // GET handler for fetching all books (requires BOOK_READ permission)
 export async function GET(req: NextRequest) {
-  return withRoleProtection(
-    req,
-    async (req, user) => {
-      try {
-        // Get pagination parameters from query string
-        const searchParams = req.nextUrl.searchParams;
-        const page = Number(searchParams.get("page") || "1");
-        const pageSize = Number(searchParams.get("pageSize") || "10");
-        const skip = (page - 1) * pageSize;
-        
-        // Apply search filter if provided
-        const search = searchParams.get("search") || "";
-        const filter = search
-          ? {
-              OR: [
-                { title: { contains: search, mode: "insensitive" } },
-                { author: { contains: search, mode: "insensitive" } },
-                { isbn: { contains: search, mode: "insensitive" } },
-                { category: { contains: search, mode: "insensitive" } },
-              ],
-              AND: { isDeleted: false },
-            }
-          : { isDeleted: false };
-        
-        // Get books with pagination
-        const books = await prisma.book.findMany({
-          where: filter as any,
-          orderBy: { title: "asc" },
-          skip,
-          take: pageSize,
-        });
-        
-        // Get total count for pagination
-        const total = await prisma.book.count({ where: filter as any });
-        
-        // Return paginated results
-        return NextResponse.json({
-          books,
-          pagination: {
-            page,
-            pageSize,
-            totalPages: Math.ceil(total / pageSize),
-            totalItems: total,
-          },
-        });
-      } catch (error) {
-        console.error("Error fetching books:", error);
-        return NextResponse.json(
-          { error: "Failed to fetch books" },
-          { status: 500 }
-        );
-      }
-    },
-    {
-      requireAuth: true,
-      requiredPermissions: [Permission.BOOK_READ],
+  try {
+    const auth = await authorize("book:read");
+    if (!auth.ok) {
+      return auth.response;
     }
-  );
+
+    // Get pagination parameters from query string
+    const searchParams = req.nextUrl.searchParams;
+    const page = Number(searchParams.get("page") || "1");
+    const pageSize = Number(searchParams.get("pageSize") || "10");
+    const skip = (page - 1) * pageSize;
+    
+    // Apply search filter if provided
+    const search = searchParams.get("search") || "";
+    const filter: Prisma.BookWhereInput = search
+      ? {
+          OR: [
+            { title: { contains: search, mode: "insensitive" } },
+            { author: { contains: search, mode: "insensitive" } },
+            { isbn: { contains: search, mode: "insensitive" } },
+            { category: { contains: search, mode: "insensitive" } },
+          ],
+          AND: { isDeleted: false },
+        }
+      : { isDeleted: false };
+
+    // Comma separated category and tag names; a category includes its subcategories
+    const categories = searchParams.get("categories")?.split(",").filter(Boolean) ?? [];
+    const tags = searchParams.get("tags")?.split(",").filter(Boolean) ?? [];
+    if (categories.length > 0) {
+      filter.category = { in: await expandCategoryNames(categories) };
+    }
+    if (tags.length > 0) {
+      filter.tags = { hasSome: tags };
+    }
+    
+    // Get books with pagination
+    const books = await prisma.book.findMany({
+      where: filter,
+      orderBy: { title: "asc" },
+      skip,
+      take: pageSize,
+    });
+    
+    // Get total count for pagination
+    const total = await prisma.book.count({ where: filter });
+    
+    // Return paginated results
+    return NextResponse.json({
+      books,
+      pagination: {
+        page,
+        pageSize,
+        totalPages: Math.ceil(total / pageSize),
+        totalItems: total,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching books:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch books" },
+      { status: 500 }
+    );
+  }
 }
 
 // POST handler for creating a new book (requires BOOK_CREATE permission)
 export async function POST(req: NextRequest) {
-  return withRoleProtection(
-    req,
-    async (req, user) => {
-      try {
-        const body = await req.json();
-        
-        // Validate request data
-        const validationResult = bookSchema.safeParse(body);
-        
-        if (!validationResult.success) {
-          return NextResponse.json(
-            { 
-              error: "Invalid data", 
-              details: validationResult.error.format() 
-            },
-            { status: 400 }
-          );
-        }
-        
-        // Check if book with ISBN already exists
-        const existingBook = await prisma.book.findUnique({
-          where: { isbn: validationResult.data.isbn },
-        });
-        
-        if (existingBook) {
-          return NextResponse.json(
-            { error: "Book with this ISBN already exists" },
-            { status: 409 }
-          );
-        }
-        
-        // Create the book
-        const book = await prisma.book.create({
-          data: validationResult.data,
+  try {
+    const auth = await authorize("book:create");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const body = await req.json();
+    
+    // Validate request data
+    const validationResult = bookSchema.safeParse(body);
+    
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { 
+          error: "Invalid data", 
+          details: validationResult.error.format() 
+        },
+        { status: 400 }
+      );
+    }
+    
+    // Category and tags must come from the managed vocabulary
+    const unknownTerms = await findUnknownTerms(validationResult.data);
+    if (unknownTerms) {
+      return NextResponse.json(
+        { error: unknownTerms },
+        { status: 400 }
+      );
+    }
+
+    // Check if book with ISBN already exists
+    const existingBook = await prisma.book.findUnique({
+      where: { isbn: validationResult.data.isbn },
+    });
+    
+    if (existingBook) {
+      return NextResponse.json(
+        { error: "Book with this ISBN already exists" },
+        { status: 409 }
+      );
+    }
+    
+    const { copies, ...bookData } = validationResult.data;
+
+    // Create the book together with its first copies so it can be lent out straight away
+    const book = await prisma.$transaction(async (tx) => {
+      const newBook = await tx.book.create({
+        data: bookData,
+      });
+
+      await recordAuditEvent({
+        actorId: auth.user.id,
+        action: AuditAction.CREATED,
+        entityType: AuditEntityType.BOOK,
+        entityId: newBook.id,
+        after: newBook,
+        request: req,
+      }, tx);
+
+      for (let i = 0; i < copies; i++) {
+        const newCopy = await tx.bookCopy.create({
+          data: {
+            bookId: newBook.id,
+            barcode: generateBarcode(),
+          },
         });
-        
-        return NextResponse.json(book, { status: 201 });
-      } catch (error) {
-        console.error("Error creating book:", error);
-        return NextResponse.json(
-          { error: "Failed to create book" },
-          { status: 500 }
-        );
+
+        await recordAuditEvent({
+          actorId: auth.user.id,
+          action: AuditAction.COPY_ADDED,
+          entityType: AuditEntityType.BOOK,
+          entityId: newBook.id,
+          after: newCopy,
+          request: req,
+        }, tx);
       }
-    },
-    {
-      requireAuth: true,
-      requiredPermissions: [Permission.BOOK_CREATE],
-    }
-  );
+
+      return newBook;
+    });
+    
+    return NextResponse.json(book, { status: 201 });
+  } catch (error) {
+    console.error("Error creating book:", error);
+    return NextResponse.json(
+      { error: "Failed to create book" },
+      { status: 500 }
+    );
+  }
 }
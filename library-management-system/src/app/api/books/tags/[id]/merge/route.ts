@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/policy";
+import { prisma } from "@/lib/prisma";
+import { mergeTag } from "@/lib/books/taxonomy";
+import { mergeTermSchema } from "@/lib/validations/taxonomy";
+
+// POST endpoint to fold a tag into another on every book carrying it
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize("category:manage");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const data = await request.json();
+
+    // Validate the request data
+    const validationResult = mergeTermSchema.safeParse(data);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid data",
+          details: validationResult.error.format()
+        },
+        { status: 400 }
+      );
+    }
+
+    const { targetId } = validationResult.data;
+    if (targetId === params.id) {
+      return NextResponse.json(
+        { error: "A tag can't be merged into itself" },
+        { status: 409 }
+      );
+    }
+
+    const [source, target] = await Promise.all([
+      prisma.tag.findUnique({ where: { id: params.id } }),
+      prisma.tag.findUnique({ where: { id: targetId } }),
+    ]);
+
+    if (!source || !target) {
+      return NextResponse.json(
+        { error: "Tag not found" },
+        { status: 404 }
+      );
+    }
+
+    const booksUpdated = await mergeTag(params.id, targetId, auth.user.id, request);
+
+    return NextResponse.json({
+      booksUpdated,
+      message: `Merged ${source.name} into ${target.name}`,
+    });
+  } catch (error) {
+    console.error("Failed to merge tag:", error);
+    return NextResponse.json(
+      { error: "Failed to merge tag" },
+      { status: 500 }
+    );
+  }
+}
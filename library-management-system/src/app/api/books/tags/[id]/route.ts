@@ -0,0 +1,102 @@
+import { NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { authorize } from "@/lib/auth/policy";
+import { prisma } from "@/lib/prisma";
+import { deleteTag, renameTag } from "@/lib/books/taxonomy";
+import { tagSchema } from "@/lib/validations/taxonomy";
+
+// PATCH endpoint to rename a tag on every book carrying it
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize("category:manage");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const data = await request.json();
+
+    // Validate the request data
+    const validationResult = tagSchema.safeParse(data);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid data",
+          details: validationResult.error.format()
+        },
+        { status: 400 }
+      );
+    }
+
+    const existingTag = await prisma.tag.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existingTag) {
+      return NextResponse.json(
+        { error: "Tag not found" },
+        { status: 404 }
+      );
+    }
+
+    const result = await renameTag(params.id, validationResult.data.name, auth.user.id, request);
+
+    return NextResponse.json({
+      ...result,
+      message: "Tag renamed successfully",
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return NextResponse.json(
+        { error: "A tag with this name already exists; merge the tags instead" },
+        { status: 409 }
+      );
+    }
+
+    console.error("Failed to rename tag:", error);
+    return NextResponse.json(
+      { error: "Failed to rename tag" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE endpoint to remove a tag and take it off every book
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize("category:manage");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const existingTag = await prisma.tag.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existingTag) {
+      return NextResponse.json(
+        { error: "Tag not found" },
+        { status: 404 }
+      );
+    }
+
+    const booksUpdated = await deleteTag(params.id, auth.user.id, request);
+
+    return NextResponse.json({
+      booksUpdated,
+      message: "Tag deleted successfully",
+    });
+  } catch (error) {
+    console.error("Failed to delete tag:", error);
+    return NextResponse.json(
+      { error: "Failed to delete tag" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { authorize } from "@/lib/auth/policy";
+import { createTag, listTags } from "@/lib/books/taxonomy";
+import { tagSchema } from "@/lib/validations/taxonomy";
+
+// GET endpoint to list the tag vocabulary with book counts
+export async function GET() {
+  try {
+    const auth = await authorize("book:read");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const tags = await listTags();
+
+    return NextResponse.json({ tags });
+  } catch (error) {
+    console.error("Failed to fetch tags:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch tags" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST endpoint to add a tag
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize("category:manage");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const data = await request.json();
+
+    // Validate the request data
+    const validationResult = tagSchema.safeParse(data);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid data",
+          details: validationResult.error.format()
+        },
+        { status: 400 }
+      );
+    }
+
+    const tag = await createTag(validationResult.data.name, auth.user.id, request);
+
+    return NextResponse.json(tag, { status: 201 });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return NextResponse.json(
+        { error: "A tag with this name already exists" },
+        { status: 409 }
+      );
+    }
+
+    console.error("Failed to create tag:", error);
+    return NextResponse.json(
+      { error: "Failed to create tag" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,148 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/policy";
+import { prisma } from "@/lib/prisma";
+import { AuditAction, AuditEntityType, Prisma } from "@prisma/client";
+import { recordAuditEvent } from "@/lib/audit/events";
+import { findPolicyForScope } from "@/lib/circulation/policy";
+import { updateCirculationPolicySchema } from "@/lib/validations/circulation-policy";
+
+// PATCH endpoint to update a circulation policy
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize("circulation-policy:manage");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const data = await request.json();
+
+    // Validate the request data
+    const validationResult = updateCirculationPolicySchema.safeParse(data);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid data",
+          details: validationResult.error.format()
+        },
+        { status: 400 }
+      );
+    }
+
+    // Check if the policy exists
+    const existingPolicy = await prisma.circulationPolicy.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existingPolicy) {
+      return NextResponse.json(
+        { error: "Circulation policy not found" },
+        { status: 404 }
+      );
+    }
+
+    // A policy moved to another role/category must not collide with one already there
+    const role = validationResult.data.role === undefined ? existingPolicy.role : validationResult.data.role;
+    const category = validationResult.data.category === undefined
+      ? existingPolicy.category
+      : validationResult.data.category;
+
+    const policy = await prisma.$transaction(async (tx) => {
+      if (await findPolicyForScope(tx, { role, category }, params.id)) {
+        return null;
+      }
+
+      const updated = await tx.circulationPolicy.update({
+        where: { id: params.id },
+        data: validationResult.data,
+      });
+
+      await recordAuditEvent({
+        actorId: auth.user.id,
+        action: AuditAction.UPDATED,
+        entityType: AuditEntityType.CIRCULATION_POLICY,
+        entityId: updated.id,
+        before: existingPolicy,
+        after: updated,
+        request,
+      }, tx);
+
+      return updated;
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+    if (!policy) {
+      return NextResponse.json(
+        { error: "A policy for this role and category already exists" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(policy);
+  } catch (error) {
+    // P2034 is a serialization failure: a concurrent write to the same scope won
+    if (error instanceof Prisma.PrismaClientKnownRequestError && ["P2002", "P2034"].includes(error.code)) {
+      return NextResponse.json(
+        { error: "A policy for this role and category already exists" },
+        { status: 409 }
+      );
+    }
+
+    console.error("Failed to update circulation policy:", error);
+    return NextResponse.json(
+      { error: "Failed to update circulation policy" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE endpoint to remove a circulation policy
+// Loans already checked out keep their due date; fines fall back to the next matching policy
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize("circulation-policy:manage");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    // Check if the policy exists
+    const existingPolicy = await prisma.circulationPolicy.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existingPolicy) {
+      return NextResponse.json(
+        { error: "Circulation policy not found" },
+        { status: 404 }
+      );
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.circulationPolicy.delete({
+        where: { id: params.id },
+      });
+
+      await recordAuditEvent({
+        actorId: auth.user.id,
+        action: AuditAction.DELETED,
+        entityType: AuditEntityType.CIRCULATION_POLICY,
+        entityId: existingPolicy.id,
+        before: existingPolicy,
+        request,
+      }, tx);
+    });
+
+    return NextResponse.json({ message: "Circulation policy deleted successfully" });
+  } catch (error) {
+    console.error("Failed to delete circulation policy:", error);
+    return NextResponse.json(
+      { error: "Failed to delete circulation policy" },
+      { status: 500 }
+    );
+  }
+}
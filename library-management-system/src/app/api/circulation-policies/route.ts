@@ -0,0 +1,110 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/policy";
+import { prisma } from "@/lib/prisma";
+import { AuditAction, AuditEntityType, Prisma } from "@prisma/client";
+import { recordAuditEvent } from "@/lib/audit/events";
+import { DEFAULT_CIRCULATION_POLICY, findPolicyForScope } from "@/lib/circulation/policy";
+import { circulationPolicySchema } from "@/lib/validations/circulation-policy";
+
+// GET endpoint to list circulation policies
+export async function GET() {
+  try {
+    // Staff who handle loans can see the rules; only admins can change them
+    const auth = await authorize("circulation-policy:read");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const policies = await prisma.circulationPolicy.findMany({
+      orderBy: [{ role: "asc" }, { category: "asc" }, { name: "asc" }],
+    });
+
+    return NextResponse.json({
+      policies,
+      defaultPolicy: DEFAULT_CIRCULATION_POLICY,
+    });
+  } catch (error) {
+    console.error("Failed to list circulation policies:", error);
+    return NextResponse.json(
+      { error: "Failed to list circulation policies" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST endpoint to create a circulation policy
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize("circulation-policy:manage");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const data = await request.json();
+
+    // Validate the request data
+    const validationResult = circulationPolicySchema.safeParse(data);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid data",
+          details: validationResult.error.format()
+        },
+        { status: 400 }
+      );
+    }
+
+    const { role = null, category = null, ...policyData } = validationResult.data;
+
+    // Only one policy may target a given role/category combination; serializable so
+    // two requests for the same catch-all scope can't both pass the check
+    const policy = await prisma.$transaction(async (tx) => {
+      if (await findPolicyForScope(tx, { role, category })) {
+        return null;
+      }
+
+      const created = await tx.circulationPolicy.create({
+        data: {
+          ...policyData,
+          role,
+          category,
+        },
+      });
+
+      await recordAuditEvent({
+        actorId: auth.user.id,
+        action: AuditAction.CREATED,
+        entityType: AuditEntityType.CIRCULATION_POLICY,
+        entityId: created.id,
+        after: created,
+        request,
+      }, tx);
+
+      return created;
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+    if (!policy) {
+      return NextResponse.json(
+        { error: "A policy for this role and category already exists" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(policy, { status: 201 });
+  } catch (error) {
+    // P2034 is a serialization failure: a concurrent write to the same scope won
+    if (error instanceof Prisma.PrismaClientKnownRequestError && ["P2002", "P2034"].includes(error.code)) {
+      return NextResponse.json(
+        { error: "A policy for this role and category already exists" },
+        { status: 409 }
+      );
+    }
+
+    console.error("Failed to create circulation policy:", error);
+    return NextResponse.json(
+      { error: "Failed to create circulation policy" },
+      { status: 500 }
+    );
+  }
+}
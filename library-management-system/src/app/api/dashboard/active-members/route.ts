@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/policy";
+import { getActiveMemberComparison } from "@/lib/dashboard/stats";
+import { dashboardComparisonSchema } from "@/lib/validations/dashboard";
+
+/**
+ * GET /api/dashboard/active-members
+ * Members who borrowed in the current period (today by default) and the one before
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize("dashboard:read");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const validationResult = dashboardComparisonSchema.safeParse({
+      timeRange: request.nextUrl.searchParams.get("timeRange") || undefined,
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Invalid query parameters", details: validationResult.error.format() },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await getActiveMemberComparison(validationResult.data.timeRange));
+  } catch (error) {
+    console.error("Failed to load member statistics:", error);
+    return NextResponse.json(
+      { error: "Failed to load member statistics" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/policy";
+import { getActivities } from "@/lib/dashboard/stats";
+import { activityQuerySchema } from "@/lib/validations/dashboard";
+
+/**
+ * GET /api/dashboard/activities
+ * Recent checkouts, returns, overdue loans, reservations, new members and new books,
+ * newest first. `since` returns only what happened after that moment.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize("dashboard:read");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const validationResult = activityQuerySchema.safeParse({
+      page: searchParams.get("page") || 1,
+      limit: searchParams.get("limit") || 10,
+      type: searchParams.get("type") || undefined,
+      since: searchParams.get("since") || undefined,
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Invalid query parameters", details: validationResult.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { since, ...query } = validationResult.data;
+
+    return NextResponse.json(
+      await getActivities({ ...query, since: since ? new Date(since) : undefined })
+    );
+  } catch (error) {
+    console.error("Failed to load activity feed:", error);
+    return NextResponse.json(
+      { error: "Failed to load activity feed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/policy";
+import { getOverdueLoans } from "@/lib/dashboard/stats";
+
+/**
+ * GET /api/dashboard/overdue-books
+ * The most overdue loans, with the borrower's contact details
+ */
+export async function GET() {
+  try {
+    const auth = await authorize("dashboard:read");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    return NextResponse.json(await getOverdueLoans());
+  } catch (error) {
+    console.error("Failed to load overdue loans:", error);
+    return NextResponse.json(
+      { error: "Failed to load overdue loans" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/policy";
+import { getPopularBooks } from "@/lib/dashboard/stats";
+import { popularBooksQuerySchema } from "@/lib/validations/dashboard";
+
+/**
+ * GET /api/dashboard/popular-books
+ * Titles checked out most often in the period; open to members as well as staff
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize("dashboard:popular-books");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const validationResult = popularBooksQuerySchema.safeParse({
+      timeRange: request.nextUrl.searchParams.get("timeRange") || undefined,
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Invalid query parameters", details: validationResult.error.format() },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await getPopularBooks(validationResult.data.timeRange));
+  } catch (error) {
+    console.error("Failed to load popular books:", error);
+    return NextResponse.json(
+      { error: "Failed to load popular books" },
+      { status: 500 }
+    );
+  }
+}
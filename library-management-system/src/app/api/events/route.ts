@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/policy";
+import { canReceive, subscribe } from "@/lib/events/bus";
+
+// Comment line sent while idle so proxies don't close the connection
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/events
+ * Server-sent stream of checkouts, returns, reservations, holds ready for pickup
+ * and member status changes. Staff receive everyone's events, members their own.
+ */
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize("event:stream");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const encoder = new TextEncoder();
+    let stop = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const send = (chunk: string) => {
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch {
+            // The client went away between the check and the write
+            stop();
+          }
+        };
+
+        const unsubscribe = subscribe((event) => {
+          if (canReceive(auth.user, event)) {
+            send(`id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`);
+          }
+        });
+        const heartbeat = setInterval(() => send(": heartbeat\n\n"), HEARTBEAT_INTERVAL_MS);
+
+        stop = () => {
+          clearInterval(heartbeat);
+          unsubscribe();
+        };
+
+        request.signal.addEventListener("abort", () => {
+          stop();
+          try {
+            controller.close();
+          } catch {
+            // Already closed
+          }
+        });
+
+        // Tell the browser how long to wait before reconnecting
+        send("retry: 5000\n\n");
+      },
+      cancel() {
+        stop();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+        // Stop nginx from buffering the stream
+        "X-Accel-Buffering": "no",
+      },
+    });
+  } catch (error) {
+    console.error("Failed to open event stream:", error);
+    return NextResponse.json(
+      { error: "Failed to open event stream" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,17 +1,15 @@
 import { NextResponse } from 'next/server';
 import { deleteFile } from '@/lib/file-upload';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { authorize } from '@/lib/auth/policy';
 
 export async function DELETE(
   req: Request,
   { params }: { params: { path: string } }
 ) {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    const auth = await authorize('file:delete');
+    if (!auth.ok) {
+      return auth.response;
     }
     
     // Get the file path from the URL parameters
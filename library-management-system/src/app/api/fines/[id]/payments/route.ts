@@ -0,0 +1,140 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/policy";
+import { prisma } from "@/lib/prisma";
+import { z } from "zod";
+import { AuditAction, AuditEntityType, PaymentMethod } from "@prisma/client";
+import { recordAuditEvent } from "@/lib/audit/events";
+import {
+  getMemberFineBalance,
+  getOutstandingAmount,
+  OPEN_FINE_STATUSES,
+  recordFinePayment,
+} from "@/lib/circulation/fines";
+
+// Schema for validating payments
+const paymentSchema = z.object({
+  amount: z.number().positive({
+    message: "Payment amount must be greater than zero",
+  }),
+  method: z.nativeEnum(PaymentMethod).default(PaymentMethod.CASH),
+  reference: z.string().max(100).optional(),
+  notes: z.string().max(500).optional(),
+});
+
+// POST endpoint to record a full or partial payment against a fine
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize("fine:pay");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const data = await request.json();
+
+    // Validate the request data
+    const validationResult = paymentSchema.safeParse(data);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid data",
+          details: validationResult.error.format()
+        },
+        { status: 400 }
+      );
+    }
+
+    const { amount, method, reference, notes } = validationResult.data;
+
+    // Check if the fine exists and still has money owing
+    const fine = await prisma.fineCharge.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!fine) {
+      return NextResponse.json(
+        { error: "Fine not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!OPEN_FINE_STATUSES.includes(fine.status)) {
+      return NextResponse.json(
+        { error: `Cannot record a payment for a fine with status: ${fine.status}` },
+        { status: 409 }
+      );
+    }
+
+    const outstanding = getOutstandingAmount(fine);
+
+    if (amount > outstanding) {
+      return NextResponse.json(
+        {
+          error: `Payment of $${amount.toFixed(2)} exceeds the outstanding amount of $${outstanding.toFixed(2)}`,
+          outstanding,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Record the payment and update the fine in a single transaction
+    const result = await prisma.$transaction(async (tx) => {
+      const recorded = await recordFinePayment(tx, fine, {
+        amount,
+        method,
+        reference,
+        notes,
+        receivedById: auth.user.id,
+      });
+
+      if (!recorded) {
+        return null;
+      }
+
+      const { payment, fine: updatedFine } = recorded;
+
+      await recordAuditEvent({
+        actorId: auth.user.id,
+        action: AuditAction.PAYMENT_RECORDED,
+        entityType: AuditEntityType.FINE,
+        entityId: fine.id,
+        before: { status: fine.status, amountPaid: fine.amountPaid },
+        after: {
+          status: updatedFine.status,
+          amountPaid: updatedFine.amountPaid,
+          payment: { amount, method, reference },
+        },
+        reason: notes,
+        request,
+      }, tx);
+
+      return {
+        payment,
+        fine: {
+          ...updatedFine,
+          outstanding: getOutstandingAmount(updatedFine),
+        },
+        memberBalance: await getMemberFineBalance(tx, fine.userId),
+      };
+    });
+
+    // Another payment or waiver landed first; the outstanding amount may have changed
+    if (!result) {
+      return NextResponse.json(
+        { error: "This fine was updated by someone else. Reload it and try again." },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error("Failed to record fine payment:", error);
+    return NextResponse.json(
+      { error: "Failed to record fine payment" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, can, forbidden } from "@/lib/auth/policy";
+import { prisma } from "@/lib/prisma";
+import { getOutstandingAmount } from "@/lib/circulation/fines";
+
+// GET endpoint to retrieve a fine with its payments
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize("fine:read");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const fine = await prisma.fineCharge.findUnique({
+      where: { id: params.id },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+        transaction: {
+          select: {
+            id: true,
+            checkoutDate: true,
+            dueDate: true,
+            returnDate: true,
+            book: {
+              select: {
+                id: true,
+                title: true,
+                author: true,
+              },
+            },
+          },
+        },
+        payments: {
+          orderBy: { createdAt: "asc" },
+          include: {
+            receivedBy: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
+          },
+        },
+        waivedBy: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+    });
+
+    if (!fine) {
+      return NextResponse.json(
+        { error: "Fine not found" },
+        { status: 404 }
+      );
+    }
+
+    // Members can only view their own fines
+    if (!can(auth.user, "fine:read", { ownerId: fine.userId })) {
+      return forbidden("fine:read");
+    }
+
+    return NextResponse.json({
+      ...fine,
+      outstanding: getOutstandingAmount(fine),
+    });
+  } catch (error) {
+    console.error("Failed to fetch fine details:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch fine details" },
+      { status: 500 }
+    );
+  }
+}
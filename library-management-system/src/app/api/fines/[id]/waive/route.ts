@@ -0,0 +1,132 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/policy";
+import { prisma } from "@/lib/prisma";
+import { z } from "zod";
+import { AuditAction, AuditEntityType } from "@prisma/client";
+import { recordAuditEvent } from "@/lib/audit/events";
+import {
+  getMemberFineBalance,
+  getOutstandingAmount,
+  OPEN_FINE_STATUSES,
+  waiveFine,
+} from "@/lib/circulation/fines";
+
+// Schema for validating waivers
+const waiverSchema = z.object({
+  reason: z.string().trim().min(3, {
+    message: "A reason is required to waive a fine",
+  }).max(500),
+  // Defaults to the full outstanding amount
+  amount: z.number().positive({
+    message: "Waiver amount must be greater than zero",
+  }).optional(),
+});
+
+// POST endpoint to waive all or part of a fine
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize("fine:waive");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const data = await request.json();
+
+    // Validate the request data
+    const validationResult = waiverSchema.safeParse(data);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid data",
+          details: validationResult.error.format()
+        },
+        { status: 400 }
+      );
+    }
+
+    const { reason } = validationResult.data;
+
+    // Check if the fine exists and still has money owing
+    const fine = await prisma.fineCharge.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!fine) {
+      return NextResponse.json(
+        { error: "Fine not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!OPEN_FINE_STATUSES.includes(fine.status)) {
+      return NextResponse.json(
+        { error: `Cannot waive a fine with status: ${fine.status}` },
+        { status: 409 }
+      );
+    }
+
+    const outstanding = getOutstandingAmount(fine);
+    const amount = validationResult.data.amount ?? outstanding;
+
+    if (amount > outstanding) {
+      return NextResponse.json(
+        {
+          error: `Waiver of $${amount.toFixed(2)} exceeds the outstanding amount of $${outstanding.toFixed(2)}`,
+          outstanding,
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const updatedFine = await waiveFine(tx, fine, {
+        amount,
+        reason,
+        waivedById: auth.user.id,
+      });
+
+      if (!updatedFine) {
+        return null;
+      }
+
+      await recordAuditEvent({
+        actorId: auth.user.id,
+        action: AuditAction.WAIVED,
+        entityType: AuditEntityType.FINE,
+        entityId: fine.id,
+        before: fine,
+        after: updatedFine,
+        reason,
+        request,
+      }, tx);
+
+      return {
+        fine: {
+          ...updatedFine,
+          outstanding: getOutstandingAmount(updatedFine),
+        },
+        memberBalance: await getMemberFineBalance(tx, fine.userId),
+      };
+    });
+
+    // Another payment or waiver landed first; the outstanding amount may have changed
+    if (!result) {
+      return NextResponse.json(
+        { error: "This fine was updated by someone else. Reload it and try again." },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Failed to waive fine:", error);
+    return NextResponse.json(
+      { error: "Failed to waive fine" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, getOwnerScope } from "@/lib/auth/policy";
+import { prisma } from "@/lib/prisma";
+import { z } from "zod";
+import { FineStatus, FineType, Prisma } from "@prisma/client";
+import { getOutstandingAmount } from "@/lib/circulation/fines";
+
+// Schema for filtering fines
+const fineFilterSchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(10),
+  userId: z.string().uuid().optional(),
+  status: z.nativeEnum(FineStatus).optional(),
+  type: z.nativeEnum(FineType).optional(),
+});
+
+// GET endpoint to list fines with filtering and pagination
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize("fine:read");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    // Parse URL search params for filtering and pagination
+    const searchParams = request.nextUrl.searchParams;
+    const validationResult = fineFilterSchema.safeParse({
+      page: searchParams.get("page") || 1,
+      limit: searchParams.get("limit") || 10,
+      userId: searchParams.get("userId") || undefined,
+      status: searchParams.get("status") || undefined,
+      type: searchParams.get("type") || undefined,
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid filter parameters",
+          details: validationResult.error.format()
+        },
+        { status: 400 }
+      );
+    }
+
+    const { page, limit, userId, status, type } = validationResult.data;
+    const skip = (page - 1) * limit;
+
+    // Staff can see every member's fines; members only see their own
+    const where: Prisma.FineChargeWhereInput = {};
+
+    const ownerScope = getOwnerScope(auth.user, "fine:read");
+    if (ownerScope || userId) {
+      where.userId = ownerScope ?? userId;
+    }
+
+    if (status) {
+      where.status = status;
+    }
+
+    if (type) {
+      where.type = type;
+    }
+
+    const totalCount = await prisma.fineCharge.count({ where });
+
+    const fines = await prisma.fineCharge.findMany({
+      where,
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+        transaction: {
+          select: {
+            id: true,
+            checkoutDate: true,
+            dueDate: true,
+            returnDate: true,
+            book: {
+              select: {
+                id: true,
+                title: true,
+                author: true,
+              },
+            },
+          },
+        },
+      },
+      orderBy: {
+        createdAt: "desc",
+      },
+      skip,
+      take: limit,
+    });
+
+    return NextResponse.json({
+      fines: fines.map((fine) => ({
+        ...fine,
+        outstanding: getOutstandingAmount(fine),
+      })),
+      pagination: {
+        total: totalCount,
+        page,
+        limit,
+        totalPages: Math.ceil(totalCount / limit),
+      },
+    });
+  } catch (error) {
+    console.error("Failed to list fines:", error);
+    return NextResponse.json(
+      { error: "Failed to list fines" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/policy";
+import { prisma } from "@/lib/prisma";
+import { getNextScheduledRun } from "@/lib/jobs/queue";
+import { updateScheduledJobSchema } from "@/lib/validations/jobs";
+
+// PATCH endpoint to pause/resume a job or change its schedule
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize("job:manage");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const data = await request.json();
+
+    // Validate the request data
+    const validationResult = updateScheduledJobSchema.safeParse(data);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid data",
+          details: validationResult.error.format()
+        },
+        { status: 400 }
+      );
+    }
+
+    // Check if the job exists
+    const existingJob = await prisma.scheduledJob.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existingJob) {
+      return NextResponse.json(
+        { error: "Job not found" },
+        { status: 404 }
+      );
+    }
+
+    const updated = { ...existingJob, ...validationResult.data };
+
+    const job = await prisma.scheduledJob.update({
+      where: { id: params.id },
+      data: {
+        ...validationResult.data,
+        // Paused jobs have no next run; resuming or rescheduling starts from now
+        nextRunAt: getNextScheduledRun(updated),
+      },
+    });
+
+    return NextResponse.json(job);
+  } catch (error) {
+    console.error("Failed to update background job:", error);
+    return NextResponse.json(
+      { error: "Failed to update background job" },
+      { status: 500 }
+    );
+  }
+}
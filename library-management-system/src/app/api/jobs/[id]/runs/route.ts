@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/policy";
+import { prisma } from "@/lib/prisma";
+import { JobTrigger } from "@prisma/client";
+import { enqueueJobRun } from "@/lib/jobs/queue";
+import { wakeJobScheduler } from "@/lib/jobs/scheduler";
+import { jobRunHistorySchema } from "@/lib/validations/jobs";
+
+// GET endpoint to page through a job's run history
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize("job:manage");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const validationResult = jobRunHistorySchema.safeParse({
+      page: searchParams.get("page") || 1,
+      limit: searchParams.get("limit") || 20,
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid filter parameters",
+          details: validationResult.error.format()
+        },
+        { status: 400 }
+      );
+    }
+
+    const { page, limit } = validationResult.data;
+
+    const [total, runs] = await Promise.all([
+      prisma.jobRun.count({ where: { jobId: params.id } }),
+      prisma.jobRun.findMany({
+        where: { jobId: params.id },
+        include: {
+          triggeredBy: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
+          },
+        },
+        orderBy: { queuedAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+    ]);
+
+    return NextResponse.json({
+      runs,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error("Failed to list job runs:", error);
+    return NextResponse.json(
+      { error: "Failed to list job runs" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST endpoint to queue a manual run of a job
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize("job:manage");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const job = await prisma.scheduledJob.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!job) {
+      return NextResponse.json(
+        { error: "Job not found" },
+        { status: 404 }
+      );
+    }
+
+    const run = await enqueueJobRun(job.name, {
+      trigger: JobTrigger.MANUAL,
+      triggeredById: auth.user.id,
+    });
+
+    wakeJobScheduler();
+
+    return NextResponse.json({ run }, { status: 202 });
+  } catch (error) {
+    console.error("Failed to queue job run:", error);
+    return NextResponse.json(
+      { error: "Failed to queue job run" },
+      { status: 500 }
+    );
+  }
+}
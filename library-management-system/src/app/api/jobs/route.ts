@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/policy";
+import { prisma } from "@/lib/prisma";
+import { syncJobDefinitions } from "@/lib/jobs/queue";
+
+// GET endpoint to list background jobs with their latest run
+export async function GET() {
+  try {
+    const auth = await authorize("job:manage");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    // Make sure jobs added in code show up even if no scheduler has started yet
+    await syncJobDefinitions();
+
+    const jobs = await prisma.scheduledJob.findMany({
+      orderBy: { name: "asc" },
+      include: {
+        runs: {
+          orderBy: { queuedAt: "desc" },
+          take: 1,
+        },
+      },
+    });
+
+    return NextResponse.json({
+      jobs: jobs.map(({ runs, ...job }) => ({
+        ...job,
+        lastRun: runs[0] ?? null,
+      })),
+    });
+  } catch (error) {
+    console.error("Failed to list background jobs:", error);
+    return NextResponse.json(
+      { error: "Failed to list background jobs" },
+      { status: 500 }
+    );
+  }
+}
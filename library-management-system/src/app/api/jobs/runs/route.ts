@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/policy";
+import { prisma } from "@/lib/prisma";
+
+// GET endpoint to check on specific runs, e.g. ones just queued from the notifications page
+export async function GET(request: NextRequest) {
+  try {
+    // Librarians can queue notification runs, so they can also follow them
+    const auth = await authorize("job-run:read");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const ids = (request.nextUrl.searchParams.get("ids") || "")
+      .split(",")
+      .map((id) => id.trim())
+      .filter(Boolean);
+
+    if (ids.length === 0 || ids.length > 50) {
+      return NextResponse.json(
+        { error: "Provide between 1 and 50 run ids" },
+        { status: 400 }
+      );
+    }
+
+    const runs = await prisma.jobRun.findMany({
+      where: { id: { in: ids } },
+      include: {
+        job: {
+          select: { name: true },
+        },
+      },
+    });
+
+    return NextResponse.json({ runs });
+  } catch (error) {
+    console.error("Failed to fetch job runs:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch job runs" },
+      { status: 500 }
+    );
+  }
+}
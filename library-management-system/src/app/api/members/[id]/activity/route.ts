@@ -1,9 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth-options";
+import { authorize } from "@/lib/auth/policy";
 import { prisma } from "@/lib/prisma";
 import { z } from "zod";
-import { Permission } from "@/lib/auth/rbac/types";
 
 // Schema for activity query parameters
 const activityQuerySchema = z.object({
@@ -22,17 +20,10 @@ export async function GET(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions);
-
-    // Check if user is authenticated and has appropriate permissions
-    const isOwnProfile = session?.user?.id === params.id;
-    const canViewAnyUser = session?.user?.permissions?.includes(Permission.USER_READ);
-    
-    if (!session?.user || (!isOwnProfile && !canViewAnyUser)) {
-      return NextResponse.json(
-        { error: "You don't have permission to view this activity" },
-        { status: 403 }
-      );
+    // Users can see their own activity, staff can see anyone's
+    const auth = await authorize("member:activity", { ownerId: params.id });
+    if (!auth.ok) {
+      return auth.response;
     }
 
     const memberId = params.id;
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/policy";
+import { prisma } from "@/lib/prisma";
+import { anonymizeMember } from "@/lib/members/personal-data";
+
+// POST endpoint to erase a member's personal data, keeping their loan and fine history anonymized
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize("member:delete");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const member = await prisma.user.findUnique({
+      where: { id: params.id },
+      select: { id: true },
+    });
+
+    if (!member) {
+      return NextResponse.json(
+        { error: "Member not found" },
+        { status: 404 }
+      );
+    }
+
+    const blockers = await anonymizeMember(member.id, auth.user.id, request);
+
+    if (blockers.length > 0) {
+      return NextResponse.json(
+        {
+          error: `Cannot anonymize this member: ${blockers.map((blocker) => blocker.message).join("; ")}`,
+          blockers,
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Member's personal data has been erased",
+    });
+  } catch (error) {
+    console.error("Failed to anonymize member:", error);
+    return NextResponse.json(
+      { error: "Failed to anonymize member" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/policy";
+import { prisma } from "@/lib/prisma";
+import { recordAuditEvent } from "@/lib/audit/events";
+import { getMembershipStatus, renewLibraryCard } from "@/lib/members/library-card";
+import { AuditAction, AuditEntityType } from "@prisma/client";
+
+// POST endpoint to renew a member's library card, issuing one if they don't have a card yet
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize("member:update");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const member = await prisma.user.findUnique({
+      where: { id: params.id },
+      select: { id: true, status: true, membershipNumber: true, membershipExpiresAt: true },
+    });
+
+    if (!member) {
+      return NextResponse.json(
+        { error: "Member not found" },
+        { status: 404 }
+      );
+    }
+
+    const card = await prisma.$transaction(async (tx) => {
+      const renewed = await renewLibraryCard(tx, member.id);
+
+      await recordAuditEvent({
+        actorId: auth.user.id,
+        action: AuditAction.RENEWED,
+        entityType: AuditEntityType.MEMBER,
+        entityId: member.id,
+        before: {
+          membershipNumber: member.membershipNumber,
+          membershipExpiresAt: member.membershipExpiresAt,
+        },
+        after: renewed,
+        request,
+      }, tx);
+
+      return renewed;
+    });
+
+    return NextResponse.json({
+      ...card,
+      membershipStatus: getMembershipStatus({ status: member.status, ...card }),
+      message: member.membershipNumber
+        ? "Library card renewed"
+        : "Library card issued",
+    });
+  } catch (error) {
+    console.error("Failed to renew library card:", error);
+    return NextResponse.json(
+      { error: "Failed to renew library card" },
+      { status: 500 }
+    );
+  }
+}
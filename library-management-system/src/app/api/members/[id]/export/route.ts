@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/policy";
+import { getPersonalDataExport } from "@/lib/members/personal-data";
+
+// GET endpoint to download everything the library holds about a member, e.g. for a data access request
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize("member:export");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const data = await getPersonalDataExport(params.id);
+
+    if (!data) {
+      return NextResponse.json(
+        { error: "Member not found" },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(JSON.stringify(data, null, 2), {
+      headers: {
+        "Content-Type": "application/json",
+        "Content-Disposition": `attachment; filename="member-data-${params.id}.json"`,
+      },
+    });
+  } catch (error) {
+    console.error("Failed to export member data:", error);
+    return NextResponse.json(
+      { error: "Failed to export member data" },
+      { status: 500 }
+    );
+  }
+}
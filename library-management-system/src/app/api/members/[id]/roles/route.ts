@@ -0,0 +1,124 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/policy";
+import { prisma } from "@/lib/prisma";
+import { getUserRoles } from "@/lib/auth/rbac/auth-utils";
+import { getRoleChangeHistory, setUserRoles } from "@/lib/auth/rbac/role-management";
+import { userRolesSchema } from "@/lib/validations/role";
+
+// GET endpoint to fetch a member's roles, the roles that can be assigned and recent changes
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize("role:manage");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const member = await prisma.user.findUnique({
+      where: { id: params.id },
+      select: { id: true, role: true },
+    });
+
+    if (!member) {
+      return NextResponse.json(
+        { error: "Member not found" },
+        { status: 404 }
+      );
+    }
+
+    const [roles, availableRoles, history] = await Promise.all([
+      getUserRoles(member.id),
+      prisma.role.findMany({
+        select: { name: true, description: true, isSystem: true },
+        orderBy: [{ isSystem: "desc" }, { name: "asc" }],
+      }),
+      getRoleChangeHistory({ userId: member.id }, 10),
+    ]);
+
+    return NextResponse.json({
+      primaryRole: member.role,
+      roles,
+      availableRoles,
+      history,
+    });
+  } catch (error) {
+    console.error("Failed to fetch member roles:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch member roles" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT endpoint to replace the roles assigned to a member
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize("role:manage");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const data = await request.json();
+
+    // Validate the request data
+    const validationResult = userRolesSchema.safeParse(data);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid data",
+          details: validationResult.error.format()
+        },
+        { status: 400 }
+      );
+    }
+
+    const { roles } = validationResult.data;
+
+    const member = await prisma.user.findUnique({
+      where: { id: params.id },
+      select: { id: true },
+    });
+
+    if (!member) {
+      return NextResponse.json(
+        { error: "Member not found" },
+        { status: 404 }
+      );
+    }
+
+    const existingRoles = await prisma.role.findMany({
+      where: { name: { in: roles } },
+      select: { name: true },
+    });
+    const unknownRoles = roles.filter((role) => !existingRoles.some((existing) => existing.name === role));
+
+    if (unknownRoles.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown role: ${unknownRoles.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const changes = await setUserRoles(member.id, roles, auth.user.id, request);
+
+    return NextResponse.json({
+      ...changes,
+      roles: await getUserRoles(member.id),
+      message: changes.added.length || changes.removed.length
+        ? "Roles updated. The member will need to sign in again."
+        : "No changes to save",
+    });
+  } catch (error) {
+    console.error("Failed to update member roles:", error);
+    return NextResponse.json(
+      { error: "Failed to update member roles" },
+      { status: 500 }
+    );
+  }
+}
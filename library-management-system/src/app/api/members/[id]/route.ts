@@ -1,10 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth-options";
+import { authorize } from "@/lib/auth/policy";
 import { prisma } from "@/lib/prisma";
 import { z } from "zod";
-import { Permission } from "@/lib/auth/rbac/types";
-import { UserStatus } from "@prisma/client";
+import { revokeUserSessions } from "@/lib/auth/session-revocation";
+import { recordAuditEvent } from "@/lib/audit/events";
+import { AuditAction, AuditEntityType, UserStatus } from "@prisma/client";
+import { getMemberFineBalance } from "@/lib/circulation/fines";
+import { getMembershipStatus } from "@/lib/members/library-card";
+import { publishMemberStatusChanged } from "@/lib/events/circulation";
 
 // Schema for validating member updates
 const memberUpdateSchema = z.object({
@@ -31,14 +34,9 @@ export async function GET(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions);
-
-    // Check if user is authenticated and has permission to read users
-    if (!session?.user?.permissions?.includes(Permission.USER_READ)) {
-      return NextResponse.json(
-        { error: "You don't have permission to view member details" },
-        { status: 403 }
-      );
+    const auth = await authorize("member:read");
+    if (!auth.ok) {
+      return auth.response;
     }
 
     const memberId = params.id;
@@ -54,6 +52,8 @@ export async function GET(
         address: true,
         status: true,
         role: true,
+        membershipNumber: true,
+        membershipExpiresAt: true,
         createdAt: true,
         updatedAt: true,
         // Include borrowing history with pagination (most recent first)
@@ -124,11 +124,13 @@ export async function GET(
     // Add activity summary to the response
     const memberWithMetrics = {
       ...member,
+      membershipStatus: getMembershipStatus(member),
       activitySummary: {
         activeTransactions,
         activeReservations,
         totalTransactions: await prisma.transaction.count({ where: { userId: memberId } }),
         totalReservations: await prisma.reservation.count({ where: { userId: memberId } }),
+        fineBalance: await getMemberFineBalance(prisma, memberId),
       }
     };
 
@@ -148,14 +150,9 @@ export async function PATCH(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions);
-
-    // Check if user is authenticated and has permission to update users
-    if (!session?.user?.permissions?.includes(Permission.USER_UPDATE)) {
-      return NextResponse.json(
-        { error: "You don't have permission to update members" },
-        { status: 403 }
-      );
+    const auth = await authorize("member:update");
+    if (!auth.ok) {
+      return auth.response;
     }
 
     const memberId = params.id;
@@ -177,7 +174,7 @@ export async function PATCH(
     // Check if the member exists
     const existingMember = await prisma.user.findUnique({
       where: { id: memberId },
-      select: { id: true, role: true },
+      select: { id: true, name: true, phoneNumber: true, address: true, role: true, status: true },
     });
     
     if (!existingMember) {
@@ -211,6 +208,25 @@ export async function PATCH(
         updatedAt: true,
       },
     });
+
+    // Sign the member out everywhere so a status change applies immediately
+    if (status && status !== existingMember.status) {
+      await revokeUserSessions(memberId);
+    }
+
+    await recordAuditEvent({
+      actorId: auth.user.id,
+      action: AuditAction.UPDATED,
+      entityType: AuditEntityType.MEMBER,
+      entityId: memberId,
+      before: existingMember,
+      after: updatedMember,
+      request,
+    });
+
+    if (status && status !== existingMember.status) {
+      publishMemberStatusChanged(updatedMember);
+    }
     
     return NextResponse.json(updatedMember);
   } catch (error) {
@@ -228,14 +244,9 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions);
-
-    // Check if user is authenticated and has permission to delete users
-    if (!session?.user?.permissions?.includes(Permission.USER_DELETE)) {
-      return NextResponse.json(
-        { error: "You don't have permission to delete members" },
-        { status: 403 }
-      );
+    const auth = await authorize("member:delete");
+    if (!auth.ok) {
+      return auth.response;
     }
 
     const memberId = params.id;
@@ -245,6 +256,9 @@ export async function DELETE(
       where: { id: memberId },
       select: { 
         id: true,
+        email: true,
+        status: true,
+        deletedAt: true,
         transactions: {
           where: {
             status: {
@@ -294,6 +308,24 @@ export async function DELETE(
         email: `deleted-${memberId}-${new Date().getTime()}@deleted.com`, // Prevent email reuse
       },
     });
+
+    await recordAuditEvent({
+      actorId: auth.user.id,
+      action: AuditAction.DELETED,
+      entityType: AuditEntityType.MEMBER,
+      entityId: memberId,
+      before: {
+        email: existingMember.email,
+        status: existingMember.status,
+        deletedAt: existingMember.deletedAt,
+      },
+      after: {
+        email: deletedMember.email,
+        status: deletedMember.status,
+        deletedAt: deletedMember.deletedAt,
+      },
+      request,
+    });
     
     return NextResponse.json(
       { success: true, message: "Member successfully deleted" },
@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth-options";
+import { authorize } from "@/lib/auth/policy";
 import { prisma } from "@/lib/prisma";
 import { z } from "zod";
-import { Permission } from "@/lib/auth/rbac/types";
-import { UserStatus } from "@prisma/client";
+import { revokeUserSessions } from "@/lib/auth/session-revocation";
+import { recordAuditEvent } from "@/lib/audit/events";
+import { publishMemberStatusChanged } from "@/lib/events/circulation";
+import { AuditAction, AuditEntityType, UserStatus } from "@prisma/client";
 
 // Schema for status update
 const statusUpdateSchema = z.object({
@@ -18,14 +19,9 @@ export async function PATCH(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions);
-
-    // Check if user is authenticated and has permission to update users
-    if (!session?.user?.permissions?.includes(Permission.USER_UPDATE)) {
-      return NextResponse.json(
-        { error: "You don't have permission to update member status" },
-        { status: 403 }
-      );
+    const auth = await authorize("member:update");
+    if (!auth.ok) {
+      return auth.response;
     }
 
     const memberId = params.id;
@@ -99,15 +95,26 @@ export async function PATCH(
         updatedAt: true,
       },
     });
+
+    // Sign the member out everywhere so the new status applies immediately
+    if (status !== existingMember.status) {
+      await revokeUserSessions(memberId);
+    }
     
-    // Log the status change for audit purposes
-    await prisma.$executeRaw`
-      INSERT INTO member_status_logs (member_id, previous_status, new_status, reason, changed_by)
-      VALUES (${memberId}, ${existingMember.status}, ${status}, ${reason || null}, ${session.user.id})
-    `.catch(error => {
-      // If the table doesn't exist yet, we'll just log this (table to be created in future migration)
-      console.warn("Could not log status change:", error);
+    await recordAuditEvent({
+      actorId: auth.user.id,
+      action: AuditAction.STATUS_CHANGED,
+      entityType: AuditEntityType.MEMBER,
+      entityId: memberId,
+      before: { status: existingMember.status },
+      after: { status },
+      reason,
+      request,
     });
+
+    if (status !== existingMember.status) {
+      publishMemberStatusChanged(updatedMember);
+    }
     
     return NextResponse.json({
       ...updatedMember,
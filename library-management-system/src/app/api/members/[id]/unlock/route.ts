@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/policy";
+import { prisma } from "@/lib/prisma";
+import { unlockAccount } from "@/lib/auth/login-throttle";
+import { recordAuditEvent } from "@/lib/audit/events";
+import { AuditAction, AuditEntityType } from "@prisma/client";
+
+// POST endpoint to lift a sign-in lockout on a member's account
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize("member:update");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const member = await prisma.user.findUnique({
+      where: { id: params.id },
+      select: { id: true, email: true },
+    });
+
+    if (!member) {
+      return NextResponse.json(
+        { error: "Member not found" },
+        { status: 404 }
+      );
+    }
+
+    const unlocked = await unlockAccount(member.email);
+
+    if (unlocked) {
+      await recordAuditEvent({
+        actorId: auth.user.id,
+        action: AuditAction.UNLOCKED,
+        entityType: AuditEntityType.MEMBER,
+        entityId: member.id,
+        request,
+      });
+    }
+
+    return NextResponse.json({
+      unlocked,
+      message: unlocked
+        ? "Account unlocked"
+        : "Account was not locked",
+    });
+  } catch (error) {
+    console.error("Failed to unlock member account:", error);
+    return NextResponse.json(
+      { error: "Failed to unlock member account" },
+      { status: 500 }
+    );
+  }
+}
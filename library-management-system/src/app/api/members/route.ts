@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth-options";
+import { authorize } from "@/lib/auth/policy";
+import { normalizeEmail } from "@/lib/auth/email-address";
 import { prisma } from "@/lib/prisma";
+import { recordAuditEvent } from "@/lib/audit/events";
+import { getMembershipStatus, issueLibraryCard } from "@/lib/members/library-card";
 import { z } from "zod";
-import { Permission } from "@/lib/auth/rbac/types";
-import { UserRole, UserStatus } from "@prisma/client";
+import { AuditAction, AuditEntityType, UserRole, UserStatus } from "@prisma/client";
 
 // Schema for validating member creation
 const memberCreateSchema = z.object({
@@ -32,6 +33,8 @@ const memberFilterSchema = z.object({
   page: z.coerce.number().int().positive().default(1),
   limit: z.coerce.number().int().positive().max(100).default(10),
   search: z.string().optional(),
+  // Exact card number, e.g. from a barcode scanner
+  membershipNumber: z.string().max(20).optional(),
   status: z.nativeEnum(UserStatus).optional(),
   sortBy: z.enum(['name', 'email', 'createdAt', 'status']).default('createdAt'),
   sortOrder: z.enum(['asc', 'desc']).default('desc'),
@@ -40,14 +43,9 @@ const memberFilterSchema = z.object({
 // GET endpoint to list all members with pagination, filtering, and sorting
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
-
-    // Check if user is authenticated and has permission to read users
-    if (!session?.user?.permissions?.includes(Permission.USER_READ)) {
-      return NextResponse.json(
-        { error: "You don't have permission to view members" },
-        { status: 403 }
-      );
+    const auth = await authorize("member:read");
+    if (!auth.ok) {
+      return auth.response;
     }
 
     // Parse URL search params for filtering and pagination
@@ -56,12 +54,13 @@ export async function GET(request: NextRequest) {
       page: searchParams.get('page') || 1,
       limit: searchParams.get('limit') || 10,
       search: searchParams.get('search') || undefined,
+      membershipNumber: searchParams.get('membershipNumber') || undefined,
       status: searchParams.get('status') || undefined,
       sortBy: searchParams.get('sortBy') || 'createdAt',
       sortOrder: searchParams.get('sortOrder') || 'desc',
     });
 
-    const { page, limit, search, status, sortBy, sortOrder } = validatedParams;
+    const { page, limit, search, membershipNumber, status, sortBy, sortOrder } = validatedParams;
     const skip = (page - 1) * limit;
 
     // Build the filter object for prisma query
@@ -75,9 +74,15 @@ export async function GET(request: NextRequest) {
       where.OR = [
         { name: { contains: search, mode: 'insensitive' } },
         { email: { contains: search, mode: 'insensitive' } },
+        { membershipNumber: { contains: search, mode: 'insensitive' } },
       ];
     }
 
+    // Card lookups match one member exactly
+    if (membershipNumber) {
+      where.membershipNumber = membershipNumber.toUpperCase();
+    }
+
     // Add status filter if provided
     if (status) {
       where.status = status;
@@ -96,6 +101,8 @@ export async function GET(request: NextRequest) {
         phoneNumber: true,
         address: true,
         status: true,
+        membershipNumber: true,
+        membershipExpiresAt: true,
         createdAt: true,
         updatedAt: true,
         // Include borrowing activity statistics
@@ -131,6 +138,7 @@ export async function GET(request: NextRequest) {
     // Transform the results to include activity counts
     const transformedMembers = members.map(member => ({
       ...member,
+      membershipStatus: getMembershipStatus(member),
       activeBorrowingsCount: member.transactions.length,
       activeReservationsCount: member.reservations.length,
       // Remove the raw relationship data
@@ -159,14 +167,9 @@ export async function GET(request: NextRequest) {
 // POST endpoint to create a new member
 export async function POST(request: Request) {
   try {
-    const session = await getServerSession(authOptions);
-
-    // Check if user is authenticated and has permission to create users
-    if (!session?.user?.permissions?.includes(Permission.USER_CREATE)) {
-      return NextResponse.json(
-        { error: "You don't have permission to create members" },
-        { status: 403 }
-      );
+    const auth = await authorize("member:create");
+    if (!auth.ok) {
+      return auth.response;
     }
 
     const data = await request.json();
@@ -185,7 +188,8 @@ export async function POST(request: Request) {
     }
     
     // Extract validated data
-    const { email, name, phoneNumber, address, password } = validationResult.data;
+    const { name, phoneNumber, address, password } = validationResult.data;
+    const email = normalizeEmail(validationResult.data.email);
     
     // Check if email already exists
     const existingUser = await prisma.user.findUnique({
@@ -213,6 +217,7 @@ export async function POST(request: Request) {
         address: address || null,
         role: UserRole.MEMBER,
         status: UserStatus.ACTIVE,
+        ...(await issueLibraryCard(prisma)),
       },
       select: {
         id: true,
@@ -222,6 +227,8 @@ export async function POST(request: Request) {
         address: true,
         status: true,
         role: true,
+        membershipNumber: true,
+        membershipExpiresAt: true,
         createdAt: true,
       },
     });
@@ -233,6 +240,15 @@ export async function POST(request: Request) {
         role: UserRole.MEMBER,
       }
     });
+
+    await recordAuditEvent({
+      actorId: auth.user.id,
+      action: AuditAction.CREATED,
+      entityType: AuditEntityType.MEMBER,
+      entityId: newMember.id,
+      after: newMember,
+      request,
+    });
     
     return NextResponse.json(newMember, { status: 201 });
   } catch (error) {
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/policy';
+import { prisma } from '@/lib/prisma';
+import { EmailService } from '@/lib/email/service';
+
+/**
+ * POST /api/notifications/outbox/[id]/resend
+ * Sends a logged email again as a new outbox entry
+ * Requires the TRANSACTION_UPDATE permission
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize('notification:manage');
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const email = await prisma.emailLog.findUnique({
+      where: { id: params.id },
+      select: { id: true, htmlContent: true },
+    });
+
+    if (!email) {
+      return NextResponse.json(
+        { error: 'Email not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!email.htmlContent) {
+      return NextResponse.json(
+        { error: 'This email has no stored content and cannot be resent' },
+        { status: 409 }
+      );
+    }
+
+    const emailService = new EmailService();
+    const result = await emailService.resendEmail(email.id);
+
+    if (!result.success) {
+      // The new entry is in the outbox as FAILED and will be picked up by the retry job
+      return NextResponse.json(
+        {
+          error: 'Failed to resend email',
+          id: result.id,
+          details: result.error instanceof Error ? result.error.message : String(result.error),
+        },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({ success: true, id: result.id });
+  } catch (error) {
+    console.error('Error resending email:', error);
+    return NextResponse.json(
+      { error: 'Failed to resend email', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
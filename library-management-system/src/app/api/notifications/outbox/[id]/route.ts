@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/policy';
+import { prisma } from '@/lib/prisma';
+
+/**
+ * GET /api/notifications/outbox/[id]
+ * Gets a logged email including its rendered content for preview
+ * Requires the TRANSACTION_UPDATE permission
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize('notification:manage');
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const email = await prisma.emailLog.findUnique({
+      where: { id: params.id },
+      include: {
+        transaction: {
+          select: {
+            id: true,
+            book: { select: { title: true } },
+          },
+        },
+        reservation: {
+          select: {
+            id: true,
+            book: { select: { title: true } },
+          },
+        },
+      },
+    });
+
+    if (!email) {
+      return NextResponse.json(
+        { error: 'Email not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ email });
+  } catch (error) {
+    console.error('Error fetching email:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch email', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/policy';
+import { prisma } from '@/lib/prisma';
+import { EmailStatus, Prisma } from '@prisma/client';
+import { z } from 'zod';
+
+// Schema for filtering the outbox
+const outboxFilterSchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+  status: z.nativeEnum(EmailStatus).optional(),
+  template: z.string().optional(),
+  search: z.string().optional(),
+});
+
+/**
+ * GET /api/notifications/outbox
+ * Lists logged emails with status/template/recipient filters
+ * Requires the TRANSACTION_UPDATE permission
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize('notification:manage');
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    // Parse and validate query parameters
+    const searchParams = request.nextUrl.searchParams;
+    const validationResult = outboxFilterSchema.safeParse({
+      page: searchParams.get('page') || 1,
+      limit: searchParams.get('limit') || 20,
+      status: searchParams.get('status') || undefined,
+      template: searchParams.get('template') || undefined,
+      search: searchParams.get('search') || undefined,
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid filter parameters', details: validationResult.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { page, limit, status, template, search } = validationResult.data;
+
+    const where: Prisma.EmailLogWhereInput = {};
+
+    if (status) {
+      where.status = status;
+    }
+
+    if (template) {
+      where.template = template;
+    }
+
+    if (search) {
+      where.OR = [
+        { to: { contains: search, mode: 'insensitive' } },
+        { subject: { contains: search, mode: 'insensitive' } },
+      ];
+    }
+
+    const [total, emails, statusCounts, templates] = await Promise.all([
+      prisma.emailLog.count({ where }),
+      prisma.emailLog.findMany({
+        where,
+        // Content is only loaded for the preview
+        select: {
+          id: true,
+          to: true,
+          subject: true,
+          status: true,
+          template: true,
+          attempts: true,
+          lastAttemptAt: true,
+          nextAttemptAt: true,
+          error: true,
+          sentAt: true,
+          transactionId: true,
+          reservationId: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.emailLog.groupBy({
+        by: ['status'],
+        _count: { _all: true },
+      }),
+      prisma.emailLog.findMany({
+        where: { template: { not: null } },
+        distinct: ['template'],
+        select: { template: true },
+        orderBy: { template: 'asc' },
+      }),
+    ]);
+
+    return NextResponse.json({
+      emails,
+      counts: Object.fromEntries(
+        statusCounts.map((row) => [row.status, row._count._all])
+      ),
+      templates: templates.map((row) => row.template),
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching email outbox:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch email outbox', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
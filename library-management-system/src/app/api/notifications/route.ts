@@ -1,48 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
-import NotificationScheduler from '@/lib/email/schedulers/notification-scheduler';
-import { UserRole } from '@prisma/client';
+import { authorize } from '@/lib/auth/policy';
+import { JOB_DEFINITIONS, getNotificationJobNames } from '@/lib/jobs/definitions';
+import { enqueueJobRun } from '@/lib/jobs/queue';
+import { wakeJobScheduler } from '@/lib/jobs/scheduler';
+import { JobTrigger } from '@prisma/client';
 
 /**
  * POST /api/notifications
- * Triggers email notifications manually
- * Requires admin or librarian role
+ * Queues notification jobs to run now
+ * Requires the TRANSACTION_UPDATE permission
  */
 export async function POST(request: NextRequest) {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      );
-    }
-
-    // Check authorization (admin or librarian only)
-    if (
-      session.user.role !== UserRole.ADMIN &&
-      session.user.role !== UserRole.LIBRARIAN
-    ) {
-      return NextResponse.json(
-        { error: 'Insufficient permissions' },
-        { status: 403 }
-      );
+    const auth = await authorize('notification:manage');
+    if (!auth.ok) {
+      return auth.response;
     }
 
     // Parse request body
     const body = await request.json();
     const { type } = body;
 
-    // Validate notification type
-    const validTypes = [
-      'due-date',
-      'overdue',
-      'reservation-availability',
-      'reservation-expiration',
-      'all',
-    ];
+    // Notification types map onto background jobs; `all` covers every notification job
+    const validTypes = [...JOB_DEFINITIONS.map((definition) => definition.name), 'all'];
     
     if (type && !validTypes.includes(type)) {
       return NextResponse.json(
@@ -51,36 +31,31 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Initialize scheduler
-    const scheduler = new NotificationScheduler();
-    let result;
+    const jobNames = !type || type === 'all' ? getNotificationJobNames() : [type];
 
-    // Process notifications based on type
-    switch (type) {
-      case 'due-date':
-        result = await scheduler.processDueDateReminders();
-        break;
-      case 'overdue':
-        result = await scheduler.processOverdueNotices();
-        break;
-      case 'reservation-availability':
-        result = await scheduler.processReservationAvailability();
-        break;
-      case 'reservation-expiration':
-        result = await scheduler.processReservationExpirations();
-        break;
-      case 'all':
-      default:
-        result = await scheduler.processAllNotifications();
-        break;
+    // Queue the runs; the job scheduler executes them and records the results
+    const runs = [];
+    for (const jobName of jobNames) {
+      const run = await enqueueJobRun(jobName, {
+        trigger: JobTrigger.MANUAL,
+        triggeredById: auth.user.id,
+      });
+      if (run) {
+        runs.push(run);
+      }
     }
 
-    // Return success response with results
-    return NextResponse.json({
-      success: true,
-      type: type || 'all',
-      result,
-    });
+    wakeJobScheduler();
+
+    // Return the queued runs so the caller can follow them via /api/jobs/runs
+    return NextResponse.json(
+      {
+        success: true,
+        type: type || 'all',
+        runs,
+      },
+      { status: 202 }
+    );
   } catch (error) {
     console.error('Error processing notifications:', error);
     return NextResponse.json(
@@ -93,28 +68,13 @@ export async function POST(request: NextRequest) {
 /**
  * GET /api/notifications
  * Gets notification types and status
- * Requires admin or librarian role
+ * Requires the TRANSACTION_UPDATE permission
  */
 export async function GET(request: NextRequest) {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      );
-    }
-
-    // Check authorization (admin or librarian only)
-    if (
-      session.user.role !== UserRole.ADMIN &&
-      session.user.role !== UserRole.LIBRARIAN
-    ) {
-      return NextResponse.json(
-        { error: 'Insufficient permissions' },
-        { status: 403 }
-      );
+    const auth = await authorize('notification:manage');
+    if (!auth.ok) {
+      return auth.response;
     }
 
     // Return notification types
@@ -140,6 +100,16 @@ export async function GET(request: NextRequest) {
           name: 'Reservation Expiration',
           description: 'Sends notifications when reservations are about to expire',
         },
+        {
+          id: 'digest',
+          name: 'Notification Digests',
+          description: 'Sends daily or weekly summaries to users who opted into a digest',
+        },
+        {
+          id: 'email-retry',
+          name: 'Retry Failed Emails',
+          description: 'Retries failed emails whose backoff has elapsed',
+        },
         {
           id: 'all',
           name: 'All Notifications',
@@ -0,0 +1,395 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/policy';
+import { prisma } from '@/lib/prisma';
+import { FineType } from '@prisma/client';
+import { z } from 'zod';
+import { getOutstandingAmount, OPEN_FINE_STATUSES } from '@/lib/circulation/fines';
+import { renderTextPdf } from '@/lib/reports/pdf';
+import { FinePeriodTotals, FineReport } from '@/types/reports';
+
+// Schema for validating report query parameters
+const ReportQuerySchema = z.object({
+  format: z.enum(['json', 'csv', 'pdf']).optional().default('json'),
+  timeframe: z.enum(['day', 'week', 'month', 'year', 'all']).optional().default('month'),
+});
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// Age of open fines in days since they were charged; the last bucket is open-ended
+const AGING_BUCKETS = [
+  { label: '0-30 days', minDays: 0, maxDays: 30 },
+  { label: '31-60 days', minDays: 31, maxDays: 60 },
+  { label: '61-90 days', minDays: 61, maxDays: 90 },
+  { label: '90+ days', minDays: 91, maxDays: null },
+];
+
+const TOP_DEBTOR_LIMIT = 10;
+
+/**
+ * GET /api/reports/fines
+ * Generates fine collection reports: money assessed, collected and waived,
+ * aging of unpaid fines and the members who owe the most
+ * Requires the REPORT_VIEW permission
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize('report:view');
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    // Parse and validate query parameters
+    const url = new URL(request.url);
+    const queryResult = ReportQuerySchema.safeParse({
+      format: url.searchParams.get('format') || 'json',
+      timeframe: url.searchParams.get('timeframe') || 'month',
+    });
+
+    if (!queryResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: queryResult.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const params = queryResult.data;
+
+    // Get the time range based on the timeframe parameter
+    const startDate = getStartDateForTimeframe(params.timeframe);
+    const dateFilter = startDate ? { gte: startDate } : undefined;
+
+    // Fetch fines charged, payments received and waivers granted in the period
+    const [assessedFines, payments, waivers, openFines] = await Promise.all([
+      prisma.fineCharge.findMany({
+        where: { createdAt: dateFilter },
+        select: { type: true, amount: true, createdAt: true },
+      }),
+      prisma.payment.findMany({
+        where: { createdAt: dateFilter },
+        select: {
+          amount: true,
+          createdAt: true,
+          fineCharge: { select: { type: true } },
+        },
+      }),
+      prisma.fineWaiver.findMany({
+        where: { createdAt: dateFilter },
+        select: {
+          amount: true,
+          createdAt: true,
+          fineCharge: { select: { type: true } },
+        },
+      }),
+      // Aging and debtors reflect what is owed now, regardless of timeframe
+      prisma.fineCharge.findMany({
+        where: { status: { in: OPEN_FINE_STATUSES } },
+        select: {
+          userId: true,
+          amount: true,
+          amountPaid: true,
+          amountWaived: true,
+          createdAt: true,
+        },
+      }),
+    ]);
+
+    // Totals per period
+    const periodMap = new Map<string, FinePeriodTotals>();
+    const getPeriod = (date: Date) => {
+      const key = getPeriodKey(date, params.timeframe);
+      let totals = periodMap.get(key);
+      if (!totals) {
+        totals = { period: key, assessed: 0, collected: 0, waived: 0 };
+        periodMap.set(key, totals);
+      }
+      return totals;
+    };
+
+    // Totals per fine reason
+    const typeMap = new Map(
+      Object.values(FineType).map((type) => [
+        type,
+        { type, count: 0, assessed: 0, collected: 0, waived: 0 },
+      ])
+    );
+
+    assessedFines.forEach((fine) => {
+      getPeriod(fine.createdAt).assessed += fine.amount;
+      const typeTotals = typeMap.get(fine.type)!;
+      typeTotals.count++;
+      typeTotals.assessed += fine.amount;
+    });
+
+    payments.forEach((payment) => {
+      getPeriod(payment.createdAt).collected += payment.amount;
+      typeMap.get(payment.fineCharge.type)!.collected += payment.amount;
+    });
+
+    waivers.forEach((waiver) => {
+      getPeriod(waiver.createdAt).waived += waiver.amount;
+      typeMap.get(waiver.fineCharge.type)!.waived += waiver.amount;
+    });
+
+    // Bucket open fines by age and total them per member
+    const now = new Date();
+    const aging = AGING_BUCKETS.map((bucket) => ({ label: bucket.label, count: 0, outstanding: 0 }));
+    const debtorMap = new Map<string, { openFines: number; outstanding: number; oldestFineDate: Date }>();
+
+    openFines.forEach((fine) => {
+      const outstanding = getOutstandingAmount(fine);
+      const ageDays = Math.floor((now.getTime() - fine.createdAt.getTime()) / MS_PER_DAY);
+      const bucketIndex = AGING_BUCKETS.findIndex(
+        (bucket) => bucket.maxDays === null || ageDays <= bucket.maxDays
+      );
+      aging[bucketIndex].count++;
+      aging[bucketIndex].outstanding += outstanding;
+
+      const debtor = debtorMap.get(fine.userId);
+      if (debtor) {
+        debtor.openFines++;
+        debtor.outstanding += outstanding;
+        if (fine.createdAt < debtor.oldestFineDate) {
+          debtor.oldestFineDate = fine.createdAt;
+        }
+      } else {
+        debtorMap.set(fine.userId, {
+          openFines: 1,
+          outstanding,
+          oldestFineDate: fine.createdAt,
+        });
+      }
+    });
+
+    const topDebtorEntries = Array.from(debtorMap.entries())
+      .sort(([, a], [, b]) => b.outstanding - a.outstanding)
+      .slice(0, TOP_DEBTOR_LIMIT);
+
+    const debtorUsers = await prisma.user.findMany({
+      where: { id: { in: topDebtorEntries.map(([userId]) => userId) } },
+      select: { id: true, name: true, email: true },
+    });
+
+    const totals = {
+      assessed: sumOf(assessedFines.map((fine) => fine.amount)),
+      collected: sumOf(payments.map((payment) => payment.amount)),
+      waived: sumOf(waivers.map((waiver) => waiver.amount)),
+      outstanding: sumOf(aging.map((bucket) => bucket.outstanding)),
+    };
+
+    // Build the report response
+    const report: FineReport = {
+      generatedAt: now.toISOString(),
+      timeframe: params.timeframe,
+      totals: {
+        ...totals,
+        collectionRate: totals.assessed > 0 ? roundMoney((totals.collected / totals.assessed) * 100) : 0,
+      },
+      periods: Array.from(periodMap.values())
+        .sort((a, b) => a.period.localeCompare(b.period))
+        .map((period) => ({
+          ...period,
+          assessed: roundMoney(period.assessed),
+          collected: roundMoney(period.collected),
+          waived: roundMoney(period.waived),
+        })),
+      aging: aging.map((bucket) => ({
+        ...bucket,
+        outstanding: roundMoney(bucket.outstanding),
+      })),
+      topDebtors: topDebtorEntries.map(([userId, debtor]) => {
+        const user = debtorUsers.find((u) => u.id === userId);
+        return {
+          userId,
+          name: user?.name ?? null,
+          email: user?.email ?? '',
+          openFines: debtor.openFines,
+          outstanding: roundMoney(debtor.outstanding),
+          oldestFineDate: debtor.oldestFineDate.toISOString(),
+        };
+      }),
+      byType: Array.from(typeMap.values()).map((typeTotals) => ({
+        ...typeTotals,
+        assessed: roundMoney(typeTotals.assessed),
+        collected: roundMoney(typeTotals.collected),
+        waived: roundMoney(typeTotals.waived),
+      })),
+    };
+
+    const filename = `fine-report-${now.toISOString().split('T')[0]}`;
+
+    // Return based on requested format
+    if (params.format === 'csv') {
+      const csv = generateCsvReport(report);
+      return new NextResponse(csv, {
+        headers: {
+          'Content-Type': 'text/csv',
+          'Content-Disposition': `attachment; filename="${filename}.csv"`,
+        },
+      });
+    }
+
+    if (params.format === 'pdf') {
+      const pdf = renderTextPdf('Fine Collection Report', generateReportLines(report));
+      return new NextResponse(pdf, {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${filename}.pdf"`,
+        },
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      report,
+    });
+  } catch (error) {
+    console.error('Error generating fine report:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate fine report' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Get the start date for a specified timeframe
+ */
+function getStartDateForTimeframe(timeframe: string): Date | null {
+  const now = new Date();
+
+  switch (timeframe) {
+    case 'day':
+      const day = new Date(now);
+      day.setHours(0, 0, 0, 0);
+      return day;
+
+    case 'week':
+      const week = new Date(now);
+      week.setDate(week.getDate() - 7);
+      return week;
+
+    case 'month':
+      const month = new Date(now);
+      month.setMonth(month.getMonth() - 1);
+      return month;
+
+    case 'year':
+      const year = new Date(now);
+      year.setFullYear(year.getFullYear() - 1);
+      return year;
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Group by day for short timeframes and by month for long ones
+ */
+function getPeriodKey(date: Date, timeframe: string): string {
+  const isoDate = date.toISOString();
+  return timeframe === 'year' || timeframe === 'all' ? isoDate.slice(0, 7) : isoDate.slice(0, 10);
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function sumOf(values: number[]): number {
+  return roundMoney(values.reduce((sum, value) => sum + value, 0));
+}
+
+// Quote a CSV field when it contains a delimiter
+function csvField(value: string | null): string {
+  const text = value ?? '';
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Generate a CSV report from the report data
+ */
+function generateCsvReport(report: FineReport): string {
+  let csv = 'Report Summary\n';
+  csv += `Generated At,${report.generatedAt}\n`;
+  csv += `Timeframe,${report.timeframe}\n`;
+  csv += `Assessed,${report.totals.assessed.toFixed(2)}\n`;
+  csv += `Collected,${report.totals.collected.toFixed(2)}\n`;
+  csv += `Waived,${report.totals.waived.toFixed(2)}\n`;
+  csv += `Outstanding,${report.totals.outstanding.toFixed(2)}\n`;
+  csv += `Collection Rate (%),${report.totals.collectionRate}\n\n`;
+
+  csv += 'Fines by Period\n';
+  csv += 'Period,Assessed,Collected,Waived\n';
+  report.periods.forEach((period) => {
+    csv += `${period.period},${period.assessed.toFixed(2)},${period.collected.toFixed(2)},${period.waived.toFixed(2)}\n`;
+  });
+  csv += '\n';
+
+  csv += 'Fines by Reason\n';
+  csv += 'Reason,Count,Assessed,Collected,Waived\n';
+  report.byType.forEach((typeTotals) => {
+    csv += `${typeTotals.type},${typeTotals.count},${typeTotals.assessed.toFixed(2)},${typeTotals.collected.toFixed(2)},${typeTotals.waived.toFixed(2)}\n`;
+  });
+  csv += '\n';
+
+  csv += 'Outstanding Fines by Age\n';
+  csv += 'Age,Count,Outstanding\n';
+  report.aging.forEach((bucket) => {
+    csv += `${bucket.label},${bucket.count},${bucket.outstanding.toFixed(2)}\n`;
+  });
+  csv += '\n';
+
+  csv += 'Top Debtors\n';
+  csv += 'Name,Email,Open Fines,Outstanding,Oldest Fine\n';
+  report.topDebtors.forEach((debtor) => {
+    csv += `${csvField(debtor.name)},${csvField(debtor.email)},${debtor.openFines},${debtor.outstanding.toFixed(2)},${debtor.oldestFineDate.split('T')[0]}\n`;
+  });
+
+  return csv;
+}
+
+/**
+ * Lay the report out as lines of text for the PDF export
+ */
+function generateReportLines(report: FineReport): string[] {
+  const money = (value: number) => `$${value.toFixed(2)}`;
+  const lines = [
+    `Generated: ${new Date(report.generatedAt).toLocaleString()}`,
+    `Timeframe: ${report.timeframe}`,
+    '',
+    '# Summary',
+    `Assessed: ${money(report.totals.assessed)}`,
+    `Collected: ${money(report.totals.collected)} (${report.totals.collectionRate}% of assessed)`,
+    `Waived: ${money(report.totals.waived)}`,
+    `Outstanding: ${money(report.totals.outstanding)}`,
+    '',
+    '# Fines by Period',
+  ];
+
+  report.periods.forEach((period) => {
+    lines.push(
+      `${period.period}   assessed ${money(period.assessed)}   collected ${money(period.collected)}   waived ${money(period.waived)}`
+    );
+  });
+
+  lines.push('', '# Fines by Reason');
+  report.byType.forEach((typeTotals) => {
+    lines.push(
+      `${typeTotals.type} (${typeTotals.count})   assessed ${money(typeTotals.assessed)}   collected ${money(typeTotals.collected)}   waived ${money(typeTotals.waived)}`
+    );
+  });
+
+  lines.push('', '# Outstanding Fines by Age');
+  report.aging.forEach((bucket) => {
+    lines.push(`${bucket.label}   ${bucket.count} fine(s)   ${money(bucket.outstanding)}`);
+  });
+
+  lines.push('', '# Top Debtors');
+  report.topDebtors.forEach((debtor, index) => {
+    lines.push(
+      `${index + 1}. ${debtor.name || debtor.email}   ${debtor.openFines} open fine(s)   ${money(debtor.outstanding)}`
+    );
+  });
+
+  return lines;
+}
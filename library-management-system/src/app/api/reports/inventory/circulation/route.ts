@@ -1,8 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { authorize } from '@/lib/auth/policy';
 import { prisma } from '@/lib/prisma';
-import { UserRole, TransactionStatus } from '@prisma/client';
+import { TransactionStatus } from '@prisma/client';
 import { z } from 'zod';
 
 // Schema for validating report query parameters
@@ -15,28 +14,13 @@ const CirculationReportQuerySchema = z.object({
 /**
  * GET /api/reports/inventory/circulation
  * Generates circulation reports for book transactions
- * Requires admin or librarian role
+ * Requires the REPORT_VIEW permission
  */
 export async function GET(request: NextRequest) {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      );
-    }
-
-    // Check authorization (admin or librarian only)
-    if (
-      session.user.role !== UserRole.ADMIN &&
-      session.user.role !== UserRole.LIBRARIAN
-    ) {
-      return NextResponse.json(
-        { error: 'Insufficient permissions' },
-        { status: 403 }
-      );
+    const auth = await authorize('report:view');
+    if (!auth.ok) {
+      return auth.response;
     }
 
     // Parse and validate query parameters
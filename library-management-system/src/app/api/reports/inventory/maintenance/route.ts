@@ -1,8 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { authorize } from '@/lib/auth/policy';
 import { prisma } from '@/lib/prisma';
-import { UserRole, BookStatus, TransactionStatus } from '@prisma/client';
+import { getStatusDurations } from '@/lib/books/status';
+import { BookStatus, TransactionStatus } from '@prisma/client';
 import { z } from 'zod';
 
 // Schema for validating report query parameters
@@ -14,29 +14,15 @@ const MaintenanceReportQuerySchema = z.object({
 
 /**
  * GET /api/reports/inventory/maintenance
- * Generates maintenance reports for lost, damaged, and books under maintenance
- * Requires admin or librarian role
+ * Generates maintenance reports for lost, damaged, and books under maintenance,
+ * with how long books have spent in each state from their status history
+ * Requires the REPORT_VIEW permission
  */
 export async function GET(request: NextRequest) {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      );
-    }
-
-    // Check authorization (admin or librarian only)
-    if (
-      session.user.role !== UserRole.ADMIN &&
-      session.user.role !== UserRole.LIBRARIAN
-    ) {
-      return NextResponse.json(
-        { error: 'Insufficient permissions' },
-        { status: 403 }
-      );
+    const auth = await authorize('report:view');
+    if (!auth.ok) {
+      return auth.response;
     }
 
     // Parse and validate query parameters
@@ -84,6 +70,17 @@ export async function GET(request: NextRequest) {
         ...(startDate ? { updatedAt: { gte: startDate } } : {}),
       },
       include: {
+        // The change that put the book in its current state
+        statusChanges: {
+          orderBy: {
+            createdAt: 'desc',
+          },
+          take: 1,
+          select: {
+            createdAt: true,
+            reason: true,
+          },
+        },
         transactions: {
           where: {
             status: { 
@@ -151,10 +148,24 @@ export async function GET(request: NextRequest) {
       categoryData[item.category][item.status] = item._count.id;
     });
 
+    // Time spent in each state within the timeframe
+    const now = new Date();
+    const durations = await getStatusDurations(maintenanceBooks.map(book => book.id), startDate, now);
+
+    const stateTotals: Record<string, { books: number; totalDays: number }> = {};
+    durations.forEach(bookDurations => {
+      bookDurations.forEach(({ status, days }) => {
+        stateTotals[status] = stateTotals[status] || { books: 0, totalDays: 0 };
+        stateTotals[status].books += 1;
+        stateTotals[status].totalDays += days;
+      });
+    });
+
     // Format the detailed book data
     const formattedBooks = maintenanceBooks.map(book => {
       // Get the last relevant transaction
       const lastTransaction = book.transactions.length > 0 ? book.transactions[0] : null;
+      const lastStatusChange = book.statusChanges.length > 0 ? book.statusChanges[0] : null;
       
       return {
         id: book.id,
@@ -164,6 +175,12 @@ export async function GET(request: NextRequest) {
         category: book.category,
         status: book.status,
         updatedAt: book.updatedAt,
+        statusSince: lastStatusChange?.createdAt ?? null,
+        statusReason: lastStatusChange?.reason ?? null,
+        daysInStatus: lastStatusChange
+          ? Math.floor((now.getTime() - lastStatusChange.createdAt.getTime()) / (24 * 60 * 60 * 1000))
+          : null,
+        statusDurations: durations.get(book.id) ?? [],
         lastTransaction: lastTransaction ? {
           id: lastTransaction.id,
           status: lastTransaction.status,
@@ -191,6 +208,12 @@ export async function GET(request: NextRequest) {
         })),
         total: Object.values(statuses).reduce((sum, count) => sum + count, 0),
       })),
+      stateDurations: Object.entries(stateTotals).map(([status, totals]) => ({
+        status,
+        books: totals.books,
+        totalDays: Math.round(totals.totalDays * 10) / 10,
+        averageDays: Math.round((totals.totalDays / totals.books) * 10) / 10,
+      })),
       books: formattedBooks,
     };
 
@@ -281,11 +304,19 @@ function generateCsvReport(report: any): string {
   });
   csv += '\n';
 
+  // Time spent in each state
+  csv += 'Time in State\n';
+  csv += 'Status,Books,Total Days,Average Days\n';
+  report.stateDurations.forEach((state: { status: string; books: number; totalDays: number; averageDays: number }) => {
+    csv += `${state.status},${state.books},${state.totalDays},${state.averageDays}\n`;
+  });
+  csv += '\n';
+
   // Detailed book list
   csv += 'Detailed Book List\n';
-  csv += 'ISBN,Title,Author,Category,Status,Last Updated,Transaction Status,Transaction Date,User\n';
+  csv += 'ISBN,Title,Author,Category,Status,Days in Status,Last Updated,Transaction Status,Transaction Date,User\n';
   report.books.forEach((book: any) => {
-    csv += `${book.isbn},"${book.title}","${book.author}",${book.category},${book.status},${new Date(book.updatedAt).toISOString()},`;
+    csv += `${book.isbn},"${book.title}","${book.author}",${book.category},${book.status},${book.daysInStatus ?? 'N/A'},${new Date(book.updatedAt).toISOString()},`;
     
     if (book.lastTransaction) {
       csv += `${book.lastTransaction.status},${new Date(book.lastTransaction.date).toISOString()},"${book.lastTransaction.userName}"\n`;
@@ -1,8 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { authorize } from '@/lib/auth/policy';
 import { prisma } from '@/lib/prisma';
-import { UserRole, BookStatus } from '@prisma/client';
+import { BookStatus } from '@prisma/client';
 import { z } from 'zod';
 
 // Schema for validating report query parameters
@@ -20,33 +19,19 @@ type ReportData = {
     count: number;
   }[];
   totalBooks: number;
+  totalCopies: number;
 };
 
 /**
  * GET /api/reports/inventory
- * Generates inventory reports for books
- * Requires admin or librarian role
+ * Generates inventory reports for books; status counts are per physical copy
+ * Requires the REPORT_VIEW permission
  */
 export async function GET(request: NextRequest) {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      );
-    }
-
-    // Check authorization (admin or librarian only)
-    if (
-      session.user.role !== UserRole.ADMIN &&
-      session.user.role !== UserRole.LIBRARIAN
-    ) {
-      return NextResponse.json(
-        { error: 'Insufficient permissions' },
-        { status: 403 }
-      );
+    const auth = await authorize('report:view');
+    if (!auth.ok) {
+      return auth.response;
     }
 
     // Parse and validate query parameters
@@ -85,17 +70,30 @@ export async function GET(request: NextRequest) {
       } as any,
     });
 
-    // Fetch books by status
-    const booksByStatus = await prisma.book.groupBy({
+    // Fetch total copies and copies by status (availability is tracked per copy)
+    const copyWhere = {
+      isDeleted: false,
+      book: {
+        isDeleted: false,
+        ...(params.category ? { category: params.category } : {}),
+      },
+      ...(params.status ? { status: params.status } : {}),
+      ...(startDate ? { acquisitionDate: { gte: startDate } } : {}),
+    };
+
+    const totalCopies = await prisma.bookCopy.count({
+      where: copyWhere,
+    });
+
+    const booksByStatus = await prisma.bookCopy.groupBy({
       by: ['status'],
       _count: {
         id: true,
       },
       where: {
-        isDeleted: false,
-        ...(params.category ? { category: params.category } : {}),
-        ...(startDate ? { createdAt: { gte: startDate } } : {}),
-      } as any,
+        ...copyWhere,
+        status: undefined,
+      },
     });
 
     // Fetch books by category
@@ -121,29 +119,30 @@ export async function GET(request: NextRequest) {
       } as any,
     });
 
-    // Fetch lost/damaged books
-    const lostOrDamagedBooks = await prisma.book.count({
+    // Fetch lost/damaged copies
+    const lostOrDamagedBooks = await prisma.bookCopy.count({
       where: {
-        isDeleted: false,
+        ...copyWhere,
         status: { in: [BookStatus.LOST, BookStatus.DAMAGED] },
-        ...(params.category ? { category: params.category } : {}),
-        ...(startDate ? { createdAt: { gte: startDate } } : {}),
-      } as any,
+      },
     });
 
     // Organize data by category
     const categoryData: ReportData[] = await Promise.all(
       booksByCategory.map(async (categoryGroup) => {
-        const statusCounts = await prisma.book.groupBy({
+        const statusCounts = await prisma.bookCopy.groupBy({
           by: ['status'],
           _count: {
             id: true,
           },
           where: {
-            isDeleted: false,
-            category: categoryGroup.category,
-            ...(startDate ? { createdAt: { gte: startDate } } : {}),
-          } as any,
+            ...copyWhere,
+            book: {
+              isDeleted: false,
+              category: categoryGroup.category,
+            },
+            status: undefined,
+          },
         });
 
         return {
@@ -153,6 +152,7 @@ export async function GET(request: NextRequest) {
             count: s._count.id,
           })),
           totalBooks: categoryGroup._count.id,
+          totalCopies: statusCounts.reduce((sum, s) => sum + s._count.id, 0),
         };
       })
     );
@@ -167,6 +167,7 @@ export async function GET(request: NextRequest) {
       generatedAt: new Date().toISOString(),
       timeframe: params.timeframe,
       totalBooks,
+      totalCopies,
       booksByStatus: booksByStatus.map((status) => ({
         status: status.status,
         count: status._count.id,
@@ -252,11 +253,12 @@ function generateCsvReport(report: any): string {
   csv += `Generated At,${report.generatedAt}\n`;
   csv += `Timeframe,${report.timeframe}\n`;
   csv += `Total Books,${report.totalBooks}\n`;
+  csv += `Total Copies,${report.totalCopies}\n`;
   csv += `New Acquisitions,${report.newAcquisitions}\n`;
-  csv += `Lost or Damaged Books,${report.lostOrDamagedBooks}\n\n`;
+  csv += `Lost or Damaged Copies,${report.lostOrDamagedBooks}\n\n`;
 
   // Status breakdown
-  csv += 'Books by Status\n';
+  csv += 'Copies by Status\n';
   csv += 'Status,Count\n';
   report.booksByStatus.forEach((statusGroup: any) => {
     csv += `${statusGroup.status},${statusGroup.count}\n`;
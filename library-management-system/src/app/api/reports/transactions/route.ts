@@ -1,7 +1,6 @@
 import { prisma } from '@/lib/prisma';
-import { BookStatus, TransactionStatus, UserRole } from '@prisma/client';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { TransactionStatus, UserRole } from '@prisma/client';
+import { authorize } from '@/lib/auth/policy';
 import { NextRequest, NextResponse } from 'next/server';
 import { getStartDate } from '@/lib/utils/date-utils';
 
@@ -23,15 +22,9 @@ function parseQueryParams(req: NextRequest) {
 export async function GET(req: NextRequest) {
   try {
     // Check authorization
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user || 
-        (session.user.role !== UserRole.ADMIN && 
-         session.user.role !== UserRole.LIBRARIAN)) {
-      return NextResponse.json(
-        { error: 'Unauthorized access' },
-        { status: 403 }
-      );
+    const auth = await authorize('report:view');
+    if (!auth.ok) {
+      return auth.response;
     }
 
     // Parse parameters
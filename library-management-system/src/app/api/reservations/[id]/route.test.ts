@@ -0,0 +1,162 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { BookStatus, ReservationStatus, UserRole } from '@prisma/client';
+import { roleDefinitions } from '@/lib/auth/rbac/roles';
+
+const { getServerSession, prisma, copies } = vi.hoisted(() => {
+  const prisma = {
+    reservation: { findUnique: vi.fn(), update: vi.fn() },
+    bookCopy: { updateMany: vi.fn() },
+    $transaction: vi.fn(),
+  };
+  return {
+    getServerSession: vi.fn(),
+    prisma,
+    copies: {
+      findAvailableCopy: vi.fn(),
+      getCopyAvailability: vi.fn(),
+      getPickupDeadline: vi.fn(),
+      OUT_OF_CIRCULATION_STATUSES: [],
+      releaseCopy: vi.fn(),
+      syncBookStatus: vi.fn(),
+    },
+  };
+});
+
+vi.mock('next-auth', () => ({ getServerSession }));
+vi.mock('@/lib/auth/auth-options', () => ({ authOptions: {} }));
+vi.mock('@/lib/prisma', () => ({ prisma }));
+vi.mock('@/lib/audit/events', () => ({ recordAuditEvent: vi.fn() }));
+vi.mock('@/lib/events/circulation', () => ({ publishHoldReady: vi.fn() }));
+vi.mock('@/lib/circulation/copies', () => copies);
+
+import { PATCH } from './route';
+
+const OWNER_ID = 'member-1';
+
+function signInAs(role: UserRole, id: string) {
+  getServerSession.mockResolvedValue({
+    user: { id, name: role, role, permissions: roleDefinitions[role].permissions },
+  });
+}
+
+function patch(body: object) {
+  const request = new Request('http://localhost/api/reservations/reservation-1', {
+    method: 'PATCH',
+    body: JSON.stringify(body),
+  });
+  return PATCH(request, { params: { id: 'reservation-1' } });
+}
+
+describe('PATCH /api/reservations/[id]', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prisma.$transaction.mockImplementation(async (run) => run(prisma));
+    prisma.reservation.findUnique.mockResolvedValue({
+      id: 'reservation-1',
+      status: ReservationStatus.PENDING,
+      bookId: 'book-1',
+      userId: OWNER_ID,
+      copyId: null,
+      expiryDate: new Date('2026-11-01'),
+    });
+    prisma.reservation.update.mockImplementation(async ({ data }) => ({
+      id: 'reservation-1',
+      copyId: null,
+      expiryDate: new Date('2026-11-01'),
+      status: ReservationStatus.PENDING,
+      ...data,
+    }));
+  });
+
+  it('lets members cancel their own reservation', async () => {
+    signInAs(UserRole.MEMBER, OWNER_ID);
+
+    const response = await patch({ status: ReservationStatus.CANCELLED });
+
+    expect(response.status).toBe(200);
+    expect(prisma.reservation.update).toHaveBeenCalled();
+  });
+
+  it.each([
+    ['mark it ready for pickup', { status: ReservationStatus.READY_FOR_PICKUP }],
+    ['mark it fulfilled', { status: ReservationStatus.FULFILLED }],
+    ['move its expiry date', { expiryDate: '2027-01-01' }],
+    ['add notes to it', { notes: 'Please keep it for me' }],
+    ['cancel it with a new expiry date', { status: ReservationStatus.CANCELLED, expiryDate: '2027-01-01' }],
+  ])("refuses a member's attempt to %s on their own reservation", async (_, body) => {
+    signInAs(UserRole.MEMBER, OWNER_ID);
+
+    const response = await patch(body);
+
+    expect(response.status).toBe(403);
+    expect(prisma.reservation.update).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['cancel it', { status: ReservationStatus.CANCELLED }],
+    ['move its expiry date', { expiryDate: '2027-01-01' }],
+    ['mark it ready for pickup', { status: ReservationStatus.READY_FOR_PICKUP }],
+  ])("refuses a member's attempt to %s for another member", async (_, body) => {
+    signInAs(UserRole.MEMBER, 'member-2');
+
+    const response = await patch(body);
+
+    expect(response.status).toBe(403);
+    expect(prisma.reservation.update).not.toHaveBeenCalled();
+  });
+
+  it.each([UserRole.ADMIN, UserRole.LIBRARIAN])("lets %s update a member's reservation", async (role) => {
+    signInAs(role, `${role.toLowerCase()}-1`);
+
+    const response = await patch({ status: ReservationStatus.CANCELLED });
+
+    expect(response.status).toBe(200);
+  });
+
+  it('sets aside an available copy when staff mark a reservation ready for pickup', async () => {
+    signInAs(UserRole.LIBRARIAN, 'librarian-1');
+    copies.findAvailableCopy.mockResolvedValue({ id: 'copy-1', bookId: 'book-1' });
+    prisma.bookCopy.updateMany.mockResolvedValue({ count: 1 });
+
+    const response = await patch({ status: ReservationStatus.READY_FOR_PICKUP });
+
+    expect(response.status).toBe(200);
+    expect(prisma.bookCopy.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ id: 'copy-1', status: BookStatus.AVAILABLE }),
+        data: { status: BookStatus.RESERVED },
+      })
+    );
+    expect(prisma.reservation.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ copyId: 'copy-1' }) })
+    );
+  });
+
+  it('refuses to mark a reservation ready when its copy was just claimed by a checkout', async () => {
+    signInAs(UserRole.LIBRARIAN, 'librarian-1');
+    copies.findAvailableCopy.mockResolvedValue({ id: 'copy-1', bookId: 'book-1' });
+    prisma.bookCopy.updateMany.mockResolvedValue({ count: 0 });
+
+    const response = await patch({ status: ReservationStatus.READY_FOR_PICKUP });
+
+    expect(response.status).toBe(409);
+    expect(prisma.reservation.update).not.toHaveBeenCalled();
+  });
+
+  it('refuses users without reservation permissions', async () => {
+    signInAs(UserRole.USER, OWNER_ID);
+
+    const response = await patch({ status: ReservationStatus.CANCELLED });
+
+    expect(response.status).toBe(403);
+    expect(prisma.reservation.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('requires a signed-in user', async () => {
+    getServerSession.mockResolvedValue(null);
+
+    const response = await patch({ status: ReservationStatus.CANCELLED });
+
+    expect(response.status).toBe(401);
+  });
+});
@@ -1,10 +1,24 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth-options";
 import { prisma } from "@/lib/prisma";
 import { z } from "zod";
-import { Permission } from "@/lib/auth/rbac/types";
-import { BookStatus, ReservationStatus } from "@prisma/client";
+import { authorize, can, canActOnOthers, forbidden } from "@/lib/auth/policy";
+import {
+  AuditAction,
+  AuditEntityType,
+  BookStatus,
+  ReservationStatus,
+  TransactionStatus,
+} from "@prisma/client";
+import { recordAuditEvent } from "@/lib/audit/events";
+import {
+  findAvailableCopy,
+  getCopyAvailability,
+  getPickupDeadline,
+  OUT_OF_CIRCULATION_STATUSES,
+  releaseCopy,
+  syncBookStatus,
+} from "@/lib/circulation/copies";
+import { publishHoldReady } from "@/lib/events/circulation";
 
 // Schema for validating reservation updates
 const reservationUpdateSchema = z.object({
@@ -27,14 +41,9 @@ export async function GET(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions);
-
-    // Check if user is authenticated and has permission to read reservations
-    if (!session?.user?.permissions?.includes(Permission.RESERVATION_READ)) {
-      return NextResponse.json(
-        { error: "You don't have permission to view reservation details" },
-        { status: 403 }
-      );
+    const auth = await authorize("reservation:read");
+    if (!auth.ok) {
+      return auth.response;
     }
 
     const reservationId = params.id;
@@ -56,6 +65,13 @@ export async function GET(
             status: true,
           },
         },
+        copy: {
+          select: {
+            id: true,
+            barcode: true,
+            shelfLocation: true,
+          },
+        },
         user: {
           select: {
             id: true,
@@ -69,7 +85,8 @@ export async function GET(
       },
     });
 
-    if (!reservation) {
+    // Other patrons' reservations look the same to members as ones that don't exist
+    if (!reservation || !can(auth.user, "reservation:read", { ownerId: reservation.userId })) {
       return NextResponse.json(
         { error: "Reservation not found" },
         { status: 404 }
@@ -100,32 +117,35 @@ export async function GET(
       queueLength = queue.length;
     }
     
-    // Get book's current transaction status if checked out
-    let currentTransaction = null;
-    
-    if (reservation.book.status === BookStatus.CHECKED_OUT) {
-      currentTransaction = await prisma.transaction.findFirst({
-        where: {
-          bookId: reservation.book.id,
-          status: { in: ['CHECKED_OUT', 'OVERDUE'] },
-        },
-        select: {
-          id: true,
-          checkoutDate: true,
-          dueDate: true,
-          status: true,
-          user: {
-            select: {
-              id: true,
-              name: true,
-            },
+    // Get the loan of this title that is due back first, if any copy is checked out
+    const firstLoan = await prisma.transaction.findFirst({
+      where: {
+        bookId: reservation.book.id,
+        status: { in: [TransactionStatus.CHECKED_OUT, TransactionStatus.OVERDUE] },
+      },
+      select: {
+        id: true,
+        checkoutDate: true,
+        dueDate: true,
+        status: true,
+        user: {
+          select: {
+            id: true,
+            name: true,
           },
         },
-        orderBy: {
-          checkoutDate: 'desc',
-        },
-      });
-    }
+      },
+      orderBy: {
+        dueDate: 'asc',
+      },
+    });
+    
+    // Members don't get to see who has the book
+    const currentTransaction = firstLoan && !canActOnOthers(auth.user, "reservation:read")
+      ? { ...firstLoan, user: null }
+      : firstLoan;
+
+    const copyAvailability = await getCopyAvailability(prisma, reservation.book.id);
 
     // Add additional context to the response
     const reservationWithContext = {
@@ -133,6 +153,7 @@ export async function GET(
       queuePosition,
       queueLength,
       currentTransaction,
+      copyAvailability,
       // Calculate if reservation is expired
       isExpired: new Date(reservation.expiryDate) < new Date(),
     };
@@ -153,14 +174,9 @@ export async function PATCH(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions);
-
-    // Check if user is authenticated and has permission to update reservations
-    if (!session?.user?.permissions?.includes(Permission.RESERVATION_UPDATE)) {
-      return NextResponse.json(
-        { error: "You don't have permission to update reservations" },
-        { status: 403 }
-      );
+    const auth = await authorize("reservation:update");
+    if (!auth.ok) {
+      return auth.response;
     }
 
     const reservationId = params.id;
@@ -187,6 +203,8 @@ export async function PATCH(
         status: true, 
         bookId: true,
         userId: true,
+        copyId: true,
+        expiryDate: true,
       },
     });
     
@@ -196,9 +214,20 @@ export async function PATCH(
         { status: 404 }
       );
     }
+
+    if (!can(auth.user, "reservation:update", { ownerId: existingReservation.userId })) {
+      return forbidden("reservation:update");
+    }
     
     // Extract validated data
     const { status, expiryDate, notes } = validationResult.data;
+
+    // Members may cancel their own hold; everything else is up to staff
+    const isCancellation =
+      status === ReservationStatus.CANCELLED && expiryDate === undefined && notes === undefined;
+    if (!isCancellation && !can(auth.user, "reservation:manage")) {
+      return forbidden("reservation:manage");
+    }
     const updateData: any = {};
     
     // Only add fields that were provided
@@ -222,8 +251,10 @@ export async function PATCH(
       );
     }
     
+    const isStatusChange = status !== undefined && status !== existingReservation.status;
+    
     // Check if status change is logical
-    if (status && status !== existingReservation.status) {
+    if (isStatusChange) {
       // Cannot reactivate a fulfilled, cancelled or expired reservation
       if (
         (existingReservation.status === ReservationStatus.FULFILLED && status === ReservationStatus.PENDING) ||
@@ -238,29 +269,6 @@ export async function PATCH(
         );
       }
       
-      // If marking as READY_FOR_PICKUP, check if book is actually available
-      if (status === ReservationStatus.READY_FOR_PICKUP) {
-        const book = await prisma.book.findUnique({
-          where: { id: existingReservation.bookId },
-          select: { status: true },
-        });
-        
-        if (!book || book.status !== BookStatus.AVAILABLE) {
-          return NextResponse.json(
-            { 
-              error: "Cannot mark reservation as ready for pickup. Book is not available." 
-            },
-            { status: 409 }
-          );
-        }
-        
-        // Update book status to RESERVED when marking reservation as ready for pickup
-        await prisma.book.update({
-          where: { id: existingReservation.bookId },
-          data: { status: BookStatus.RESERVED },
-        });
-      }
-      
       // If marking as FULFILLED, book should be checked out to the reserving user
       if (status === ReservationStatus.FULFILLED) {
         const activeTransaction = await prisma.transaction.findFirst({
@@ -280,67 +288,125 @@ export async function PATCH(
           );
         }
       }
+    }
+    
+    // Set aside or pass on the copy together with the status change, so a checkout
+    // running at the same time can't lend the same copy
+    const result = await prisma.$transaction(async (tx) => {
+      // A hold passed on to the next member when this one gives up its copy
+      let promotedReservation: Awaited<ReturnType<typeof releaseCopy>> = null;
       
-      // If marking as CANCELLED, update book's status if it was RESERVED for this specific reservation
-      if (status === ReservationStatus.CANCELLED && existingReservation.status === ReservationStatus.READY_FOR_PICKUP) {
-        // Check if book was reserved for this reservation
-        const book = await prisma.book.findUnique({
-          where: { id: existingReservation.bookId },
-          select: { status: true },
+      // If marking as READY_FOR_PICKUP, set aside an available copy for this reservation
+      if (isStatusChange && status === ReservationStatus.READY_FOR_PICKUP) {
+        const copy = await findAvailableCopy(tx, existingReservation.bookId);
+        
+        if (!copy) {
+          return {
+            ok: false as const,
+            error: "Cannot mark reservation as ready for pickup. No copy of the book is available.",
+          };
+        }
+        
+        // Mark the copy as RESERVED only if it is still on the shelf and the title still lendable
+        const { count } = await tx.bookCopy.updateMany({
+          where: {
+            id: copy.id,
+            isDeleted: false,
+            status: BookStatus.AVAILABLE,
+            book: { status: { notIn: OUT_OF_CIRCULATION_STATUSES } },
+          },
+          data: { status: BookStatus.RESERVED },
         });
         
-        if (book && book.status === BookStatus.RESERVED) {
-          // Find next pending reservation for this book
-          const nextReservation = await prisma.reservation.findFirst({
-            where: {
-              bookId: existingReservation.bookId,
-              status: ReservationStatus.PENDING,
-              id: { not: existingReservation.id },
-            },
-            orderBy: {
-              reservationDate: 'asc',
-            },
-          });
-          
-          if (nextReservation) {
-            // Keep book as RESERVED and update the next reservation to be ready for pickup
-            await prisma.reservation.update({
-              where: { id: nextReservation.id },
-              data: { status: ReservationStatus.READY_FOR_PICKUP },
-            });
-          } else {
-            // No more pending reservations, make the book available again
-            await prisma.book.update({
-              where: { id: existingReservation.bookId },
-              data: { status: BookStatus.AVAILABLE },
-            });
-          }
+        if (count === 0) {
+          return {
+            ok: false as const,
+            error: "The available copy was just checked out, set aside or taken out of circulation. Try again.",
+          };
+        }
+        
+        await syncBookStatus(tx, existingReservation.bookId);
+        
+        updateData.copyId = copy.id;
+
+        // The member gets a full pickup window from now unless staff set one
+        if (expiryDate === undefined) {
+          updateData.expiryDate = getPickupDeadline();
         }
       }
-    }
-    
-    // Update the reservation
-    const updatedReservation = await prisma.reservation.update({
-      where: { id: reservationId },
-      data: updateData,
-      include: {
-        book: {
-          select: {
-            id: true,
-            title: true,
-            author: true,
-            status: true,
+      
+      // If cancelling a reservation that was holding a copy, pass the copy on
+      if (
+        isStatusChange &&
+        (status === ReservationStatus.CANCELLED || status === ReservationStatus.EXPIRED) &&
+        existingReservation.status === ReservationStatus.READY_FOR_PICKUP &&
+        existingReservation.copyId
+      ) {
+        promotedReservation = await releaseCopy(
+          tx,
+          { id: existingReservation.copyId, bookId: existingReservation.bookId },
+          { excludeReservationId: existingReservation.id }
+        );
+      }
+      
+      // Update the reservation
+      const updatedReservation = await tx.reservation.update({
+        where: { id: reservationId },
+        data: updateData,
+        include: {
+          book: {
+            select: {
+              id: true,
+              title: true,
+              author: true,
+              status: true,
+            },
           },
-        },
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
           },
         },
-      },
+      });
+
+      await recordAuditEvent({
+        actorId: auth.user.id,
+        action: AuditAction.UPDATED,
+        entityType: AuditEntityType.RESERVATION,
+        entityId: reservationId,
+        before: existingReservation,
+        after: {
+          status: updatedReservation.status,
+          copyId: updatedReservation.copyId,
+          expiryDate: updatedReservation.expiryDate,
+        },
+        request,
+      }, tx);
+
+      return { ok: true as const, updatedReservation, promotedReservation };
     });
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 409 }
+      );
+    }
+
+    const { updatedReservation, promotedReservation } = result;
+
+    if (
+      updatedReservation.status === ReservationStatus.READY_FOR_PICKUP &&
+      existingReservation.status !== ReservationStatus.READY_FOR_PICKUP
+    ) {
+      publishHoldReady(updatedReservation);
+    }
+    if (promotedReservation) {
+      publishHoldReady(promotedReservation);
+    }
     
     return NextResponse.json(updatedReservation);
   } catch (error) {
@@ -358,12 +424,11 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions);
+    const auth = await authorize("reservation:delete");
+    if (!auth.ok) {
+      return auth.response;
+    }
 
-    // Check if user is authenticated and has appropriate permissions
-    const hasDeletePermission = session?.user?.permissions?.includes(Permission.RESERVATION_DELETE);
-    const isCurrentUser = false; // Will be set below if applicable
-    
     // Fetch the reservation to check ownership and status
     const reservation = await prisma.reservation.findUnique({
       where: { id: params.id },
@@ -384,15 +449,9 @@ export async function DELETE(
       );
     }
     
-    // Check if the current user is the reservation owner
-    const isOwner = session?.user?.id === reservation.userId;
-    
     // Users can cancel their own pending or ready reservations, admins/librarians can cancel any
-    if (!hasDeletePermission && !isOwner) {
-      return NextResponse.json(
-        { error: "You don't have permission to cancel this reservation" },
-        { status: 403 }
-      );
+    if (!can(auth.user, "reservation:delete", { ownerId: reservation.userId })) {
+      return forbidden("reservation:delete");
     }
     
     // Cannot cancel already fulfilled, cancelled, or expired reservations
@@ -417,38 +476,28 @@ export async function DELETE(
         data: { status: ReservationStatus.CANCELLED },
       });
       
-      // If this reservation was ready for pickup (book was reserved for this user)
-      if (reservation.status === ReservationStatus.READY_FOR_PICKUP && 
-          reservation.book.status === BookStatus.RESERVED) {
-        
-        // Find next pending reservation for this book
-        const nextReservation = await tx.reservation.findFirst({
-          where: {
-            bookId: reservation.book.id,
-            status: ReservationStatus.PENDING,
-          },
-          orderBy: {
-            reservationDate: 'asc',
-          },
-        });
-        
-        if (nextReservation) {
-          // Update next reservation to be ready for pickup
-          await tx.reservation.update({
-            where: { id: nextReservation.id },
-            data: { status: ReservationStatus.READY_FOR_PICKUP },
-          });
-        } else {
-          // No more pending reservations, make the book available again
-          await tx.book.update({
-            where: { id: reservation.book.id },
-            data: { status: BookStatus.AVAILABLE },
-          });
-        }
+      // If this reservation was ready for pickup, the held copy goes to the next person in line
+      let promotedReservation: Awaited<ReturnType<typeof releaseCopy>> = null;
+      if (reservation.status === ReservationStatus.READY_FOR_PICKUP && reservation.copyId) {
+        promotedReservation = await releaseCopy(tx, { id: reservation.copyId, bookId: reservation.bookId });
       }
+
+      await recordAuditEvent({
+        actorId: auth.user.id,
+        action: AuditAction.CANCELLED,
+        entityType: AuditEntityType.RESERVATION,
+        entityId: reservation.id,
+        before: { status: reservation.status },
+        after: { status: cancelledReservation.status },
+        request,
+      }, tx);
       
-      return cancelledReservation;
+      return { ...cancelledReservation, promotedReservation };
     });
+
+    if (result.promotedReservation) {
+      publishHoldReady(result.promotedReservation);
+    }
     
     return NextResponse.json({
       message: "Reservation successfully cancelled",
@@ -1,10 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth-options";
+import { authorize, canActOnOthers } from "@/lib/auth/policy";
 import { prisma } from "@/lib/prisma";
 import { z } from "zod";
-import { Permission } from "@/lib/auth/rbac/types";
-import { BookStatus, ReservationStatus, TransactionStatus } from "@prisma/client";
+import { ReservationStatus, TransactionStatus } from "@prisma/client";
+import { getCopyAvailability } from "@/lib/circulation/copies";
 
 // Schema for queue request query parameters
 const queueQuerySchema = z.object({
@@ -16,14 +15,9 @@ const queueQuerySchema = z.object({
 // GET endpoint to retrieve reservation queue for a specific book
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
-
-    // Check if user is authenticated and has permission to read reservations
-    if (!session?.user?.permissions?.includes(Permission.RESERVATION_READ)) {
-      return NextResponse.json(
-        { error: "You don't have permission to view reservation queues" },
-        { status: 403 }
-      );
+    const auth = await authorize("reservation:read");
+    if (!auth.ok) {
+      return auth.response;
     }
 
     // Parse and validate the bookId parameter
@@ -76,6 +70,12 @@ export async function GET(request: NextRequest) {
         status: true,
         reservationDate: true,
         expiryDate: true,
+        copy: {
+          select: {
+            id: true,
+            barcode: true,
+          },
+        },
         user: {
           select: {
             id: true,
@@ -89,59 +89,69 @@ export async function GET(request: NextRequest) {
       },
     });
     
-    // Get current transaction information if the book is checked out
-    let currentTransaction = null;
-    
-    if (book.status === BookStatus.CHECKED_OUT) {
-      currentTransaction = await prisma.transaction.findFirst({
-        where: {
-          bookId,
-          status: { in: [TransactionStatus.CHECKED_OUT, TransactionStatus.OVERDUE] },
+    // Get the active loans of every copy, the one due back first leads the list
+    const activeLoans = await prisma.transaction.findMany({
+      where: {
+        bookId,
+        status: { in: [TransactionStatus.CHECKED_OUT, TransactionStatus.OVERDUE] },
+      },
+      select: {
+        id: true,
+        checkoutDate: true,
+        dueDate: true,
+        status: true,
+        copy: {
+          select: {
+            id: true,
+            barcode: true,
+          },
         },
-        select: {
-          id: true,
-          checkoutDate: true,
-          dueDate: true,
-          status: true,
-          user: {
-            select: {
-              id: true,
-              name: true,
-            },
+        user: {
+          select: {
+            id: true,
+            name: true,
           },
         },
-      });
-    }
+      },
+      orderBy: {
+        dueDate: 'asc',
+      },
+    });
+    
+    // Members only see who they are in the queue; other patrons are shown by position
+    const showPatrons = canActOnOthers(auth.user, "reservation:read");
+    const firstLoan = activeLoans[0] || null;
+    const currentTransaction = firstLoan && !showPatrons ? { ...firstLoan, user: null } : firstLoan;
+    const copyAvailability = await getCopyAvailability(prisma, bookId);
+    
+    // Days until a loan comes back: 1 day processing after the due date, or 3 days if already overdue
+    const daysUntilReturn = (dueDate: Date) => {
+      const daysUntilDue = Math.ceil((new Date(dueDate).getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24));
+      return daysUntilDue < 0 ? 3 : daysUntilDue + 1;
+    };
     
     // Calculate estimated wait times for each position in the queue
+    let waitingPosition = 0;
+    
     const reservationsWithWaitTime = reservations.map((reservation, index) => {
       // Base wait time calculations:
-      // - If position 1 and book is available: 0 days
-      // - If position 1 and book is checked out: days until due date + 1 day processing
-      // - For each position after: add 7 days (average checkout duration)
+      // - Ready for pickup: 0 days
+      // - While copies are on the shelf: 0 days
+      // - Otherwise each waiting reservation takes the next copy due back; once every
+      //   loaned copy has been claimed, add a 14 day checkout period per round
       
       let estimatedWaitDays = 0;
       
-      if (index === 0 && reservation.status === ReservationStatus.READY_FOR_PICKUP) {
-        estimatedWaitDays = 0; // Ready for pickup
-      } else if (index === 0 && currentTransaction) {
-        // Calculate days until the current checkout is due
-        const today = new Date();
-        const dueDate = new Date(currentTransaction.dueDate);
-        const daysUntilDue = Math.ceil((dueDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+      if (reservation.status !== ReservationStatus.READY_FOR_PICKUP) {
+        const queueSlot = waitingPosition - copyAvailability.availableCopies;
+        waitingPosition++;
         
-        // If already overdue, estimate 3 days; otherwise use days until due + 1 day processing
-        estimatedWaitDays = daysUntilDue < 0 ? 3 : daysUntilDue + 1;
-      } else if (index === 0 && book.status === 'AVAILABLE') {
-        estimatedWaitDays = 0; // Book is available
-      } else {
-        // For subsequent positions, add average checkout duration of 14 days per position
-        // Calculate based on position and current book status
-        const baseWaitDays = currentTransaction ? 
-          Math.max(0, Math.ceil((new Date(currentTransaction.dueDate).getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24))) : 
-          0;
+        if (queueSlot >= 0 && activeLoans.length > 0) {
+          const loan = activeLoans[queueSlot % activeLoans.length];
+          const rounds = Math.floor(queueSlot / activeLoans.length);
           
-        estimatedWaitDays = baseWaitDays + (index * 14);
+          estimatedWaitDays = daysUntilReturn(loan.dueDate) + (rounds * 14);
+        }
       }
       
       return {
@@ -154,8 +164,11 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       book,
       currentTransaction,
+      copyAvailability,
       queueLength: reservations.length,
-      reservationQueue: reservationsWithWaitTime,
+      reservationQueue: reservationsWithWaitTime.map((entry) =>
+        showPatrons || entry.user.id === auth.user.id ? entry : { position: entry.position }
+      ),
     });
   } catch (error) {
     console.error("Failed to retrieve reservation queue:", error);
@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ReservationStatus, UserRole } from '@prisma/client';
+import { roleDefinitions } from '@/lib/auth/rbac/roles';
+
+const { getServerSession, prisma } = vi.hoisted(() => ({
+  getServerSession: vi.fn(),
+  prisma: {
+    book: { findUnique: vi.fn() },
+    user: { findUnique: vi.fn() },
+    reservation: { findFirst: vi.fn(), create: vi.fn() },
+    transaction: { findFirst: vi.fn() },
+  },
+}));
+
+vi.mock('next-auth', () => ({ getServerSession }));
+vi.mock('@/lib/auth/auth-options', () => ({ authOptions: {} }));
+vi.mock('@/lib/prisma', () => ({ prisma }));
+vi.mock('@/lib/audit/events', () => ({ recordAuditEvent: vi.fn() }));
+vi.mock('@/lib/events/circulation', () => ({ publishReservationCreated: vi.fn() }));
+vi.mock('@/lib/circulation/copies', () => ({
+  getCopyAvailability: vi.fn().mockResolvedValue({
+    availableCopies: 0,
+    checkedOutCopies: 1,
+    reservedCopies: 0,
+  }),
+}));
+
+import { POST } from './route';
+
+const BOOK_ID = '7d3f3c4e-1a2b-4c5d-8e9f-0a1b2c3d4e5f';
+const MEMBER_ID = '1c2d3e4f-5a6b-4c7d-8e9f-a0b1c2d3e4f5';
+const OTHER_MEMBER_ID = '9f8e7d6c-5b4a-4392-8170-6f5e4d3c2b1a';
+
+function signInAs(role: UserRole, id: string) {
+  getServerSession.mockResolvedValue({
+    user: { id, name: role, role, permissions: roleDefinitions[role].permissions },
+  });
+}
+
+function post(body: object) {
+  const request = new Request('http://localhost/api/reservations', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+  return POST(request);
+}
+
+describe('POST /api/reservations', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prisma.book.findUnique.mockResolvedValue({ id: BOOK_ID, status: 'CHECKED_OUT' });
+    prisma.user.findUnique.mockImplementation(async ({ where }) => ({ id: where.id }));
+    prisma.reservation.findFirst.mockResolvedValue(null);
+    prisma.transaction.findFirst.mockResolvedValue(null);
+    prisma.reservation.create.mockImplementation(async ({ data }) => ({
+      id: 'reservation-1',
+      ...data,
+      status: ReservationStatus.PENDING,
+    }));
+  });
+
+  it('lets members reserve a book for themselves', async () => {
+    signInAs(UserRole.MEMBER, MEMBER_ID);
+
+    const response = await post({ bookId: BOOK_ID, userId: MEMBER_ID });
+
+    expect(response.status).toBe(201);
+    expect(prisma.reservation.create).toHaveBeenCalled();
+  });
+
+  it("refuses a member reserving a book in another member's name", async () => {
+    signInAs(UserRole.MEMBER, MEMBER_ID);
+
+    const response = await post({ bookId: BOOK_ID, userId: OTHER_MEMBER_ID });
+
+    expect(response.status).toBe(403);
+    expect(prisma.reservation.create).not.toHaveBeenCalled();
+  });
+
+  it.each([UserRole.ADMIN, UserRole.LIBRARIAN])('lets %s reserve a book for a member', async (role) => {
+    signInAs(role, `${role.toLowerCase()}-1`);
+
+    const response = await post({ bookId: BOOK_ID, userId: OTHER_MEMBER_ID });
+
+    expect(response.status).toBe(201);
+  });
+});
@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth-options";
 import { prisma } from "@/lib/prisma";
 import { z } from "zod";
-import { Permission } from "@/lib/auth/rbac/types";
-import { BookStatus, ReservationStatus, TransactionStatus } from "@prisma/client";
+import { authorize, can, forbidden, getOwnerScope } from "@/lib/auth/policy";
+import { AuditAction, AuditEntityType, ReservationStatus, TransactionStatus } from "@prisma/client";
+import { recordAuditEvent } from "@/lib/audit/events";
+import { getCopyAvailability } from "@/lib/circulation/copies";
+import { publishReservationCreated } from "@/lib/events/circulation";
 
 // Schema for validating reservation creation
 const reservationCreateSchema = z.object({
@@ -38,14 +39,9 @@ function calculateExpiryDate(reservationDate: Date): Date {
 // GET endpoint to list reservations with filtering, pagination, and sorting
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
-
-    // Check if user is authenticated and has permission to read reservations
-    if (!session?.user?.permissions?.includes(Permission.RESERVATION_READ)) {
-      return NextResponse.json(
-        { error: "You don't have permission to view reservations" },
-        { status: 403 }
-      );
+    const auth = await authorize("reservation:read");
+    if (!auth.ok) {
+      return auth.response;
     }
 
     // Parse URL search params for filtering and pagination
@@ -71,9 +67,10 @@ export async function GET(request: NextRequest) {
       where.status = status;
     }
 
-    // Add user filter if provided
-    if (userId) {
-      where.userId = userId;
+    // Members only see their own reservations; staff can filter by member
+    const ownerScope = getOwnerScope(auth.user, "reservation:read");
+    if (ownerScope || userId) {
+      where.userId = ownerScope ?? userId;
     }
 
     // Add book filter if provided
@@ -104,6 +101,13 @@ export async function GET(request: NextRequest) {
             status: true,
           },
         },
+        copy: {
+          select: {
+            id: true,
+            barcode: true,
+            shelfLocation: true,
+          },
+        },
         user: {
           select: {
             id: true,
@@ -172,14 +176,9 @@ export async function GET(request: NextRequest) {
 // POST endpoint to create a new reservation
 export async function POST(request: Request) {
   try {
-    const session = await getServerSession(authOptions);
-
-    // Check if user is authenticated and has permission to create reservations
-    if (!session?.user?.permissions?.includes(Permission.RESERVATION_CREATE)) {
-      return NextResponse.json(
-        { error: "You don't have permission to create reservations" },
-        { status: 403 }
-      );
+    const auth = await authorize("reservation:create");
+    if (!auth.ok) {
+      return auth.response;
     }
 
     const data = await request.json();
@@ -199,6 +198,11 @@ export async function POST(request: Request) {
     
     // Extract validated data
     const { bookId, userId, notes } = validationResult.data;
+
+    // Members can only place holds for themselves
+    if (!can(auth.user, "reservation:create", { ownerId: userId })) {
+      return forbidden("reservation:create");
+    }
     
     // Check if the book exists
     const book = await prisma.book.findUnique({
@@ -212,23 +216,25 @@ export async function POST(request: Request) {
       );
     }
     
-    // Cannot reserve books that are already available
-    if (book.status === BookStatus.AVAILABLE) {
+    // Cannot reserve a title while a copy is on the shelf
+    const availability = await getCopyAvailability(prisma, bookId);
+    
+    if (availability.availableCopies > 0) {
       return NextResponse.json(
         { 
-          error: "This book is currently available. No need to reserve it.",
+          error: "A copy of this book is currently available. No need to reserve it.",
           bookId: book.id,
-          status: book.status
+          availableCopies: availability.availableCopies
         },
         { status: 409 }
       );
     }
     
-    // Check if book is in a reservable state
-    if (![BookStatus.CHECKED_OUT, BookStatus.RESERVED].includes(book.status)) {
+    // Check if any copy is in circulation and could come back for this reservation
+    if (availability.checkedOutCopies + availability.reservedCopies === 0) {
       return NextResponse.json(
         { 
-          error: `Book cannot be reserved. Current status: ${book.status}`,
+          error: `Book cannot be reserved. No copies are in circulation. Current status: ${book.status}`,
           bookId: book.id,
           status: book.status
         },
@@ -319,6 +325,17 @@ export async function POST(request: Request) {
         },
       },
     });
+
+    await recordAuditEvent({
+      actorId: auth.user.id,
+      action: AuditAction.CREATED,
+      entityType: AuditEntityType.RESERVATION,
+      entityId: newReservation.id,
+      after: { bookId, userId, status: newReservation.status, expiryDate },
+      request,
+    });
+
+    publishReservationCreated(newReservation);
     
     return NextResponse.json(newReservation, { status: 201 });
   } catch (error) {
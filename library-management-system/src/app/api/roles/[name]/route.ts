@@ -0,0 +1,171 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/policy";
+import { prisma } from "@/lib/prisma";
+import {
+  countUsersWithRole,
+  deleteRole,
+  getRoleChangeHistory,
+  isRoleEditable,
+  updateRole,
+} from "@/lib/auth/rbac/role-management";
+import { updateRoleSchema } from "@/lib/validations/role";
+
+// GET endpoint to fetch a role with its change history
+export async function GET(
+  request: Request,
+  { params }: { params: { name: string } }
+) {
+  try {
+    const auth = await authorize("role:manage");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const name = decodeURIComponent(params.name);
+    const role = await prisma.role.findUnique({
+      where: { name },
+      include: {
+        permissions: { select: { permission: true } },
+      },
+    });
+
+    if (!role) {
+      return NextResponse.json(
+        { error: "Role not found" },
+        { status: 404 }
+      );
+    }
+
+    const [userCount, history] = await Promise.all([
+      countUsersWithRole(name),
+      getRoleChangeHistory({ role: name }),
+    ]);
+
+    return NextResponse.json({
+      ...role,
+      permissions: role.permissions.map((p) => p.permission),
+      userCount,
+      editable: isRoleEditable(name),
+      history,
+    });
+  } catch (error) {
+    console.error("Failed to fetch role:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch role" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH endpoint to update a role's description and permissions
+export async function PATCH(
+  request: Request,
+  { params }: { params: { name: string } }
+) {
+  try {
+    const auth = await authorize("role:manage");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const data = await request.json();
+
+    // Validate the request data
+    const validationResult = updateRoleSchema.safeParse(data);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid data",
+          details: validationResult.error.format()
+        },
+        { status: 400 }
+      );
+    }
+
+    const name = decodeURIComponent(params.name);
+    const existingRole = await prisma.role.findUnique({
+      where: { name },
+    });
+
+    if (!existingRole) {
+      return NextResponse.json(
+        { error: "Role not found" },
+        { status: 404 }
+      );
+    }
+
+    if (validationResult.data.permissions && !isRoleEditable(name)) {
+      return NextResponse.json(
+        { error: "The permissions of this role can't be changed" },
+        { status: 409 }
+      );
+    }
+
+    const changes = await updateRole(name, validationResult.data, auth.user.id, request);
+
+    return NextResponse.json({
+      ...changes,
+      message: "Role updated successfully",
+    });
+  } catch (error) {
+    console.error("Failed to update role:", error);
+    return NextResponse.json(
+      { error: "Failed to update role" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE endpoint to remove a custom role
+export async function DELETE(
+  request: Request,
+  { params }: { params: { name: string } }
+) {
+  try {
+    const auth = await authorize("role:manage");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const name = decodeURIComponent(params.name);
+    const existingRole = await prisma.role.findUnique({
+      where: { name },
+    });
+
+    if (!existingRole) {
+      return NextResponse.json(
+        { error: "Role not found" },
+        { status: 404 }
+      );
+    }
+
+    if (existingRole.isSystem) {
+      return NextResponse.json(
+        { error: "System roles can't be deleted" },
+        { status: 409 }
+      );
+    }
+
+    const userCount = await countUsersWithRole(name);
+    if (userCount > 0) {
+      return NextResponse.json(
+        {
+          error: "Cannot delete a role that is assigned to users",
+          userCount
+        },
+        { status: 409 }
+      );
+    }
+
+    await deleteRole(name, auth.user.id, request);
+
+    return NextResponse.json({ message: "Role deleted successfully" });
+  } catch (error) {
+    console.error("Failed to delete role:", error);
+    return NextResponse.json(
+      { error: "Failed to delete role" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { authorize } from "@/lib/auth/policy";
+import { Permission } from "@/lib/auth/rbac/types";
+import { createRole, listRoles } from "@/lib/auth/rbac/role-management";
+import { roleSchema } from "@/lib/validations/role";
+
+// GET endpoint to list all roles with their permissions
+export async function GET() {
+  try {
+    const auth = await authorize("role:manage");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const roles = await listRoles();
+
+    return NextResponse.json({
+      roles,
+      permissions: Object.values(Permission),
+    });
+  } catch (error) {
+    console.error("Failed to fetch roles:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch roles" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST endpoint to create a custom role
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize("role:manage");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const data = await request.json();
+
+    // Validate the request data
+    const validationResult = roleSchema.safeParse(data);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid data",
+          details: validationResult.error.format()
+        },
+        { status: 400 }
+      );
+    }
+
+    const role = await createRole(validationResult.data, auth.user.id, request);
+
+    return NextResponse.json(role, { status: 201 });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return NextResponse.json(
+        { error: "A role with this name already exists" },
+        { status: 409 }
+      );
+    }
+
+    console.error("Failed to create role:", error);
+    return NextResponse.json(
+      { error: "Failed to create role" },
+      { status: 500 }
+    );
+  }
+}
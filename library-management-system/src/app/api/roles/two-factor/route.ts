@@ -0,0 +1,128 @@
+import { NextResponse } from "next/server";
+import { AuditAction, AuditEntityType, UserRole } from "@prisma/client";
+import { authorize } from "@/lib/auth/policy";
+import { prisma } from "@/lib/prisma";
+import { recordAuditEvent } from "@/lib/audit/events";
+import { STAFF_ROLES, roleDefinitions } from "@/lib/auth/rbac/roles";
+import { twoFactorPolicySchema } from "@/lib/validations/two-factor";
+
+// Users holding a role, either as their primary role or through a role mapping
+const holdsRole = (role: UserRole) => ({
+  OR: [
+    { role },
+    { userRoles: { some: { role } } },
+  ],
+});
+
+// GET endpoint to fetch the two-factor policy for each staff role
+export async function GET() {
+  try {
+    const auth = await authorize("security:manage");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const roleRows = await prisma.role.findMany({
+      where: { name: { in: STAFF_ROLES } },
+      select: { name: true, requireTwoFactor: true },
+    });
+
+    const roles = await Promise.all(
+      STAFF_ROLES.map(async (role) => {
+        const [userCount, enrolledCount] = await Promise.all([
+          prisma.user.count({ where: holdsRole(role) }),
+          prisma.user.count({
+            where: {
+              ...holdsRole(role),
+              twoFactorEnabledAt: { not: null },
+            },
+          }),
+        ]);
+
+        return {
+          role,
+          description: roleDefinitions[role].description,
+          requireTwoFactor: roleRows.find((row) => row.name === role)?.requireTwoFactor ?? false,
+          userCount,
+          enrolledCount,
+        };
+      })
+    );
+
+    return NextResponse.json({ roles });
+  } catch (error) {
+    console.error("Failed to fetch two-factor policy:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch two-factor policy" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH endpoint to require or stop requiring two-factor authentication for a staff role
+export async function PATCH(request: Request) {
+  try {
+    const auth = await authorize("security:manage");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const data = await request.json();
+
+    // Validate the request data
+    const validationResult = twoFactorPolicySchema.safeParse(data);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid data",
+          details: validationResult.error.format()
+        },
+        { status: 400 }
+      );
+    }
+
+    const { role, requireTwoFactor } = validationResult.data;
+
+    const existingRole = await prisma.role.findUnique({
+      where: { name: role },
+      select: { requireTwoFactor: true },
+    });
+
+    // Role rows come from the seed, but create one if it is missing
+    const updatedRole = await prisma.role.upsert({
+      where: { name: role },
+      update: { requireTwoFactor },
+      create: {
+        name: role,
+        description: roleDefinitions[role].description,
+        isSystem: true,
+        requireTwoFactor,
+      },
+      select: { name: true, requireTwoFactor: true },
+    });
+
+    await recordAuditEvent({
+      actorId: auth.user.id,
+      action: AuditAction.UPDATED,
+      entityType: AuditEntityType.ROLE,
+      entityId: role,
+      before: { requireTwoFactor: existingRole?.requireTwoFactor ?? false },
+      after: { requireTwoFactor: updatedRole.requireTwoFactor },
+      request,
+    });
+
+    return NextResponse.json({
+      role: updatedRole,
+      message: requireTwoFactor
+        ? `Two-factor authentication is now required for ${role} accounts`
+        : `Two-factor authentication is now optional for ${role} accounts`,
+    });
+  } catch (error) {
+    console.error("Failed to update two-factor policy:", error);
+    return NextResponse.json(
+      { error: "Failed to update two-factor policy" },
+      { status: 500 }
+    );
+  }
+}
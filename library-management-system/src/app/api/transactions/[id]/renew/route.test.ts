@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { TransactionStatus, UserRole, UserStatus } from '@prisma/client';
+import { roleDefinitions } from '@/lib/auth/rbac/roles';
+import { DEFAULT_CIRCULATION_POLICY } from '@/lib/circulation/policy';
+
+const { getServerSession, prisma, resolveCirculationPolicy } = vi.hoisted(() => {
+  const prisma = {
+    transaction: { findUnique: vi.fn(), updateMany: vi.fn(), findUniqueOrThrow: vi.fn() },
+    transactionRenewal: { create: vi.fn() },
+    reservation: { count: vi.fn() },
+    $transaction: vi.fn(),
+  };
+  return { getServerSession: vi.fn(), prisma, resolveCirculationPolicy: vi.fn() };
+});
+
+vi.mock('next-auth', () => ({ getServerSession }));
+vi.mock('@/lib/auth/auth-options', () => ({ authOptions: {} }));
+vi.mock('@/lib/prisma', () => ({ prisma }));
+vi.mock('@/lib/audit/events', () => ({ recordAuditEvent: vi.fn() }));
+vi.mock('@/lib/circulation/fines', () => ({ createReturnFineCharges: vi.fn().mockResolvedValue([]) }));
+vi.mock('@/lib/circulation/policy', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/circulation/policy')>()),
+  resolveCirculationPolicy,
+}));
+
+import { POST } from './route';
+
+const OWNER_ID = 'member-1';
+const DAY = 1000 * 60 * 60 * 24;
+
+function signInAs(role: UserRole, id: string) {
+  getServerSession.mockResolvedValue({
+    user: { id, name: role, role, permissions: roleDefinitions[role].permissions },
+  });
+}
+
+function renew() {
+  const request = new Request('http://localhost/api/transactions/loan-1/renew', { method: 'POST' });
+  return POST(request, { params: { id: 'loan-1' } });
+}
+
+const dueDate = new Date(Date.now() + 3 * DAY);
+
+// An active loan due in three days, borrowed by a member with the given account status
+function loanFor(status: UserStatus) {
+  return {
+    id: 'loan-1',
+    bookId: 'book-1',
+    userId: OWNER_ID,
+    status: TransactionStatus.CHECKED_OUT,
+    dueDate,
+    renewalCount: 0,
+    book: { id: 'book-1', title: 'Book', category: 'Fiction' },
+    user: { role: UserRole.MEMBER, status, membershipExpiresAt: null },
+  };
+}
+
+describe('POST /api/transactions/[id]/renew', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prisma.$transaction.mockImplementation(async (run) => run(prisma));
+    prisma.transaction.findUnique.mockResolvedValue(loanFor(UserStatus.ACTIVE));
+    prisma.reservation.count.mockResolvedValue(0);
+    prisma.transaction.updateMany.mockResolvedValue({ count: 1 });
+    prisma.transaction.findUniqueOrThrow.mockResolvedValue({ id: 'loan-1', renewalCount: 1 });
+    resolveCirculationPolicy.mockResolvedValue({ ...DEFAULT_CIRCULATION_POLICY, loanPeriodDays: 7 });
+  });
+
+  it("extends the loan by the loan period of the member's circulation policy", async () => {
+    signInAs(UserRole.MEMBER, OWNER_ID);
+
+    const response = await renew();
+
+    expect(response.status).toBe(200);
+    expect(prisma.transaction.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ dueDate: new Date(dueDate.getTime() + 7 * DAY) }),
+      })
+    );
+  });
+
+  it.each([UserStatus.SUSPENDED, UserStatus.INACTIVE])('refuses to renew loans of %s members', async (status) => {
+    signInAs(UserRole.LIBRARIAN, 'librarian-1');
+    prisma.transaction.findUnique.mockResolvedValue(loanFor(status));
+
+    const response = await renew();
+
+    expect(response.status).toBe(409);
+    expect(prisma.transaction.updateMany).not.toHaveBeenCalled();
+  });
+});
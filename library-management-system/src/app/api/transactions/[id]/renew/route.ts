@@ -0,0 +1,246 @@
+import { NextResponse } from "next/server";
+import { authorize, can, forbidden } from "@/lib/auth/policy";
+import { prisma } from "@/lib/prisma";
+import { recordAuditEvent } from "@/lib/audit/events";
+import { AuditAction, AuditEntityType, ReservationStatus, TransactionStatus, UserStatus } from "@prisma/client";
+import circulationConfig from "@/lib/circulation/config";
+import { createReturnFineCharges } from "@/lib/circulation/fines";
+import { calculateDueDate, calculateFine, resolveCirculationPolicy } from "@/lib/circulation/policy";
+import { isMembershipExpired } from "@/lib/members/library-card";
+
+// POST endpoint to renew an active loan
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize("transaction:renew");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    // Fetch the transaction to check ownership and status
+    const transaction = await prisma.transaction.findUnique({
+      where: { id: params.id },
+      include: {
+        book: {
+          select: {
+            id: true,
+            title: true,
+            category: true,
+          },
+        },
+        user: {
+          select: {
+            role: true,
+            status: true,
+            membershipExpiresAt: true,
+          },
+        },
+      },
+    });
+
+    if (!transaction) {
+      return NextResponse.json(
+        { error: "Transaction not found" },
+        { status: 404 }
+      );
+    }
+
+    // Members can renew their own loans, librarians and admins can renew any
+    if (!can(auth.user, "transaction:renew", { ownerId: transaction.userId })) {
+      return forbidden("transaction:renew");
+    }
+
+    // Only active loans can be renewed
+    if (
+      transaction.status !== TransactionStatus.CHECKED_OUT &&
+      transaction.status !== TransactionStatus.OVERDUE
+    ) {
+      return NextResponse.json(
+        {
+          error: `Cannot renew a loan with status: ${transaction.status}`
+        },
+        { status: 409 }
+      );
+    }
+
+    // Suspended and inactive members can't renew, just as they can't check out
+    if (transaction.user.status !== UserStatus.ACTIVE) {
+      return NextResponse.json(
+        {
+          error: `User account is not active. Current status: ${transaction.user.status}`
+        },
+        { status: 409 }
+      );
+    }
+
+    // An expired card has to be renewed at the desk before the loan can be
+    if (isMembershipExpired(transaction.user)) {
+      return NextResponse.json(
+        {
+          error: `Library card expired on ${transaction.user.membershipExpiresAt!.toISOString().split("T")[0]}. Renew the membership to renew loans.`,
+          membershipStatus: "EXPIRED",
+        },
+        { status: 409 }
+      );
+    }
+
+    // Enforce the renewal limit
+    if (transaction.renewalCount >= circulationConfig.maxRenewals) {
+      return NextResponse.json(
+        {
+          error: `This loan has already been renewed the maximum number of times (${circulationConfig.maxRenewals})`,
+          renewalCount: transaction.renewalCount,
+          maxRenewals: circulationConfig.maxRenewals,
+        },
+        { status: 409 }
+      );
+    }
+
+    // Loans that are too far overdue must be returned instead
+    const now = new Date();
+    const dueDate = new Date(transaction.dueDate);
+    const daysOverdue = Math.ceil(
+      (now.getTime() - dueDate.getTime()) / (1000 * 60 * 60 * 24)
+    );
+
+    if (daysOverdue > circulationConfig.renewalOverdueGraceDays) {
+      return NextResponse.json(
+        {
+          error: `This loan is ${daysOverdue} days overdue and can no longer be renewed. Please return the book.`,
+          daysOverdue,
+        },
+        { status: 409 }
+      );
+    }
+
+    // Other members waiting for the title take priority over a renewal
+    const pendingReservations = await prisma.reservation.count({
+      where: {
+        bookId: transaction.bookId,
+        status: ReservationStatus.PENDING,
+        expiryDate: { gt: now },
+      },
+    });
+
+    if (pendingReservations > 0) {
+      return NextResponse.json(
+        {
+          error: "This book has been reserved by another member and cannot be renewed",
+          pendingReservations,
+        },
+        { status: 409 }
+      );
+    }
+
+    const policy = await resolveCirculationPolicy(prisma, {
+      role: transaction.user.role,
+      category: transaction.book.category,
+    });
+
+    // Extend by the policy's loan period from the current due date, or from today
+    // for a loan that is already late
+    const newDueDate = calculateDueDate(policy, dueDate > now ? dueDate : now);
+
+    // A late loan is charged for the days it was overdue now, since the return
+    // only counts lateness from the new due date
+    const lateFee = calculateFine(policy, dueDate, now);
+
+    // Record the renewal and extend the loan in a single transaction
+    const renewedTransaction = await prisma.$transaction(async (tx) => {
+      // Claim the renewal only while the loan is still active, unchanged and under the limit,
+      // so concurrent renewals can't go past it
+      const { count } = await tx.transaction.updateMany({
+        where: {
+          id: transaction.id,
+          dueDate,
+          status: { in: [TransactionStatus.CHECKED_OUT, TransactionStatus.OVERDUE] },
+          renewalCount: { lt: circulationConfig.maxRenewals },
+        },
+        data: {
+          dueDate: newDueDate,
+          status: TransactionStatus.CHECKED_OUT,
+          renewalCount: { increment: 1 },
+          fine: { increment: lateFee },
+        },
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      await tx.transactionRenewal.create({
+        data: {
+          transactionId: transaction.id,
+          renewedById: auth.user.id,
+          previousDueDate: dueDate,
+          newDueDate,
+        },
+      });
+
+      await recordAuditEvent({
+        actorId: auth.user.id,
+        action: AuditAction.RENEWED,
+        entityType: AuditEntityType.TRANSACTION,
+        entityId: transaction.id,
+        before: { dueDate, status: transaction.status, renewalCount: transaction.renewalCount },
+        after: { dueDate: newDueDate, status: TransactionStatus.CHECKED_OUT, renewalCount: transaction.renewalCount + 1 },
+        request,
+      }, tx);
+
+      const fineCharges = await createReturnFineCharges(
+        tx,
+        { transactionId: transaction.id, userId: transaction.userId },
+        { lateFee, conditionFee: 0, condition: "GOOD" }
+      );
+
+      for (const charge of fineCharges) {
+        await recordAuditEvent({
+          actorId: auth.user.id,
+          action: AuditAction.CREATED,
+          entityType: AuditEntityType.FINE,
+          entityId: charge.id,
+          after: charge,
+          reason: "Overdue at renewal",
+          request,
+        }, tx);
+      }
+
+      return tx.transaction.findUniqueOrThrow({
+        where: { id: transaction.id },
+        include: {
+          book: {
+            select: {
+              id: true,
+              title: true,
+              author: true,
+            },
+          },
+          renewals: {
+            orderBy: { renewedAt: "desc" },
+          },
+        },
+      });
+    });
+
+    if (!renewedTransaction) {
+      return NextResponse.json(
+        { error: "This loan was changed or renewed by someone else. Reload it and try again." },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      ...renewedTransaction,
+      lateFeeCharged: lateFee,
+      renewalsRemaining: circulationConfig.maxRenewals - renewedTransaction.renewalCount,
+    });
+  } catch (error) {
+    console.error("Failed to renew loan:", error);
+    return NextResponse.json(
+      { error: "Failed to renew loan" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth-options";
+import { authorize, can } from "@/lib/auth/policy";
 import { prisma } from "@/lib/prisma";
+import { recordAuditEvent } from "@/lib/audit/events";
 import { z } from "zod";
-import { Permission } from "@/lib/auth/rbac/types";
-import { TransactionStatus } from "@prisma/client";
+import { AuditAction, AuditEntityType, TransactionStatus } from "@prisma/client";
+import { publishReturn } from "@/lib/events/circulation";
 
 // Schema for validating transaction updates
 const transactionUpdateSchema = z.object({
@@ -19,6 +19,8 @@ const transactionUpdateSchema = z.object({
     }
   ).optional(),
   notes: z.string().max(500).optional(),
+  // Why the loan was changed, for the audit trail
+  reason: z.string().max(500).optional(),
 });
 
 // GET endpoint to retrieve a specific transaction
@@ -27,14 +29,9 @@ export async function GET(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions);
-
-    // Check if user is authenticated and has permission to read transactions
-    if (!session?.user?.permissions?.includes(Permission.TRANSACTION_READ)) {
-      return NextResponse.json(
-        { error: "You don't have permission to view transaction details" },
-        { status: 403 }
-      );
+    const auth = await authorize("transaction:read");
+    if (!auth.ok) {
+      return auth.response;
     }
 
     const transactionId = params.id;
@@ -56,6 +53,15 @@ export async function GET(
             status: true,
           },
         },
+        copy: {
+          select: {
+            id: true,
+            barcode: true,
+            shelfLocation: true,
+            condition: true,
+            status: true,
+          },
+        },
         user: {
           select: {
             id: true,
@@ -66,10 +72,22 @@ export async function GET(
             status: true,
           },
         },
+        renewals: {
+          orderBy: { renewedAt: "desc" },
+          include: {
+            renewedBy: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
+          },
+        },
       },
     });
 
-    if (!transaction) {
+    // Other patrons' loans look the same to members as ones that don't exist
+    if (!transaction || !can(auth.user, "transaction:read", { ownerId: transaction.userId })) {
       return NextResponse.json(
         { error: "Transaction not found" },
         { status: 404 }
@@ -113,14 +131,9 @@ export async function PATCH(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions);
-
-    // Check if user is authenticated and has permission to update transactions
-    if (!session?.user?.permissions?.includes(Permission.TRANSACTION_UPDATE)) {
-      return NextResponse.json(
-        { error: "You don't have permission to update transactions" },
-        { status: 403 }
-      );
+    const auth = await authorize("transaction:update");
+    if (!auth.ok) {
+      return auth.response;
     }
 
     const transactionId = params.id;
@@ -142,7 +155,7 @@ export async function PATCH(
     // Check if the transaction exists
     const existingTransaction = await prisma.transaction.findUnique({
       where: { id: transactionId },
-      select: { id: true, status: true, bookId: true },
+      select: { id: true, status: true, bookId: true, dueDate: true, returnDate: true },
     });
     
     if (!existingTransaction) {
@@ -153,7 +166,7 @@ export async function PATCH(
     }
     
     // Extract validated data
-    const { status, dueDate, notes } = validationResult.data;
+    const { status, dueDate, notes, reason } = validationResult.data;
     const updateData: any = {};
     
     // Only add fields that were provided
@@ -220,6 +233,27 @@ export async function PATCH(
         },
       },
     });
+
+    await recordAuditEvent({
+      actorId: auth.user.id,
+      action: AuditAction.UPDATED,
+      entityType: AuditEntityType.TRANSACTION,
+      entityId: transactionId,
+      before: existingTransaction,
+      after: {
+        id: updatedTransaction.id,
+        status: updatedTransaction.status,
+        bookId: updatedTransaction.bookId,
+        dueDate: updatedTransaction.dueDate,
+        returnDate: updatedTransaction.returnDate,
+      },
+      reason,
+      request,
+    });
+
+    if (updatedTransaction.returnDate && !existingTransaction.returnDate) {
+      publishReturn(updatedTransaction);
+    }
     
     return NextResponse.json(updatedTransaction);
   } catch (error) {
@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth-options";
+import { authorize, getOwnerScope } from "@/lib/auth/policy";
 import { prisma } from "@/lib/prisma";
 import { z } from "zod";
-import { Permission } from "@/lib/auth/rbac/types";
 import { TransactionStatus } from "@prisma/client";
+import {
+  calculateFine,
+  getDaysOverdue,
+  resolveCirculationPolicy,
+  ResolvedCirculationPolicy,
+} from "@/lib/circulation/policy";
 
 // Schema for filtering overdue transactions
 const overdueFilterSchema = z.object({
@@ -19,14 +23,9 @@ const overdueFilterSchema = z.object({
 // GET endpoint to list all overdue transactions
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
-
-    // Check if user is authenticated and has permission to read transactions
-    if (!session?.user?.permissions?.includes(Permission.TRANSACTION_READ)) {
-      return NextResponse.json(
-        { error: "You don't have permission to view overdue transactions" },
-        { status: 403 }
-      );
+    const auth = await authorize("transaction:read");
+    if (!auth.ok) {
+      return auth.response;
     }
 
     // Parse URL search params for filtering and pagination
@@ -58,9 +57,10 @@ export async function GET(request: NextRequest) {
       dueDate: { lt: today } // Due date is before today
     };
     
-    // Add user filter if provided
-    if (userId) {
-      where.userId = userId;
+    // Members only see their own overdue loans; staff can filter by member
+    const ownerScope = getOwnerScope(auth.user, "transaction:read");
+    if (ownerScope || userId) {
+      where.userId = ownerScope ?? userId;
     }
     
     // If daysOverdue is provided, ensure due date is before the calculated threshold
@@ -88,6 +88,13 @@ export async function GET(request: NextRequest) {
             author: true,
             isbn: true,
             coverImage: true,
+            category: true,
+          },
+        },
+        copy: {
+          select: {
+            id: true,
+            barcode: true,
           },
         },
         user: {
@@ -96,6 +103,7 @@ export async function GET(request: NextRequest) {
             name: true,
             email: true,
             phoneNumber: true,
+            role: true,
           },
         },
       },
@@ -106,15 +114,26 @@ export async function GET(request: NextRequest) {
       take: limit,
     });
 
-    // Calculate days overdue for each transaction
+    // Resolve each role/category combination once for the page
+    const policies = new Map<string, ResolvedCirculationPolicy>();
+    
+    for (const transaction of overdueTransactions) {
+      const key = `${transaction.user.role}:${transaction.book.category}`;
+      if (!policies.has(key)) {
+        policies.set(key, await resolveCirculationPolicy(prisma, {
+          role: transaction.user.role,
+          category: transaction.book.category,
+        }));
+      }
+    }
+
+    // Calculate days overdue and the fine accrued so far for each transaction
     const transactionsWithOverdueDays = overdueTransactions.map(transaction => {
       const dueDate = new Date(transaction.dueDate);
-      const diffTime = today.getTime() - dueDate.getTime();
-      const daysOverdue = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+      const daysOverdue = getDaysOverdue(dueDate, today);
       
-      // Calculate estimated fine
-      const fineRate = 0.5; // $0.50 per day
-      const estimatedFine = parseFloat((daysOverdue * fineRate).toFixed(2));
+      const policy = policies.get(`${transaction.user.role}:${transaction.book.category}`)!;
+      const estimatedFine = calculateFine(policy, dueDate, today);
       
       return {
         ...transaction,
@@ -157,14 +176,9 @@ export async function GET(request: NextRequest) {
 // POST endpoint to mark transactions as overdue
 export async function POST(request: Request) {
   try {
-    const session = await getServerSession(authOptions);
-
-    // Check if user is authenticated and has permission to update transactions
-    if (!session?.user?.permissions?.includes(Permission.TRANSACTION_UPDATE)) {
-      return NextResponse.json(
-        { error: "You don't have permission to update transaction statuses" },
-        { status: 403 }
-      );
+    const auth = await authorize("transaction:update");
+    if (!auth.ok) {
+      return auth.response;
     }
 
     // Find all transactions that are checked out but past their due date
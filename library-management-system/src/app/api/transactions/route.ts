@@ -1,16 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth-options";
+import { authorize, getOwnerScope } from "@/lib/auth/policy";
 import { prisma } from "@/lib/prisma";
 import { z } from "zod";
-import { Permission } from "@/lib/auth/rbac/types";
-import { BookStatus, TransactionStatus, UserStatus } from "@prisma/client";
+import { TransactionStatus } from "@prisma/client";
+import { checkoutBook, failureResponse } from "@/lib/circulation/service";
 
 // Schema for validating transaction creation (checkout)
+// A specific copy can be given by ID or barcode; otherwise any available copy of the book is used
 const checkoutSchema = z.object({
   bookId: z.string().uuid({
     message: "Invalid book ID format",
-  }),
+  }).optional(),
+  copyId: z.string().uuid({
+    message: "Invalid copy ID format",
+  }).optional(),
+  barcode: z.string().min(1).max(32).optional(),
   userId: z.string().uuid({
     message: "Invalid user ID format",
   }),
@@ -23,9 +27,19 @@ const checkoutSchema = z.object({
     {
       message: "Due date must be a valid date in the future",
     }
-  ),
+  ).optional(),
   notes: z.string().max(500).optional(),
-});
+  // Staff with override permission can check out past the member's borrowing limits
+  overrideReason: z.string().trim().min(3, {
+    message: "Override reason must be at least 3 characters",
+  }).max(500).optional(),
+}).refine(
+  (data) => data.bookId || data.copyId || data.barcode,
+  {
+    message: "A book ID, copy ID or barcode is required",
+    path: ["copyId"],
+  }
+);
 
 // Schema for filtering transactions
 const transactionFilterSchema = z.object({
@@ -34,6 +48,7 @@ const transactionFilterSchema = z.object({
   status: z.nativeEnum(TransactionStatus).optional(),
   userId: z.string().uuid().optional(),
   bookId: z.string().uuid().optional(),
+  copyId: z.string().uuid().optional(),
   dateFrom: z.string().optional(),
   dateTo: z.string().optional(),
   sortBy: z.enum(['checkoutDate', 'dueDate', 'returnDate', 'updatedAt']).default('checkoutDate'),
@@ -41,49 +56,12 @@ const transactionFilterSchema = z.object({
   overdue: z.boolean().optional(),
 });
 
-// Helper function to calculate due date (default: 14 days from checkout)
-function calculateDueDate(checkoutDate: Date, customDueDate?: string): Date {
-  if (customDueDate) {
-    const dueDate = new Date(customDueDate);
-    if (!isNaN(dueDate.getTime())) {
-      return dueDate;
-    }
-  }
-  
-  // Default: 14 days from checkout
-  const dueDate = new Date(checkoutDate);
-  dueDate.setDate(dueDate.getDate() + 14);
-  return dueDate;
-}
-
-// Helper function to calculate fine for late returns
-function calculateFine(dueDate: Date, returnDate: Date): number {
-  // If returned before or on due date, no fine
-  if (returnDate <= dueDate) {
-    return 0;
-  }
-  
-  // Calculate days overdue
-  const daysOverdue = Math.ceil(
-    (returnDate.getTime() - dueDate.getTime()) / (1000 * 60 * 60 * 24)
-  );
-  
-  // Fine calculation: $0.50 per day overdue
-  const fineRate = 0.5; // $0.50 per day
-  return parseFloat((daysOverdue * fineRate).toFixed(2));
-}
-
 // GET endpoint to list transactions with filtering, pagination, and sorting
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
-
-    // Check if user is authenticated and has permission to read transactions
-    if (!session?.user?.permissions?.includes(Permission.TRANSACTION_READ)) {
-      return NextResponse.json(
-        { error: "You don't have permission to view transactions" },
-        { status: 403 }
-      );
+    const auth = await authorize("transaction:read");
+    if (!auth.ok) {
+      return auth.response;
     }
 
     // Parse URL search params for filtering and pagination
@@ -94,6 +72,7 @@ export async function GET(request: NextRequest) {
       status: searchParams.get('status') || undefined,
       userId: searchParams.get('userId') || undefined,
       bookId: searchParams.get('bookId') || undefined,
+      copyId: searchParams.get('copyId') || undefined,
       dateFrom: searchParams.get('dateFrom') || undefined,
       dateTo: searchParams.get('dateTo') || undefined,
       sortBy: searchParams.get('sortBy') || 'checkoutDate',
@@ -107,6 +86,7 @@ export async function GET(request: NextRequest) {
       status, 
       userId, 
       bookId, 
+      copyId, 
       dateFrom, 
       dateTo, 
       sortBy, 
@@ -124,9 +104,10 @@ export async function GET(request: NextRequest) {
       where.status = status;
     }
 
-    // Add user filter if provided
-    if (userId) {
-      where.userId = userId;
+    // Members only see their own transactions; staff can filter by member
+    const ownerScope = getOwnerScope(auth.user, "transaction:read");
+    if (ownerScope || userId) {
+      where.userId = ownerScope ?? userId;
     }
 
     // Add book filter if provided
@@ -134,6 +115,11 @@ export async function GET(request: NextRequest) {
       where.bookId = bookId;
     }
 
+    // Add copy filter if provided
+    if (copyId) {
+      where.copyId = copyId;
+    }
+
     // Add date range filter if provided
     if (dateFrom || dateTo) {
       where.checkoutDate = {};
@@ -169,6 +155,7 @@ export async function GET(request: NextRequest) {
         returnDate: true,
         fine: true,
         status: true,
+        renewalCount: true,
         createdAt: true,
         updatedAt: true,
         book: {
@@ -181,6 +168,13 @@ export async function GET(request: NextRequest) {
             status: true,
           },
         },
+        copy: {
+          select: {
+            id: true,
+            barcode: true,
+            shelfLocation: true,
+          },
+        },
         user: {
           select: {
             id: true,
@@ -218,14 +212,9 @@ export async function GET(request: NextRequest) {
 // POST endpoint to create a new transaction (checkout a book)
 export async function POST(request: Request) {
   try {
-    const session = await getServerSession(authOptions);
-
-    // Check if user is authenticated and has permission to create transactions
-    if (!session?.user?.permissions?.includes(Permission.TRANSACTION_CREATE)) {
-      return NextResponse.json(
-        { error: "You don't have permission to checkout books" },
-        { status: 403 }
-      );
+    const auth = await authorize("transaction:create");
+    if (!auth.ok) {
+      return auth.response;
     }
 
     const data = await request.json();
@@ -243,123 +232,18 @@ export async function POST(request: Request) {
       );
     }
     
-    // Extract validated data
-    const { bookId, userId, dueDate, notes } = validationResult.data;
-    
-    // Check if the book exists and is available
-    const book = await prisma.book.findUnique({
-      where: { id: bookId },
-    });
-    
-    if (!book) {
-      return NextResponse.json(
-        { error: "Book not found" },
-        { status: 404 }
-      );
-    }
-    
-    if (book.status !== BookStatus.AVAILABLE) {
-      return NextResponse.json(
-        { error: `Book is not available for checkout. Current status: ${book.status}` },
-        { status: 409 }
-      );
-    }
-    
-    // Check if the user exists and is active
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-    });
+    const { dueDate, ...checkout } = validationResult.data;
     
-    if (!user) {
-      return NextResponse.json(
-        { error: "User not found" },
-        { status: 404 }
-      );
-    }
+    const result = await checkoutBook(
+      { ...checkout, dueDate: dueDate ? new Date(dueDate) : undefined },
+      { actor: auth.user, request }
+    );
     
-    if (user.status !== UserStatus.ACTIVE) {
-      return NextResponse.json(
-        { error: `User account is not active. Current status: ${user.status}` },
-        { status: 409 }
-      );
+    if (!result.ok) {
+      return failureResponse(result);
     }
     
-    // Check if there are any active reservations for this book
-    const activeReservation = await prisma.reservation.findFirst({
-      where: {
-        bookId,
-        status: { in: ['PENDING', 'READY_FOR_PICKUP'] },
-        expiryDate: { gt: new Date() },
-      },
-      orderBy: {
-        reservationDate: 'asc',
-      },
-    });
-    
-    // If there's an active reservation for someone else, don't allow checkout
-    if (activeReservation && activeReservation.userId !== userId) {
-      return NextResponse.json(
-        { 
-          error: "This book is reserved by another user",
-          reservationId: activeReservation.id 
-        },
-        { status: 409 }
-      );
-    }
-    
-    // Calculate due date from the provided date string
-    const dueDateObj = new Date(dueDate);
-    
-    // Use transaction to ensure data consistency
-    const result = await prisma.$transaction(async (tx) => {
-      // Create the transaction record
-      const transaction = await tx.transaction.create({
-        data: {
-          bookId,
-          userId,
-          checkoutDate: new Date(),
-          dueDate: dueDateObj,
-          status: TransactionStatus.CHECKED_OUT,
-          fine: 0,
-          ...(notes && { notes }),
-        },
-        include: {
-          book: {
-            select: {
-              id: true,
-              title: true,
-              author: true,
-              isbn: true,
-            },
-          },
-          user: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-            },
-          },
-        },
-      });
-      
-      // Update the book status
-      await tx.book.update({
-        where: { id: bookId },
-        data: { status: BookStatus.CHECKED_OUT },
-      });
-      
-      // If there was a reservation for this user, mark it as fulfilled
-      if (activeReservation && activeReservation.userId === userId) {
-        await tx.reservation.update({
-          where: { id: activeReservation.id },
-          data: { status: 'FULFILLED' },
-        });
-      }
-      
-      return transaction;
-    });
-    
-    return NextResponse.json(result, { status: 201 });
+    return NextResponse.json(result.transaction, { status: 201 });
   } catch (error) {
     console.error("Failed to checkout book:", error);
     return NextResponse.json(
@@ -2,19 +2,15 @@ import { NextRequest, NextResponse } from 'next/server';
 import { writeFile } from 'fs/promises';
 import { join } from 'path';
 import { v4 as uuidv4 } from 'uuid';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { authorize } from '@/lib/auth/policy';
 
 const UPLOAD_DIR = join(process.cwd(), 'public', 'uploads');
 
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
+    const auth = await authorize('file:upload');
+    if (!auth.ok) {
+      return auth.response;
     }
 
     const formData = await request.formData();
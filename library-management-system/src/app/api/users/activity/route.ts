@@ -1,20 +1,15 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth-options";
+import { authorize } from "@/lib/auth/policy";
 import { prisma } from "@/lib/prisma";
 
 export async function GET() {
   try {
-    const session = await getServerSession(authOptions);
-
-    if (!session || !session.user) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 }
-      );
+    const auth = await authorize("account:manage");
+    if (!auth.ok) {
+      return auth.response;
     }
     
-    const userId = session.user.id;
+    const userId = auth.user.id;
     
     // Fetch user's transaction history (limited to most recent 10)
     const transactions = await prisma.transaction.findMany({
@@ -58,9 +53,25 @@ export async function GET() {
       },
     });
     
+    // Fetch user's recent sign-in attempts so they can spot unfamiliar access
+    const loginEvents = await prisma.loginEvent.findMany({
+      where: { userId },
+      orderBy: { createdAt: "desc" },
+      take: 10,
+      select: {
+        id: true,
+        success: true,
+        failureReason: true,
+        ipAddress: true,
+        userAgent: true,
+        createdAt: true,
+      },
+    });
+    
     return NextResponse.json({
       transactions,
       reservations,
+      loginEvents,
     });
   } catch (error) {
     console.error("Failed to fetch user activity history:", error);
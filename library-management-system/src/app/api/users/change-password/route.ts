@@ -1,6 +1,5 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth-options";
+import { authorize } from "@/lib/auth/policy";
 import { prisma } from "@/lib/prisma";
 import { hash, compare } from "bcryptjs";
 import { z } from "zod";
@@ -21,16 +20,12 @@ const passwordChangeSchema = z.object({
 
 export async function POST(request: Request) {
   try {
-    const session = await getServerSession(authOptions);
-
-    if (!session || !session.user) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 }
-      );
+    const auth = await authorize("account:manage");
+    if (!auth.ok) {
+      return auth.response;
     }
     
-    const userId = session.user.id;
+    const userId = auth.user.id;
     const data = await request.json();
     
     // Validate the request data
@@ -78,16 +73,17 @@ export async function POST(request: Request) {
     // Hash the new password
     const newPasswordHash = await hash(newPassword, 12);
     
-    // Update the user's password
+    // Update the user's password and sign out every session, including this one
     await prisma.user.update({
       where: { id: userId },
       data: {
         passwordHash: newPasswordHash,
+        sessionVersion: { increment: 1 },
       },
     });
     
     return NextResponse.json(
-      { message: "Password updated successfully" },
+      { message: "Password updated successfully. Please sign in again." },
       { status: 200 }
     );
   } catch (error) {
@@ -1,51 +1,28 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth-options";
-import { prisma } from "@/lib/prisma";
+import { authorize } from "@/lib/auth/policy";
+import { anonymizeMember } from "@/lib/members/personal-data";
 
-// DELETE endpoint to permanently delete a user account
-export async function DELETE() {
+// DELETE endpoint to delete the current user's account
+// Personal data is erased; loans and fines are kept, anonymized, for the library's records
+export async function DELETE(request: Request) {
   try {
-    const session = await getServerSession(authOptions);
+    const auth = await authorize("account:manage");
+    if (!auth.ok) {
+      return auth.response;
+    }
+    
+    const blockers = await anonymizeMember(auth.user.id, auth.user.id, request);
 
-    if (!session || !session.user) {
+    if (blockers.length > 0) {
       return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 }
+        {
+          error: `Your account can't be deleted yet: ${blockers.map((blocker) => blocker.message).join("; ")}`,
+          blockers,
+        },
+        { status: 409 }
       );
     }
     
-    const userId = session.user.id;
-    
-    // Delete all user-related data
-    // This should be done in a transaction to ensure all operations succeed or fail together
-    await prisma.$transaction(async (tx) => {
-      // Delete any password reset tokens
-      await tx.passwordResetToken.deleteMany({
-        where: { userId },
-      });
-      
-      // Delete notification preferences (if applicable in your schema)
-      // await tx.userNotificationPreference.deleteMany({
-      //   where: { userId },
-      // });
-      
-      // Delete user's transactions
-      await tx.transaction.deleteMany({
-        where: { userId },
-      });
-      
-      // Delete user's reservations
-      await tx.reservation.deleteMany({
-        where: { userId },
-      });
-      
-      // Finally, delete the user
-      await tx.user.delete({
-        where: { id: userId },
-      });
-    });
-    
     return NextResponse.json(
       { message: "Account deleted successfully" },
       { status: 200 }
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/policy";
+import { getPersonalDataExport } from "@/lib/members/personal-data";
+
+// GET endpoint to download everything the library holds about the current user
+export async function GET() {
+  try {
+    const auth = await authorize("account:manage");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const data = await getPersonalDataExport(auth.user.id);
+
+    if (!data) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(JSON.stringify(data, null, 2), {
+      headers: {
+        "Content-Type": "application/json",
+        "Content-Disposition": `attachment; filename="my-library-data-${new Date().toISOString().split("T")[0]}.json"`,
+      },
+    });
+  } catch (error) {
+    console.error("Failed to export personal data:", error);
+    return NextResponse.json(
+      { error: "Failed to export personal data" },
+      { status: 500 }
+    );
+  }
+}
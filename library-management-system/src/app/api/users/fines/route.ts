@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/policy";
+import { prisma } from "@/lib/prisma";
+import { getMemberFineBalance, getOutstandingAmount } from "@/lib/circulation/fines";
+
+export async function GET() {
+  try {
+    const auth = await authorize("account:manage");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const userId = auth.user.id;
+
+    // Fetch the user's fines with their payment history
+    const fines = await prisma.fineCharge.findMany({
+      where: { userId },
+      orderBy: { createdAt: "desc" },
+      select: {
+        id: true,
+        type: true,
+        amount: true,
+        amountPaid: true,
+        amountWaived: true,
+        status: true,
+        waiverReason: true,
+        createdAt: true,
+        transaction: {
+          select: {
+            id: true,
+            dueDate: true,
+            returnDate: true,
+            book: {
+              select: {
+                title: true,
+                author: true,
+              }
+            },
+          }
+        },
+        payments: {
+          orderBy: { createdAt: "asc" },
+          select: {
+            id: true,
+            amount: true,
+            method: true,
+            createdAt: true,
+          }
+        },
+      },
+    });
+
+    return NextResponse.json({
+      fines: fines.map((fine) => ({
+        ...fine,
+        outstanding: getOutstandingAmount(fine),
+      })),
+      balance: await getMemberFineBalance(prisma, userId),
+    });
+  } catch (error) {
+    console.error("Error fetching user fines:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch fines" },
+      { status: 500 }
+    );
+  }
+}
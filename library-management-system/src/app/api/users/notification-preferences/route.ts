@@ -1,55 +1,18 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth-options";
+import { authorize } from "@/lib/auth/policy";
 import { prisma } from "@/lib/prisma";
-import { z } from "zod";
-
-// Schema for validating notification preferences
-const notificationPreferenceSchema = z.object({
-  preferences: z.array(
-    z.object({
-      id: z.string(),
-      enabled: z.boolean(),
-    })
-  ),
-});
+import { notificationPreferencesSchema } from "@/lib/validations/notification-preferences";
+import { getNotificationPreferences } from "@/lib/email/preferences";
 
 // GET endpoint to retrieve user's notification preferences
 export async function GET() {
   try {
-    const session = await getServerSession(authOptions);
-
-    if (!session || !session.user) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 }
-      );
+    const auth = await authorize("account:manage");
+    if (!auth.ok) {
+      return auth.response;
     }
 
-    const userId = session.user.id;
-    
-    // In a real implementation, you would fetch the user's notification preferences
-    // from the database. For now, we'll return default values.
-    const preferences = [
-      {
-        id: "due-date-reminder",
-        label: "Due Date Reminders",
-        description: "Receive notifications before books are due",
-        enabled: true,
-      },
-      {
-        id: "reservation-notification",
-        label: "Reservation Notifications",
-        description: "Get notified when reserved books become available",
-        enabled: true,
-      },
-      {
-        id: "marketing-emails",
-        label: "Library Updates",
-        description: "Receive updates about new books and library events",
-        enabled: false,
-      },
-    ];
+    const preferences = await getNotificationPreferences(prisma, auth.user.id);
 
     return NextResponse.json({ preferences });
   } catch (error) {
@@ -61,23 +24,19 @@ export async function GET() {
   }
 }
 
-// POST endpoint to update user's notification preferences
-export async function POST(request: Request) {
+// PUT endpoint to update user's notification preferences
+export async function PUT(request: Request) {
   try {
-    const session = await getServerSession(authOptions);
-
-    if (!session || !session.user) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 }
-      );
+    const auth = await authorize("account:manage");
+    if (!auth.ok) {
+      return auth.response;
     }
     
-    const userId = session.user.id;
+    const userId = auth.user.id;
     const data = await request.json();
     
     // Validate the request data
-    const validationResult = notificationPreferenceSchema.safeParse(data);
+    const validationResult = notificationPreferencesSchema.safeParse(data);
     
     if (!validationResult.success) {
       return NextResponse.json(
@@ -89,29 +48,20 @@ export async function POST(request: Request) {
       );
     }
     
-    // Extract validated data
-    const { preferences } = validationResult.data;
-    
-    // In a real implementation, you would save the user's notification preferences
-    // to the database. For now, we'll just acknowledge the request.
-    // 
-    // Example database code:
-    // await prisma.userNotificationPreference.deleteMany({
-    //   where: { userId },
-    // });
-    // 
-    // await prisma.userNotificationPreference.createMany({
-    //   data: preferences.map((pref) => ({
-    //     userId,
-    //     preferenceId: pref.id,
-    //     enabled: pref.enabled,
-    //   })),
-    // });
+    // Users start out on the defaults, so the first save creates their row
+    await prisma.userNotificationPreference.upsert({
+      where: { userId },
+      create: {
+        userId,
+        ...validationResult.data,
+      },
+      update: validationResult.data,
+    });
     
-    return NextResponse.json(
-      { message: "Notification preferences updated successfully" },
-      { status: 200 }
-    );
+    return NextResponse.json({
+      message: "Notification preferences updated successfully",
+      preferences: await getNotificationPreferences(prisma, userId),
+    });
   } catch (error) {
     console.error("Failed to update notification preferences:", error);
     return NextResponse.json(
@@ -1,6 +1,5 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth-options";
+import { authorize } from "@/lib/auth/policy";
 import { prisma } from "@/lib/prisma";
 import { z } from "zod";
 
@@ -22,16 +21,12 @@ const profileUpdateSchema = z.object({
 // GET endpoint to retrieve the current user's profile
 export async function GET() {
   try {
-    const session = await getServerSession(authOptions);
-
-    if (!session || !session.user) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 }
-      );
+    const auth = await authorize("account:manage");
+    if (!auth.ok) {
+      return auth.response;
     }
 
-    const userId = session.user.id;
+    const userId = auth.user.id;
     
     const user = await prisma.user.findUnique({
       where: { id: userId },
@@ -64,16 +59,12 @@ export async function GET() {
 // PATCH endpoint to update the current user's profile
 export async function PATCH(request: Request) {
   try {
-    const session = await getServerSession(authOptions);
-
-    if (!session || !session.user) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 }
-      );
+    const auth = await authorize("account:manage");
+    if (!auth.ok) {
+      return auth.response;
     }
     
-    const userId = session.user.id;
+    const userId = auth.user.id;
     const data = await request.json();
     
     // Validate the request data
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/policy";
+import { revokeUserSessions } from "@/lib/auth/session-revocation";
+
+// DELETE endpoint to sign the user out of all devices, including this one
+export async function DELETE() {
+  try {
+    const auth = await authorize("account:manage");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    await revokeUserSessions(auth.user.id);
+
+    return NextResponse.json(
+      { message: "You have been signed out of all devices" },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Failed to sign out of all devices:", error);
+    return NextResponse.json(
+      { error: "Failed to sign out of all devices" },
+      { status: 500 }
+    );
+  }
+}
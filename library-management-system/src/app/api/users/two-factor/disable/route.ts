@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import { compare } from "bcryptjs";
+import { authorize } from "@/lib/auth/policy";
+import { prisma } from "@/lib/prisma";
+import { disableTwoFactor, isTwoFactorRequiredForUser, verifyTwoFactorCode } from "@/lib/auth/two-factor";
+import { disableTwoFactorSchema } from "@/lib/validations/two-factor";
+
+// POST endpoint to turn off two-factor authentication for the current user
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize("account:manage");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const data = await request.json();
+
+    // Validate the request data
+    const validationResult = disableTwoFactorSchema.safeParse(data);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid data",
+          details: validationResult.error.format()
+        },
+        { status: 400 }
+      );
+    }
+
+    const { password, code } = validationResult.data;
+
+    const user = await prisma.user.findUnique({
+      where: { id: auth.user.id },
+      select: {
+        id: true,
+        role: true,
+        passwordHash: true,
+      },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    if (await isTwoFactorRequiredForUser(user)) {
+      return NextResponse.json(
+        { error: "Two-factor authentication is required for your role and can't be turned off" },
+        { status: 403 }
+      );
+    }
+
+    // Require both factors so a hijacked session alone can't remove 2FA
+    const isPasswordValid = await compare(password, user.passwordHash);
+
+    if (!isPasswordValid || !(await verifyTwoFactorCode(user.id, code))) {
+      return NextResponse.json(
+        { error: "Password or authentication code is incorrect" },
+        { status: 400 }
+      );
+    }
+
+    await disableTwoFactor(user.id);
+
+    return NextResponse.json(
+      { message: "Two-factor authentication disabled" },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Failed to disable two-factor authentication:", error);
+    return NextResponse.json(
+      { error: "Failed to disable two-factor authentication" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/policy";
+import { confirmTwoFactorEnrollment } from "@/lib/auth/two-factor";
+import { twoFactorCodeSchema } from "@/lib/validations/two-factor";
+
+// POST endpoint to confirm enrollment with the first code from the authenticator app
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize("account:manage");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const data = await request.json();
+
+    // Validate the request data
+    const validationResult = twoFactorCodeSchema.safeParse(data);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid data",
+          details: validationResult.error.format()
+        },
+        { status: 400 }
+      );
+    }
+
+    const enabled = await confirmTwoFactorEnrollment(auth.user.id, validationResult.data.code);
+
+    if (!enabled) {
+      return NextResponse.json(
+        { error: "Invalid authentication code. Check your app and try again." },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { message: "Two-factor authentication enabled" },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Failed to enable two-factor authentication:", error);
+    return NextResponse.json(
+      { error: "Failed to enable two-factor authentication" },
+      { status: 500 }
+    );
+  }
+}
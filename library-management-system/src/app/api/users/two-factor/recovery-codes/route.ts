@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/policy";
+import { regenerateRecoveryCodes, verifyTwoFactorCode } from "@/lib/auth/two-factor";
+import { twoFactorCodeSchema } from "@/lib/validations/two-factor";
+
+// POST endpoint to replace the current user's recovery codes
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize("account:manage");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const data = await request.json();
+
+    // Validate the request data
+    const validationResult = twoFactorCodeSchema.safeParse(data);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid data",
+          details: validationResult.error.format()
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!(await verifyTwoFactorCode(auth.user.id, validationResult.data.code))) {
+      return NextResponse.json(
+        { error: "Invalid authentication code" },
+        { status: 400 }
+      );
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(auth.user.id);
+
+    return NextResponse.json({ recoveryCodes });
+  } catch (error) {
+    console.error("Failed to regenerate recovery codes:", error);
+    return NextResponse.json(
+      { error: "Failed to regenerate recovery codes" },
+      { status: 500 }
+    );
+  }
+}
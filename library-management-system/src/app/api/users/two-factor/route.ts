@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/policy";
+import { prisma } from "@/lib/prisma";
+import { beginTwoFactorEnrollment, getTwoFactorStatus } from "@/lib/auth/two-factor";
+
+// GET endpoint to fetch the current user's two-factor status
+export async function GET() {
+  try {
+    const auth = await authorize("account:manage");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const status = await getTwoFactorStatus(auth.user.id);
+
+    return NextResponse.json(status);
+  } catch (error) {
+    console.error("Failed to fetch two-factor status:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch two-factor status" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST endpoint to start enrolling the current user in two-factor authentication
+export async function POST() {
+  try {
+    const auth = await authorize("account:manage");
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: auth.user.id },
+      select: {
+        id: true,
+        email: true,
+        twoFactorEnabledAt: true,
+      },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    if (user.twoFactorEnabledAt) {
+      return NextResponse.json(
+        { error: "Two-factor authentication is already enabled" },
+        { status: 409 }
+      );
+    }
+
+    // The secret and recovery codes are only returned here; they stay inactive until confirmed
+    const enrollment = await beginTwoFactorEnrollment(user);
+
+    return NextResponse.json(enrollment);
+  } catch (error) {
+    console.error("Failed to start two-factor enrollment:", error);
+    return NextResponse.json(
+      { error: "Failed to start two-factor enrollment" },
+      { status: 500 }
+    );
+  }
+}
@@ -9,6 +9,7 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import Link from "next/link";
 import { Loader2 } from "lucide-react";
+import { RecoveryCodeList, TwoFactorQrCode } from "@/components/auth/two-factor-enrollment";
 
 type FormData = {
   email: string;
@@ -18,6 +19,16 @@ type FormData = {
 type FormErrors = {
   email?: string;
   password?: string;
+  totp?: string;
+};
+
+// Second sign-in step for accounts with two-factor authentication
+type TwoFactorStep = "none" | "code" | "setup";
+
+type TwoFactorEnrollment = {
+  secret: string;
+  otpauthUrl: string;
+  recoveryCodes: string[];
 };
 
 export default function SignInPage() {
@@ -29,6 +40,9 @@ export default function SignInPage() {
   const [isLoading, setIsLoading] = useState(false);
   const [submitError, setSubmitError] = useState("");
   const [isMounted, setIsMounted] = useState(false);
+  const [twoFactorStep, setTwoFactorStep] = useState<TwoFactorStep>("none");
+  const [totp, setTotp] = useState("");
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
   
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -54,6 +68,10 @@ export default function SignInPage() {
     } else if (formData.password.length < 6) {
       newErrors.password = "Password must be at least 6 characters";
     }
+
+    if (twoFactorStep !== "none" && !totp.trim()) {
+      newErrors.totp = "Authentication code is required";
+    }
     
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -80,6 +98,35 @@ export default function SignInPage() {
     }
   };
 
+  // Start enrolling when the account's role requires 2FA and none is set up yet
+  const startTwoFactorSetup = async () => {
+    const response = await fetch("/api/auth/two-factor/setup", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        email: formData.email.trim(),
+        password: formData.password,
+      }),
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to start two-factor setup");
+    }
+
+    setEnrollment(data);
+    setTwoFactorStep("setup");
+  };
+
+  const resetTwoFactor = () => {
+    setTwoFactorStep("none");
+    setTotp("");
+    setEnrollment(null);
+    setSubmitError("");
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -94,6 +141,7 @@ export default function SignInPage() {
       const result = await signIn("credentials", {
         email: formData.email.trim(),
         password: formData.password,
+        totp: twoFactorStep === "none" ? "" : totp.trim(),
         redirect: false,
         callbackUrl,
       }) as SignInResponse | undefined;
@@ -102,6 +150,16 @@ export default function SignInPage() {
         throw new Error("No response from server");
       }
 
+      if (result.error === "TwoFactorRequired") {
+        setTwoFactorStep("code");
+        return;
+      }
+
+      if (result.error === "TwoFactorSetupRequired") {
+        await startTwoFactorSetup();
+        return;
+      }
+
       if (result.error) {
         throw new Error(result.error);
       }
@@ -157,8 +215,64 @@ export default function SignInPage() {
             {submitError && (
               <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
                 {submitError}
+                {submitError.includes("verify your email") && (
+                  <Link
+                    href={`/auth/verify-email?email=${encodeURIComponent(formData.email.trim())}`}
+                    className="block mt-2 font-medium underline"
+                  >
+                    Resend verification email
+                  </Link>
+                )}
+              </div>
+            )}
+            {twoFactorStep === "setup" && enrollment && (
+              <div className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Your role requires two-factor authentication. Scan this QR code with an
+                  authenticator app, then enter the code it shows to finish signing in.
+                </p>
+                <TwoFactorQrCode otpauthUrl={enrollment.otpauthUrl} secret={enrollment.secret} />
+                <RecoveryCodeList codes={enrollment.recoveryCodes} />
               </div>
             )}
+            {twoFactorStep === "code" && (
+              <p className="text-sm text-muted-foreground">
+                Enter the code from your authenticator app, or one of your recovery codes.
+              </p>
+            )}
+            {twoFactorStep !== "none" && (
+              <div className="space-y-2">
+                <Label htmlFor="totp">Authentication code</Label>
+                <Input
+                  id="totp"
+                  name="totp"
+                  autoComplete="one-time-code"
+                  placeholder="123456"
+                  value={totp}
+                  onChange={(e) => {
+                    setTotp(e.target.value);
+                    setErrors(prev => ({ ...prev, totp: undefined }));
+                  }}
+                  disabled={isLoading}
+                  autoFocus
+                  className={errors.totp ? 'border-red-500' : ''}
+                  aria-describedby={errors.totp ? 'totp-error' : undefined}
+                />
+                {errors.totp && (
+                  <p id="totp-error" className="text-sm text-red-500">
+                    {errors.totp}
+                  </p>
+                )}
+                <button
+                  type="button"
+                  onClick={resetTwoFactor}
+                  className="text-sm font-medium text-primary hover:underline"
+                >
+                  Use a different account
+                </button>
+              </div>
+            )}
+            <div className={twoFactorStep === "none" ? "space-y-4" : "hidden"}>
             <div className="space-y-2">
               <Label htmlFor="email">Email</Label>
               <Input
@@ -205,6 +319,7 @@ export default function SignInPage() {
                 </p>
               )}
             </div>
+            </div>
           </CardContent>
           <CardFooter className="flex flex-col space-y-4">
             <Button 
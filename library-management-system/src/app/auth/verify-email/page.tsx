@@ -0,0 +1,182 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/components/ui/use-toast';
+import { Icons } from '@/components/icons';
+
+const formSchema = z.object({
+  email: z.string().email('Please enter a valid email address'),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+// Messages for the outcomes the verification link redirects with
+const statusMessages: Record<string, { title: string; description: string; success: boolean }> = {
+  verified: {
+    title: 'Email verified',
+    description: 'Your account is now active. You can sign in.',
+    success: true,
+  },
+  'already-verified': {
+    title: 'Already verified',
+    description: 'Your email address has already been verified. You can sign in.',
+    success: true,
+  },
+  expired: {
+    title: 'Link expired',
+    description: 'This verification link has expired. Enter your email below to get a new one.',
+    success: false,
+  },
+  invalid: {
+    title: 'Invalid link',
+    description: 'This verification link is invalid or has already been replaced by a newer one. Enter your email below to get a new one.',
+    success: false,
+  },
+  error: {
+    title: 'Something went wrong',
+    description: 'We could not verify your email right now. Please try the link again later.',
+    success: false,
+  },
+};
+
+export default function VerifyEmailPage() {
+  const { toast } = useToast();
+  const searchParams = useSearchParams();
+  const status = searchParams?.get('status');
+  const outcome = status ? statusMessages[status] ?? statusMessages.invalid : null;
+
+  const [isLoading, setIsLoading] = useState(false);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      email: searchParams?.get('email') || '',
+    },
+  });
+
+  const onSubmit = async (values: FormValues) => {
+    try {
+      setIsLoading(true);
+
+      const response = await fetch('/api/auth/verify-email/resend', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(values),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Something went wrong');
+      }
+
+      toast({
+        title: 'Success',
+        description: data.message,
+        type: 'success',
+      });
+    } catch (error) {
+      console.error('Error:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Something went wrong',
+        type: 'error',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (outcome?.success) {
+    return (
+      <div className="container flex h-screen w-screen flex-col items-center justify-center">
+        <div className="mx-auto flex w-full flex-col justify-center space-y-6 sm:w-[400px]">
+          <div className="flex flex-col space-y-2 text-center">
+            <Icons.check className="mx-auto h-6 w-6 text-green-600" />
+            <h1 className="text-2xl font-semibold tracking-tight">{outcome.title}</h1>
+            <p className="text-sm text-muted-foreground">{outcome.description}</p>
+          </div>
+          <Button asChild className="mt-4">
+            <Link href="/auth/signin">Sign in</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container flex h-screen w-screen flex-col items-center justify-center">
+      <div className="mx-auto flex w-full flex-col justify-center space-y-6 sm:w-[400px]">
+        <div className="flex flex-col space-y-2 text-center">
+          <Icons.mail className="mx-auto h-6 w-6" />
+          <h1 className="text-2xl font-semibold tracking-tight">
+            {outcome ? outcome.title : 'Check your email'}
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            {outcome
+              ? outcome.description
+              : 'We\'ve sent you a verification link. Please check your email and follow the link to activate your account.'}
+          </p>
+          {!outcome && (
+            <p className="text-sm text-muted-foreground">
+              Didn&apos;t receive an email? Check your spam folder or request a new link below.
+            </p>
+          )}
+        </div>
+
+        <div className="grid gap-6">
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="name@example.com"
+                        type="email"
+                        autoCapitalize="none"
+                        autoComplete="email"
+                        autoCorrect="off"
+                        disabled={isLoading}
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button className="w-full" type="submit" disabled={isLoading}>
+                {isLoading && (
+                  <Icons.spinner className="mr-2 h-4 w-4 animate-spin" />
+                )}
+                Resend verification email
+              </Button>
+            </form>
+          </Form>
+
+          <p className="px-8 text-center text-sm text-muted-foreground">
+            <Link
+              href="/auth/signin"
+              className="hover:text-primary underline underline-offset-4"
+            >
+              Back to sign in
+            </Link>
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
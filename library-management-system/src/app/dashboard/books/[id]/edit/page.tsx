@@ -629,6 +629,7 @@ export default function EditBookPage({ params }: { params: { id: string } }) {
                           onValueChange={field.onChange}
                           defaultValue={field.value}
                           value={field.value}
+                          disabled
                         >
                           <FormControl>
                             <SelectTrigger>
@@ -643,6 +644,9 @@ export default function EditBookPage({ params }: { params: { id: string } }) {
                             ))}
                           </SelectContent>
                         </Select>
+                        <FormDescription>
+                          Change the status from the book page; every change needs a reason
+                        </FormDescription>
                         <FormMessage />
                       </FormItem>
                     )}
@@ -15,6 +15,7 @@ import {
   BarChart4,
   User,
   Bookmark,
+  RefreshCw,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
@@ -37,6 +38,10 @@ import {
 import { useToast } from "@/components/ui/use-toast";
 import { PermissionGuard } from "@/components/auth/role-guard";
 import { Permission } from "@/lib/auth/rbac/types";
+import EntityHistory from "@/components/audit/entity-history";
+import { AuditEntityType, BookStatus } from "@prisma/client";
+import { UpdateStatusDialog } from "@/components/books/update-status-dialog";
+import { BookCopies } from "@/components/books/book-copies";
 
 // Book type definition
 interface Book {
@@ -62,6 +67,8 @@ export default function BookDetailsPage({ params }: { params: { id: string } })
   const [book, setBook] = useState<Book | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [statusDialogOpen, setStatusDialogOpen] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
 
   // Fetch book details
   useEffect(() => {
@@ -99,7 +106,7 @@ export default function BookDetailsPage({ params }: { params: { id: string } })
     };
 
     fetchBook();
-  }, [params.id, router, toast]);
+  }, [params.id, router, toast, refreshKey]);
 
   // Handle book deletion
   const handleDelete = async () => {
@@ -209,6 +216,13 @@ export default function BookDetailsPage({ params }: { params: { id: string } })
         </Button>
 
         <div className="flex items-center gap-2">
+          <PermissionGuard permissions={[Permission.BOOK_UPDATE]}>
+            <Button variant="outline" onClick={() => setStatusDialogOpen(true)}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Update Status
+            </Button>
+          </PermissionGuard>
+
           <PermissionGuard permissions={[Permission.BOOK_UPDATE]}>
             <Button variant="outline" asChild>
               <Link href={`/dashboard/books/${book.id}/edit`}>
@@ -393,6 +407,22 @@ export default function BookDetailsPage({ params }: { params: { id: string } })
           </CardFooter>
         </Card>
       </div>
+
+      <BookCopies bookId={book.id} onCopyAdded={() => setRefreshKey((key) => key + 1)} />
+
+      <PermissionGuard permissions={[Permission.USER_READ]}>
+        <div className="mt-6">
+          <EntityHistory key={refreshKey} entityType={AuditEntityType.BOOK} entityId={book.id} />
+        </div>
+      </PermissionGuard>
+
+      <UpdateStatusDialog
+        open={statusDialogOpen}
+        onOpenChange={setStatusDialogOpen}
+        bookId={book.id}
+        currentStatus={book.status as BookStatus}
+        onStatusUpdate={() => setRefreshKey((key) => key + 1)}
+      />
     </div>
   );
 }
@@ -0,0 +1,40 @@
+"use client";
+
+import { useSession } from "next-auth/react";
+import { redirect } from "next/navigation";
+import { MyFines } from "@/components/profile/my-fines";
+import { Separator } from "@/components/ui/separator";
+import { Loader2 } from "lucide-react";
+
+export default function MyFinesPage() {
+  const { status } = useSession();
+
+  // Handle loading state
+  if (status === "loading") {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  // If not authenticated, redirect to login
+  if (status === "unauthenticated") {
+    redirect("/auth/signin");
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">My Fines</h1>
+        <p className="text-muted-foreground">
+          Charges on your account, with payments and waivers
+        </p>
+      </div>
+
+      <Separator />
+
+      <MyFines />
+    </div>
+  );
+}
@@ -29,11 +29,13 @@ export default function DashboardLayout({
 
   return (
     <div className="flex h-screen overflow-hidden">
-      <div className="hidden md:flex md:w-64 md:flex-col">
+      <div className="hidden md:flex md:w-64 md:flex-col print:hidden">
         <Sidebar />
       </div>
       <div className="flex flex-1 flex-col overflow-hidden">
-        <Header />
+        <div className="print:hidden">
+          <Header />
+        </div>
         <main className="flex-1 overflow-y-auto p-6 bg-gray-50">
           {children}
         </main>
@@ -0,0 +1,51 @@
+import { Metadata } from 'next';
+import { redirect } from 'next/navigation';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-options';
+import { prisma } from '@/lib/prisma';
+import { getMembershipStatus } from '@/lib/members/library-card';
+import LibraryCard from '@/components/members/library-card';
+
+export const metadata: Metadata = {
+  title: 'My Library Card | Library Management System',
+  description: 'Print your library card.',
+};
+
+export default async function MyCardPage() {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    redirect('/auth/signin');
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: {
+      name: true,
+      status: true,
+      membershipNumber: true,
+      membershipExpiresAt: true,
+    },
+  });
+
+  if (!user) {
+    redirect('/auth/signin');
+  }
+
+  return (
+    <div className="space-y-6">
+      {user.membershipNumber ? (
+        <LibraryCard
+          name={user.name}
+          membershipNumber={user.membershipNumber}
+          membershipExpiresAt={user.membershipExpiresAt?.toISOString() ?? null}
+          membershipStatus={getMembershipStatus(user)}
+        />
+      ) : (
+        <p className="text-muted-foreground">
+          You don&apos;t have a library card yet. Ask at the desk to have one issued.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -8,7 +8,9 @@ import { ProfileForm } from "@/components/profile/profile-form";
 import { PasswordChangeForm } from "@/components/profile/password-change-form";
 import { ActivityHistory } from "@/components/profile/activity-history";
 import { NotificationPreferences } from "@/components/profile/notification-preferences";
+import { TwoFactorSettings } from "@/components/profile/two-factor-settings";
 import { DeleteAccountDialog } from "@/components/profile/delete-account-dialog";
+import { SignOutEverywhereDialog } from "@/components/profile/sign-out-everywhere-dialog";
 import { Separator } from "@/components/ui/separator";
 import { Button } from "@/components/ui/button";
 import { Loader2 } from "lucide-react";
@@ -48,9 +50,10 @@ export default function ProfilePage() {
       <Separator />
       
       <Tabs defaultValue="profile" className="w-full space-y-6">
-        <TabsList className="grid w-full max-w-md grid-cols-4">
+        <TabsList className="grid w-full max-w-lg grid-cols-5">
           <TabsTrigger value="profile">Profile</TabsTrigger>
           <TabsTrigger value="password">Password</TabsTrigger>
+          <TabsTrigger value="security">Security</TabsTrigger>
           <TabsTrigger value="activity">Activity</TabsTrigger>
           <TabsTrigger value="notifications">Notifications</TabsTrigger>
         </TabsList>
@@ -66,6 +69,32 @@ export default function ProfilePage() {
               <ProfileForm />
             </CardContent>
           </Card>
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle>Library Card</CardTitle>
+              <CardDescription>
+                Show or print your card with its scannable code for borrowing at the desk
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button asChild variant="outline">
+                <Link href="/dashboard/profile/card">View Library Card</Link>
+              </Button>
+            </CardContent>
+          </Card>
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle>Your Data</CardTitle>
+              <CardDescription>
+                Download a copy of your profile, loans, holds, fines and notification history
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button asChild variant="outline">
+                <a href="/api/users/export" download>Download My Data</a>
+              </Button>
+            </CardContent>
+          </Card>
         </TabsContent>
         <TabsContent value="password" className="mt-6">
           <Card>
@@ -80,12 +109,36 @@ export default function ProfilePage() {
             </CardContent>
           </Card>
         </TabsContent>
+        <TabsContent value="security" className="mt-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Two-Factor Authentication</CardTitle>
+              <CardDescription>
+                Require a code from an authenticator app when you sign in
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <TwoFactorSettings />
+            </CardContent>
+          </Card>
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle>Active Sessions</CardTitle>
+              <CardDescription>
+                Sign out everywhere if you&apos;ve lost a device or signed in on a shared computer
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <SignOutEverywhereDialog />
+            </CardContent>
+          </Card>
+        </TabsContent>
         <TabsContent value="activity" className="mt-6">
           <Card>
             <CardHeader>
               <CardTitle>Activity History</CardTitle>
               <CardDescription>
-                View your recent borrowing activity and transactions
+                View your recent borrowing activity, transactions and sign-ins
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -7,7 +7,8 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { AdminOnly } from "@/components/auth/role-guard";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Loader2, Shield, BookOpen, Users, Bell } from "lucide-react";
+import { Loader2, Shield, Users, Bell } from "lucide-react";
+import { CirculationPolicySettings } from "@/components/settings/circulation-policy-settings";
 
 export default function SettingsPage() {
   const router = useRouter();
@@ -128,25 +129,7 @@ export default function SettingsPage() {
           </TabsContent>
           
           <TabsContent value="books" className="space-y-4">
-            <Card>
-              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                <div>
-                  <CardTitle>Book Management Settings</CardTitle>
-                  <CardDescription>Configure book-related settings</CardDescription>
-                </div>
-                <BookOpen className="h-4 w-4 text-muted-foreground" />
-              </CardHeader>
-              <CardContent className="space-y-2">
-                <p className="text-sm text-muted-foreground">
-                  Configure book categories, loan periods, fine rates, 
-                  and reservation policies. These settings affect how users 
-                  can borrow and reserve books.
-                </p>
-              </CardContent>
-              <CardFooter>
-                <Button className="w-full">Configure Book Settings</Button>
-              </CardFooter>
-            </Card>
+            <CirculationPolicySettings />
           </TabsContent>
           
           <TabsContent value="notifications" className="space-y-4">
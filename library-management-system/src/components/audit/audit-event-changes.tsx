@@ -0,0 +1,45 @@
+'use client';
+
+import React from 'react';
+
+interface AuditEventChangesProps {
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+}
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) {
+    return '—';
+  }
+
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+/**
+ * The fields an audit event changed, one line per field
+ */
+const AuditEventChanges: React.FC<AuditEventChangesProps> = ({ before, after }) => {
+  const fields = Object.keys({ ...before, ...after });
+
+  if (fields.length === 0) {
+    return <span className="text-gray-500">—</span>;
+  }
+
+  return (
+    <ul className="space-y-0.5 text-xs">
+      {fields.map((field) => (
+        <li key={field} className="break-all">
+          <span className="font-medium">{field}:</span>{' '}
+          {before && field in before && (
+            <span className="text-red-700 line-through mr-1">{formatValue(before[field])}</span>
+          )}
+          {after && field in after && (
+            <span className="text-green-700">{formatValue(after[field])}</span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default AuditEventChanges;
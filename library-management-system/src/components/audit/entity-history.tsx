@@ -0,0 +1,138 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { AuditAction, AuditEntityType } from '@prisma/client';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Loader2 } from 'lucide-react';
+import AuditEventChanges from './audit-event-changes';
+
+interface EntityHistoryProps {
+  entityType: AuditEntityType;
+  entityId: string;
+}
+
+interface HistoryEvent {
+  id: string;
+  action: AuditAction;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  reason: string | null;
+  createdAt: string;
+  actor: { name: string | null; email: string } | null;
+}
+
+interface Pagination {
+  page: number;
+  totalPages: number;
+}
+
+/**
+ * Changes staff have made to a book or member, newest first
+ */
+const EntityHistory: React.FC<EntityHistoryProps> = ({ entityType, entityId }) => {
+  const [events, setEvents] = useState<HistoryEvent[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [page, setPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ entityType, entityId, page: String(page) });
+      const response = await fetch(`/api/audit-events?${params.toString()}`);
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to fetch history');
+      }
+
+      const data = await response.json();
+      setEvents(data.events);
+      setPagination(data.pagination);
+    } catch (error) {
+      console.error('Error fetching history:', error);
+      setError(error instanceof Error ? error.message : 'An unknown error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [entityType, entityId, page]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>History</CardTitle>
+        <CardDescription>Changes made by staff, newest first.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="bg-red-50 text-red-600 p-3 rounded-md">{error}</div>
+        )}
+
+        {isLoading && events.length === 0 ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-gray-500">No changes have been recorded yet.</p>
+        ) : (
+          <ul className="space-y-4">
+            {events.map((event) => (
+              <li key={event.id} className="border-b pb-3 last:border-b-0">
+                <div className="flex flex-wrap items-center gap-2 text-sm mb-1">
+                  <Badge variant="outline">{event.action.replace(/_/g, ' ')}</Badge>
+                  <span className="text-gray-500">
+                    {format(new Date(event.createdAt), 'MMM d, yyyy HH:mm')}
+                    {event.actor && ` · ${event.actor.name || event.actor.email}`}
+                  </span>
+                </div>
+                <AuditEventChanges before={event.before} after={event.after} />
+                {event.reason && (
+                  <p className="text-xs text-gray-600 mt-1">Reason: {event.reason}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {pagination && pagination.totalPages > 1 && (
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-gray-500">
+              Page {pagination.page} of {pagination.totalPages}
+            </span>
+            <div className="space-x-2">
+              <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                Previous
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={page >= pagination.totalPages}
+                onClick={() => setPage(page + 1)}
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EntityHistory;
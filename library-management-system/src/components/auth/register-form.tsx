@@ -60,11 +60,11 @@ export function RegisterForm() {
 
       toast({
         title: 'Success',
-        description: 'Registration successful! Please sign in.',
+        description: 'Registration successful! Please check your email to verify your account.',
       });
 
-      // Redirect to login page after successful registration
-      router.push('/auth/login');
+      // New accounts must confirm their email before they can sign in
+      router.push(`/auth/verify-email?email=${encodeURIComponent(values.email)}`);
     } catch (error) {
       toast({
         title: 'Error',
@@ -0,0 +1,58 @@
+'use client';
+
+import QRCode from 'react-qr-code';
+
+interface TwoFactorQrCodeProps {
+  otpauthUrl: string;
+  secret: string;
+}
+
+/**
+ * QR code for an authenticator app, with the key for entering it by hand
+ */
+export function TwoFactorQrCode({ otpauthUrl, secret }: TwoFactorQrCodeProps) {
+  // Group the key in fours so it is easier to type
+  const formattedSecret = secret.match(/.{1,4}/g)?.join(' ') ?? secret;
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <div className="bg-white p-3 rounded-md border">
+        <QRCode
+          value={otpauthUrl}
+          size={176}
+          style={{ height: 'auto', maxWidth: '176px', width: '100%' }}
+          viewBox={`0 0 256 256`}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground text-center">
+        Can&apos;t scan it? Enter this key in your authenticator app:
+      </p>
+      <code className="text-sm font-mono bg-muted px-2 py-1 rounded break-all text-center">
+        {formattedSecret}
+      </code>
+    </div>
+  );
+}
+
+interface RecoveryCodeListProps {
+  codes: string[];
+}
+
+/**
+ * One-time display of recovery codes
+ */
+export function RecoveryCodeList({ codes }: RecoveryCodeListProps) {
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground">
+        Save these recovery codes somewhere safe. Each one can be used once to sign in if you lose
+        access to your authenticator app. They won&apos;t be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-md border bg-muted p-3 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+    </div>
+  );
+}
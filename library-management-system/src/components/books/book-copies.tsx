@@ -0,0 +1,246 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { BookStatus, CopyCondition } from '@prisma/client';
+import { Loader2, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useToast } from '@/components/ui/use-toast';
+import { PermissionGuard } from '@/components/auth/role-guard';
+import { Permission } from '@/lib/auth/rbac/types';
+import { statusLabels } from './update-status-dialog';
+
+interface BookCopiesProps {
+  bookId: string;
+  // Called after a copy is added, so the page can reload the title status
+  onCopyAdded?: () => void;
+}
+
+interface Copy {
+  id: string;
+  barcode: string;
+  shelfLocation: string | null;
+  acquisitionDate: string;
+  condition: CopyCondition;
+  status: BookStatus;
+}
+
+interface CopyAvailability {
+  totalCopies: number;
+  availableCopies: number;
+  checkedOutCopies: number;
+  reservedCopies: number;
+  unavailableCopies: number;
+}
+
+const conditions = Object.values(CopyCondition);
+
+/**
+ * The physical copies of a title, with a form for adding more
+ */
+export function BookCopies({ bookId, onCopyAdded }: BookCopiesProps) {
+  const { toast } = useToast();
+  const [copies, setCopies] = useState<Copy[]>([]);
+  const [availability, setAvailability] = useState<CopyAvailability | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAdding, setIsAdding] = useState(false);
+  const [barcode, setBarcode] = useState('');
+  const [shelfLocation, setShelfLocation] = useState('');
+  const [condition, setCondition] = useState<CopyCondition>(CopyCondition.GOOD);
+
+  const fetchCopies = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(`/api/books/${bookId}/copies`);
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch copies');
+      }
+
+      const data = await response.json();
+      setCopies(data.copies);
+      setAvailability(data.availability);
+    } catch (error) {
+      console.error('Error fetching copies:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [bookId]);
+
+  useEffect(() => {
+    fetchCopies();
+  }, [fetchCopies]);
+
+  const handleAddCopy = async () => {
+    try {
+      setIsAdding(true);
+      const response = await fetch(`/api/books/${bookId}/copies`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        // A blank barcode is generated by the server
+        body: JSON.stringify({
+          barcode: barcode.trim() || undefined,
+          shelfLocation: shelfLocation.trim() || undefined,
+          condition,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to add copy');
+      }
+
+      const copy = await response.json();
+      toast({
+        title: 'Copy added',
+        description: `Copy ${copy.barcode} is ready to lend.`,
+      });
+
+      setBarcode('');
+      setShelfLocation('');
+      setCondition(CopyCondition.GOOD);
+      await fetchCopies();
+
+      if (onCopyAdded) {
+        onCopyAdded();
+      }
+    } catch (error) {
+      console.error('Error adding copy:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to add copy. Please try again.',
+        type: 'error',
+      });
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Copies</CardTitle>
+        <CardDescription>
+          {availability
+            ? `${availability.availableCopies} of ${availability.totalCopies} available, ${availability.checkedOutCopies} on loan, ${availability.reservedCopies} held for pickup`
+            : 'Physical copies of this book'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading && copies.length === 0 ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : copies.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            This book has no copies yet, so it can&apos;t be checked out.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Barcode</TableHead>
+                <TableHead>Shelf</TableHead>
+                <TableHead>Condition</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Acquired</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {copies.map((copy) => (
+                <TableRow key={copy.id}>
+                  <TableCell className="font-mono">{copy.barcode}</TableCell>
+                  <TableCell>{copy.shelfLocation || '—'}</TableCell>
+                  <TableCell>{copy.condition}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{statusLabels[copy.status]}</Badge>
+                  </TableCell>
+                  <TableCell>{format(new Date(copy.acquisitionDate), 'MMM d, yyyy')}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <PermissionGuard permissions={[Permission.BOOK_CREATE]}>
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-4 sm:items-end">
+            <div className="space-y-2">
+              <Label htmlFor="copy-barcode">Barcode</Label>
+              <Input
+                id="copy-barcode"
+                placeholder="Generated if blank"
+                value={barcode}
+                onChange={(e) => setBarcode(e.target.value)}
+                disabled={isAdding}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="copy-shelf">Shelf location</Label>
+              <Input
+                id="copy-shelf"
+                placeholder="e.g. A3-12"
+                value={shelfLocation}
+                onChange={(e) => setShelfLocation(e.target.value)}
+                disabled={isAdding}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Condition</Label>
+              <Select
+                value={condition}
+                onValueChange={(value: CopyCondition) => setCondition(value)}
+                disabled={isAdding}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {conditions.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {option.charAt(0) + option.slice(1).toLowerCase()}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={handleAddCopy} disabled={isAdding}>
+              {isAdding ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Plus className="mr-2 h-4 w-4" />
+              )}
+              Add Copy
+            </Button>
+          </div>
+        </PermissionGuard>
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,7 +2,8 @@
 
 import { useEffect, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
-import { ArrowLeft, Edit, Loader2, MoreVertical } from 'lucide-react';
+import { ArrowLeft, Edit, Loader2, MoreVertical, RefreshCw } from 'lucide-react';
+import { BookStatus } from '@prisma/client';
 import { format } from 'date-fns';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -14,8 +15,7 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Badge } from '../ui/badge';
-
-type BookStatus = 'AVAILABLE' | 'CHECKED_OUT' | 'RESERVED' | 'LOST' | 'DAMAGED' | 'PROCESSING';
+import { UpdateStatusDialog } from './update-status-dialog';
 
 const statusVariant = {
   AVAILABLE: 'success',
@@ -23,7 +23,8 @@ const statusVariant = {
   RESERVED: 'info',
   LOST: 'destructive',
   DAMAGED: 'destructive',
-  PROCESSING: 'secondary',
+  UNDER_MAINTENANCE: 'secondary',
+  DISCARDED: 'outline',
 };
 
 interface Book {
@@ -50,6 +51,9 @@ export function BookDetail() {
   const { toast } = useToast();
   const [book, setBook] = useState<Book | null>(null);
   const [loading, setLoading] = useState(true);
+  const [statusDialogOpen, setStatusDialogOpen] = useState(false);
+  // Bumped to reload the book after its status changes
+  const [refreshKey, setRefreshKey] = useState(0);
 
   // Fetch book details
   useEffect(() => {
@@ -79,7 +83,7 @@ export function BookDetail() {
     if (id) {
       fetchBook();
     }
-  }, [id, router, toast]);
+  }, [id, router, toast, refreshKey]);
 
   // Format status
   const formatStatus = (status: BookStatus) => {
@@ -102,7 +106,7 @@ export function BookDetail() {
       case 'LOST':
       case 'DAMAGED':
         return 'destructive';
-      case 'PROCESSING':
+      case 'UNDER_MAINTENANCE':
         return 'secondary';
       default:
         return 'outline';
@@ -166,6 +170,10 @@ export function BookDetail() {
                 <Edit className="mr-2 h-4 w-4" />
                 Edit Book
               </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setStatusDialogOpen(true)}>
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Update Status
+              </DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
         </div>
@@ -258,6 +266,14 @@ export function BookDetail() {
           )}
         </div>
       </div>
+
+      <UpdateStatusDialog
+        open={statusDialogOpen}
+        onOpenChange={setStatusDialogOpen}
+        bookId={book.id}
+        currentStatus={book.status}
+        onStatusUpdate={() => setRefreshKey((key) => key + 1)}
+      />
     </div>
   );
 }
@@ -10,7 +10,6 @@ import { Button } from '@/components/ui/button';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import Textarea from '@/components/ui/textarea';
-import { BookStatus } from '@prisma/client';
 import {
   Select,
   SelectContent,
@@ -19,6 +18,8 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { useToast } from '@/components/ui/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { useTaxonomy } from '@/hooks/use-taxonomy';
 
 interface BookFormProps {
   initialData?: BookFormValues & { id?: string };
@@ -29,6 +30,7 @@ export function BookForm({ initialData, isEditing = false }: BookFormProps) {
   const router = useRouter();
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
+  const { categories, tags } = useTaxonomy();
 
   const defaultValues: BookFormValues = {
     isbn: initialData?.isbn || '',
@@ -42,6 +44,7 @@ export function BookForm({ initialData, isEditing = false }: BookFormProps) {
     publisher: initialData?.publisher || '',
     description: initialData?.description || '',
     coverImage: initialData?.coverImage || '',
+    tags: initialData?.tags || [],
     status: initialData?.status || 'AVAILABLE',
   };
 
@@ -58,6 +61,7 @@ export function BookForm({ initialData, isEditing = false }: BookFormProps) {
     publisher: string;
     description: string;
     coverImage: string;
+    tags: string[];
     status: string; // Using string to match the form input type
   };
   
@@ -76,6 +80,7 @@ export function BookForm({ initialData, isEditing = false }: BookFormProps) {
       publisher: initialData?.publisher || '',
       description: initialData?.description || '',
       coverImage: initialData?.coverImage || '',
+      tags: initialData?.tags || [],
       status: initialData?.status || 'AVAILABLE',
     },
     mode: 'onChange',
@@ -218,13 +223,27 @@ export function BookForm({ initialData, isEditing = false }: BookFormProps) {
             render={({ field }) => (
               <FormItem>
                 <FormLabel>Category</FormLabel>
-                <FormControl>
-                  <Input
-                    placeholder="e.g., Fiction, Science, History"
-                    disabled={isLoading}
-                    {...field}
-                  />
-                </FormControl>
+                <Select
+                  onValueChange={field.onChange}
+                  value={field.value}
+                  disabled={isLoading}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select category" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {categories.map((category) => (
+                      <SelectItem key={category.id} value={category.name}>
+                        <span style={{ paddingLeft: `${category.depth}rem` }}>{category.name}</span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>
+                  Categories are managed by administrators
+                </FormDescription>
                 <FormMessage />
               </FormItem>
             )}
@@ -345,37 +364,6 @@ export function BookForm({ initialData, isEditing = false }: BookFormProps) {
             )}
           />
 
-          {/* Status */}
-          <FormField
-            control={form.control}
-            name="status"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Status</FormLabel>
-                <Select
-                  onValueChange={(value: string) => field.onChange(value as BookStatus)}
-                  value={field.value}
-                  disabled={isLoading}
-                >
-                  <FormControl>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select status" />
-                    </SelectTrigger>
-                  </FormControl>
-                  <SelectContent>
-                    <SelectItem value="AVAILABLE">Available</SelectItem>
-                    <SelectItem value="CHECKED_OUT">Checked Out</SelectItem>
-                    <SelectItem value="RESERVED">Reserved</SelectItem>
-                    <SelectItem value="LOST">Lost</SelectItem>
-                    <SelectItem value="DAMAGED">Damaged</SelectItem>
-                    <SelectItem value="PROCESSING">Processing</SelectItem>
-                  </SelectContent>
-                </Select>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-
           {/* Cover Image */}
           <FormField
             control={form.control}
@@ -398,6 +386,43 @@ export function BookForm({ initialData, isEditing = false }: BookFormProps) {
           />
         </div>
 
+        {/* Tags */}
+        <FormField
+          control={form.control}
+          name="tags"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Tags (Optional)</FormLabel>
+              <div className="flex flex-wrap gap-2" role="listbox" aria-multiselectable="true">
+                {tags.map((tag) => {
+                  const selected = field.value.includes(tag.name);
+                  return (
+                    <Badge
+                      key={tag.id}
+                      variant={selected ? 'default' : 'outline'}
+                      className="cursor-pointer"
+                      role="option"
+                      aria-selected={selected}
+                      tabIndex={0}
+                      onClick={() => {
+                        if (isLoading) return;
+                        field.onChange(
+                          selected
+                            ? field.value.filter((name) => name !== tag.name)
+                            : [...field.value, tag.name]
+                        );
+                      }}
+                    >
+                      {tag.name}
+                    </Badge>
+                  );
+                })}
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         {/* Description */}
         <FormField
           control={form.control}
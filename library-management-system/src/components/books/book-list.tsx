@@ -21,6 +21,7 @@ import { toast } from 'sonner';
 import { useAriaLive, useKeyboardNavigation, ariaLabels, roleAttributes, srOnly } from '@/lib/accessibility';
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
+import { useTaxonomy } from '@/hooks/use-taxonomy';
 
 // Simple table components with proper types
 interface TableProps extends React.HTMLAttributes<HTMLTableElement> {
@@ -106,6 +107,7 @@ export function BookList({ onEdit, onDelete, onView, className }: BookListProps)
   const { toast } = useToast();
   const [books, setBooks] = useState<Book[]>([]);
   const [loading, setLoading] = useState(true);
+  const taxonomy = useTaxonomy();
   const [filters, setFilters] = useState<SearchFilters>({
     text: '',
     categories: [],
@@ -190,8 +192,8 @@ export function BookList({ onEdit, onDelete, onView, className }: BookListProps)
 
       <AdvancedSearch
         onSearch={handleSearch}
-        categories={['Fiction', 'Non-Fiction', 'Science', 'History']}
-        tags={['Bestseller', 'New Release', 'Award Winner']}
+        categories={taxonomy.categories.map((category) => category.name)}
+        tags={taxonomy.tags.map((tag) => tag.name)}
       />
 
       <div className="rounded-md border">
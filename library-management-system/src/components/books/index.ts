@@ -3,3 +3,4 @@ export * from './book-list';
 export * from './book-detail';
 export * from './delete-book-dialog';
 export * from './update-status-dialog';
+export * from './book-copies';
@@ -1,7 +1,7 @@
 'use client';
 
-import { useState } from 'react';
-type BookStatus = 'AVAILABLE' | 'CHECKED_OUT' | 'RESERVED' | 'LOST' | 'DAMAGED' | 'PROCESSING';
+import { useEffect, useState } from 'react';
+import { BookStatus } from '@prisma/client';
 import { Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
@@ -12,6 +12,8 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import Textarea from '@/components/ui/textarea';
 import { useToast } from '@/components/ui/use-toast';
 import {
   Select,
@@ -29,14 +31,15 @@ interface UpdateStatusDialogProps {
   onStatusUpdate?: () => void;
 }
 
-const statusOptions = [
-  { value: 'AVAILABLE' as const, label: 'Available' },
-  { value: 'CHECKED_OUT' as const, label: 'Checked Out' },
-  { value: 'RESERVED' as const, label: 'Reserved' },
-  { value: 'LOST' as const, label: 'Lost' },
-  { value: 'DAMAGED' as const, label: 'Damaged' },
-  { value: 'PROCESSING' as const, label: 'Processing' },
-] as const;
+export const statusLabels: Record<BookStatus, string> = {
+  AVAILABLE: 'Available',
+  CHECKED_OUT: 'Checked Out',
+  RESERVED: 'Reserved',
+  LOST: 'Lost',
+  DAMAGED: 'Damaged',
+  UNDER_MAINTENANCE: 'Under Maintenance',
+  DISCARDED: 'Discarded',
+};
 
 export function UpdateStatusDialog({
   open,
@@ -46,10 +49,43 @@ export function UpdateStatusDialog({
   onStatusUpdate,
 }: UpdateStatusDialogProps) {
   const { toast } = useToast();
-  const [status, setStatus] = useState<BookStatus>(currentStatus as BookStatus);
+  const [status, setStatus] = useState<BookStatus | ''>('');
+  const [reason, setReason] = useState('');
+  const [allowedTransitions, setAllowedTransitions] = useState<BookStatus[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
   const [isUpdating, setIsUpdating] = useState(false);
 
+  // Only offer the statuses the book can move to from where it is now
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchTransitions = async () => {
+      try {
+        setIsLoading(true);
+        setStatus('');
+        setReason('');
+        const response = await fetch(`/api/books/${bookId}/status`);
+
+        if (!response.ok) {
+          throw new Error('Failed to fetch book status');
+        }
+
+        const data = await response.json();
+        setAllowedTransitions(data.allowedTransitions);
+      } catch (error) {
+        console.error('Error fetching book status:', error);
+        setAllowedTransitions([]);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchTransitions();
+  }, [open, bookId, currentStatus]);
+
   const handleStatusUpdate = async () => {
+    if (!status) return;
+
     try {
       setIsUpdating(true);
       const response = await fetch(`/api/books/${bookId}/status`, {
@@ -57,16 +93,17 @@ export function UpdateStatusDialog({
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ status }),
+        body: JSON.stringify({ status, reason }),
       });
 
       if (!response.ok) {
-        throw new Error('Failed to update book status');
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.details?.reason?._errors?.[0] || errorData.error || 'Failed to update book status');
       }
 
       toast({
         title: 'Status updated',
-        description: `Book status has been updated to "${statusOptions.find(s => s.value === status)?.label}".`,
+        description: `Book status has been updated to "${statusLabels[status]}".`,
       });
 
       // Call the callback if provided
@@ -80,7 +117,7 @@ export function UpdateStatusDialog({
       console.error('Error updating book status:', error);
       toast({
         title: 'Error',
-        description: 'Failed to update book status. Please try again.',
+        description: error instanceof Error ? error.message : 'Failed to update book status. Please try again.',
         type: 'error',
       });
     } finally {
@@ -94,28 +131,48 @@ export function UpdateStatusDialog({
         <DialogHeader>
           <DialogTitle>Update Book Status</DialogTitle>
           <DialogDescription>
-            Change the status of this book in the library system.
+            Currently {statusLabels[currentStatus]}. Every change is recorded with its reason.
           </DialogDescription>
         </DialogHeader>
-        
-        <div className="py-4">
-          <Select
-            value={status}
-            onValueChange={(value: BookStatus) => setStatus(value)}
-          >
-            <SelectTrigger className="w-full">
-              <SelectValue placeholder="Select status" />
-            </SelectTrigger>
-            <SelectContent>
-              {statusOptions.map((option) => (
-                <SelectItem key={option.value} value={option.value}>
-                  {option.label}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
+
+        <div className="space-y-4 py-4">
+          {!isLoading && allowedTransitions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              This book&apos;s status can no longer be changed.
+            </p>
+          ) : (
+            <>
+              <Select
+                value={status}
+                onValueChange={(value: BookStatus) => setStatus(value)}
+                disabled={isLoading || isUpdating}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder={isLoading ? 'Loading...' : 'Select status'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {allowedTransitions.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {statusLabels[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <div className="space-y-2">
+                <Label htmlFor="status-reason">Reason</Label>
+                <Textarea
+                  id="status-reason"
+                  placeholder="e.g. Spine repaired and re-shelved"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  disabled={isUpdating}
+                />
+              </div>
+            </>
+          )}
         </div>
-        
+
         <DialogFooter>
           <Button
             variant="outline"
@@ -126,7 +183,7 @@ export function UpdateStatusDialog({
           </Button>
           <Button
             onClick={handleStatusUpdate}
-            disabled={isUpdating || status === currentStatus}
+            disabled={isUpdating || !status || reason.trim().length < 3}
           >
             {isUpdating ? (
               <>
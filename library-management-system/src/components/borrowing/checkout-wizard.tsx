@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { Search, ChevronRight, ChevronLeft, Calendar, CheckCircle, Book, User } from 'lucide-react';
+import { Search, ChevronRight, ChevronLeft, Calendar, CheckCircle, Book, User, AlertTriangle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
@@ -10,7 +10,7 @@ import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/componen
 import { z } from 'zod';
 
 // Types
-type BookStatus = 'AVAILABLE' | 'CHECKED_OUT' | 'RESERVED' | 'LOST' | 'DAMAGED' | 'PROCESSING';
+type BookStatus = 'AVAILABLE' | 'CHECKED_OUT' | 'RESERVED' | 'LOST' | 'DAMAGED' | 'UNDER_MAINTENANCE' | 'DISCARDED';
 
 interface Book {
   id: string;
@@ -31,6 +31,24 @@ interface Member {
   borrowedBooks: number;
 }
 
+// A member as listed by GET /api/members
+interface MemberResponse {
+  id: string;
+  name: string | null;
+  email: string;
+  membershipNumber: string | null;
+  membershipStatus: Member['membershipStatus'];
+  activeBorrowingsCount: number;
+}
+
+// A borrowing limit that blocks the checkout, as returned by the API
+interface BorrowingLimitViolation {
+  rule: 'MAX_ACTIVE_LOANS' | 'MAX_OVERDUE_ITEMS' | 'MAX_FINE_BALANCE';
+  message: string;
+  limit: number;
+  current: number;
+}
+
 // Validation schema for checkout
 const checkoutSchema = z.object({
   bookId: z.string().min(1, "Book is required"),
@@ -48,7 +66,6 @@ export function CheckoutWizard() {
   const [searchTerm, setSearchTerm] = useState('');
   const [memberSearchTerm, setMemberSearchTerm] = useState('');
   const [books, setBooks] = useState<Book[]>([]);
-  const [members, setMembers] = useState<Member[]>([]);
   const [filteredBooks, setFilteredBooks] = useState<Book[]>([]);
   const [filteredMembers, setFilteredMembers] = useState<Member[]>([]);
   const [selectedBook, setSelectedBook] = useState<Book | null>(null);
@@ -57,6 +74,9 @@ export function CheckoutWizard() {
   const [notes, setNotes] = useState('');
   const [error, setError] = useState('');
   const [success, setSuccess] = useState(false);
+  const [violations, setViolations] = useState<BorrowingLimitViolation[]>([]);
+  const [canOverride, setCanOverride] = useState(false);
+  const [overrideReason, setOverrideReason] = useState('');
 
   // Set default due date to 14 days from now
   useEffect(() => {
@@ -87,18 +107,43 @@ export function CheckoutWizard() {
     fetchBooks();
   }, []);
 
-  // Fetch members
+  // Look up members as staff type or scan a card; the API matches names, emails and card numbers
   useEffect(() => {
     const fetchMembers = async () => {
       setLoading(true);
       try {
-        const response = await fetch('/api/members');
+        const params = new URLSearchParams({ limit: '50', sortBy: 'name', sortOrder: 'asc' });
+        const term = memberSearchTerm.trim();
+        if (term) {
+          params.set('search', term);
+        }
+        const response = await fetch(`/api/members?${params}`);
         if (!response.ok) throw new Error('Failed to fetch members');
         const data = await response.json();
-        // Filter only active members
-        const activeMembers = data.filter((member: Member) => member.membershipStatus === 'ACTIVE');
-        setMembers(activeMembers);
-        setFilteredMembers(activeMembers);
+        const fetchedMembers: Member[] = data.members.map((member: MemberResponse) => ({
+          id: member.id,
+          name: member.name ?? member.email,
+          email: member.email,
+          membershipNumber: member.membershipNumber ?? '',
+          membershipStatus: member.membershipStatus,
+          borrowedBooks: member.activeBorrowingsCount,
+        }));
+        // Suspended and closed accounts can't borrow; expired cards are listed so staff can see why
+        const lendableMembers = fetchedMembers.filter(
+          (member) => member.membershipStatus === 'ACTIVE' || member.membershipStatus === 'EXPIRED'
+        );
+        setFilteredMembers(lendableMembers);
+
+        // A scanned card matches exactly one member, so pick them straight away
+        const scannedMember = lendableMembers.find(
+          (member) => member.membershipNumber && member.membershipNumber === term.toUpperCase()
+        );
+        if (scannedMember?.membershipStatus === 'ACTIVE') {
+          setSelectedMember(scannedMember);
+          setViolations([]);
+          setOverrideReason('');
+          setError('');
+        }
       } catch (error) {
         console.error('Error fetching members:', error);
         setError('Failed to load members. Please try again.');
@@ -106,8 +151,11 @@ export function CheckoutWizard() {
         setLoading(false);
       }
     };
-    fetchMembers();
-  }, []);
+
+    // Wait for typing to settle before querying
+    const timeout = setTimeout(fetchMembers, 300);
+    return () => clearTimeout(timeout);
+  }, [memberSearchTerm]);
 
   // Filter books based on search term
   useEffect(() => {
@@ -124,21 +172,6 @@ export function CheckoutWizard() {
     }
   }, [searchTerm, books]);
 
-  // Filter members based on search term
-  useEffect(() => {
-    if (memberSearchTerm.trim() === '') {
-      setFilteredMembers(members);
-    } else {
-      const filtered = members.filter(
-        (member) =>
-          member.name.toLowerCase().includes(memberSearchTerm.toLowerCase()) ||
-          member.email.toLowerCase().includes(memberSearchTerm.toLowerCase()) ||
-          member.membershipNumber.toLowerCase().includes(memberSearchTerm.toLowerCase())
-      );
-      setFilteredMembers(filtered);
-    }
-  }, [memberSearchTerm, members]);
-
   const handleNextStep = () => {
     if (step === 1 && !selectedBook) {
       setError('Please select a book before proceeding.');
@@ -165,8 +198,17 @@ export function CheckoutWizard() {
   };
 
   const handleSelectMember = (member: Member) => {
+    // Expired cards have to be renewed before the member can borrow
+    if (member.membershipStatus === 'EXPIRED') {
+      setError(`${member.name}'s library card has expired. Renew the membership before checking out.`);
+      return;
+    }
+
     setSelectedMember(member);
     setError('');
+    // Limits are per member, so any earlier block no longer applies
+    setViolations([]);
+    setOverrideReason('');
   };
 
   const handleSubmitCheckout = async () => {
@@ -175,13 +217,19 @@ export function CheckoutWizard() {
       return;
     }
 
+    if (violations.length > 0 && overrideReason.trim().length < 3) {
+      setError('Please give a reason for overriding the borrowing limits');
+      return;
+    }
+
     setLoading(true);
     try {
       const checkoutData = {
         bookId: selectedBook.id,
         memberId: selectedMember.id,
-        dueDate: new Date(dueDate),
+        dueDate: new Date(dueDate).toISOString(),
         notes: notes || undefined,
+        overrideReason: violations.length > 0 ? overrideReason.trim() : undefined,
       };
 
       const response = await fetch('/api/borrowings', {
@@ -194,9 +242,19 @@ export function CheckoutWizard() {
 
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.message || 'Failed to checkout book');
+
+        // The member is over one or more borrowing limits
+        if (response.status === 409 && errorData.violations) {
+          setViolations(errorData.violations);
+          setCanOverride(errorData.canOverride);
+          setError('');
+          return;
+        }
+
+        throw new Error(errorData.error || 'Failed to checkout book');
       }
 
+      setViolations([]);
       setSuccess(true);
       setStep(4); // Move to confirmation step
     } catch (error: any) {
@@ -297,7 +355,7 @@ export function CheckoutWizard() {
             <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
             <Input
               type="text"
-              placeholder="Search by name, email, or membership number..."
+              placeholder="Search by name or email, or scan a library card..."
               className="pl-10 w-full"
               value={memberSearchTerm}
               onChange={(e) => setMemberSearchTerm(e.target.value)}
@@ -313,7 +371,7 @@ export function CheckoutWizard() {
               filteredMembers.map((member) => (
                 <Card 
                   key={member.id} 
-                  className={`cursor-pointer hover:border-blue-500 transition-all ${selectedMember?.id === member.id ? 'border-2 border-blue-500' : ''}`}
+                  className={`transition-all ${member.membershipStatus === 'EXPIRED' ? 'cursor-not-allowed opacity-60' : 'cursor-pointer hover:border-blue-500'} ${selectedMember?.id === member.id ? 'border-2 border-blue-500' : ''}`}
                   onClick={() => handleSelectMember(member)}
                 >
                   <CardContent className="pt-6">
@@ -323,7 +381,11 @@ export function CheckoutWizard() {
                       <div className="text-xs text-gray-400 mb-2">ID: {member.membershipNumber}</div>
                       <div className="flex justify-between items-center mt-2">
                         <Badge variant="secondary">Books: {member.borrowedBooks}</Badge>
-                        <Badge className="bg-green-500">Active</Badge>
+                        {member.membershipStatus === 'EXPIRED' ? (
+                          <Badge variant="destructive">Card Expired</Badge>
+                        ) : (
+                          <Badge className="bg-green-500">Active</Badge>
+                        )}
                       </div>
                     </div>
                   </CardContent>
@@ -331,7 +393,7 @@ export function CheckoutWizard() {
               ))
             ) : (
               <div className="col-span-full text-center p-8 text-gray-500">
-                No active members found.
+                No members found.
               </div>
             )}
           </div>
@@ -398,6 +460,38 @@ export function CheckoutWizard() {
               </div>
             )}
           </div>
+
+          {violations.length > 0 && (
+            <div className="bg-red-50 text-red-600 p-4 rounded-lg mt-6">
+              <div className="flex items-center font-semibold mb-2">
+                <AlertTriangle className="mr-2 h-4 w-4" />
+                Checkout blocked by borrowing limits
+              </div>
+              <ul className="list-disc pl-6 text-sm space-y-1">
+                {violations.map((violation) => (
+                  <li key={violation.rule}>{violation.message}</li>
+                ))}
+              </ul>
+              {canOverride ? (
+                <div className="mt-4">
+                  <label htmlFor="override-reason" className="block text-sm font-medium text-gray-700 mb-2">
+                    Override Reason
+                  </label>
+                  <textarea
+                    id="override-reason"
+                    className="w-full min-h-[80px] px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="Explain why this checkout should go ahead..."
+                    value={overrideReason}
+                    onChange={(e) => setOverrideReason(e.target.value)}
+                  />
+                </div>
+              ) : (
+                <p className="text-sm mt-3">
+                  Ask a librarian with override permission to approve this checkout.
+                </p>
+              )}
+            </div>
+          )}
         </CardContent>
       </div>
     );
@@ -444,6 +538,8 @@ export function CheckoutWizard() {
                 defaultDueDate.setDate(defaultDueDate.getDate() + 14);
                 setDueDate(defaultDueDate.toISOString().split('T')[0]);
                 setNotes('');
+                setViolations([]);
+                setOverrideReason('');
                 setStep(1);
               }}
             >
@@ -491,13 +587,15 @@ export function CheckoutWizard() {
             ) : (
               <Button 
                 onClick={handleSubmitCheckout}
-                disabled={loading}
+                disabled={loading || (violations.length > 0 && !canOverride)}
               >
                 {loading ? (
                   <>
                     <div className="animate-spin mr-2 h-4 w-4 border-2 border-current border-t-transparent rounded-full"></div>
                     Processing...
                   </>
+                ) : violations.length > 0 ? (
+                  <>Override and Checkout</>
                 ) : (
                   <>Confirm Checkout</>
                 )}
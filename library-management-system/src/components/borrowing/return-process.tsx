@@ -1,7 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { useRouter } from 'next/navigation';
+import { useState, useEffect, useCallback } from 'react';
 import { Search, Check, X, AlertCircle, Loader2, Star } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -10,83 +9,61 @@ import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/componen
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
-import { z } from 'zod';
+import { useLiveEvents } from '@/hooks/use-live-events';
+import type { Borrowing } from '@/types/borrowings';
 
-// Types
-interface Book {
-  id: string;
-  title: string;
-  author: string;
-  isbn: string;
-  coverImage?: string | null;
-}
-
-interface Member {
-  id: string;
-  name: string;
-  email: string;
-  membershipNumber: string;
-}
-
-interface BorrowingRecord {
-  id: string;
-  bookId: string;
-  memberId: string;
-  checkoutDate: string;
-  dueDate: string;
-  returnDate: string | null;
-  status: 'ACTIVE' | 'RETURNED' | 'OVERDUE' | 'LOST';
-  book: Book;
-  member: Member;
-}
-
-// Validation schema for return
-const returnSchema = z.object({
-  borrowingId: z.string().min(1, "Borrowing record is required"),
-  returnDate: z.date().default(() => new Date()),
-  condition: z.enum(['GOOD', 'DAMAGED', 'LOST']),
-  fineAmount: z.number().min(0).optional(),
-  fineReason: z.string().optional(),
-  paidStatus: z.boolean().default(false),
-  notes: z.string().optional(),
-});
+type ReturnCondition = 'GOOD' | 'DAMAGED' | 'LOST';
 
-type ReturnFormValues = z.infer<typeof returnSchema>;
 
 export function ReturnProcess() {
-  const router = useRouter();
   const [searchTerm, setSearchTerm] = useState('');
   const [loading, setLoading] = useState(false);
-  const [borrowings, setBorrowings] = useState<BorrowingRecord[]>([]);
-  const [filteredBorrowings, setFilteredBorrowings] = useState<BorrowingRecord[]>([]);
-  const [selectedBorrowing, setSelectedBorrowing] = useState<BorrowingRecord | null>(null);
-  const [bookCondition, setBookCondition] = useState<'GOOD' | 'DAMAGED' | 'LOST'>('GOOD');
-  const [fineAmount, setFineAmount] = useState(0);
-  const [fineReason, setFineReason] = useState('');
+  const [borrowings, setBorrowings] = useState<Borrowing[]>([]);
+  const [filteredBorrowings, setFilteredBorrowings] = useState<Borrowing[]>([]);
+  const [selectedBorrowing, setSelectedBorrowing] = useState<Borrowing | null>(null);
+  const [bookCondition, setBookCondition] = useState<ReturnCondition>('GOOD');
+  // Charged by the server from the circulation policy once the return goes through
+  const [chargedFine, setChargedFine] = useState(0);
+  const [outstandingBalance, setOutstandingBalance] = useState(0);
   const [isPaid, setIsPaid] = useState(false);
   const [notes, setNotes] = useState('');
   const [error, setError] = useState('');
   const [returnComplete, setReturnComplete] = useState(false);
 
   // Fetch active borrowings
+  const fetchBorrowings = useCallback(async (showSpinner = true) => {
+    if (showSpinner) setLoading(true);
+    try {
+      // Everything still out, late or not
+      const response = await fetch('/api/borrowings?status=ACTIVE&status=OVERDUE');
+      if (!response.ok) throw new Error('Failed to fetch borrowings');
+      const data = await response.json();
+      setBorrowings(data);
+    } catch (error) {
+      console.error('Error fetching borrowings:', error);
+      setError('Failed to load borrowings. Please try again.');
+    } finally {
+      if (showSpinner) setLoading(false);
+    }
+  }, []);
+
   useEffect(() => {
-    const fetchBorrowings = async () => {
-      setLoading(true);
-      try {
-        const response = await fetch('/api/borrowings?status=ACTIVE');
-        if (!response.ok) throw new Error('Failed to fetch borrowings');
-        const data = await response.json();
-        setBorrowings(data);
-        setFilteredBorrowings(data);
-      } catch (error) {
-        console.error('Error fetching borrowings:', error);
-        setError('Failed to load borrowings. Please try again.');
-      } finally {
-        setLoading(false);
-      }
-    };
     fetchBorrowings();
-  }, []);
+  }, [fetchBorrowings]);
+
+  // Keep the list current while other desks check books out and in
+  useLiveEvents((event) => {
+    if (event.type === 'CHECKOUT') {
+      fetchBorrowings(false);
+      return;
+    }
+
+    setBorrowings(prev => prev.filter(b => b.id !== event.transactionId));
+    if (selectedBorrowing?.id === event.transactionId && !returnComplete && !loading) {
+      setSelectedBorrowing(null);
+      setError('That loan was just returned elsewhere.');
+    }
+  }, ['CHECKOUT', 'RETURN']);
 
   // Filter borrowings based on search term
   useEffect(() => {
@@ -95,62 +72,24 @@ export function ReturnProcess() {
     } else {
       const filtered = borrowings.filter(
         (borrowing) =>
-          borrowing.book.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          borrowing.book.author.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          borrowing.book.isbn.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          borrowing.member.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          borrowing.member.membershipNumber.toLowerCase().includes(searchTerm.toLowerCase())
+          borrowing.bookTitle.toLowerCase().includes(searchTerm.toLowerCase()) ||
+          borrowing.bookAuthor.toLowerCase().includes(searchTerm.toLowerCase()) ||
+          borrowing.bookIsbn.toLowerCase().includes(searchTerm.toLowerCase()) ||
+          borrowing.memberName.toLowerCase().includes(searchTerm.toLowerCase()) ||
+          borrowing.membershipNumber.toLowerCase().includes(searchTerm.toLowerCase())
       );
       setFilteredBorrowings(filtered);
     }
   }, [searchTerm, borrowings]);
 
-  const handleSelectBorrowing = (borrowing: BorrowingRecord) => {
+  const handleSelectBorrowing = (borrowing: Borrowing) => {
     setSelectedBorrowing(borrowing);
     setBookCondition('GOOD');
-    setFineAmount(0);
-    setFineReason('');
+    setChargedFine(0);
+    setOutstandingBalance(0);
     setIsPaid(false);
     setNotes('');
     setError('');
-    
-    // Check if book is overdue, calculate fine if needed
-    const dueDate = new Date(borrowing.dueDate);
-    const today = new Date();
-    if (dueDate < today) {
-      const daysOverdue = Math.ceil((today.getTime() - dueDate.getTime()) / (1000 * 3600 * 24));
-      const calculatedFine = daysOverdue * 0.50; // $0.50 per day
-      setFineAmount(calculatedFine);
-      setFineReason(`${daysOverdue} days overdue @ $0.50/day`);
-    }
-  };
-
-  const handleConditionChange = (condition: 'GOOD' | 'DAMAGED' | 'LOST') => {
-    setBookCondition(condition);
-    
-    // Set fine based on condition
-    if (condition === 'DAMAGED') {
-      const currentFine = fineAmount > 0 ? fineAmount : 0;
-      setFineAmount(currentFine + 10.00);
-      setFineReason(fineReason ? `${fineReason}, Damaged item fee: $10.00` : 'Damaged item fee: $10.00');
-    } else if (condition === 'LOST') {
-      // Assume replacement cost is $30
-      setFineAmount(30.00);
-      setFineReason('Replacement cost for lost item');
-    } else if (condition === 'GOOD') {
-      // Keep overdue fine if exists, but remove damage/loss fees
-      const dueDate = new Date(selectedBorrowing?.dueDate || new Date());
-      const today = new Date();
-      if (dueDate < today) {
-        const daysOverdue = Math.ceil((today.getTime() - dueDate.getTime()) / (1000 * 3600 * 24));
-        const calculatedFine = daysOverdue * 0.50; // $0.50 per day
-        setFineAmount(calculatedFine);
-        setFineReason(`${daysOverdue} days overdue @ $0.50/day`);
-      } else {
-        setFineAmount(0);
-        setFineReason('');
-      }
-    }
   };
 
   const handleBookReturn = async () => {
@@ -162,10 +101,7 @@ export function ReturnProcess() {
     setLoading(true);
     try {
       const returnData = {
-        borrowingId: selectedBorrowing.id,
         condition: bookCondition,
-        fineAmount: fineAmount > 0 ? fineAmount : undefined,
-        fineReason: fineReason || undefined,
         isPaid,
         notes: notes || undefined,
       };
@@ -178,15 +114,16 @@ export function ReturnProcess() {
         body: JSON.stringify(returnData),
       });
 
+      const data = await response.json();
       if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || 'Failed to process return');
+        throw new Error(data.error || 'Failed to process return');
       }
 
+      setChargedFine(data.fine);
+      setOutstandingBalance(data.outstandingBalance);
+
       // Remove returned book from the list
-      const updatedBorrowings = borrowings.filter(b => b.id !== selectedBorrowing.id);
-      setBorrowings(updatedBorrowings);
-      setFilteredBorrowings(updatedBorrowings);
+      setBorrowings(prev => prev.filter(b => b.id !== selectedBorrowing.id));
       setReturnComplete(true);
     } catch (error: any) {
       console.error('Error processing return:', error);
@@ -266,15 +203,15 @@ export function ReturnProcess() {
                         <td className="px-6 py-4 whitespace-nowrap">
                           <div className="flex items-center">
                             <div>
-                              <div className="font-medium text-gray-900">{borrowing.book.title}</div>
-                              <div className="text-sm text-gray-500">{borrowing.book.author}</div>
-                              <div className="text-xs text-gray-400">ISBN: {borrowing.book.isbn}</div>
+                              <div className="font-medium text-gray-900">{borrowing.bookTitle}</div>
+                              <div className="text-sm text-gray-500">{borrowing.bookAuthor}</div>
+                              <div className="text-xs text-gray-400">ISBN: {borrowing.bookIsbn}</div>
                             </div>
                           </div>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm text-gray-900">{borrowing.member.name}</div>
-                          <div className="text-xs text-gray-500">{borrowing.member.membershipNumber}</div>
+                          <div className="text-sm text-gray-900">{borrowing.memberName}</div>
+                          <div className="text-xs text-gray-500">{borrowing.membershipNumber}</div>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <div className="text-sm text-gray-900">{formatDate(borrowing.dueDate)}</div>
@@ -330,10 +267,10 @@ export function ReturnProcess() {
             <h3 className="font-semibold mb-2">Return Details</h3>
             <div className="grid grid-cols-2 gap-2">
               <div className="text-sm font-medium">Book:</div>
-              <div className="text-sm">{selectedBorrowing.book.title}</div>
+              <div className="text-sm">{selectedBorrowing.bookTitle}</div>
               
               <div className="text-sm font-medium">Member:</div>
-              <div className="text-sm">{selectedBorrowing.member.name}</div>
+              <div className="text-sm">{selectedBorrowing.memberName}</div>
               
               <div className="text-sm font-medium">Checkout Date:</div>
               <div className="text-sm">{formatDate(selectedBorrowing.checkoutDate)}</div>
@@ -355,7 +292,7 @@ export function ReturnProcess() {
               <h3 className="text-sm font-medium mb-2">Book Condition Assessment</h3>
               <RadioGroup 
                 value={bookCondition} 
-                onValueChange={(value: 'GOOD' | 'DAMAGED' | 'LOST') => handleConditionChange(value)}
+                onValueChange={(value: ReturnCondition) => setBookCondition(value)}
                 className="grid grid-cols-3 gap-4"
               >
                 <div className="flex items-center space-x-2">
@@ -373,7 +310,7 @@ export function ReturnProcess() {
               </RadioGroup>
             </div>
             
-            {fineAmount > 0 && (
+            {(calculateDaysOverdue(selectedBorrowing.dueDate) > 0 || bookCondition !== 'GOOD') && (
               <div className="bg-amber-50 p-4 rounded-lg border border-amber-200">
                 <div className="flex items-center mb-2">
                   <AlertCircle className="h-4 w-4 text-amber-500 mr-2" />
@@ -381,8 +318,14 @@ export function ReturnProcess() {
                 </div>
                 
                 <div className="mb-4">
-                  <p className="text-sm text-amber-800">{fineReason}</p>
-                  <p className="text-lg font-bold mt-1">${fineAmount.toFixed(2)}</p>
+                  <p className="text-sm text-amber-800">
+                    {bookCondition === 'LOST'
+                      ? 'A replacement fee'
+                      : bookCondition === 'DAMAGED'
+                        ? 'A damage fee'
+                        : 'A late fee'}
+                    {' '}will be charged under the member&apos;s circulation policy when the return is confirmed.
+                  </p>
                 </div>
                 
                 <div className="flex items-center justify-between">
@@ -447,22 +390,29 @@ export function ReturnProcess() {
             <Check className="h-16 w-16 text-green-500" />
           </div>
           <p className="mb-6">
-            <span className="font-semibold">{selectedBorrowing?.book.title}</span> has been successfully
-            returned from <span className="font-semibold">{selectedBorrowing?.member.name}</span>.
+            <span className="font-semibold">{selectedBorrowing?.bookTitle}</span> has been successfully
+            returned from <span className="font-semibold">{selectedBorrowing?.memberName}</span>.
           </p>
           <div className="bg-gray-50 p-4 rounded-lg text-left mb-8 mx-auto max-w-lg">
             <h3 className="font-semibold mb-2">Return Details</h3>
             <div className="grid grid-cols-2 gap-2">
               <div className="text-sm font-medium">Book:</div>
-              <div className="text-sm">{selectedBorrowing?.book.title}</div>
+              <div className="text-sm">{selectedBorrowing?.bookTitle}</div>
               
               <div className="text-sm font-medium">Condition:</div>
               <div className="text-sm">{bookCondition}</div>
               
-              {fineAmount > 0 && (
+              {chargedFine > 0 && (
                 <>
                   <div className="text-sm font-medium">Fine:</div>
-                  <div className="text-sm">${fineAmount.toFixed(2)} ({isPaid ? 'Paid' : 'Unpaid'})</div>
+                  <div className="text-sm">${chargedFine.toFixed(2)} ({isPaid ? 'Paid' : 'Unpaid'})</div>
+                </>
+              )}
+
+              {outstandingBalance > 0 && (
+                <>
+                  <div className="text-sm font-medium">Balance on Account:</div>
+                  <div className="text-sm">${outstandingBalance.toFixed(2)}</div>
                 </>
               )}
               
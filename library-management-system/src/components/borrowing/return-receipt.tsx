@@ -21,6 +21,7 @@ interface ReturnReceiptProps {
   condition: string;
   fineAmount?: number | null;
   finePaid?: boolean;
+  outstandingBalance?: number | null;
   notes?: string;
   onClose?: () => void;
 }
@@ -38,6 +39,7 @@ export function ReturnReceipt({
   condition,
   fineAmount = null,
   finePaid = false,
+  outstandingBalance = null,
   notes,
   onClose
 }: ReturnReceiptProps) {
@@ -192,6 +194,15 @@ export function ReturnReceipt({
             </div>
           )}
           
+          {outstandingBalance !== null && outstandingBalance > 0 && (
+            <div className="mb-4">
+              <div className="flex justify-between items-center border border-amber-200 p-3 rounded-md">
+                <p className="text-sm text-amber-800">Outstanding balance on account</p>
+                <p className="font-medium text-amber-800">${outstandingBalance.toFixed(2)}</p>
+              </div>
+            </div>
+          )}
+          
           {notes && (
             <div className="mb-6">
               <h3 className="text-sm font-medium text-gray-500 mb-1">Notes</h3>
@@ -240,6 +251,7 @@ export function ReturnReceiptDialog({
   condition,
   fineAmount,
   finePaid,
+  outstandingBalance,
   notes,
   trigger
 }: ReturnReceiptProps & { 
@@ -269,6 +281,7 @@ export function ReturnReceiptDialog({
           condition={condition}
           fineAmount={fineAmount}
           finePaid={finePaid}
+          outstandingBalance={outstandingBalance}
           notes={notes}
           onClose={() => setOpen(false)}
         />
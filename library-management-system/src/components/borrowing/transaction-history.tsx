@@ -9,7 +9,8 @@ import {
   Eye, 
   ArrowUpDown,
   FileText,
-  Loader2
+  Loader2,
+  RefreshCw
 } from 'lucide-react';
 import { CheckoutReceiptDialog } from '@/components/borrowing/checkout-receipt';
 import { ReturnReceiptDialog } from '@/components/borrowing/return-receipt';
@@ -19,27 +20,13 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import type { Borrowing, BorrowingStatus } from '@/types/borrowings';
 
-// Types
-type TransactionStatus = 'ACTIVE' | 'RETURNED' | 'OVERDUE' | 'LOST';
-
-interface Transaction {
-  id: string;
-  bookId: string;
-  memberId: string;
-  bookTitle: string;
-  bookAuthor: string;
-  bookIsbn: string;
-  memberName: string;
-  membershipNumber: string;
-  checkoutDate: string;
-  dueDate: string;
-  returnDate: string | null;
-  status: TransactionStatus;
-  fineAmount: number | null;
-  finePaid: boolean;
-  notes: string | null;
-}
+// Loans from /api/borrowings, plus details the receipts show when they are known
+type Transaction = Borrowing & {
+  notes?: string | null;
+  outstandingBalance?: number | null;
+};
 
 export function TransactionHistory() {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
@@ -53,6 +40,7 @@ export function TransactionHistory() {
   const [sortField, setSortField] = useState<keyof Transaction>('checkoutDate');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
   const [error, setError] = useState('');
+  const [renewingId, setRenewingId] = useState<string | null>(null);
 
   // Fetch transactions
   useEffect(() => {
@@ -150,6 +138,40 @@ export function TransactionHistory() {
     setIsDetailOpen(true);
   };
 
+  const handleRenew = async (transaction: Transaction) => {
+    setRenewingId(transaction.id);
+    setError('');
+    try {
+      const response = await fetch(`/api/transactions/${transaction.id}/renew`, {
+        method: 'POST',
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to renew loan');
+
+      // Update the renewed loan in place
+      const updated = {
+        ...transaction,
+        dueDate: data.dueDate,
+        status: 'ACTIVE' as BorrowingStatus,
+        renewalCount: data.renewalCount,
+      };
+      setTransactions((current) =>
+        current.map((t) => (t.id === transaction.id ? updated : t))
+      );
+      if (selectedTransaction?.id === transaction.id) {
+        setSelectedTransaction(updated);
+      }
+    } catch (error) {
+      console.error('Error renewing loan:', error);
+      setError(error instanceof Error ? error.message : 'Failed to renew loan. Please try again.');
+    } finally {
+      setRenewingId(null);
+    }
+  };
+
+  const canRenew = (transaction: Transaction) =>
+    !transaction.returnDate && (transaction.status === 'ACTIVE' || transaction.status === 'OVERDUE');
+
   const handleExportCSV = () => {
     if (filteredAndSortedTransactions.length === 0) return;
     
@@ -203,7 +225,7 @@ export function TransactionHistory() {
     return new Date(dateString).toLocaleDateString();
   };
 
-  const getStatusBadge = (status: TransactionStatus) => {
+  const getStatusBadge = (status: BorrowingStatus) => {
     switch (status) {
       case 'ACTIVE':
         return <Badge variant="secondary">Active</Badge>;
@@ -226,6 +248,12 @@ export function TransactionHistory() {
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
+            {error && (
+              <div className="bg-red-50 text-red-600 p-3 rounded-md">
+                {error}
+              </div>
+            )}
+
             {/* Search and Filter Controls */}
             <div className="flex flex-col sm:flex-row gap-4">
               <div className="relative w-full sm:w-1/3">
@@ -380,6 +408,21 @@ export function TransactionHistory() {
                             <Eye className="h-4 w-4" />
                             <span className="sr-only">View Details</span>
                           </Button>
+                          {canRenew(transaction) && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleRenew(transaction)}
+                              disabled={renewingId === transaction.id}
+                            >
+                              {renewingId === transaction.id ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <RefreshCw className="h-4 w-4" />
+                              )}
+                              <span className="sr-only">Renew</span>
+                            </Button>
+                          )}
                         </td>
                       </tr>
                     ))
@@ -437,6 +480,12 @@ export function TransactionHistory() {
                     <div className="w-1/3 text-sm font-medium">Due Date:</div>
                     <div className="w-2/3 text-sm">{formatDate(selectedTransaction.dueDate)}</div>
                   </div>
+                  {(selectedTransaction.renewalCount ?? 0) > 0 && (
+                    <div className="flex">
+                      <div className="w-1/3 text-sm font-medium">Renewals:</div>
+                      <div className="w-2/3 text-sm">{selectedTransaction.renewalCount}</div>
+                    </div>
+                  )}
                   <div className="flex">
                     <div className="w-1/3 text-sm font-medium">Return Date:</div>
                     <div className="w-2/3 text-sm">
@@ -499,6 +548,22 @@ export function TransactionHistory() {
                   Checkout Receipt
                 </Button>
               )}
+                {canRenew(selectedTransaction) && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="flex items-center"
+                    onClick={() => handleRenew(selectedTransaction)}
+                    disabled={renewingId === selectedTransaction.id}
+                  >
+                    {renewingId === selectedTransaction.id ? (
+                      <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                    ) : (
+                      <RefreshCw className="mr-1 h-4 w-4" />
+                    )}
+                    Renew
+                  </Button>
+                )}
                 <Button 
                   size="sm"
                   onClick={() => setIsDetailOpen(false)}
@@ -545,6 +610,7 @@ export function TransactionHistory() {
               condition={transaction.status === 'LOST' ? 'LOST' : transaction.status === 'OVERDUE' ? 'DAMAGED' : 'GOOD'}
               fineAmount={transaction.fineAmount}
               finePaid={transaction.finePaid}
+              outstandingBalance={transaction.outstandingBalance}
               notes={transaction.notes || undefined}
               trigger={
                 <button id={`return-receipt-${transaction.id}`}>Open Receipt</button>
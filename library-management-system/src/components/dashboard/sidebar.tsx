@@ -12,7 +12,8 @@ import {
   FileText, 
   User,
   LogOut,
-  PieChart
+  PieChart,
+  Receipt
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useRBAC } from "@/lib/auth/rbac/use-rbac";
@@ -45,6 +46,11 @@ const sidebarNavItems: SidebarNavItem[] = [
     href: "/dashboard/loans",
     icon: CalendarClock,
   },
+  {
+    title: "My Fines",
+    href: "/dashboard/fines",
+    icon: Receipt,
+  },
   {
     title: "Profile",
     href: "/dashboard/profile",
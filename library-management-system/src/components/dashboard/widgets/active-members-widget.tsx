@@ -3,6 +3,7 @@
 import { useEffect, useState } from 'react';
 import { ArrowUp, ArrowDown, Users } from 'lucide-react';
 import { Widget } from '../dashboard-layout';
+import type { PeriodComparison } from '@/types/dashboard';
 
 interface ActiveMembersWidgetProps {
   widget: Widget;
@@ -14,43 +15,34 @@ export function ActiveMembersWidget({ widget }: ActiveMembersWidgetProps) {
   const [percentChange, setPercentChange] = useState(0);
   const [changeDirection, setChangeDirection] = useState<'up' | 'down' | 'none'>('none');
 
-  // Mock data for demonstration purposes
   useEffect(() => {
-    if (isLoading) {
-      const fetchData = async () => {
-        try {
-          // In a real implementation, this would be an API call
-          // const response = await fetch('/api/dashboard/active-members');
-          // const data = await response.json();
-          
-          // Mock data for demonstration
-          const mockData = {
-            current: Math.floor(Math.random() * 100) + 150,
-            previous: Math.floor(Math.random() * 100) + 120,
-          };
-          
-          const change = mockData.current - mockData.previous;
-          const percent = mockData.previous === 0 
-            ? 100 
-            : Math.round((change / mockData.previous) * 100);
-          
-          setActiveMembers(mockData.current);
-          setPercentChange(Math.abs(percent));
-          setChangeDirection(percent > 0 ? 'up' : percent < 0 ? 'down' : 'none');
-          setIsLoading(false);
-        } catch (error) {
-          console.error('Error fetching active members data:', error);
-          setIsLoading(false);
-        }
-      };
-      
-      fetchData();
-      
-      // Refresh data every 5 minutes
-      const intervalId = setInterval(fetchData, 300000);
-      return () => clearInterval(intervalId);
-    }
-  }, [isLoading]);
+    const fetchData = async () => {
+      try {
+        const response = await fetch('/api/dashboard/active-members?timeRange=month');
+        if (!response.ok) throw new Error('Failed to fetch active members data');
+        const data: PeriodComparison = await response.json();
+        
+        const change = data.current - data.previous;
+        const percent = data.previous === 0 
+          ? (data.current > 0 ? 100 : 0)
+          : Math.round((change / data.previous) * 100);
+        
+        setActiveMembers(data.current);
+        setPercentChange(Math.abs(percent));
+        setChangeDirection(percent > 0 ? 'up' : percent < 0 ? 'down' : 'none');
+        setIsLoading(false);
+      } catch (error) {
+        console.error('Error fetching active members data:', error);
+        setIsLoading(false);
+      }
+    };
+    
+    fetchData();
+    
+    // Refresh data every 5 minutes
+    const intervalId = setInterval(fetchData, 300000);
+    return () => clearInterval(intervalId);
+  }, []);
 
   return (
     <div>
@@ -1,7 +1,7 @@
 'use client';
 
-import { useEffect, useState, useRef } from 'react';
-import { Activity, BookOpen, User, RotateCw, Filter } from 'lucide-react';
+import { useCallback, useEffect, useState, useRef } from 'react';
+import { Activity, BookOpen, Bookmark, User, RotateCw, Filter } from 'lucide-react';
 import { Widget } from '../dashboard-layout';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -11,18 +11,12 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
+import { useLiveEvents } from '@/hooks/use-live-events';
+import type { ActivityItem, ActivityPage } from '@/types/dashboard';
+import type { LiveEvent } from '@/types/events';
 
-interface ActivityItem {
-  id: string;
-  type: 'CHECKOUT' | 'RETURN' | 'OVERDUE' | 'MEMBER_SIGNUP' | 'BOOK_ADDED';
-  timestamp: string;
-  title: string;
-  description: string;
-  user?: string;
-  userId?: string;
-  bookId?: string;
-  memberId?: string;
-}
+// Live events have the same shape as activities, plus a few kinds the history doesn't list
+type FeedItem = ActivityItem | LiveEvent;
 
 interface ActivityFeedWidgetProps {
   widget: Widget;
@@ -30,234 +24,121 @@ interface ActivityFeedWidgetProps {
 
 export function ActivityFeedWidget({ widget }: ActivityFeedWidgetProps) {
   const [isLoading, setIsLoading] = useState(true);
-  const [activities, setActivities] = useState<ActivityItem[]>([]);
+  const [activities, setActivities] = useState<FeedItem[]>([]);
   const [page, setPage] = useState(1);
   const [hasMore, setHasMore] = useState(true);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [activeFilter, setActiveFilter] = useState<string | null>(null);
   
   const loadMoreRef = useRef<HTMLDivElement>(null);
+  // Newest activity shown so far, so refreshing only asks for what came after it
+  const latestTimestampRef = useRef<string | null>(null);
 
-  // Mock data for demonstration purposes
-  useEffect(() => {
-    if (isLoading) {
-      fetchActivities();
-    }
-    
-    // Set up a polling interval for real-time updates
-    const intervalId = setInterval(() => {
-      fetchLatestActivities();
-    }, 30000); // Poll every 30 seconds
-    
-    return () => clearInterval(intervalId);
-  }, [isLoading]);
+  // Show circulation changes as they happen
+  useLiveEvents((event) => {
+    if (isLoading || (activeFilter && activeFilter !== 'ALL' && event.type !== activeFilter)) return;
 
-  // Load more data when scrolling to the bottom
-  useEffect(() => {
-    const observer = new IntersectionObserver(
-      (entries) => {
-        const [entry] = entries;
-        if (entry.isIntersecting && hasMore && !isLoadingMore) {
-          loadMoreActivities();
-        }
-      },
-      { threshold: 1.0 }
-    );
+    latestTimestampRef.current = event.timestamp;
+    setActivities(prev => [event, ...prev.filter(activity => activity.id !== event.id)]);
+  });
 
-    if (loadMoreRef.current) {
-      observer.observe(loadMoreRef.current);
+  const buildActivitiesUrl = useCallback((params: Record<string, string>) => {
+    const query = new URLSearchParams(params);
+    if (activeFilter && activeFilter !== 'ALL') {
+      query.set('type', activeFilter);
     }
+    return `/api/dashboard/activities?${query}`;
+  }, [activeFilter]);
 
-    return () => {
-      if (loadMoreRef.current) {
-        observer.unobserve(loadMoreRef.current);
-      }
-    };
-  }, [hasMore, isLoadingMore, activities]);
-
-  // Filter activities when activeFilter changes
-  useEffect(() => {
-    if (!isLoading && activeFilter) {
-      setActivities(prev => 
-        prev.filter(activity => activeFilter === 'ALL' || activity.type === activeFilter)
-      );
-    }
-  }, [activeFilter, isLoading]);
-
-  const fetchActivities = async () => {
+  const fetchActivities = useCallback(async () => {
     try {
-      // In a real implementation, this would be an API call
-      // const response = await fetch(`/api/dashboard/activities?page=${page}&filter=${activeFilter || ''}`);
-      // const data = await response.json();
-      
-      // Mock data for demonstration
-      const mockData: ActivityItem[] = [
-        {
-          id: '1',
-          type: 'CHECKOUT',
-          timestamp: new Date(Date.now() - 25 * 60000).toISOString(), // 25 minutes ago
-          title: 'Book Checkout',
-          description: 'The Great Gatsby was checked out by John Smith',
-          user: 'Librarian Alice',
-          userId: 'user1',
-          bookId: 'book1',
-          memberId: 'member1'
-        },
-        {
-          id: '2',
-          type: 'RETURN',
-          timestamp: new Date(Date.now() - 60 * 60000).toISOString(), // 1 hour ago
-          title: 'Book Return',
-          description: 'To Kill a Mockingbird was returned by Sarah Johnson',
-          user: 'Librarian Bob',
-          userId: 'user2',
-          bookId: 'book2',
-          memberId: 'member2'
-        },
-        {
-          id: '3',
-          type: 'OVERDUE',
-          timestamp: new Date(Date.now() - 120 * 60000).toISOString(), // 2 hours ago
-          title: 'Overdue Notice',
-          description: '1984 is 3 days overdue from Michael Brown',
-          bookId: 'book3',
-          memberId: 'member3'
-        },
-        {
-          id: '4',
-          type: 'MEMBER_SIGNUP',
-          timestamp: new Date(Date.now() - 180 * 60000).toISOString(), // 3 hours ago
-          title: 'New Member',
-          description: 'Emily Davis joined the library',
-          user: 'Admin Charlie',
-          userId: 'user3',
-          memberId: 'member4'
-        },
-        {
-          id: '5',
-          type: 'BOOK_ADDED',
-          timestamp: new Date(Date.now() - 240 * 60000).toISOString(), // 4 hours ago
-          title: 'New Book Added',
-          description: 'The Catcher in the Rye was added to the collection',
-          user: 'Librarian Alice',
-          userId: 'user1',
-          bookId: 'book4'
-        }
-      ];
+      const response = await fetch(buildActivitiesUrl({ page: '1' }));
+      if (!response.ok) throw new Error('Failed to fetch activities');
+      const data: ActivityPage = await response.json();
       
-      setActivities(activeFilter ? mockData.filter(activity => 
-        activeFilter === 'ALL' || activity.type === activeFilter
-      ) : mockData);
-      setHasMore(page < 3); // For demo, limit to 3 pages
+      latestTimestampRef.current = data.activities[0]?.timestamp ?? new Date().toISOString();
+      setActivities(data.activities);
+      setPage(1);
+      setHasMore(data.hasMore);
       setIsLoading(false);
     } catch (error) {
       console.error('Error fetching activities:', error);
       setIsLoading(false);
     }
-  };
+  }, [buildActivitiesUrl]);
+
+  useEffect(() => {
+    if (isLoading) {
+      fetchActivities();
+    }
+  }, [isLoading, fetchActivities]);
 
   const fetchLatestActivities = async () => {
+    if (!latestTimestampRef.current) return;
+
     try {
-      // In a real implementation, this would be an API call with a timestamp filter
-      // const response = await fetch(`/api/dashboard/activities/latest?since=${activities[0]?.timestamp || ''}`);
-      // const data = await response.json();
+      const response = await fetch(buildActivitiesUrl({ since: latestTimestampRef.current, limit: '50' }));
+      if (!response.ok) throw new Error('Failed to fetch latest activities');
+      const data: ActivityPage = await response.json();
       
-      // Mock data for demonstration - 50% chance of new activity
-      if (Math.random() > 0.5) {
-        const newActivityTypes: ActivityItem['type'][] = ['CHECKOUT', 'RETURN', 'OVERDUE', 'MEMBER_SIGNUP', 'BOOK_ADDED'];
-        const randomType = newActivityTypes[Math.floor(Math.random() * newActivityTypes.length)];
-        const titles: Record<ActivityItem['type'], string> = {
-          'CHECKOUT': 'Book Checkout',
-          'RETURN': 'Book Return',
-          'OVERDUE': 'Overdue Notice',
-          'MEMBER_SIGNUP': 'New Member',
-          'BOOK_ADDED': 'New Book Added'
-        };
-        
-        const descriptions: Record<ActivityItem['type'], string> = {
-          'CHECKOUT': 'A new book was checked out',
-          'RETURN': 'A book was returned',
-          'OVERDUE': 'A book is now overdue',
-          'MEMBER_SIGNUP': 'A new member signed up',
-          'BOOK_ADDED': 'A new book was added to the collection'
-        };
-        
-        const newActivity: ActivityItem = {
-          id: `new_${Date.now()}`,
-          type: randomType,
-          timestamp: new Date().toISOString(),
-          title: titles[randomType],
-          description: descriptions[randomType],
-          user: 'System'
-        };
-        
-        if (!activeFilter || activeFilter === 'ALL' || activeFilter === randomType) {
-          setActivities(prev => [newActivity, ...prev]);
-        }
+      if (data.activities.length > 0) {
+        latestTimestampRef.current = data.activities[0].timestamp;
+        setActivities(prev => {
+          const seen = new Set(prev.map(activity => activity.id));
+          return [...data.activities.filter(activity => !seen.has(activity.id)), ...prev];
+        });
       }
     } catch (error) {
       console.error('Error fetching latest activities:', error);
     }
   };
 
-  const loadMoreActivities = async () => {
+  const loadMoreActivities = useCallback(async () => {
     if (!hasMore || isLoadingMore) return;
     
     setIsLoadingMore(true);
     try {
-      // In a real implementation, this would be an API call
-      // const response = await fetch(`/api/dashboard/activities?page=${page + 1}&filter=${activeFilter || ''}`);
-      // const data = await response.json();
-      
-      // Mock data for demonstration
       const nextPage = page + 1;
-      const mockOlderData: ActivityItem[] = [
-        {
-          id: `${nextPage}_1`,
-          type: 'CHECKOUT',
-          timestamp: new Date(Date.now() - (300 + nextPage * 60) * 60000).toISOString(), 
-          title: 'Book Checkout',
-          description: 'The Lord of the Rings was checked out by Alex Wilson',
-          user: 'Librarian David',
-          userId: 'user4',
-          bookId: 'book5',
-          memberId: 'member5'
-        },
-        {
-          id: `${nextPage}_2`,
-          type: 'MEMBER_SIGNUP',
-          timestamp: new Date(Date.now() - (320 + nextPage * 60) * 60000).toISOString(),
-          title: 'New Member',
-          description: 'Robert Johnson joined the library',
-          user: 'Admin Eva',
-          userId: 'user5',
-          memberId: 'member6'
-        },
-        {
-          id: `${nextPage}_3`,
-          type: 'BOOK_ADDED',
-          timestamp: new Date(Date.now() - (340 + nextPage * 60) * 60000).toISOString(),
-          title: 'New Book Added',
-          description: 'Harry Potter was added to the collection',
-          user: 'Librarian Frank',
-          userId: 'user6',
-          bookId: 'book6'
-        }
-      ];
-      
-      const filteredData = activeFilter && activeFilter !== 'ALL' 
-        ? mockOlderData.filter(activity => activity.type === activeFilter)
-        : mockOlderData;
+      const response = await fetch(buildActivitiesUrl({ page: String(nextPage) }));
+      if (!response.ok) throw new Error('Failed to load more activities');
+      const data: ActivityPage = await response.json();
       
-      setActivities(prev => [...prev, ...filteredData]);
+      setActivities(prev => {
+        const seen = new Set(prev.map(activity => activity.id));
+        return [...prev, ...data.activities.filter(activity => !seen.has(activity.id))];
+      });
       setPage(nextPage);
-      setHasMore(nextPage < 3); // For demo, limit to 3 pages
+      setHasMore(data.hasMore);
     } catch (error) {
       console.error('Error loading more activities:', error);
     } finally {
       setIsLoadingMore(false);
     }
-  };
+  }, [hasMore, isLoadingMore, page, buildActivitiesUrl]);
+
+  // Load more data when scrolling to the bottom
+  useEffect(() => {
+    const observer = new IntersectionObserver(
+      (entries) => {
+        const [entry] = entries;
+        if (entry.isIntersecting && hasMore && !isLoadingMore) {
+          loadMoreActivities();
+        }
+      },
+      { threshold: 1.0 }
+    );
+
+    const target = loadMoreRef.current;
+    if (target) {
+      observer.observe(target);
+    }
+
+    return () => {
+      if (target) {
+        observer.unobserve(target);
+      }
+    };
+  }, [hasMore, isLoadingMore, activities, loadMoreActivities]);
 
   const handleFilterChange = (filter: string | null) => {
     setActiveFilter(filter);
@@ -266,13 +147,17 @@ export function ActivityFeedWidget({ widget }: ActivityFeedWidgetProps) {
     setHasMore(true);
   };
 
-  const getActivityIcon = (type: ActivityItem['type']) => {
+  const getActivityIcon = (type: FeedItem['type']) => {
     switch (type) {
       case 'CHECKOUT':
       case 'RETURN':
       case 'OVERDUE':
         return <BookOpen className="h-4 w-4" />;
+      case 'RESERVATION':
+      case 'HOLD_READY':
+        return <Bookmark className="h-4 w-4" />;
       case 'MEMBER_SIGNUP':
+      case 'MEMBER_STATUS_CHANGED':
         return <User className="h-4 w-4" />;
       case 'BOOK_ADDED':
         return <BookOpen className="h-4 w-4" />;
@@ -281,7 +166,7 @@ export function ActivityFeedWidget({ widget }: ActivityFeedWidgetProps) {
     }
   };
 
-  const getActivityBadge = (type: ActivityItem['type']) => {
+  const getActivityBadge = (type: FeedItem['type']) => {
     switch (type) {
       case 'CHECKOUT':
         return <Badge className="bg-blue-500">Checkout</Badge>;
@@ -289,6 +174,12 @@ export function ActivityFeedWidget({ widget }: ActivityFeedWidgetProps) {
         return <Badge className="bg-green-500">Return</Badge>;
       case 'OVERDUE':
         return <Badge variant="destructive">Overdue</Badge>;
+      case 'RESERVATION':
+        return <Badge className="bg-teal-500">Reservation</Badge>;
+      case 'HOLD_READY':
+        return <Badge className="bg-emerald-500">Ready</Badge>;
+      case 'MEMBER_STATUS_CHANGED':
+        return <Badge className="bg-slate-500">Member Status</Badge>;
       case 'MEMBER_SIGNUP':
         return <Badge className="bg-purple-500">New Member</Badge>;
       case 'BOOK_ADDED':
@@ -355,6 +246,9 @@ export function ActivityFeedWidget({ widget }: ActivityFeedWidgetProps) {
               <DropdownMenuItem onClick={() => handleFilterChange('OVERDUE')}>
                 Overdue
               </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleFilterChange('RESERVATION')}>
+                Reservations
+              </DropdownMenuItem>
               <DropdownMenuItem onClick={() => handleFilterChange('MEMBER_SIGNUP')}>
                 New Members
               </DropdownMenuItem>
@@ -380,6 +274,9 @@ export function ActivityFeedWidget({ widget }: ActivityFeedWidgetProps) {
                   ${activity.type === 'CHECKOUT' ? 'bg-blue-100 text-blue-600' : ''}
                   ${activity.type === 'RETURN' ? 'bg-green-100 text-green-600' : ''}
                   ${activity.type === 'OVERDUE' ? 'bg-red-100 text-red-600' : ''}
+                  ${activity.type === 'RESERVATION' ? 'bg-teal-100 text-teal-600' : ''}
+                  ${activity.type === 'HOLD_READY' ? 'bg-emerald-100 text-emerald-600' : ''}
+                  ${activity.type === 'MEMBER_STATUS_CHANGED' ? 'bg-slate-100 text-slate-600' : ''}
                   ${activity.type === 'MEMBER_SIGNUP' ? 'bg-purple-100 text-purple-600' : ''}
                   ${activity.type === 'BOOK_ADDED' ? 'bg-amber-100 text-amber-600' : ''}
                 `}>
@@ -392,7 +289,6 @@ export function ActivityFeedWidget({ widget }: ActivityFeedWidgetProps) {
                   </div>
                   <p className="text-xs text-gray-600">{activity.description}</p>
                   <div className="flex items-center text-xs text-gray-500">
-                    <span>{activity.user && `${activity.user} · `}</span>
                     <span>{formatTimestamp(activity.timestamp)}</span>
                   </div>
                 </div>
@@ -3,6 +3,7 @@
 import { useEffect, useState } from 'react';
 import { ArrowUp, ArrowDown, BookOpen } from 'lucide-react';
 import { Widget } from '../dashboard-layout';
+import type { PeriodComparison } from '@/types/dashboard';
 
 interface BooksCheckedOutWidgetProps {
   widget: Widget;
@@ -14,43 +15,34 @@ export function BooksCheckedOutWidget({ widget }: BooksCheckedOutWidgetProps) {
   const [percentChange, setPercentChange] = useState(0);
   const [changeDirection, setChangeDirection] = useState<'up' | 'down' | 'none'>('none');
 
-  // Mock data for demonstration purposes
   useEffect(() => {
-    if (isLoading) {
-      const fetchData = async () => {
-        try {
-          // In a real implementation, this would be an API call
-          // const response = await fetch('/api/dashboard/books-checked-out');
-          // const data = await response.json();
-          
-          // Mock data for demonstration
-          const mockData = {
-            today: Math.floor(Math.random() * 20),
-            yesterday: Math.floor(Math.random() * 15),
-          };
-          
-          const change = mockData.today - mockData.yesterday;
-          const percent = mockData.yesterday === 0 
-            ? 100 
-            : Math.round((change / mockData.yesterday) * 100);
-          
-          setCheckedOutToday(mockData.today);
-          setPercentChange(Math.abs(percent));
-          setChangeDirection(percent > 0 ? 'up' : percent < 0 ? 'down' : 'none');
-          setIsLoading(false);
-        } catch (error) {
-          console.error('Error fetching checked out books data:', error);
-          setIsLoading(false);
-        }
-      };
-      
-      fetchData();
-      
-      // Refresh data every minute
-      const intervalId = setInterval(fetchData, 60000);
-      return () => clearInterval(intervalId);
-    }
-  }, [isLoading]);
+    const fetchData = async () => {
+      try {
+        const response = await fetch('/api/dashboard/books-checked-out?timeRange=day');
+        if (!response.ok) throw new Error('Failed to fetch checked out books data');
+        const data: PeriodComparison = await response.json();
+        
+        const change = data.current - data.previous;
+        const percent = data.previous === 0 
+          ? (data.current > 0 ? 100 : 0)
+          : Math.round((change / data.previous) * 100);
+        
+        setCheckedOutToday(data.current);
+        setPercentChange(Math.abs(percent));
+        setChangeDirection(percent > 0 ? 'up' : percent < 0 ? 'down' : 'none');
+        setIsLoading(false);
+      } catch (error) {
+        console.error('Error fetching checked out books data:', error);
+        setIsLoading(false);
+      }
+    };
+    
+    fetchData();
+    
+    // Refresh data every minute
+    const intervalId = setInterval(fetchData, 60000);
+    return () => clearInterval(intervalId);
+  }, []);
 
   return (
     <div>
@@ -1,22 +1,13 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { AlertCircle, PhoneCall, Mail, Clock } from 'lucide-react';
 import { Widget } from '../dashboard-layout';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
-
-interface OverdueBook {
-  id: string;
-  title: string;
-  memberName: string;
-  memberId: string;
-  dueDate: string;
-  daysOverdue: number;
-  memberEmail?: string;
-  memberPhone?: string;
-}
+import { useLiveEvents } from '@/hooks/use-live-events';
+import type { OverdueLoan, OverdueLoans } from '@/types/dashboard';
 
 interface OverdueBooksWidgetProps {
   widget: Widget;
@@ -24,64 +15,34 @@ interface OverdueBooksWidgetProps {
 
 export function OverdueBooksWidget({ widget }: OverdueBooksWidgetProps) {
   const [isLoading, setIsLoading] = useState(true);
-  const [overdueBooks, setOverdueBooks] = useState<OverdueBook[]>([]);
+  const [overdueBooks, setOverdueBooks] = useState<OverdueLoan[]>([]);
+  const [totalOverdue, setTotalOverdue] = useState(0);
 
-  // Mock data for demonstration purposes
-  useEffect(() => {
-    if (isLoading) {
-      const fetchData = async () => {
-        try {
-          // In a real implementation, this would be an API call
-          // const response = await fetch('/api/dashboard/overdue-books');
-          // const data = await response.json();
-          
-          // Mock data for demonstration
-          const mockData: OverdueBook[] = [
-            {
-              id: '1',
-              title: 'The Great Gatsby',
-              memberName: 'John Smith',
-              memberId: 'MEM001',
-              dueDate: '2025-05-10',
-              daysOverdue: 6,
-              memberEmail: 'john.smith@example.com',
-              memberPhone: '555-123-4567'
-            },
-            {
-              id: '2',
-              title: 'To Kill a Mockingbird',
-              memberName: 'Sarah Johnson',
-              memberId: 'MEM042',
-              dueDate: '2025-05-12',
-              daysOverdue: 4,
-              memberEmail: 'sjohnson@example.com'
-            },
-            {
-              id: '3',
-              title: '1984',
-              memberName: 'Michael Brown',
-              memberId: 'MEM078',
-              dueDate: '2025-05-14',
-              daysOverdue: 2,
-              memberPhone: '555-987-6543'
-            }
-          ];
-          
-          setOverdueBooks(mockData);
-          setIsLoading(false);
-        } catch (error) {
-          console.error('Error fetching overdue books data:', error);
-          setIsLoading(false);
-        }
-      };
-      
-      fetchData();
+  const fetchData = useCallback(async () => {
+    try {
+      const response = await fetch('/api/dashboard/overdue-books');
+      if (!response.ok) throw new Error('Failed to fetch overdue books data');
+      const data: OverdueLoans = await response.json();
       
-      // Refresh data every 10 minutes
-      const intervalId = setInterval(fetchData, 600000);
-      return () => clearInterval(intervalId);
+      setOverdueBooks(data.loans);
+      setTotalOverdue(data.total);
+      setIsLoading(false);
+    } catch (error) {
+      console.error('Error fetching overdue books data:', error);
+      setIsLoading(false);
     }
-  }, [isLoading]);
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+    
+    // Refresh data every 10 minutes, since loans become overdue without any event
+    const intervalId = setInterval(fetchData, 600000);
+    return () => clearInterval(intervalId);
+  }, [fetchData]);
+
+  // A returned loan drops off the list straight away
+  useLiveEvents(fetchData, ['RETURN']);
 
   const handleSendEmail = async (memberId: string, bookId: string) => {
     // In a real implementation, this would send an email notification
@@ -105,7 +66,7 @@ export function OverdueBooksWidget({ widget }: OverdueBooksWidgetProps) {
       <div className="flex items-center justify-between mb-4">
         <div className="flex items-center text-amber-600">
           <AlertCircle className="h-5 w-5 mr-2" />
-          <span className="font-medium">{overdueBooks.length} Overdue Books</span>
+          <span className="font-medium">{totalOverdue} Overdue Books</span>
         </div>
         {overdueBooks.length > 0 && (
           <Button size="sm" variant="outline" asChild>
@@ -3,13 +3,7 @@
 import { useEffect, useState } from 'react';
 import { TrendingUp, BookOpen } from 'lucide-react';
 import { Widget } from '../dashboard-layout';
-
-interface PopularBook {
-  id: string;
-  title: string;
-  author: string;
-  checkoutCount: number;
-}
+import type { PopularBook, PopularBooks } from '@/types/dashboard';
 
 interface PopularBooksWidgetProps {
   widget: Widget;
@@ -20,64 +14,28 @@ export function PopularBooksWidget({ widget }: PopularBooksWidgetProps) {
   const [popularBooks, setPopularBooks] = useState<PopularBook[]>([]);
   const [timeRange, setTimeRange] = useState<'week' | 'month' | 'year'>('month');
 
-  // Mock data for demonstration purposes
   useEffect(() => {
-    if (isLoading) {
-      const fetchData = async () => {
-        try {
-          // In a real implementation, this would be an API call
-          // const response = await fetch(`/api/dashboard/popular-books?timeRange=${timeRange}`);
-          // const data = await response.json();
-          
-          // Mock data for demonstration
-          const mockData: PopularBook[] = [
-            {
-              id: '1',
-              title: 'The Great Gatsby',
-              author: 'F. Scott Fitzgerald',
-              checkoutCount: 24
-            },
-            {
-              id: '2',
-              title: 'To Kill a Mockingbird',
-              author: 'Harper Lee',
-              checkoutCount: 19
-            },
-            {
-              id: '3',
-              title: '1984',
-              author: 'George Orwell',
-              checkoutCount: 17
-            },
-            {
-              id: '4',
-              title: 'The Hobbit',
-              author: 'J.R.R. Tolkien',
-              checkoutCount: 15
-            },
-            {
-              id: '5',
-              title: 'Pride and Prejudice',
-              author: 'Jane Austen',
-              checkoutCount: 12
-            }
-          ];
-          
-          setPopularBooks(mockData);
-          setIsLoading(false);
-        } catch (error) {
-          console.error('Error fetching popular books data:', error);
-          setIsLoading(false);
-        }
-      };
-      
-      fetchData();
-      
-      // Refresh data every 5 minutes
-      const intervalId = setInterval(fetchData, 300000);
-      return () => clearInterval(intervalId);
-    }
-  }, [isLoading, timeRange]);
+    const fetchData = async () => {
+      try {
+        const response = await fetch(`/api/dashboard/popular-books?timeRange=${timeRange}`);
+        if (!response.ok) throw new Error('Failed to fetch popular books data');
+        const data: PopularBooks = await response.json();
+        
+        setPopularBooks(data.books);
+        setIsLoading(false);
+      } catch (error) {
+        console.error('Error fetching popular books data:', error);
+        setIsLoading(false);
+      }
+    };
+    
+    setIsLoading(true);
+    fetchData();
+    
+    // Refresh data every 5 minutes
+    const intervalId = setInterval(fetchData, 300000);
+    return () => clearInterval(intervalId);
+  }, [timeRange]);
 
   // Find the maximum checkout count for scaling the bars
   const maxCheckoutCount = popularBooks.length > 0
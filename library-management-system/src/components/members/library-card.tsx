@@ -0,0 +1,79 @@
+'use client';
+
+import React from 'react';
+import QRCode from 'react-qr-code';
+import { format } from 'date-fns';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Printer } from 'lucide-react';
+
+interface LibraryCardProps {
+  name: string | null;
+  membershipNumber: string;
+  membershipExpiresAt: string | null;
+  membershipStatus: string;
+}
+
+/**
+ * Printable library card. The QR code holds the membership number, so scanning
+ * it at the desk looks the member up in the checkout wizard.
+ */
+const LibraryCard: React.FC<LibraryCardProps> = ({
+  name,
+  membershipNumber,
+  membershipExpiresAt,
+  membershipStatus,
+}) => {
+  const handlePrint = () => {
+    window.print();
+  };
+
+  return (
+    <div className="print:m-0">
+      <div className="flex justify-between items-center mb-4 print:hidden">
+        <h2 className="text-lg font-semibold">Library Card</h2>
+        <Button variant="outline" size="sm" onClick={handlePrint}>
+          <Printer className="h-4 w-4 mr-2" />
+          Print
+        </Button>
+      </div>
+
+      {membershipStatus === 'EXPIRED' && (
+        <div className="bg-red-50 text-red-600 p-4 rounded-lg mb-4 text-sm print:hidden">
+          This card has expired. It needs to be renewed at the library before borrowing again.
+        </div>
+      )}
+
+      {/* Sized like a credit card (85.6 x 54 mm) so it fits a standard card holder */}
+      <Card className="w-[85.6mm] h-[54mm] print:shadow-none print:border print:border-gray-400">
+        <CardContent className="p-4 h-full flex flex-col justify-between">
+          <div className="flex justify-between items-start">
+            <div>
+              <p className="text-xs uppercase tracking-wide text-gray-500">Library Card</p>
+              <p className="text-lg font-semibold leading-tight">{name || 'Library Member'}</p>
+            </div>
+            {membershipStatus !== 'ACTIVE' && (
+              <Badge variant="outline" className="bg-red-100 text-red-800 hover:bg-red-100 print:hidden">
+                {membershipStatus.replace('_', ' ')}
+              </Badge>
+            )}
+          </div>
+
+          <div className="flex justify-between items-end">
+            <div>
+              <p className="font-mono text-base tracking-widest">{membershipNumber}</p>
+              <p className="text-xs text-gray-500">
+                Valid until{' '}
+                {membershipExpiresAt ? format(new Date(membershipExpiresAt), 'PP') : 'further notice'}
+              </p>
+            </div>
+            <QRCode value={membershipNumber} size={72} />
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default LibraryCard;
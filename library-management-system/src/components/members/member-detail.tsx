@@ -1,3 +1,5 @@
+'use client';
+
 import React, { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { format } from 'date-fns';
@@ -31,8 +33,18 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { Skeleton } from '@/components/ui/skeleton';
-import { UserStatus, TransactionStatus, ReservationStatus } from '@prisma/client';
-import { ArrowLeftIcon, PencilIcon, LockClosedIcon } from '@heroicons/react/24/outline';
+import { useToast } from '@/components/ui/use-toast';
+import { AuditEntityType, UserStatus, TransactionStatus, ReservationStatus } from '@prisma/client';
+import EntityHistory from '@/components/audit/entity-history';
+import type { MembershipStatus } from '@/lib/members/library-card';
+import {
+  ArrowLeftIcon,
+  PencilIcon,
+  LockClosedIcon,
+  LockOpenIcon,
+  ArrowPathIcon,
+  IdentificationIcon,
+} from '@heroicons/react/24/outline';
 
 interface Transaction {
   id: string;
@@ -61,17 +73,22 @@ interface Reservation {
   updatedAt: string;
 }
 
+type FineStatus = 'UNPAID' | 'PARTIALLY_PAID' | 'PAID' | 'WAIVED';
+
 interface Fine {
   id: string;
+  type: 'OVERDUE' | 'DAMAGED' | 'LOST' | 'OTHER';
   amount: number;
-  status: 'PAID' | 'UNPAID';
+  amountPaid: number;
+  amountWaived: number;
+  status: FineStatus;
   createdAt: string;
-  transactionId: string;
+  transactionId: string | null;
   transaction: {
     book: {
       title: string;
     }
-  };
+  } | null;
 }
 
 interface Member {
@@ -81,12 +98,21 @@ interface Member {
   phoneNumber: string | null;
   address: string | null;
   status: UserStatus;
+  // Library card; membershipStatus is EXPIRED once the card has lapsed
+  membershipNumber: string | null;
+  membershipExpiresAt: string | null;
+  membershipStatus: MembershipStatus;
   createdAt: string;
   updatedAt: string;
   profileImage: string | null;
   transactions: Transaction[];
   reservations: Reservation[];
   fines: Fine[];
+  // Sign-in lockout state; lockedUntil is null when the account can sign in
+  lockout: {
+    failedAttempts: number;
+    lockedUntil: string | null;
+  };
 }
 
 interface MemberDetailProps {
@@ -140,25 +166,33 @@ const ReservationStatusBadge = ({ status }: { status: ReservationStatus }) => {
   );
 };
 
-const FineStatusBadge = ({ status }: { status: 'PAID' | 'UNPAID' }) => {
+const FineStatusBadge = ({ status }: { status: FineStatus }) => {
   const statusStyles = {
     PAID: 'bg-green-100 text-green-800 hover:bg-green-100',
     UNPAID: 'bg-red-100 text-red-800 hover:bg-red-100',
+    PARTIALLY_PAID: 'bg-yellow-100 text-yellow-800 hover:bg-yellow-100',
+    WAIVED: 'bg-gray-100 text-gray-800 hover:bg-gray-100',
   };
 
   return (
     <Badge className={statusStyles[status]} variant="outline">
-      {status}
+      {status.replace('_', ' ')}
     </Badge>
   );
 };
 
+const getOutstandingAmount = (fine: Fine) =>
+  Math.max(0, fine.amount - fine.amountPaid - fine.amountWaived);
+
 const MemberDetail: React.FC<MemberDetailProps> = ({ 
   member, 
   isLoading = false 
 }) => {
   const router = useRouter();
+  const { toast } = useToast();
   const [activeTab, setActiveTab] = useState('profile');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [isRenewing, setIsRenewing] = useState(false);
 
   const getInitials = (name: string) => {
     return name
@@ -181,10 +215,74 @@ const MemberDetail: React.FC<MemberDetailProps> = ({
     alert('Password reset functionality would be triggered here');
   };
 
+  const unlockAccount = async () => {
+    setIsUnlocking(true);
+
+    try {
+      const response = await fetch(`/api/members/${member?.id}/unlock`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to unlock account');
+      }
+
+      toast({
+        title: 'Account unlocked',
+        description: `${member?.name} can sign in again`,
+        type: 'success',
+      });
+      router.refresh();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to unlock account',
+        type: 'error',
+      });
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const renewCard = async () => {
+    setIsRenewing(true);
+
+    try {
+      const response = await fetch(`/api/members/${member?.id}/card`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to renew library card');
+      }
+
+      toast({
+        title: data.message,
+        description: `Valid until ${formatDate(data.membershipExpiresAt)}`,
+        type: 'success',
+      });
+      router.refresh();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to renew library card',
+        type: 'error',
+      });
+    } finally {
+      setIsRenewing(false);
+    }
+  };
+
+  const printCard = () => {
+    router.push(`/admin/members/${member?.id}/card`);
+  };
+
   const formatDate = (dateString: string) => {
     return format(new Date(dateString), 'PPP');
   };
 
+  const formatDateTime = (dateString: string) => {
+    return format(new Date(dateString), 'PPp');
+  };
+
   if (isLoading) {
     return <MemberDetailSkeleton />;
   }
@@ -210,9 +308,11 @@ const MemberDetail: React.FC<MemberDetailProps> = ({
     r => r.status === 'PENDING' || r.status === 'READY_FOR_PICKUP'
   );
 
-  const unpaidFines = member.fines.filter(f => f.status === 'UNPAID');
+  const openFines = member.fines.filter(
+    f => f.status === 'UNPAID' || f.status === 'PARTIALLY_PAID'
+  );
   
-  const totalUnpaidAmount = unpaidFines.reduce((total, fine) => total + fine.amount, 0);
+  const outstandingBalance = openFines.reduce((total, fine) => total + getOutstandingAmount(fine), 0);
 
   return (
     <div className="space-y-6">
@@ -244,6 +344,16 @@ const MemberDetail: React.FC<MemberDetailProps> = ({
             <h3 className="text-lg font-semibold">{member.name}</h3>
             <p className="text-sm text-muted-foreground mb-2">{member.email}</p>
             <MemberStatusBadge status={member.status} />
+            {member.lockout.lockedUntil && (
+              <Badge className="mt-2 bg-red-100 text-red-800 hover:bg-red-100" variant="outline">
+                LOCKED OUT
+              </Badge>
+            )}
+            {member.membershipStatus === 'EXPIRED' && (
+              <Badge className="mt-2 bg-red-100 text-red-800 hover:bg-red-100" variant="outline">
+                CARD EXPIRED
+              </Badge>
+            )}
             
             <div className="w-full mt-6 space-y-4">
               <div>
@@ -254,10 +364,33 @@ const MemberDetail: React.FC<MemberDetailProps> = ({
                 <h4 className="text-sm font-medium mb-1">Address</h4>
                 <p className="text-sm">{member.address || 'Not provided'}</p>
               </div>
+              <div>
+                <h4 className="text-sm font-medium mb-1">Library Card</h4>
+                <p className="text-sm font-mono">{member.membershipNumber || 'Not issued'}</p>
+                {member.membershipExpiresAt && (
+                  <p className={`text-sm ${member.membershipStatus === 'EXPIRED' ? 'text-red-600' : ''}`}>
+                    {member.membershipStatus === 'EXPIRED' ? 'Expired' : 'Expires'}{' '}
+                    {formatDate(member.membershipExpiresAt)}
+                  </p>
+                )}
+              </div>
               <div>
                 <h4 className="text-sm font-medium mb-1">Member Since</h4>
                 <p className="text-sm">{formatDate(member.createdAt)}</p>
               </div>
+              {member.lockout.failedAttempts > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium mb-1">Failed Sign-ins</h4>
+                  <p className="text-sm">
+                    {member.lockout.failedAttempts} since last successful sign-in
+                    {member.lockout.lockedUntil && (
+                      <span className="block text-red-600">
+                        Locked until {formatDateTime(member.lockout.lockedUntil)}
+                      </span>
+                    )}
+                  </p>
+                </div>
+              )}
             </div>
           </CardContent>
           <CardFooter className="flex flex-col space-y-2">
@@ -277,17 +410,48 @@ const MemberDetail: React.FC<MemberDetailProps> = ({
               <LockClosedIcon className="h-4 w-4 mr-2" />
               Reset Password
             </Button>
+            <Button 
+              variant="outline" 
+              className="w-full" 
+              onClick={renewCard}
+              disabled={isRenewing}
+            >
+              <ArrowPathIcon className="h-4 w-4 mr-2" />
+              {member.membershipNumber ? 'Renew Card' : 'Issue Card'}
+            </Button>
+            {member.membershipNumber && (
+              <Button 
+                variant="outline" 
+                className="w-full" 
+                onClick={printCard}
+              >
+                <IdentificationIcon className="h-4 w-4 mr-2" />
+                Print Card
+              </Button>
+            )}
+            {member.lockout.failedAttempts > 0 && (
+              <Button 
+                variant="outline" 
+                className="w-full" 
+                onClick={unlockAccount}
+                disabled={isUnlocking}
+              >
+                <LockOpenIcon className="h-4 w-4 mr-2" />
+                {member.lockout.lockedUntil ? 'Unlock Account' : 'Reset Failed Sign-ins'}
+              </Button>
+            )}
           </CardFooter>
         </Card>
 
         <Card className="md:col-span-3">
+          <Tabs value={activeTab} onValueChange={setActiveTab}>
           <CardHeader>
-            <Tabs value={activeTab} onValueChange={setActiveTab}>
-              <TabsList className="grid grid-cols-4 w-full md:w-auto">
+              <TabsList className="grid grid-cols-5 w-full md:w-auto">
                 <TabsTrigger value="profile">Overview</TabsTrigger>
                 <TabsTrigger value="borrows">Borrows</TabsTrigger>
                 <TabsTrigger value="reservations">Reservations</TabsTrigger>
                 <TabsTrigger value="fines">Fines</TabsTrigger>
+                <TabsTrigger value="history">History</TabsTrigger>
               </TabsList>
             </CardHeader>
           
@@ -314,10 +478,13 @@ const MemberDetail: React.FC<MemberDetailProps> = ({
                 
                 <Card>
                   <CardHeader className="pb-2">
-                    <CardTitle className="text-sm font-medium">Unpaid Fines</CardTitle>
+                    <CardTitle className="text-sm font-medium">Outstanding Balance</CardTitle>
                   </CardHeader>
                   <CardContent>
-                    <p className="text-2xl font-bold">${totalUnpaidAmount.toFixed(2)}</p>
+                    <p className="text-2xl font-bold">${outstandingBalance.toFixed(2)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {openFines.length} open {openFines.length === 1 ? 'fine' : 'fines'}
+                    </p>
                   </CardContent>
                 </Card>
               </div>
@@ -477,7 +644,7 @@ const MemberDetail: React.FC<MemberDetailProps> = ({
                 <CardHeader>
                   <CardTitle>Fine History</CardTitle>
                   <CardDescription>
-                    All fines associated with this member
+                    All fines associated with this member. Outstanding balance: ${outstandingBalance.toFixed(2)}
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
@@ -485,7 +652,10 @@ const MemberDetail: React.FC<MemberDetailProps> = ({
                     <TableHeader>
                       <TableRow>
                         <TableHead>Book</TableHead>
+                        <TableHead>Type</TableHead>
                         <TableHead>Amount</TableHead>
+                        <TableHead>Paid / Waived</TableHead>
+                        <TableHead>Outstanding</TableHead>
                         <TableHead>Date Issued</TableHead>
                         <TableHead>Status</TableHead>
                       </TableRow>
@@ -493,7 +663,7 @@ const MemberDetail: React.FC<MemberDetailProps> = ({
                     <TableBody>
                       {member.fines.length === 0 ? (
                         <TableRow>
-                          <TableCell colSpan={4} className="text-center py-6 text-muted-foreground">
+                          <TableCell colSpan={7} className="text-center py-6 text-muted-foreground">
                             No fine history found
                           </TableCell>
                         </TableRow>
@@ -501,11 +671,20 @@ const MemberDetail: React.FC<MemberDetailProps> = ({
                         member.fines.map((fine) => (
                           <TableRow key={fine.id}>
                             <TableCell className="font-medium">
-                              {fine.transaction.book.title}
+                              {fine.transaction?.book.title || '—'}
+                            </TableCell>
+                            <TableCell>
+                              {fine.type}
                             </TableCell>
                             <TableCell>
                               ${fine.amount.toFixed(2)}
                             </TableCell>
+                            <TableCell>
+                              ${fine.amountPaid.toFixed(2)} / ${fine.amountWaived.toFixed(2)}
+                            </TableCell>
+                            <TableCell>
+                              ${getOutstandingAmount(fine).toFixed(2)}
+                            </TableCell>
                             <TableCell>
                               {formatDate(fine.createdAt)}
                             </TableCell>
@@ -520,7 +699,12 @@ const MemberDetail: React.FC<MemberDetailProps> = ({
                 </CardContent>
               </Card>
             </TabsContent>
+
+            <TabsContent value="history">
+              <EntityHistory entityType={AuditEntityType.MEMBER} entityId={member.id} />
+            </TabsContent>
           </CardContent>
+          </Tabs>
           </Card>
       </div>
     </div>
@@ -0,0 +1,120 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { Download, Loader2 } from 'lucide-react';
+
+interface MemberPrivacyProps {
+  memberId: string;
+  canExport: boolean;
+  canAnonymize: boolean;
+}
+
+/**
+ * Data access and erasure requests for a member
+ */
+const MemberPrivacy: React.FC<MemberPrivacyProps> = ({ memberId, canExport, canAnonymize }) => {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isAnonymizing, setIsAnonymizing] = useState(false);
+
+  const anonymize = async () => {
+    setIsAnonymizing(true);
+
+    try {
+      const response = await fetch(`/api/members/${memberId}/anonymize`, {
+        method: 'POST',
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to anonymize member');
+      }
+
+      toast({
+        title: 'Member anonymized',
+        description: data.message,
+        type: 'success',
+      });
+      setIsOpen(false);
+      router.refresh();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to anonymize member',
+        type: 'error',
+      });
+    } finally {
+      setIsAnonymizing(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Personal Data</CardTitle>
+        <CardDescription>
+          Answer a member&apos;s request for a copy of their data or to have it erased.
+          Erasing keeps their loans and fines, anonymized, for circulation statistics.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-wrap gap-2">
+        {canExport && (
+          <Button asChild variant="outline">
+            <a href={`/api/members/${memberId}/export`} download>
+              <Download className="mr-2 h-4 w-4" />
+              Export data
+            </a>
+          </Button>
+        )}
+
+        {canAnonymize && (
+          <AlertDialog open={isOpen} onOpenChange={setIsOpen}>
+            <AlertDialogTrigger asChild>
+              <Button variant="destructive">Erase personal data</Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Erase this member&apos;s personal data?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Their name and contact details are removed, the account is closed and their
+                  reservations are cancelled. This can&apos;t be undone. Items on loan must be
+                  returned and fines paid or waived first.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel disabled={isAnonymizing}>Cancel</AlertDialogCancel>
+                <Button variant="destructive" onClick={anonymize} disabled={isAnonymizing}>
+                  {isAnonymizing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Erase
+                </Button>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MemberPrivacy;
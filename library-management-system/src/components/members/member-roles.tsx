@@ -0,0 +1,191 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useToast } from '@/components/ui/use-toast';
+import { Loader2 } from 'lucide-react';
+
+interface MemberRolesProps {
+  memberId: string;
+}
+
+interface AvailableRole {
+  name: string;
+  description: string | null;
+  isSystem: boolean;
+}
+
+interface RoleAssignmentChange {
+  id: string;
+  added: string[];
+  removed: string[];
+  createdAt: string;
+  changedBy: { name: string | null; email: string } | null;
+}
+
+const MemberRoles: React.FC<MemberRolesProps> = ({ memberId }) => {
+  const { toast } = useToast();
+  const [primaryRole, setPrimaryRole] = useState<string | null>(null);
+  const [savedRoles, setSavedRoles] = useState<string[]>([]);
+  const [selectedRoles, setSelectedRoles] = useState<string[]>([]);
+  const [availableRoles, setAvailableRoles] = useState<AvailableRole[]>([]);
+  const [history, setHistory] = useState<RoleAssignmentChange[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchRoles = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/members/${memberId}/roles`);
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch member roles');
+      }
+
+      const data = await response.json();
+      setPrimaryRole(data.primaryRole);
+      setSavedRoles(data.roles);
+      setSelectedRoles(data.roles);
+      setAvailableRoles(data.availableRoles);
+      setHistory(data.history);
+    } catch (error) {
+      console.error('Error fetching member roles:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [memberId]);
+
+  useEffect(() => {
+    fetchRoles();
+  }, [fetchRoles]);
+
+  const added = selectedRoles.filter((role) => !savedRoles.includes(role));
+  const removed = savedRoles.filter((role) => !selectedRoles.includes(role));
+
+  const toggleRole = (role: string, checked: boolean) => {
+    setSelectedRoles((current) =>
+      checked ? [...current, role] : current.filter((r) => r !== role)
+    );
+  };
+
+  const saveRoles = async () => {
+    setIsSaving(true);
+
+    try {
+      const response = await fetch(`/api/members/${memberId}/roles`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ roles: selectedRoles }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update roles');
+      }
+
+      toast({
+        title: 'Roles updated',
+        description: data.message,
+        type: 'success',
+      });
+      fetchRoles();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update roles',
+        type: 'error',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center py-6">
+          <Loader2 className="h-5 w-5 animate-spin" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Roles</CardTitle>
+        <CardDescription>
+          Extra roles grant their permissions on top of the member&apos;s primary role.
+          Manage what each role allows on the <Link href="/admin/roles" className="underline">Roles &amp; Permissions</Link> page.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {availableRoles.map((role) => (
+            <label key={role.name} className="flex items-start gap-2 text-sm">
+              <Checkbox
+                checked={role.name === primaryRole || selectedRoles.includes(role.name)}
+                onCheckedChange={(checked) => toggleRole(role.name, checked === true)}
+                disabled={role.name === primaryRole || isSaving}
+              />
+              <span>
+                <span className="font-medium">{role.name}</span>
+                {role.name === primaryRole && <span className="text-gray-500"> (primary)</span>}
+                {role.description && <span className="block text-xs text-gray-500">{role.description}</span>}
+              </span>
+            </label>
+          ))}
+        </div>
+
+        {(added.length > 0 || removed.length > 0) && (
+          <div className="flex flex-wrap items-center gap-1">
+            {added.map((role) => (
+              <Badge key={role} variant="outline" className="bg-green-50 text-green-700 border-green-200">+ {role}</Badge>
+            ))}
+            {removed.map((role) => (
+              <Badge key={role} variant="outline" className="bg-red-50 text-red-700 border-red-200">− {role}</Badge>
+            ))}
+            <span className="text-xs text-gray-500 ml-2">The member will be signed out when you save.</span>
+          </div>
+        )}
+
+        <Button onClick={saveRoles} disabled={isSaving || (added.length === 0 && removed.length === 0)}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save roles
+        </Button>
+
+        {history.length > 0 && (
+          <div className="space-y-2 pt-2">
+            <h4 className="text-sm font-semibold">Recent changes</h4>
+            <ul className="space-y-1 text-sm">
+              {history.map((change) => (
+                <li key={change.id}>
+                  <span className="text-gray-500">
+                    {format(new Date(change.createdAt), 'MMM d, yyyy HH:mm')}
+                    {change.changedBy && ` · ${change.changedBy.name || change.changedBy.email}`}:
+                  </span>{' '}
+                  {change.added.map((role) => <span key={`+${role}`} className="text-green-700 mr-1">+ {role}</span>)}
+                  {change.removed.map((role) => <span key={`-${role}`} className="text-red-700 mr-1">− {role}</span>)}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MemberRoles;
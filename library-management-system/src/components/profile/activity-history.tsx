@@ -3,7 +3,7 @@
 import { useState, useEffect } from "react";
 import { useSession } from "next-auth/react";
 import { useToast } from "@/components/ui/use-toast";
-import { Loader2, BookOpen, BookX, BookCheck, CalendarClock } from "lucide-react";
+import { Loader2, BookOpen, BookCheck, CalendarClock, LogIn, ShieldAlert } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
 import { format } from "date-fns";
@@ -34,9 +34,26 @@ type Reservation = {
   status: string;
 };
 
+type LoginEvent = {
+  id: string;
+  success: boolean;
+  failureReason: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+};
+
 type Activity = {
   transactions: Transaction[];
   reservations: Reservation[];
+  loginEvents: LoginEvent[];
+};
+
+const failureReasonLabels: Record<string, string> = {
+  INVALID_CREDENTIALS: "Wrong password",
+  LOCKED_OUT: "Blocked while locked out",
+  EMAIL_NOT_VERIFIED: "Email not verified",
+  ACCOUNT_INACTIVE: "Account inactive",
 };
 
 export function ActivityHistory() {
@@ -46,6 +63,7 @@ export function ActivityHistory() {
   const [activity, setActivity] = useState<Activity>({
     transactions: [],
     reservations: [],
+    loginEvents: [],
   });
 
   useEffect(() => {
@@ -102,6 +120,14 @@ export function ActivityHistory() {
     }
   };
 
+  const formatDateTime = (dateString: string) => {
+    try {
+      return format(new Date(dateString), "MMM d, yyyy h:mm a");
+    } catch {
+      return "Invalid date";
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="flex justify-center py-6">
@@ -110,7 +136,10 @@ export function ActivityHistory() {
     );
   }
 
-  const hasActivity = activity.transactions.length > 0 || activity.reservations.length > 0;
+  const hasActivity =
+    activity.transactions.length > 0 ||
+    activity.reservations.length > 0 ||
+    activity.loginEvents.length > 0;
 
   if (!hasActivity) {
     return (
@@ -118,7 +147,7 @@ export function ActivityHistory() {
         <BookOpen className="h-12 w-12 text-muted-foreground mb-3" />
         <h3 className="text-lg font-medium">No activity yet</h3>
         <p className="text-muted-foreground mt-1">
-          Your borrowing and reservation history will appear here
+          Your borrowing, reservation and sign-in history will appear here
         </p>
       </div>
     );
@@ -202,6 +231,50 @@ export function ActivityHistory() {
           </div>
         </div>
       )}
+
+      {activity.loginEvents.length > 0 && (
+        <div>
+          <h3 className="text-lg font-medium mb-1">Recent Sign-ins</h3>
+          <p className="text-sm text-muted-foreground mb-3">
+            If you don&apos;t recognise an attempt, change your password straight away.
+          </p>
+          <div className="space-y-3">
+            {activity.loginEvents.map((event) => (
+              <Card key={event.id} className="overflow-hidden">
+                <CardContent className="p-4">
+                  <div className="flex items-start justify-between">
+                    <div className="grid gap-1">
+                      <div className="flex items-center gap-2 font-medium">
+                        {event.success ? (
+                          <LogIn className="h-4 w-4 text-muted-foreground" />
+                        ) : (
+                          <ShieldAlert className="h-4 w-4 text-red-600" />
+                        )}
+                        {formatDateTime(event.createdAt)}
+                      </div>
+                      <div className="text-sm text-muted-foreground">
+                        {event.ipAddress || "Unknown IP address"}
+                      </div>
+                      {event.userAgent && (
+                        <div className="text-xs text-muted-foreground break-all">{event.userAgent}</div>
+                      )}
+                    </div>
+                    <div>
+                      {event.success ? (
+                        <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">Signed In</Badge>
+                      ) : (
+                        <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">
+                          {failureReasonLabels[event.failureReason ?? ""] ?? "Failed"}
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -45,7 +45,7 @@ export function DeleteAccountDialog() {
 
       if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.message || "Failed to delete account");
+        throw new Error(error.error || "Failed to delete account");
       }
 
       // Close the dialog
@@ -86,7 +86,9 @@ export function DeleteAccountDialog() {
           <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
           <AlertDialogDescription>
             This action cannot be undone. This will permanently delete your
-            account and remove all your data from our servers.
+            account and erase your personal details. Your past loans and fines
+            are kept for the library&apos;s records, but no longer linked to you.
+            Items on loan must be returned and fines paid first.
           </AlertDialogDescription>
         </AlertDialogHeader>
         
@@ -0,0 +1,194 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useToast } from "@/components/ui/use-toast";
+import { Loader2, Receipt } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { format } from "date-fns";
+
+type FinePayment = {
+  id: string;
+  amount: number;
+  method: string;
+  createdAt: string;
+};
+
+type Fine = {
+  id: string;
+  type: "OVERDUE" | "DAMAGED" | "LOST" | "OTHER";
+  amount: number;
+  amountPaid: number;
+  amountWaived: number;
+  outstanding: number;
+  status: string;
+  waiverReason: string | null;
+  createdAt: string;
+  transaction: {
+    id: string;
+    dueDate: string;
+    returnDate: string | null;
+    book: {
+      title: string;
+      author: string;
+    };
+  } | null;
+  payments: FinePayment[];
+};
+
+const fineTypeLabels: Record<Fine["type"], string> = {
+  OVERDUE: "Late return",
+  DAMAGED: "Damaged item",
+  LOST: "Lost item",
+  OTHER: "Other",
+};
+
+export function MyFines() {
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(true);
+  const [fines, setFines] = useState<Fine[]>([]);
+  const [balance, setBalance] = useState(0);
+
+  useEffect(() => {
+    async function fetchFines() {
+      try {
+        setIsLoading(true);
+        const response = await fetch("/api/users/fines");
+
+        if (!response.ok) {
+          throw new Error("Failed to fetch fines");
+        }
+
+        const data = await response.json();
+        setFines(data.fines);
+        setBalance(data.balance);
+      } catch (error) {
+        console.error("Error fetching fines:", error);
+        toast({
+          title: "Error",
+          description: "Failed to load your fines",
+          type: "error",
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchFines();
+  }, [toast]);
+
+  const getStatusBadge = (status: string) => {
+    switch (status) {
+      case "UNPAID":
+        return <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">Unpaid</Badge>;
+      case "PARTIALLY_PAID":
+        return <Badge variant="outline" className="bg-yellow-50 text-yellow-700 border-yellow-200">Partially Paid</Badge>;
+      case "PAID":
+        return <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">Paid</Badge>;
+      case "WAIVED":
+        return <Badge variant="outline" className="bg-gray-50 text-gray-700 border-gray-200">Waived</Badge>;
+      default:
+        return <Badge variant="outline">{status}</Badge>;
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    try {
+      return format(new Date(dateString), "MMM d, yyyy");
+    } catch {
+      return "Invalid date";
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-sm font-medium">Outstanding Balance</CardTitle>
+          <CardDescription>Fines can be paid at the circulation desk</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <p className={`text-3xl font-bold ${balance > 0 ? "text-red-600" : ""}`}>
+            ${balance.toFixed(2)}
+          </p>
+        </CardContent>
+      </Card>
+
+      {fines.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-10 text-center">
+          <Receipt className="h-12 w-12 text-muted-foreground mb-3" />
+          <h3 className="text-lg font-medium">No fines</h3>
+          <p className="text-muted-foreground mt-1">
+            You have never been charged a fine. Keep it up!
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {fines.map((fine) => (
+            <Card key={fine.id}>
+              <CardContent className="p-4">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <h4 className="font-medium">
+                      {fine.transaction?.book.title || fineTypeLabels[fine.type]}
+                    </h4>
+                    <p className="text-sm text-muted-foreground">
+                      {fineTypeLabels[fine.type]} · Charged {formatDate(fine.createdAt)}
+                    </p>
+                  </div>
+                  {getStatusBadge(fine.status)}
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mt-4 text-sm">
+                  <div>
+                    <p className="text-muted-foreground">Amount</p>
+                    <p className="font-medium">${fine.amount.toFixed(2)}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Paid</p>
+                    <p className="font-medium">${fine.amountPaid.toFixed(2)}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Waived</p>
+                    <p className="font-medium">${fine.amountWaived.toFixed(2)}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Outstanding</p>
+                    <p className="font-medium">${fine.outstanding.toFixed(2)}</p>
+                  </div>
+                </div>
+
+                {fine.payments.length > 0 && (
+                  <div className="mt-4 border-t pt-3 space-y-1">
+                    {fine.payments.map((payment) => (
+                      <div key={payment.id} className="flex justify-between text-xs text-muted-foreground">
+                        <span>
+                          {formatDate(payment.createdAt)} · {payment.method.toLowerCase()}
+                        </span>
+                        <span>${payment.amount.toFixed(2)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {fine.waiverReason && (
+                  <p className="mt-3 text-xs text-muted-foreground">
+                    Waiver note: {fine.waiverReason}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
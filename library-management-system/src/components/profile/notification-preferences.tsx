@@ -5,40 +5,86 @@ import { useToast } from "@/components/ui/use-toast";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Loader2 } from "lucide-react";
 import { Label } from "@/components/ui/label";
+import {
+  notificationPreferencesSchema,
+  NotificationPreferencesValues,
+} from "@/lib/validations/notification-preferences";
 
-type NotificationPreference = {
-  id: string;
+type ToggleField =
+  | "emailEnabled"
+  | "inAppEnabled"
+  | "dueDateReminders"
+  | "overdueNotices"
+  | "reservationNotifications"
+  | "libraryUpdates";
+
+type ToggleOption = {
+  id: ToggleField;
   label: string;
   description: string;
-  enabled: boolean;
+};
+
+const channelOptions: ToggleOption[] = [
+  {
+    id: "emailEnabled",
+    label: "Email",
+    description: "Send notifications to your email address",
+  },
+  {
+    id: "inAppEnabled",
+    label: "In-App",
+    description: "Show notifications in your dashboard",
+  },
+];
+
+const typeOptions: ToggleOption[] = [
+  {
+    id: "dueDateReminders",
+    label: "Due Date Reminders",
+    description: "Receive notifications before books are due",
+  },
+  {
+    id: "overdueNotices",
+    label: "Overdue Notices",
+    description: "Get notified when a book is past its due date",
+  },
+  {
+    id: "reservationNotifications",
+    label: "Reservation Notifications",
+    description: "Get notified when reserved books become available",
+  },
+  {
+    id: "libraryUpdates",
+    label: "Library Updates",
+    description: "Receive updates about new books and library events",
+  },
+];
+
+const DEFAULT_QUIET_HOURS = { start: "22:00", end: "07:00" };
+
+const defaultPreferences: NotificationPreferencesValues = {
+  emailEnabled: true,
+  inAppEnabled: true,
+  dueDateReminders: true,
+  overdueNotices: true,
+  reservationNotifications: true,
+  libraryUpdates: false,
+  quietHoursStart: null,
+  quietHoursEnd: null,
+  timezone: "UTC",
+  digestFrequency: "NONE",
 };
 
 export function NotificationPreferences() {
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
   const [isInitialLoading, setIsInitialLoading] = useState(true);
-  const [preferences, setPreferences] = useState<NotificationPreference[]>([
-    {
-      id: "due-date-reminder",
-      label: "Due Date Reminders",
-      description: "Receive notifications before books are due",
-      enabled: true,
-    },
-    {
-      id: "reservation-notification",
-      label: "Reservation Notifications",
-      description: "Get notified when reserved books become available",
-      enabled: true,
-    },
-    {
-      id: "marketing-emails",
-      label: "Library Updates",
-      description: "Receive updates about new books and library events",
-      enabled: false,
-    },
-  ]);
+  const [preferences, setPreferences] = useState<NotificationPreferencesValues>(defaultPreferences);
   
   // Fetch notification preferences on component mount
   useEffect(() => {
@@ -53,7 +99,7 @@ export function NotificationPreferences() {
         
         const data = await response.json();
         
-        if (data.preferences && Array.isArray(data.preferences)) {
+        if (data.preferences) {
           setPreferences(data.preferences);
         }
       } catch (error) {
@@ -71,29 +117,51 @@ export function NotificationPreferences() {
     fetchPreferences();
   }, [toast]);
 
-  const handleToggle = (id: string) => {
-    setPreferences(prevPreferences =>
-      prevPreferences.map(pref =>
-        pref.id === id ? { ...pref, enabled: !pref.enabled } : pref
-      )
-    );
+  const handleToggle = (id: ToggleField) => {
+    setPreferences(prevPreferences => ({
+      ...prevPreferences,
+      [id]: !prevPreferences[id],
+    }));
+  };
+
+  const handleQuietHoursToggle = (enabled: boolean) => {
+    setPreferences(prevPreferences => ({
+      ...prevPreferences,
+      quietHoursStart: enabled ? DEFAULT_QUIET_HOURS.start : null,
+      quietHoursEnd: enabled ? DEFAULT_QUIET_HOURS.end : null,
+      // Quiet hours are kept in the browser's timezone when first turned on
+      timezone: enabled && prevPreferences.timezone === "UTC"
+        ? Intl.DateTimeFormat().resolvedOptions().timeZone
+        : prevPreferences.timezone,
+    }));
   };
 
   const handleSubmit = async () => {
+    const validationResult = notificationPreferencesSchema.safeParse(preferences);
+
+    if (!validationResult.success) {
+      toast({
+        title: "Error",
+        description: validationResult.error.errors[0]?.message || "Please check your preferences",
+        type: "error",
+      });
+      return;
+    }
+
     try {
       setIsLoading(true);
       
       const response = await fetch("/api/users/notification-preferences", {
-        method: "POST",
+        method: "PUT",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ preferences }),
+        body: JSON.stringify(validationResult.data),
       });
 
       if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.message || "Failed to save notification preferences");
+        throw new Error(error.error || "Failed to save notification preferences");
       }
       
       toast({
@@ -113,6 +181,34 @@ export function NotificationPreferences() {
     }
   };
 
+  const renderToggles = (options: ToggleOption[], disabled = false) =>
+    options.map((option, index) => (
+      <div key={option.id}>
+        <div className="flex items-center justify-between space-x-2 py-2">
+          <div className="flex flex-col space-y-1">
+            <Label
+              htmlFor={option.id}
+              className="font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+            >
+              {option.label}
+            </Label>
+            <p className="text-sm text-muted-foreground">
+              {option.description}
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id={option.id}
+              checked={preferences[option.id]}
+              onCheckedChange={() => handleToggle(option.id)}
+              disabled={isLoading || disabled}
+            />
+          </div>
+        </div>
+        {index < options.length - 1 && <Separator />}
+      </div>
+    ));
+
   if (isInitialLoading) {
     return (
       <div className="flex justify-center py-6">
@@ -120,35 +216,114 @@ export function NotificationPreferences() {
       </div>
     );
   }
+
+  const quietHoursEnabled = preferences.quietHoursStart !== null;
   
   return (
-    <div className="space-y-4">
-      {preferences.map((preference, index) => (
-        <div key={preference.id}>
-          <div className="flex items-center justify-between space-x-2 py-2">
-            <div className="flex flex-col space-y-1">
-              <Label
-                htmlFor={preference.id}
-                className="font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
-              >
-                {preference.label}
-              </Label>
-              <p className="text-sm text-muted-foreground">
-                {preference.description}
-              </p>
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-sm font-semibold mb-2">Channels</h3>
+        {renderToggles(channelOptions)}
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold mb-2">Notify Me About</h3>
+        {renderToggles(typeOptions, !preferences.emailEnabled && !preferences.inAppEnabled)}
+      </div>
+
+      <div className="space-y-4">
+        <h3 className="text-sm font-semibold">Delivery</h3>
+
+        <div className="flex items-center justify-between space-x-2">
+          <div className="flex flex-col space-y-1">
+            <Label htmlFor="digest-frequency" className="font-medium leading-none">
+              Email Digest
+            </Label>
+            <p className="text-sm text-muted-foreground">
+              Bundle due date reminders and overdue notices into one email
+            </p>
+          </div>
+          <Select
+            value={preferences.digestFrequency}
+            onValueChange={(value) =>
+              setPreferences(prevPreferences => ({
+                ...prevPreferences,
+                digestFrequency: value as NotificationPreferencesValues["digestFrequency"],
+              }))
+            }
+            disabled={isLoading}
+          >
+            <SelectTrigger id="digest-frequency" className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="NONE">Send individually</SelectItem>
+              <SelectItem value="DAILY">Daily digest</SelectItem>
+              <SelectItem value="WEEKLY">Weekly digest</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Separator />
+
+        <div className="flex items-center justify-between space-x-2">
+          <div className="flex flex-col space-y-1">
+            <Label htmlFor="quiet-hours" className="font-medium leading-none">
+              Quiet Hours
+            </Label>
+            <p className="text-sm text-muted-foreground">
+              Hold notifications until quiet hours are over
+            </p>
+          </div>
+          <Switch
+            id="quiet-hours"
+            checked={quietHoursEnabled}
+            onCheckedChange={handleQuietHoursToggle}
+            disabled={isLoading}
+          />
+        </div>
+
+        {quietHoursEnabled && (
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="quiet-hours-start">From</Label>
+              <Input
+                id="quiet-hours-start"
+                type="time"
+                value={preferences.quietHoursStart ?? ""}
+                onChange={(e) =>
+                  setPreferences(prevPreferences => ({ ...prevPreferences, quietHoursStart: e.target.value }))
+                }
+                disabled={isLoading}
+              />
             </div>
-            <div className="flex items-center space-x-2">
-              <Checkbox
-                id={preference.id}
-                checked={preference.enabled}
-                onCheckedChange={() => handleToggle(preference.id)}
+            <div className="space-y-2">
+              <Label htmlFor="quiet-hours-end">Until</Label>
+              <Input
+                id="quiet-hours-end"
+                type="time"
+                value={preferences.quietHoursEnd ?? ""}
+                onChange={(e) =>
+                  setPreferences(prevPreferences => ({ ...prevPreferences, quietHoursEnd: e.target.value }))
+                }
+                disabled={isLoading}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quiet-hours-timezone">Timezone</Label>
+              <Input
+                id="quiet-hours-timezone"
+                value={preferences.timezone}
+                onChange={(e) =>
+                  setPreferences(prevPreferences => ({ ...prevPreferences, timezone: e.target.value }))
+                }
+                placeholder="e.g. Europe/London"
                 disabled={isLoading}
               />
             </div>
           </div>
-          {index < preferences.length - 1 && <Separator />}
-        </div>
-      ))}
+        )}
+      </div>
       
       <div className="flex justify-end pt-4">
         <Button onClick={handleSubmit} disabled={isLoading}>
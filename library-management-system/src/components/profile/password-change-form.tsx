@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import { useForm } from "react-hook-form";
+import { signOut } from "next-auth/react";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Button } from "@/components/ui/button";
@@ -77,9 +78,12 @@ export function PasswordChangeForm() {
       
       toast({
         title: "Password Updated",
-        description: "Your password has been changed successfully",
+        description: "Your password has been changed. Please sign in again.",
         type: "success",
       });
+
+      // Changing the password signs out every session, including this one
+      await signOut({ callbackUrl: "/auth/signin" });
     } catch (error) {
       console.error("Password change error:", error);
       toast({
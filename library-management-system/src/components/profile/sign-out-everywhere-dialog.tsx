@@ -0,0 +1,87 @@
+"use client";
+
+import { useState } from "react";
+import { signOut } from "next-auth/react";
+import { useToast } from "@/components/ui/use-toast";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Loader2, LogOut } from "lucide-react";
+
+export function SignOutEverywhereDialog() {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSignOutEverywhere = async () => {
+    try {
+      setIsLoading(true);
+
+      const response = await fetch("/api/users/sessions", {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to sign out of all devices");
+      }
+
+      setIsOpen(false);
+
+      // This session was revoked along with the others
+      await signOut({ callbackUrl: "/auth/signin" });
+    } catch (error) {
+      console.error("Error signing out of all devices:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to sign out of all devices",
+        type: "error",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={isOpen} onOpenChange={setIsOpen}>
+      <AlertDialogTrigger asChild>
+        <Button variant="outline">
+          <LogOut className="mr-2 h-4 w-4" />
+          Sign out of all devices
+        </Button>
+      </AlertDialogTrigger>
+
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Sign out of all devices?</AlertDialogTitle>
+          <AlertDialogDescription>
+            You&apos;ll be signed out everywhere you&apos;re signed in, including this
+            browser, and will need to sign in again on each device.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isLoading}>Cancel</AlertDialogCancel>
+          <Button onClick={handleSignOutEverywhere} disabled={isLoading}>
+            {isLoading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Signing out...
+              </>
+            ) : (
+              "Sign out everywhere"
+            )}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,276 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { format } from "date-fns";
+import { useToast } from "@/components/ui/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { PasswordInput } from "@/components/ui/password-input";
+import { Loader2, ShieldCheck, ShieldOff } from "lucide-react";
+import { RecoveryCodeList, TwoFactorQrCode } from "@/components/auth/two-factor-enrollment";
+
+type TwoFactorStatus = {
+  enabled: boolean;
+  enabledAt: string | null;
+  required: boolean;
+  recoveryCodesRemaining: number;
+};
+
+type Enrollment = {
+  secret: string;
+  otpauthUrl: string;
+  recoveryCodes: string[];
+};
+
+export function TwoFactorSettings() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [newRecoveryCodes, setNewRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch("/api/users/two-factor");
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch two-factor status");
+      }
+
+      setStatus(await response.json());
+    } catch (error) {
+      console.error("Error fetching two-factor status:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load two-factor settings",
+        type: "error",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  // POST to one of the two-factor endpoints, showing any error as a toast
+  const submit = async (url: string, body?: Record<string, string>) => {
+    try {
+      setIsSubmitting(true);
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details?.code?._errors?.[0] || data.error || "Request failed");
+      }
+
+      return data;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Request failed",
+        type: "error",
+      });
+      return null;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const startEnrollment = async () => {
+    const data = await submit("/api/users/two-factor");
+    if (data) {
+      setEnrollment(data);
+      setCode("");
+    }
+  };
+
+  const confirmEnrollment = async () => {
+    const data = await submit("/api/users/two-factor/enable", { code });
+    if (data) {
+      toast({
+        title: "Two-factor authentication enabled",
+        description: "You'll be asked for a code from your app when you sign in.",
+        type: "success",
+      });
+      setEnrollment(null);
+      setCode("");
+      fetchStatus();
+    }
+  };
+
+  const regenerateCodes = async () => {
+    const data = await submit("/api/users/two-factor/recovery-codes", { code });
+    if (data) {
+      setNewRecoveryCodes(data.recoveryCodes);
+      setCode("");
+      fetchStatus();
+    }
+  };
+
+  const disable = async () => {
+    const data = await submit("/api/users/two-factor/disable", { password, code });
+    if (data) {
+      toast({
+        title: "Two-factor authentication disabled",
+        description: data.message,
+        type: "success",
+      });
+      setPassword("");
+      setCode("");
+      setNewRecoveryCodes(null);
+      fetchStatus();
+    }
+  };
+
+  if (isLoading && !status) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!status) {
+    return null;
+  }
+
+  if (enrollment) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h3 className="text-lg font-medium">Set up your authenticator app</h3>
+          <p className="text-sm text-muted-foreground">
+            Scan this QR code with an authenticator app such as Google Authenticator, Microsoft
+            Authenticator or 1Password, then enter the six-digit code it shows.
+          </p>
+        </div>
+        <TwoFactorQrCode otpauthUrl={enrollment.otpauthUrl} secret={enrollment.secret} />
+        <RecoveryCodeList codes={enrollment.recoveryCodes} />
+        <div className="space-y-2 max-w-xs">
+          <Label htmlFor="two-factor-code">Authentication code</Label>
+          <Input
+            id="two-factor-code"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            placeholder="123456"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            disabled={isSubmitting}
+          />
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={confirmEnrollment} disabled={isSubmitting || code.trim().length < 6}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Enable
+          </Button>
+          <Button variant="outline" onClick={() => setEnrollment(null)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!status.enabled) {
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center gap-2">
+          <ShieldOff className="h-5 w-5 text-muted-foreground" />
+          <span className="font-medium">Two-factor authentication is off</span>
+          {status.required && (
+            <Badge variant="outline" className="bg-yellow-50 text-yellow-700 border-yellow-200">Required for your role</Badge>
+          )}
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Protect your account with a code from an authenticator app in addition to your password.
+        </p>
+        <Button onClick={startEnrollment} disabled={isSubmitting}>
+          {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Set up two-factor authentication
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-1">
+        <div className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-green-600" />
+          <span className="font-medium">Two-factor authentication is on</span>
+          {status.required && (
+            <Badge variant="outline">Required for your role</Badge>
+          )}
+        </div>
+        {status.enabledAt && (
+          <p className="text-sm text-muted-foreground">
+            Enabled on {format(new Date(status.enabledAt), "MMM d, yyyy")} ·{" "}
+            {status.recoveryCodesRemaining} recovery {status.recoveryCodesRemaining === 1 ? "code" : "codes"} left
+          </p>
+        )}
+      </div>
+
+      {newRecoveryCodes && <RecoveryCodeList codes={newRecoveryCodes} />}
+
+      <Separator />
+
+      <div className="space-y-4 max-w-sm">
+        <p className="text-sm text-muted-foreground">
+          Enter a code from your authenticator app to generate new recovery codes
+          {status.required ? "." : " or, with your password, to turn two-factor authentication off."}
+        </p>
+        <div className="space-y-2">
+          <Label htmlFor="two-factor-code">Authentication code</Label>
+          <Input
+            id="two-factor-code"
+            autoComplete="one-time-code"
+            placeholder="123456"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            disabled={isSubmitting}
+          />
+        </div>
+        {!status.required && (
+          <div className="space-y-2">
+            <Label htmlFor="two-factor-password">Password</Label>
+            <PasswordInput
+              id="two-factor-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              disabled={isSubmitting}
+            />
+          </div>
+        )}
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={regenerateCodes} disabled={isSubmitting || code.trim().length < 6}>
+            New recovery codes
+          </Button>
+          {!status.required && (
+            <Button
+              variant="destructive"
+              onClick={disable}
+              disabled={isSubmitting || code.trim().length < 6 || !password}
+            >
+              Turn off
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,506 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useToast } from "@/components/ui/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BookOpen, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { circulationPolicySchema } from "@/lib/validations/circulation-policy";
+
+type MemberRole = "USER" | "ADMIN" | "LIBRARIAN" | "MEMBER";
+
+interface CirculationPolicy {
+  id: string;
+  name: string;
+  role: MemberRole | null;
+  category: string | null;
+  loanPeriodDays: number;
+  dailyFineRate: number;
+  maxFine: number | null;
+  gracePeriodDays: number;
+  lostItemFee: number;
+  damagedItemFee: number;
+  maxActiveLoans: number | null;
+  maxOverdueItems: number | null;
+  maxFineBalance: number | null;
+  isActive: boolean;
+}
+
+// Form state keeps numbers as strings so inputs can be cleared while editing
+type PolicyForm = {
+  name: string;
+  role: MemberRole | "ANY";
+  category: string;
+  loanPeriodDays: string;
+  dailyFineRate: string;
+  maxFine: string;
+  gracePeriodDays: string;
+  lostItemFee: string;
+  damagedItemFee: string;
+  maxActiveLoans: string;
+  maxOverdueItems: string;
+  maxFineBalance: string;
+  isActive: boolean;
+};
+
+const emptyForm: PolicyForm = {
+  name: "",
+  role: "ANY",
+  category: "",
+  loanPeriodDays: "14",
+  dailyFineRate: "0.50",
+  maxFine: "",
+  gracePeriodDays: "0",
+  lostItemFee: "50.00",
+  damagedItemFee: "15.00",
+  maxActiveLoans: "5",
+  maxOverdueItems: "0",
+  maxFineBalance: "10.00",
+  isActive: true,
+};
+
+const roleLabels: Record<MemberRole, string> = {
+  USER: "User",
+  MEMBER: "Member",
+  LIBRARIAN: "Librarian",
+  ADMIN: "Admin",
+};
+
+function toForm(policy: CirculationPolicy): PolicyForm {
+  return {
+    name: policy.name,
+    role: policy.role ?? "ANY",
+    category: policy.category ?? "",
+    loanPeriodDays: String(policy.loanPeriodDays),
+    dailyFineRate: policy.dailyFineRate.toFixed(2),
+    maxFine: policy.maxFine !== null ? policy.maxFine.toFixed(2) : "",
+    gracePeriodDays: String(policy.gracePeriodDays),
+    lostItemFee: policy.lostItemFee.toFixed(2),
+    damagedItemFee: policy.damagedItemFee.toFixed(2),
+    maxActiveLoans: policy.maxActiveLoans !== null ? String(policy.maxActiveLoans) : "",
+    maxOverdueItems: policy.maxOverdueItems !== null ? String(policy.maxOverdueItems) : "",
+    maxFineBalance: policy.maxFineBalance !== null ? policy.maxFineBalance.toFixed(2) : "",
+    isActive: policy.isActive,
+  };
+}
+
+function fromForm(form: PolicyForm) {
+  return {
+    name: form.name.trim(),
+    role: form.role === "ANY" ? null : form.role,
+    category: form.category.trim() || null,
+    loanPeriodDays: Number(form.loanPeriodDays),
+    dailyFineRate: Number(form.dailyFineRate),
+    maxFine: form.maxFine.trim() ? Number(form.maxFine) : null,
+    gracePeriodDays: Number(form.gracePeriodDays),
+    lostItemFee: Number(form.lostItemFee),
+    damagedItemFee: Number(form.damagedItemFee),
+    maxActiveLoans: form.maxActiveLoans.trim() ? Number(form.maxActiveLoans) : null,
+    maxOverdueItems: form.maxOverdueItems.trim() ? Number(form.maxOverdueItems) : null,
+    maxFineBalance: form.maxFineBalance.trim() ? Number(form.maxFineBalance) : null,
+    isActive: form.isActive,
+  };
+}
+
+export function CirculationPolicySettings() {
+  const { toast } = useToast();
+  const [policies, setPolicies] = useState<CirculationPolicy[]>([]);
+  const [isInitialLoading, setIsInitialLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<PolicyForm>(emptyForm);
+  const [formError, setFormError] = useState("");
+
+  const fetchPolicies = useCallback(async () => {
+    try {
+      const response = await fetch("/api/circulation-policies");
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch circulation policies");
+      }
+
+      const data = await response.json();
+      setPolicies(data.policies);
+    } catch (error) {
+      console.error("Error fetching circulation policies:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load circulation policies",
+        type: "error",
+      });
+    } finally {
+      setIsInitialLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchPolicies();
+  }, [fetchPolicies]);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setFormError("");
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (policy: CirculationPolicy) => {
+    setEditingId(policy.id);
+    setForm(toForm(policy));
+    setFormError("");
+    setIsDialogOpen(true);
+  };
+
+  const updateField = <K extends keyof PolicyForm>(field: K, value: PolicyForm[K]) => {
+    setForm((current) => ({ ...current, [field]: value }));
+  };
+
+  const handleSave = async () => {
+    const payload = fromForm(form);
+
+    // Validate on the client first so the dialog can show the problem inline
+    const validationResult = circulationPolicySchema.safeParse(payload);
+    if (!validationResult.success) {
+      setFormError(validationResult.error.errors[0]?.message || "Please check the policy values");
+      return;
+    }
+
+    setIsSaving(true);
+    setFormError("");
+
+    try {
+      const response = await fetch(
+        editingId ? `/api/circulation-policies/${editingId}` : "/api/circulation-policies",
+        {
+          method: editingId ? "PATCH" : "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(validationResult.data),
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save circulation policy");
+      }
+
+      toast({
+        title: "Policy Saved",
+        description: `"${data.name}" has been saved`,
+        type: "success",
+      });
+      setIsDialogOpen(false);
+      await fetchPolicies();
+    } catch (error) {
+      console.error("Error saving circulation policy:", error);
+      setFormError(error instanceof Error ? error.message : "Failed to save circulation policy");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (policy: CirculationPolicy) => {
+    if (!confirm(`Delete the "${policy.name}" policy?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/circulation-policies/${policy.id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to delete circulation policy");
+      }
+
+      setPolicies((current) => current.filter((p) => p.id !== policy.id));
+    } catch (error) {
+      console.error("Error deleting circulation policy:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete circulation policy",
+        type: "error",
+      });
+    }
+  };
+
+  const formatMoney = (value: number | null) =>
+    value === null ? "No cap" : `$${value.toFixed(2)}`;
+
+  const formatLimits = (policy: CirculationPolicy) =>
+    [
+      policy.maxActiveLoans !== null ? `${policy.maxActiveLoans} loans` : null,
+      policy.maxOverdueItems !== null ? `${policy.maxOverdueItems} overdue` : null,
+      policy.maxFineBalance !== null ? `$${policy.maxFineBalance.toFixed(2)} owed` : null,
+    ].filter(Boolean).join(" · ") || "None";
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <div>
+          <CardTitle>Circulation Policies</CardTitle>
+          <CardDescription>
+            Loan periods, fine rates, fees and borrowing limits by member role and book category.
+            The most specific active policy is applied; anything unmatched uses the
+            default of 14 days at $0.50 per day.
+          </CardDescription>
+        </div>
+        <BookOpen className="h-4 w-4 text-muted-foreground" />
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex justify-end">
+          <Button onClick={openCreate}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Policy
+          </Button>
+        </div>
+
+        {isInitialLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : policies.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No circulation policies configured. The default rules apply to every loan.
+          </p>
+        ) : (
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Applies To</TableHead>
+                  <TableHead>Loan Period</TableHead>
+                  <TableHead>Fine / Day</TableHead>
+                  <TableHead>Fine Cap</TableHead>
+                  <TableHead>Grace</TableHead>
+                  <TableHead>Lost / Damaged</TableHead>
+                  <TableHead>Limits</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {policies.map((policy) => (
+                  <TableRow key={policy.id}>
+                    <TableCell className="font-medium">{policy.name}</TableCell>
+                    <TableCell>
+                      {policy.role ? roleLabels[policy.role] : "All roles"}
+                      {" · "}
+                      {policy.category || "All categories"}
+                    </TableCell>
+                    <TableCell>{policy.loanPeriodDays} days</TableCell>
+                    <TableCell>${policy.dailyFineRate.toFixed(2)}</TableCell>
+                    <TableCell>{formatMoney(policy.maxFine)}</TableCell>
+                    <TableCell>{policy.gracePeriodDays} days</TableCell>
+                    <TableCell>
+                      ${policy.lostItemFee.toFixed(2)} / ${policy.damagedItemFee.toFixed(2)}
+                    </TableCell>
+                    <TableCell>{formatLimits(policy)}</TableCell>
+                    <TableCell>
+                      <Badge variant={policy.isActive ? "secondary" : "outline"}>
+                        {policy.isActive ? "Active" : "Inactive"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => openEdit(policy)}>
+                        <Pencil className="h-4 w-4" />
+                        <span className="sr-only">Edit</span>
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(policy)}>
+                        <Trash2 className="h-4 w-4" />
+                        <span className="sr-only">Delete</span>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Policy" : "Add Policy"}</DialogTitle>
+          </DialogHeader>
+
+          {formError && (
+            <div className="bg-red-50 text-red-600 p-3 rounded-md text-sm">
+              {formError}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4 py-2">
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="policy-name">Name</Label>
+              <Input
+                id="policy-name"
+                value={form.name}
+                onChange={(e) => updateField("name", e.target.value)}
+                placeholder="e.g. Members - Reference"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Member Role</Label>
+              <Select
+                value={form.role}
+                onValueChange={(value) => updateField("role", value as PolicyForm["role"])}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="All roles" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ANY">All roles</SelectItem>
+                  {(Object.keys(roleLabels) as MemberRole[]).map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {roleLabels[role]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="policy-category">Book Category</Label>
+              <Input
+                id="policy-category"
+                value={form.category}
+                onChange={(e) => updateField("category", e.target.value)}
+                placeholder="All categories"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="policy-loan-period">Loan Period (days)</Label>
+              <Input
+                id="policy-loan-period"
+                type="number"
+                min={1}
+                value={form.loanPeriodDays}
+                onChange={(e) => updateField("loanPeriodDays", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="policy-grace-period">Grace Period (days)</Label>
+              <Input
+                id="policy-grace-period"
+                type="number"
+                min={0}
+                value={form.gracePeriodDays}
+                onChange={(e) => updateField("gracePeriodDays", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="policy-fine-rate">Fine per Day ($)</Label>
+              <Input
+                id="policy-fine-rate"
+                type="number"
+                min={0}
+                step="0.01"
+                value={form.dailyFineRate}
+                onChange={(e) => updateField("dailyFineRate", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="policy-max-fine">Maximum Late Fine ($)</Label>
+              <Input
+                id="policy-max-fine"
+                type="number"
+                min={0}
+                step="0.01"
+                value={form.maxFine}
+                onChange={(e) => updateField("maxFine", e.target.value)}
+                placeholder="No cap"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="policy-lost-fee">Lost Item Fee ($)</Label>
+              <Input
+                id="policy-lost-fee"
+                type="number"
+                min={0}
+                step="0.01"
+                value={form.lostItemFee}
+                onChange={(e) => updateField("lostItemFee", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="policy-damaged-fee">Damaged Item Fee ($)</Label>
+              <Input
+                id="policy-damaged-fee"
+                type="number"
+                min={0}
+                step="0.01"
+                value={form.damagedItemFee}
+                onChange={(e) => updateField("damagedItemFee", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="policy-max-loans">Maximum Loans</Label>
+              <Input
+                id="policy-max-loans"
+                type="number"
+                min={0}
+                value={form.maxActiveLoans}
+                onChange={(e) => updateField("maxActiveLoans", e.target.value)}
+                placeholder="No limit"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="policy-max-overdue">Maximum Overdue Items</Label>
+              <Input
+                id="policy-max-overdue"
+                type="number"
+                min={0}
+                value={form.maxOverdueItems}
+                onChange={(e) => updateField("maxOverdueItems", e.target.value)}
+                placeholder="No limit"
+              />
+            </div>
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="policy-max-balance">Block Checkout Above Fine Balance ($)</Label>
+              <Input
+                id="policy-max-balance"
+                type="number"
+                min={0}
+                step="0.01"
+                value={form.maxFineBalance}
+                onChange={(e) => updateField("maxFineBalance", e.target.value)}
+                placeholder="No limit"
+              />
+            </div>
+            <div className="col-span-2 flex items-center space-x-2">
+              <Switch
+                id="policy-active"
+                checked={form.isActive}
+                onCheckedChange={(checked) => updateField("isActive", checked)}
+              />
+              <Label htmlFor="policy-active">Active</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Policy
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import type { LiveEvent, LiveEventType } from '@/types/events';
+
+type LiveEventHandler = (event: LiveEvent) => void;
+
+// One connection per tab, shared by every component listening
+const handlers = new Set<LiveEventHandler>();
+let source: EventSource | null = null;
+
+function connect() {
+  if (source) return;
+
+  source = new EventSource('/api/events');
+  source.onmessage = (message) => {
+    try {
+      const event: LiveEvent = JSON.parse(message.data);
+      handlers.forEach((handler) => handler(event));
+    } catch (error) {
+      console.error('Error handling live event:', error);
+    }
+  };
+}
+
+function disconnectIfUnused() {
+  if (handlers.size === 0 && source) {
+    source.close();
+    source = null;
+  }
+}
+
+/**
+ * Call `onEvent` for live circulation events from /api/events, optionally only
+ * for some event types. The browser reconnects by itself if the stream drops.
+ */
+export function useLiveEvents(onEvent: LiveEventHandler, types?: LiveEventType[]) {
+  // Always call the latest handler without resubscribing on every render
+  const onEventRef = useRef(onEvent);
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
+  const typesKey = types?.join(',') ?? '';
+
+  useEffect(() => {
+    const wanted = typesKey ? typesKey.split(',') : null;
+    const handler: LiveEventHandler = (event) => {
+      if (!wanted || wanted.includes(event.type)) {
+        onEventRef.current(event);
+      }
+    };
+
+    handlers.add(handler);
+    connect();
+
+    return () => {
+      handlers.delete(handler);
+      disconnectIfUnused();
+    };
+  }, [typesKey]);
+}
@@ -0,0 +1,70 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { CategorySummary, TagSummary } from '@/types/taxonomy';
+
+export interface CategoryOption extends CategorySummary {
+  // Nesting level in the hierarchy, 0 for top-level categories
+  depth: number;
+}
+
+/**
+ * Order categories parent first with their subcategories underneath, alphabetically
+ * at each level
+ */
+export function flattenCategoryTree(categories: CategorySummary[]): CategoryOption[] {
+  const ordered: CategoryOption[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    categories
+      .filter((category) => category.parentId === parentId)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .forEach((category) => {
+        ordered.push({ ...category, depth });
+        visit(category.id, depth + 1);
+      });
+  };
+
+  visit(null, 0);
+  return ordered;
+}
+
+/**
+ * The category hierarchy and tag vocabulary from /api/books/categories and /api/books/tags
+ */
+export function useTaxonomy() {
+  const [categories, setCategories] = useState<CategoryOption[]>([]);
+  const [tags, setTags] = useState<TagSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+
+    try {
+      const [categoriesResponse, tagsResponse] = await Promise.all([
+        fetch('/api/books/categories'),
+        fetch('/api/books/tags'),
+      ]);
+
+      if (!categoriesResponse.ok || !tagsResponse.ok) {
+        throw new Error('Failed to fetch categories and tags');
+      }
+
+      const [categoriesData, tagsData] = await Promise.all([
+        categoriesResponse.json(),
+        tagsResponse.json(),
+      ]);
+      setCategories(flattenCategoryTree(categoriesData.categories));
+      setTags(tagsData.tags);
+    } catch (error) {
+      console.error('Error fetching categories and tags:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { categories, tags, loading, refresh };
+}
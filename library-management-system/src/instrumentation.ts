@@ -0,0 +1,17 @@
+/**
+ * Runs once when the Next.js server starts
+ * Starts the background job scheduler unless it is disabled, e.g. when a dedicated
+ * worker (`scheduler-runner.ts --worker`) handles jobs instead.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.JOB_SCHEDULER_ENABLED !== 'false') {
+    const { startJobScheduler } = await import('@/lib/jobs/scheduler');
+
+    try {
+      await startJobScheduler();
+    } catch (error) {
+      // Don't take the app down with it; queued runs wait for the next start or a worker
+      console.error('Failed to start job scheduler:', error);
+    }
+  }
+}
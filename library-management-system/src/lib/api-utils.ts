@@ -101,15 +101,6 @@ export const hasRole = (user: UserWithRoles, role: UserRole): boolean => {
   return false;
 };
 
-// Helper function to check if a user has all required permissions
-export const hasAllPermissions = (user: UserWithRoles, requiredPermissions: string[]): boolean => {
-  if (!user.role) return false;
-  
-  // For now, just check if the user has the required role
-  // We'll implement proper permission checking later
-  return true;
-};
-
 export async function requireAuth<T = any>(
   handler: ApiHandler<T>,
   req: NextRequest & { user?: UserWithRoles },
@@ -161,7 +152,7 @@ export async function requireAuth<T = any>(
       status: user.status as UserStatus,
       role: user.role, // For backward compatibility
       // Map userRoles to the roles array if available
-      roles: user.userRoles ? user.userRoles.map((ur: { role: UserRole }) => ({ role: ur.role })) : [],
+      roles: user.userRoles ? user.userRoles.map((ur: { role: string }) => ({ role: ur.role })) : [],
       createdAt: user.createdAt,
       updatedAt: user.updatedAt
     } as UserWithRoles;
@@ -212,48 +203,3 @@ export async function requireRole<T = any>(
 
   return handler(req, params);
 }
-
-export async function requirePermission<T = any>(
-  permission: string,
-  handler: ApiHandler<T>,
-  req: NextRequest,
-  params: T
-) {
-  // First, authenticate the user
-  const authResponse = await requireAuth(handler, req, params);
-
-  // If there was an auth error, return it
-  if (authResponse.status !== 200) {
-    return authResponse;
-  }
-
-  // Get user from the request
-  const user = (req as NextRequest & { user: UserWithRoles }).user!;
-
-  // Get all permissions for the user's roles
-  const roles = user.roles.map((r: { role: UserRole }) => r.role);
-  
-  const rolePermissions = await prisma.rolePermission.findMany({
-    where: {
-      role: { in: roles as any[] }
-    },
-    select: {
-      permission: true
-    },
-    distinct: ['permission']
-  });
-
-  // Check if user has the required permission
-  const hasPermission = rolePermissions.some(
-    (rp: { permission: string }) => rp.permission === permission
-  );
-
-  if (!hasPermission) {
-    return NextResponse.json(
-      { error: 'Insufficient permissions' },
-      { status: 403 }
-    );
-  }
-
-  return handler(req, params);
-}
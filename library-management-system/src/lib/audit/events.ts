@@ -0,0 +1,159 @@
+import { AuditAction, AuditEntityType, Prisma, PrismaClient } from '@prisma/client';
+import { prisma, PrismaTransaction } from '../prisma';
+import { getClientIp } from '../auth/client-ip';
+
+/**
+ * Audit trail of changes staff make to books, members, loans, fines, reservations,
+ * roles, categories and tags. Events are only ever inserted, except that a member's
+ * personal details are redacted when they are erased. Where a change runs in
+ * a transaction, record the event in the same transaction so a rolled back change
+ * leaves no event.
+ */
+
+// Never copied into snapshots
+const REDACTED_FIELDS = ['passwordHash', 'twoFactorSecret', 'twoFactorLastUsedStep'];
+
+export interface AuditEventInput {
+  actorId: string | null;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  before?: object | null;
+  after?: object | null;
+  reason?: string | null;
+  // Request the change came in on, for the client IP
+  request?: Request;
+}
+
+export interface AuditEventFilter {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  action?: AuditAction;
+  actorId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Client IP of a request, as recorded by the trusted proxy in front of the app
+ */
+export function getRequestIp(request: Request): string | null {
+  return getClientIp(request.headers.get('x-forwarded-for'), request.headers.get('x-real-ip'));
+}
+
+function toSnapshot(value: object): Record<string, unknown> {
+  return JSON.parse(
+    JSON.stringify(value, (key, field) => (REDACTED_FIELDS.includes(key) ? undefined : field))
+  );
+}
+
+/**
+ * Snapshots of an update, keeping only the fields that changed
+ */
+function getSnapshots(before?: object | null, after?: object | null) {
+  const beforeSnapshot = before ? toSnapshot(before) : null;
+  const afterSnapshot = after ? toSnapshot(after) : null;
+
+  if (!beforeSnapshot || !afterSnapshot) {
+    return { before: beforeSnapshot, after: afterSnapshot };
+  }
+
+  const changed = Object.keys({ ...beforeSnapshot, ...afterSnapshot }).filter(
+    (key) => JSON.stringify(beforeSnapshot[key]) !== JSON.stringify(afterSnapshot[key])
+  );
+  const pick = (snapshot: Record<string, unknown>) =>
+    Object.fromEntries(changed.filter((key) => key in snapshot).map((key) => [key, snapshot[key]]));
+
+  return { before: pick(beforeSnapshot), after: pick(afterSnapshot) };
+}
+
+/**
+ * Record a change in the audit trail
+ */
+export async function recordAuditEvent(
+  event: AuditEventInput,
+  db: PrismaClient | PrismaTransaction = prisma
+): Promise<void> {
+  const { before, after } = getSnapshots(event.before, event.after);
+
+  await db.auditEvent.create({
+    data: {
+      actorId: event.actorId,
+      action: event.action,
+      entityType: event.entityType,
+      entityId: event.entityId,
+      before: (before as Prisma.InputJsonObject) ?? Prisma.DbNull,
+      after: (after as Prisma.InputJsonObject) ?? Prisma.DbNull,
+      reason: event.reason || null,
+      ipAddress: event.request ? getRequestIp(event.request) : null,
+    },
+  });
+}
+
+/**
+ * Remove fields from the snapshots of an entity's events, e.g. a member's personal
+ * details when their data is erased. The events themselves are kept.
+ */
+export async function redactAuditSnapshots(
+  db: PrismaClient | PrismaTransaction,
+  entityType: AuditEntityType,
+  entityId: string,
+  fields: string[]
+): Promise<void> {
+  const events = await db.auditEvent.findMany({
+    where: { entityType, entityId },
+    select: { id: true, before: true, after: true },
+  });
+
+  const redact = (snapshot: Prisma.JsonValue) => {
+    if (!snapshot || typeof snapshot !== 'object' || Array.isArray(snapshot)) {
+      return snapshot ?? Prisma.DbNull;
+    }
+
+    return Object.fromEntries(
+      Object.entries(snapshot).filter(([key]) => !fields.includes(key))
+    ) as Prisma.InputJsonObject;
+  };
+
+  for (const event of events) {
+    await db.auditEvent.update({
+      where: { id: event.id },
+      data: { before: redact(event.before), after: redact(event.after) },
+    });
+  }
+}
+
+function toWhereInput(filter: AuditEventFilter): Prisma.AuditEventWhereInput {
+  return {
+    entityType: filter.entityType,
+    entityId: filter.entityId,
+    action: filter.action,
+    actorId: filter.actorId,
+    ...((filter.from || filter.to) && {
+      createdAt: { gte: filter.from, lte: filter.to },
+    }),
+  };
+}
+
+/**
+ * Audit events matching a filter, newest first
+ * Pass `take: undefined` to get every match, e.g. for an export.
+ */
+export async function getAuditEvents(filter: AuditEventFilter, skip: number = 0, take?: number) {
+  const where = toWhereInput(filter);
+
+  const [events, total] = await Promise.all([
+    prisma.auditEvent.findMany({
+      where,
+      include: {
+        actor: { select: { id: true, name: true, email: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      skip,
+      take,
+    }),
+    prisma.auditEvent.count({ where }),
+  ]);
+
+  return { events, total };
+}
@@ -4,10 +4,25 @@ import { NextAuthOptions } from 'next-auth';
 import CredentialsProvider from 'next-auth/providers/credentials';
 import { prisma } from './prisma';
 import { compare } from 'bcryptjs';
-import { UserRole, UserStatus } from '@prisma/client';
+import { LoginFailureReason, UserRole, UserStatus } from '@prisma/client';
 import { Permission } from './auth/rbac/types';
 import { enhanceSessionWithRBAC, getUserPermissions, getUserRoles } from './auth/rbac/auth-utils';
 import { JWT } from 'next-auth/jwt';
+import { EMAIL_NOT_VERIFIED_ERROR } from './auth/email-verification';
+import {
+  getLockoutMessage,
+  getLoginContext,
+  getLoginRetryAfter,
+  recordLoginFailure,
+  recordLoginSuccess,
+} from './auth/login-throttle';
+import { isSessionTokenActive, SESSION_REVOKED_ERROR } from './auth/session-revocation';
+import {
+  checkTwoFactor,
+  INVALID_TWO_FACTOR_CODE_ERROR,
+  TWO_FACTOR_REQUIRED_ERROR,
+  TWO_FACTOR_SETUP_REQUIRED_ERROR,
+} from './auth/two-factor';
 
 export const authOptions: NextAuthOptions = {
   session: {
@@ -22,16 +37,28 @@ export const authOptions: NextAuthOptions = {
       credentials: {
         email: { label: 'Email', type: 'email' },
         password: { label: 'Password', type: 'password' },
+        // Second step for accounts with two-factor authentication
+        totp: { label: 'Authentication code', type: 'text' },
       },
-      async authorize(credentials) {
+      async authorize(credentials, req) {
         if (!credentials?.email || !credentials?.password) {
           return null;
         }
 
-        // Find the user by email
-        const user = await prisma.user.findUnique({
+        const loginContext = getLoginContext(credentials.email, req?.headers);
+
+        // Refuse locked-out accounts and IPs before checking the password
+        const retryAfter = await getLoginRetryAfter(loginContext);
+        if (retryAfter > 0) {
+          await recordLoginFailure(loginContext, LoginFailureReason.LOCKED_OUT);
+          throw new Error(getLockoutMessage(retryAfter));
+        }
+
+        // Find the user by the same normalized email the throttle is keyed on; accounts
+        // created before emails were normalized may still be stored in mixed case
+        const user = await prisma.user.findFirst({
           where: {
-            email: credentials.email,
+            email: { equals: loginContext.email, mode: 'insensitive' },
           },
           include: {
             userRoles: {
@@ -43,19 +70,43 @@ export const authOptions: NextAuthOptions = {
         });
 
         if (!user) {
+          // Unknown emails count towards the lockout too, so it doesn't reveal which accounts exist
+          await recordLoginFailure(loginContext, LoginFailureReason.INVALID_CREDENTIALS);
           return null;
         }
 
-        if (user.status !== UserStatus.ACTIVE) {
-          return null; // Don't authenticate inactive users
-        }
-
         // Check if the password matches
         const passwordValid = await compare(credentials.password, user.passwordHash);
         if (!passwordValid) {
+          await recordLoginFailure(loginContext, LoginFailureReason.INVALID_CREDENTIALS, user.id);
           return null;
         }
 
+        // Checked after the password so the account state isn't revealed to strangers
+        if (user.status === UserStatus.PENDING_VERIFICATION) {
+          await recordLoginFailure(loginContext, LoginFailureReason.EMAIL_NOT_VERIFIED, user.id);
+          throw new Error(EMAIL_NOT_VERIFIED_ERROR);
+        }
+
+        if (user.status !== UserStatus.ACTIVE) {
+          await recordLoginFailure(loginContext, LoginFailureReason.ACCOUNT_INACTIVE, user.id);
+          return null; // Don't authenticate inactive users
+        }
+
+        const twoFactor = await checkTwoFactor(user, credentials.totp);
+        if (twoFactor === 'code-required') {
+          throw new Error(TWO_FACTOR_REQUIRED_ERROR);
+        }
+        if (twoFactor === 'setup-required') {
+          throw new Error(TWO_FACTOR_SETUP_REQUIRED_ERROR);
+        }
+        if (twoFactor === 'invalid-code') {
+          await recordLoginFailure(loginContext, LoginFailureReason.INVALID_TWO_FACTOR_CODE, user.id);
+          throw new Error(INVALID_TWO_FACTOR_CODE_ERROR);
+        }
+
+        await recordLoginSuccess(loginContext, user.id);
+
         // Get all user roles (primary role + additional roles)
         const userRoles = await getUserRoles(user.id);
         
@@ -69,7 +120,8 @@ export const authOptions: NextAuthOptions = {
           role: user.role,         // Primary role from the user model
           roles: userRoles.map(role => ({ role })), // Convert to { role: UserRole }[] format
           status: user.status,
-          permissions: permissions // Array of all permissions
+          permissions: permissions, // Array of all permissions
+          sessionVersion: user.sessionVersion
         };
       },
     }),
@@ -91,6 +143,13 @@ export const authOptions: NextAuthOptions = {
         
         token.status = user.status;
         token.permissions = user.permissions || [];
+        token.sessionVersion = user.sessionVersion ?? 0;
+        return token;
+      }
+
+      // Signs the user out if their sessions were revoked or the account was deactivated
+      if (!(await isSessionTokenActive(token))) {
+        throw new Error(SESSION_REVOKED_ERROR);
       }
       return token;
     },
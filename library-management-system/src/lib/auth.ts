@@ -1,8 +1,23 @@
 import { PrismaAdapter } from "@auth/prisma-adapter";
-import { PrismaClient, User as PrismaUser, UserRole } from "@prisma/client";
+import { LoginFailureReason, PrismaClient, UserRole } from "@prisma/client";
 import { AuthOptions, DefaultSession, User as NextAuthUser } from "next-auth";
 import CredentialsProvider from "next-auth/providers/credentials";
 import { compare } from "bcryptjs";
+import { EMAIL_NOT_VERIFIED_ERROR } from "./auth/email-verification";
+import {
+  getLockoutMessage,
+  getLoginContext,
+  getLoginRetryAfter,
+  recordLoginFailure,
+  recordLoginSuccess,
+} from "./auth/login-throttle";
+import { isSessionTokenActive, SESSION_REVOKED_ERROR } from "./auth/session-revocation";
+import {
+  checkTwoFactor,
+  INVALID_TWO_FACTOR_CODE_ERROR,
+  TWO_FACTOR_REQUIRED_ERROR,
+  TWO_FACTOR_SETUP_REQUIRED_ERROR,
+} from "./auth/two-factor";
 
 const prisma = new PrismaClient();
 
@@ -24,6 +39,7 @@ declare module "next-auth" {
     role: UserRole;
     status: string;
     permissions?: string[];
+    sessionVersion?: number;
   }
 }
 
@@ -32,6 +48,7 @@ declare module "next-auth/jwt" {
     id: string;
     role: UserRole;
     status: string;
+    sessionVersion?: number;
   }
 }
 
@@ -51,27 +68,50 @@ export const authOptions: AuthOptions = {
       credentials: {
         email: { label: "Email", type: "email" },
         password: { label: "Password", type: "password" },
+        // Second step for accounts with two-factor authentication
+        totp: { label: "Authentication code", type: "text" },
       },
-      async authorize(credentials): Promise<NextAuthUser | null> {
+      async authorize(credentials, req): Promise<NextAuthUser | null> {
         if (!credentials?.email || !credentials?.password) {
           throw new Error("Please enter your email and password");
         }
 
-        const user = await prisma.user.findUnique({
-          where: { email: credentials.email },
+        const loginContext = getLoginContext(credentials.email, req?.headers);
+
+        // Refuse locked-out accounts and IPs before checking the password
+        const retryAfter = await getLoginRetryAfter(loginContext);
+        if (retryAfter > 0) {
+          await recordLoginFailure(loginContext, LoginFailureReason.LOCKED_OUT);
+          throw new Error(getLockoutMessage(retryAfter));
+        }
+
+        // Find the user by the same normalized email the throttle is keyed on; accounts
+        // created before emails were normalized may still be stored in mixed case
+        const user = await prisma.user.findFirst({
+          where: {
+            email: { equals: loginContext.email, mode: "insensitive" },
+          },
         });
 
         if (!user || !user.passwordHash) {
+          await recordLoginFailure(loginContext, LoginFailureReason.INVALID_CREDENTIALS, user?.id);
           throw new Error("Invalid email or password");
         }
 
         const isPasswordValid = await compare(credentials.password, user.passwordHash);
 
         if (!isPasswordValid) {
+          await recordLoginFailure(loginContext, LoginFailureReason.INVALID_CREDENTIALS, user.id);
           throw new Error("Invalid email or password");
         }
 
+        if (user.status === 'PENDING_VERIFICATION') {
+          await recordLoginFailure(loginContext, LoginFailureReason.EMAIL_NOT_VERIFIED, user.id);
+          throw new Error(EMAIL_NOT_VERIFIED_ERROR);
+        }
+
         if (user.status !== 'ACTIVE') {
+          await recordLoginFailure(loginContext, LoginFailureReason.ACCOUNT_INACTIVE, user.id);
           throw new Error("Your account is not active. Please contact support.");
         }
 
@@ -80,12 +120,27 @@ export const authOptions: AuthOptions = {
           throw new Error("User data is incomplete");
         }
 
+        const twoFactor = await checkTwoFactor(user, credentials.totp);
+        if (twoFactor === "code-required") {
+          throw new Error(TWO_FACTOR_REQUIRED_ERROR);
+        }
+        if (twoFactor === "setup-required") {
+          throw new Error(TWO_FACTOR_SETUP_REQUIRED_ERROR);
+        }
+        if (twoFactor === "invalid-code") {
+          await recordLoginFailure(loginContext, LoginFailureReason.INVALID_TWO_FACTOR_CODE, user.id);
+          throw new Error(INVALID_TWO_FACTOR_CODE_ERROR);
+        }
+
+        await recordLoginSuccess(loginContext, user.id);
+
         return {
           id: user.id,
           email: user.email,
           name: user.name || '',
           role: user.role,
           status: user.status,
+          sessionVersion: user.sessionVersion,
         } as NextAuthUser;
       },
     }),
@@ -103,8 +158,14 @@ export const authOptions: AuthOptions = {
           id: user.id,
           role: user.role,
           status: user.status,
+          sessionVersion: user.sessionVersion ?? 0,
         };
       }
+
+      // Signs the user out if their sessions were revoked or the account was deactivated
+      if (!(await isSessionTokenActive(token))) {
+        throw new Error(SESSION_REVOKED_ERROR);
+      }
       return token;
     },
     async session({ session, token }) {
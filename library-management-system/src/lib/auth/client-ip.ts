@@ -0,0 +1,25 @@
+// Proxies in front of the app that append the address they saw to x-forwarded-for
+// (e.g. a load balancer). Entries left of theirs come from the client and can be forged.
+const TRUSTED_PROXY_COUNT = parseInt(process.env.TRUSTED_PROXY_COUNT || '1', 10);
+
+/**
+ * Client IP from the proxy headers. Only the x-forwarded-for entry added by the
+ * outermost trusted proxy is used, so a client can't pick its own address by
+ * sending the header. With no trusted proxies the headers are ignored.
+ */
+export function getClientIp(
+  forwardedFor: string | null | undefined,
+  realIp: string | null | undefined
+): string | null {
+  if (TRUSTED_PROXY_COUNT <= 0) {
+    return null;
+  }
+
+  const hops = forwardedFor?.split(',').map((hop) => hop.trim()).filter(Boolean) ?? [];
+
+  if (hops.length > 0) {
+    return hops[Math.max(0, hops.length - TRUSTED_PROXY_COUNT)];
+  }
+
+  return realIp || null;
+}
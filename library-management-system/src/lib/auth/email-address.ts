@@ -0,0 +1,8 @@
+/**
+ * Email addresses as stored on accounts and used as the sign-in throttle key.
+ * Every lookup, write and throttle entry goes through this, so "Ann@Example.com"
+ * and "ann@example.com" are the same account everywhere.
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
@@ -0,0 +1,203 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { addHours, subHours } from 'date-fns';
+import { UserStatus } from '@prisma/client';
+import { prisma } from '../prisma';
+import { EmailService } from '../email/service';
+import emailVerificationTemplate from '../email/templates/email-verification';
+
+const randomBytesAsync = promisify(randomBytes);
+
+export const VERIFICATION_TOKEN_EXPIRY_HOURS = 24;
+
+// Resend throttling: a short cooldown between emails plus an hourly cap
+export const VERIFICATION_RESEND_COOLDOWN_SECONDS = 60;
+export const VERIFICATION_MAX_SENDS_PER_HOUR = 5;
+
+// Shown by the sign-in forms when the credentials are right but the account is unverified
+export const EMAIL_NOT_VERIFIED_ERROR = 'Please verify your email address before signing in. Check your inbox for the verification link.';
+
+export type EmailVerificationResult = 'verified' | 'already-verified' | 'expired' | 'invalid';
+
+/**
+ * Sign a token with the application secret so tampered links are rejected
+ * before the database is consulted
+ */
+function signToken(token: string): string {
+  const secret = process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error('NEXTAUTH_SECRET must be set to sign verification tokens');
+  }
+
+  return createHmac('sha256', secret).update(token).digest('base64url');
+}
+
+/**
+ * Split a `<token>.<signature>` link value and check its signature
+ * @returns The stored token, or null if the value is malformed or the signature is wrong
+ */
+function readSignedToken(value: string): string | null {
+  const [token, signature, ...rest] = value.split('.');
+  if (!token || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(signToken(token));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  return token;
+}
+
+/**
+ * Create an email verification token for a user
+ * Any earlier tokens are invalidated so only the latest link works.
+ * @param userId ID of the user to verify
+ * @returns The signed token to put in the verification link, and when it expires
+ */
+export async function createEmailVerificationToken(userId: string): Promise<{ token: string; expiresAt: Date }> {
+  const buffer = await randomBytesAsync(32);
+  const token = buffer.toString('base64url');
+  const expiresAt = addHours(new Date(), VERIFICATION_TOKEN_EXPIRY_HOURS);
+
+  await prisma.$transaction([
+    prisma.emailVerificationToken.updateMany({
+      where: { userId, used: false },
+      data: { used: true },
+    }),
+    prisma.emailVerificationToken.create({
+      data: {
+        token,
+        expiresAt,
+        userId,
+      },
+    }),
+  ]);
+
+  return { token: `${token}.${signToken(token)}`, expiresAt };
+}
+
+/**
+ * Verify a signed token from a verification link and activate the account
+ * @param signedToken The `token` query parameter from the link
+ * @returns What happened, so the caller can show the right message
+ */
+export async function verifyEmailToken(signedToken: string): Promise<EmailVerificationResult> {
+  const token = readSignedToken(signedToken);
+  if (!token) {
+    return 'invalid';
+  }
+
+  const verificationToken = await prisma.emailVerificationToken.findUnique({
+    where: { token },
+    select: {
+      id: true,
+      expiresAt: true,
+      used: true,
+      user: {
+        select: {
+          id: true,
+          status: true,
+        },
+      },
+    },
+  });
+
+  if (!verificationToken) {
+    return 'invalid';
+  }
+
+  const { user } = verificationToken;
+
+  // Clicking the link a second time is harmless
+  if (user.status === UserStatus.ACTIVE) {
+    return 'already-verified';
+  }
+
+  // Verification never re-activates suspended or inactive accounts
+  if (user.status !== UserStatus.PENDING_VERIFICATION || verificationToken.used) {
+    return 'invalid';
+  }
+
+  if (verificationToken.expiresAt < new Date()) {
+    return 'expired';
+  }
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: user.id },
+      data: { status: UserStatus.ACTIVE },
+    }),
+    prisma.emailVerificationToken.updateMany({
+      where: { userId: user.id, used: false },
+      data: { used: true },
+    }),
+  ]);
+
+  return 'verified';
+}
+
+/**
+ * Check whether another verification email may be sent to a user
+ * @returns The number of seconds to wait, or 0 if an email can be sent now
+ */
+export async function getVerificationRetryAfter(userId: string): Promise<number> {
+  const now = new Date();
+  const recentTokens = await prisma.emailVerificationToken.findMany({
+    where: {
+      userId,
+      createdAt: { gte: subHours(now, 1) },
+    },
+    select: { createdAt: true },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  if (recentTokens.length === 0) {
+    return 0;
+  }
+
+  const secondsSince = (date: Date) => Math.floor((now.getTime() - date.getTime()) / 1000);
+
+  // Hourly cap reached: wait until the oldest send in the window drops out
+  if (recentTokens.length >= VERIFICATION_MAX_SENDS_PER_HOUR) {
+    const oldest = recentTokens[recentTokens.length - 1];
+    return Math.max(3600 - secondsSince(oldest.createdAt), 1);
+  }
+
+  return Math.max(VERIFICATION_RESEND_COOLDOWN_SECONDS - secondsSince(recentTokens[0].createdAt), 0);
+}
+
+/**
+ * Issue a new verification token and email the link to the user
+ * @returns Whether the email was sent
+ */
+export async function sendVerificationEmail(user: { id: string; name: string | null; email: string }): Promise<boolean> {
+  const { token, expiresAt } = await createEmailVerificationToken(user.id);
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+  const verificationUrl = `${appUrl}/api/auth/verify-email?token=${encodeURIComponent(token)}`;
+
+  const result = await new EmailService().sendTemplatedEmail(
+    emailVerificationTemplate,
+    {
+      user: {
+        id: user.id,
+        name: user.name || '',
+        email: user.email,
+      },
+      verificationUrl,
+      expiresAt,
+    },
+    {
+      to: user.email,
+      subject: 'Verify your email address',
+    }
+  );
+
+  if (!result.success) {
+    console.error(`Failed to send verification email to user ${user.id}:`, result.error);
+  }
+
+  return result.success;
+}
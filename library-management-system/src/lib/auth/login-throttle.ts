@@ -0,0 +1,226 @@
+import { addSeconds, subHours } from 'date-fns';
+import { LoginFailureReason, LoginThrottleScope } from '@prisma/client';
+import { prisma } from '../prisma';
+import { getClientIp } from './client-ip';
+import { normalizeEmail } from './email-address';
+
+interface ThrottlePolicy {
+  // Failures allowed before the first lockout
+  maxAttempts: number;
+  // First lockout; doubles with every further failure
+  baseLockoutSeconds: number;
+  maxLockoutSeconds: number;
+}
+
+// IPs get more room than accounts since several members may share one (e.g. library terminals)
+const THROTTLE_POLICIES: Record<LoginThrottleScope, ThrottlePolicy> = {
+  [LoginThrottleScope.ACCOUNT]: {
+    maxAttempts: 5,
+    baseLockoutSeconds: 60,
+    maxLockoutSeconds: 60 * 60,
+  },
+  [LoginThrottleScope.IP]: {
+    maxAttempts: 20,
+    baseLockoutSeconds: 60,
+    maxLockoutSeconds: 24 * 60 * 60,
+  },
+};
+
+// Failure counters start over after this long without a failed attempt
+const FAILURE_RESET_HOURS = 24;
+
+export interface LoginContext {
+  email: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+/**
+ * Build the sign-in context from the credentials and request headers passed to `authorize`
+ */
+export function getLoginContext(
+  email: string,
+  headers?: Record<string, string | string[] | undefined>
+): LoginContext {
+  const header = (name: string) => {
+    const value = headers?.[name];
+    return Array.isArray(value) ? value[0] : value;
+  };
+
+  return {
+    email: normalizeEmail(email),
+    ipAddress: getClientIp(header('x-forwarded-for'), header('x-real-ip')),
+    userAgent: header('user-agent') || null,
+  };
+}
+
+/**
+ * Lockout length after a given number of consecutive failures, or 0 if not locked
+ */
+function getLockoutSeconds(policy: ThrottlePolicy, failedAttempts: number): number {
+  if (failedAttempts < policy.maxAttempts) {
+    return 0;
+  }
+
+  const lockout = policy.baseLockoutSeconds * 2 ** (failedAttempts - policy.maxAttempts);
+  return Math.min(lockout, policy.maxLockoutSeconds);
+}
+
+type ThrottleKey = { scope: LoginThrottleScope; key: string };
+
+function getThrottleKeys(context: LoginContext): ThrottleKey[] {
+  const keys: ThrottleKey[] = [{ scope: LoginThrottleScope.ACCOUNT, key: context.email }];
+  if (context.ipAddress) {
+    keys.push({ scope: LoginThrottleScope.IP, key: context.ipAddress });
+  }
+  return keys;
+}
+
+/**
+ * Check whether the account or the client IP is currently locked out
+ * @returns Seconds until sign-in is allowed again, or 0 if it is allowed now
+ */
+export async function getLoginRetryAfter(context: LoginContext): Promise<number> {
+  const now = new Date();
+  const locks = await prisma.loginThrottle.findMany({
+    where: {
+      OR: getThrottleKeys(context),
+      lockedUntil: { gt: now },
+    },
+    select: { lockedUntil: true },
+  });
+
+  return locks.reduce((longest, lock) => {
+    const remaining = Math.ceil((lock.lockedUntil!.getTime() - now.getTime()) / 1000);
+    return Math.max(longest, remaining);
+  }, 0);
+}
+
+/**
+ * Message shown on the sign-in form while locked out
+ */
+export function getLockoutMessage(retryAfterSeconds: number): string {
+  const minutes = Math.ceil(retryAfterSeconds / 60);
+  return `Too many failed sign-in attempts. Please try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`;
+}
+
+/**
+ * Count a failed attempt against a throttle key and lock it once the limit is reached
+ */
+async function registerFailure(scope: LoginThrottleScope, key: string, now: Date): Promise<void> {
+  // Forget old failures so a typo weeks ago doesn't count towards today's lockout
+  await prisma.loginThrottle.updateMany({
+    where: {
+      scope,
+      key,
+      lastFailedAt: { lt: subHours(now, FAILURE_RESET_HOURS) },
+    },
+    data: { failedAttempts: 0, lockedUntil: null },
+  });
+
+  const throttle = await prisma.loginThrottle.upsert({
+    where: { scope_key: { scope, key } },
+    create: {
+      scope,
+      key,
+      failedAttempts: 1,
+      lastFailedAt: now,
+    },
+    update: {
+      failedAttempts: { increment: 1 },
+      lastFailedAt: now,
+    },
+  });
+
+  const lockoutSeconds = getLockoutSeconds(THROTTLE_POLICIES[scope], throttle.failedAttempts);
+  if (lockoutSeconds > 0) {
+    await prisma.loginThrottle.update({
+      where: { id: throttle.id },
+      data: { lockedUntil: addSeconds(now, lockoutSeconds) },
+    });
+  }
+}
+
+// Failures that look like guessing; other rejections are only logged
+const COUNTED_FAILURE_REASONS: LoginFailureReason[] = [
+  LoginFailureReason.INVALID_CREDENTIALS,
+  LoginFailureReason.INVALID_TWO_FACTOR_CODE,
+];
+
+/**
+ * Record a failed sign-in. Only wrong passwords and authentication codes count
+ * towards a lockout; attempts rejected for other reasons are just logged.
+ */
+export async function recordLoginFailure(
+  context: LoginContext,
+  reason: LoginFailureReason,
+  userId: string | null = null
+): Promise<void> {
+  const now = new Date();
+
+  if (COUNTED_FAILURE_REASONS.includes(reason)) {
+    for (const { scope, key } of getThrottleKeys(context)) {
+      await registerFailure(scope, key, now);
+    }
+  }
+
+  await prisma.loginEvent.create({
+    data: {
+      userId,
+      email: context.email,
+      success: false,
+      failureReason: reason,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      createdAt: now,
+    },
+  });
+}
+
+/**
+ * Record a successful sign-in and clear the account's failure count
+ * The IP counter is left alone so one valid account can't be used to reset it.
+ */
+export async function recordLoginSuccess(context: LoginContext, userId: string): Promise<void> {
+  await prisma.$transaction([
+    prisma.loginThrottle.deleteMany({
+      where: { scope: LoginThrottleScope.ACCOUNT, key: context.email },
+    }),
+    prisma.loginEvent.create({
+      data: {
+        userId,
+        email: context.email,
+        success: true,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      },
+    }),
+  ]);
+}
+
+/**
+ * Get the lockout state of an account for display to staff
+ */
+export async function getAccountLockout(email: string): Promise<{ failedAttempts: number; lockedUntil: Date | null }> {
+  const throttle = await prisma.loginThrottle.findUnique({
+    where: { scope_key: { scope: LoginThrottleScope.ACCOUNT, key: normalizeEmail(email) } },
+    select: { failedAttempts: true, lockedUntil: true },
+  });
+
+  return {
+    failedAttempts: throttle?.failedAttempts ?? 0,
+    lockedUntil: throttle?.lockedUntil && throttle.lockedUntil > new Date() ? throttle.lockedUntil : null,
+  };
+}
+
+/**
+ * Lift an account lockout and reset its failure count
+ * @returns Whether there was anything to clear
+ */
+export async function unlockAccount(email: string): Promise<boolean> {
+  const { count } = await prisma.loginThrottle.deleteMany({
+    where: { scope: LoginThrottleScope.ACCOUNT, key: normalizeEmail(email) },
+  });
+
+  return count > 0;
+}
@@ -0,0 +1,302 @@
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { UserRole } from '@prisma/client';
+import { roleDefinitions } from './rbac/roles';
+import { Action, POLICIES, Principal, can, getOwnerScope } from './policy';
+
+const { ADMIN, LIBRARIAN, MEMBER, USER } = UserRole;
+const EVERYONE = [ADMIN, LIBRARIAN, MEMBER, USER];
+const STAFF = [ADMIN, LIBRARIAN];
+
+interface Expectation {
+  // Roles that may perform the action on their own records
+  roles: UserRole[];
+  // Roles that may act on other users' records; omitted when ownership doesn't matter
+  others?: UserRole[];
+}
+
+// What each role may do with its default permissions. Spelled out rather than derived
+// from POLICIES, so a change to a rule or a role shows up here as a failing case.
+const EXPECTED: Record<Action, Expectation> = {
+  'account:manage': { roles: EVERYONE },
+  'file:upload': { roles: EVERYONE },
+  'file:delete': { roles: EVERYONE },
+
+  'book:read': { roles: EVERYONE },
+  'book:create': { roles: STAFF },
+  'book:update': { roles: STAFF },
+  'book:delete': { roles: STAFF },
+  'category:manage': { roles: STAFF },
+
+  'transaction:read': { roles: [ADMIN, LIBRARIAN, MEMBER], others: STAFF },
+  'transaction:create': { roles: STAFF },
+  'transaction:update': { roles: STAFF },
+  'transaction:override': { roles: [ADMIN] },
+  'transaction:renew': { roles: EVERYONE, others: STAFF },
+
+  'fine:read': { roles: [ADMIN, LIBRARIAN, MEMBER], others: STAFF },
+  'fine:pay': { roles: STAFF },
+  'fine:waive': { roles: [ADMIN] },
+
+  'reservation:read': { roles: [ADMIN, LIBRARIAN, MEMBER], others: STAFF },
+  'reservation:create': { roles: [ADMIN, LIBRARIAN, MEMBER], others: STAFF },
+  'reservation:update': { roles: [ADMIN, LIBRARIAN, MEMBER], others: STAFF },
+  'reservation:manage': { roles: STAFF },
+  'reservation:delete': { roles: EVERYONE, others: STAFF },
+  'reservation:expire': { roles: STAFF },
+
+  'circulation-policy:read': { roles: [ADMIN, LIBRARIAN, MEMBER] },
+  'circulation-policy:manage': { roles: [ADMIN] },
+
+  'member:read': { roles: STAFF },
+  'member:create': { roles: [ADMIN] },
+  'member:update': { roles: [ADMIN] },
+  'member:delete': { roles: [ADMIN] },
+  'member:export': { roles: [ADMIN] },
+  'member:activity': { roles: EVERYONE, others: STAFF },
+  'role:manage': { roles: [ADMIN] },
+
+  'report:view': { roles: STAFF },
+  'dashboard:read': { roles: STAFF },
+  'dashboard:popular-books': { roles: EVERYONE },
+  'event:stream': { roles: EVERYONE },
+  'notification:manage': { roles: STAFF },
+  'job:manage': { roles: [ADMIN] },
+  'job-run:read': { roles: STAFF },
+  'security:manage': { roles: [ADMIN] },
+  'audit:read': { roles: [ADMIN] },
+  'audit:history': { roles: STAFF },
+};
+
+// The actions each API handler passes to `authorize`; an empty list marks a public
+// endpoint. Checked against the route files, so a new or changed route shows up here.
+const ROUTE_ACTIONS: Record<string, Action[]> = {
+  'GET /api/audit-events': ['audit:history', 'audit:read'],
+  'POST /api/auth/forgot-password': [],
+  'POST /api/auth/register': [],
+  'POST /api/auth/reset-password': [],
+  'GET /api/auth/reset-password': [],
+  'GET /api/auth/session-status': [],
+  'POST /api/auth/two-factor/setup': [],
+  'POST /api/auth/verify-email/resend': [],
+  'GET /api/auth/verify-email': [],
+  'PATCH /api/books/[id]/copies/[copyId]': ['book:update'],
+  'DELETE /api/books/[id]/copies/[copyId]': ['book:delete'],
+  'GET /api/books/[id]/copies': ['book:read'],
+  'POST /api/books/[id]/copies': ['book:create'],
+  'GET /api/books/[id]': ['book:read'],
+  'PUT /api/books/[id]': ['book:update'],
+  'DELETE /api/books/[id]': ['book:delete'],
+  'GET /api/books/[id]/status': ['book:read'],
+  'PATCH /api/books/[id]/status': ['book:update'],
+  'POST /api/books/categories/[id]/merge': ['category:manage'],
+  'PATCH /api/books/categories/[id]': ['category:manage'],
+  'DELETE /api/books/categories/[id]': ['category:manage'],
+  'GET /api/books/categories': ['book:read'],
+  'POST /api/books/categories': ['category:manage'],
+  'GET /api/books': ['book:read'],
+  'POST /api/books': ['book:create'],
+  'POST /api/books/tags/[id]/merge': ['category:manage'],
+  'PATCH /api/books/tags/[id]': ['category:manage'],
+  'DELETE /api/books/tags/[id]': ['category:manage'],
+  'GET /api/books/tags': ['book:read'],
+  'POST /api/books/tags': ['category:manage'],
+  'POST /api/borrowings/[id]/return': ['transaction:update'],
+  'GET /api/borrowings': ['transaction:read'],
+  'POST /api/borrowings': ['transaction:create'],
+  'PATCH /api/circulation-policies/[id]': ['circulation-policy:manage'],
+  'DELETE /api/circulation-policies/[id]': ['circulation-policy:manage'],
+  'GET /api/circulation-policies': ['circulation-policy:read'],
+  'POST /api/circulation-policies': ['circulation-policy:manage'],
+  'GET /api/dashboard/active-members': ['dashboard:read'],
+  'GET /api/dashboard/activities': ['dashboard:read'],
+  'GET /api/dashboard/books-checked-out': ['dashboard:read'],
+  'GET /api/dashboard/overdue-books': ['dashboard:read'],
+  'GET /api/dashboard/popular-books': ['dashboard:popular-books'],
+  'GET /api/events': ['event:stream'],
+  'DELETE /api/files/[path]': ['file:delete'],
+  'POST /api/fines/[id]/payments': ['fine:pay'],
+  'GET /api/fines/[id]': ['fine:read'],
+  'POST /api/fines/[id]/waive': ['fine:waive'],
+  'GET /api/fines': ['fine:read'],
+  'PATCH /api/jobs/[id]': ['job:manage'],
+  'GET /api/jobs/[id]/runs': ['job:manage'],
+  'POST /api/jobs/[id]/runs': ['job:manage'],
+  'GET /api/jobs': ['job:manage'],
+  'GET /api/jobs/runs': ['job-run:read'],
+  'GET /api/members/[id]/activity': ['member:activity'],
+  'POST /api/members/[id]/anonymize': ['member:delete'],
+  'POST /api/members/[id]/card': ['member:update'],
+  'GET /api/members/[id]/export': ['member:export'],
+  'GET /api/members/[id]/roles': ['role:manage'],
+  'PUT /api/members/[id]/roles': ['role:manage'],
+  'GET /api/members/[id]': ['member:read'],
+  'PATCH /api/members/[id]': ['member:update'],
+  'DELETE /api/members/[id]': ['member:delete'],
+  'PATCH /api/members/[id]/status': ['member:update'],
+  'POST /api/members/[id]/unlock': ['member:update'],
+  'GET /api/members': ['member:read'],
+  'POST /api/members': ['member:create'],
+  'POST /api/notifications/outbox/[id]/resend': ['notification:manage'],
+  'GET /api/notifications/outbox/[id]': ['notification:manage'],
+  'GET /api/notifications/outbox': ['notification:manage'],
+  'POST /api/notifications': ['notification:manage'],
+  'GET /api/notifications': ['notification:manage'],
+  'GET /api/reports/fines': ['report:view'],
+  'GET /api/reports/inventory/circulation': ['report:view'],
+  'GET /api/reports/inventory/maintenance': ['report:view'],
+  'GET /api/reports/inventory': ['report:view'],
+  'GET /api/reports/transactions': ['report:view'],
+  'GET /api/reservations/[id]': ['reservation:read'],
+  'PATCH /api/reservations/[id]': ['reservation:update'],
+  'DELETE /api/reservations/[id]': ['reservation:delete'],
+  'GET /api/reservations/expired': ['reservation:read'],
+  'POST /api/reservations/expired': ['reservation:expire'],
+  'GET /api/reservations/queue': ['reservation:read'],
+  'GET /api/reservations': ['reservation:read'],
+  'POST /api/reservations': ['reservation:create'],
+  'GET /api/roles/[name]': ['role:manage'],
+  'PATCH /api/roles/[name]': ['role:manage'],
+  'DELETE /api/roles/[name]': ['role:manage'],
+  'GET /api/roles': ['role:manage'],
+  'POST /api/roles': ['role:manage'],
+  'GET /api/roles/two-factor': ['security:manage'],
+  'PATCH /api/roles/two-factor': ['security:manage'],
+  'POST /api/transactions/[id]/renew': ['transaction:renew'],
+  'GET /api/transactions/[id]': ['transaction:read'],
+  'PATCH /api/transactions/[id]': ['transaction:update'],
+  'DELETE /api/transactions/[id]': [],
+  'GET /api/transactions/overdue': ['transaction:read'],
+  'POST /api/transactions/overdue': ['transaction:update'],
+  'POST /api/transactions/return': ['transaction:update'],
+  'GET /api/transactions': ['transaction:read'],
+  'POST /api/transactions': ['transaction:create'],
+  'POST /api/upload': ['file:upload'],
+  'GET /api/users/activity': ['account:manage'],
+  'POST /api/users/change-password': ['account:manage'],
+  'DELETE /api/users/delete-account': ['account:manage'],
+  'GET /api/users/export': ['account:manage'],
+  'GET /api/users/fines': ['account:manage'],
+  'GET /api/users/notification-preferences': ['account:manage'],
+  'PUT /api/users/notification-preferences': ['account:manage'],
+  'GET /api/users/profile': ['account:manage'],
+  'PATCH /api/users/profile': ['account:manage'],
+  'DELETE /api/users/sessions': ['account:manage'],
+  'POST /api/users/two-factor/disable': ['account:manage'],
+  'POST /api/users/two-factor/enable': ['account:manage'],
+  'POST /api/users/two-factor/recovery-codes': ['account:manage'],
+  'GET /api/users/two-factor': ['account:manage'],
+  'POST /api/users/two-factor': ['account:manage'],
+};
+
+const API_DIR = path.join(__dirname, '../../app/api');
+const HANDLER = /export\s+async\s+function\s+(GET|POST|PUT|PATCH|DELETE)\b/g;
+
+// Reads the actions each exported handler authorizes, e.g. { 'GET /api/books': ['book:read'] }
+function readRouteActions(dir: string = API_DIR): Record<string, string[]> {
+  const routes: Record<string, string[]> = {};
+
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    const file = path.join(dir, entry.name);
+
+    if (entry.isDirectory()) {
+      Object.assign(routes, readRouteActions(file));
+      continue;
+    }
+    if (entry.name !== 'route.ts') {
+      continue;
+    }
+
+    const source = readFileSync(file, 'utf8');
+    const route = '/api/' + path.relative(API_DIR, dir).split(path.sep).join('/');
+    const handlers = [...source.matchAll(HANDLER)];
+
+    handlers.forEach((handler, index) => {
+      const body = source.slice(handler.index, handlers[index + 1]?.index);
+      const actions = [...body.matchAll(/authorize\(([^)]*)\)/g)].flatMap((call) =>
+        [...call[1].matchAll(/["']([a-z-]+:[a-z-]+)["']/g)].map((match) => match[1])
+      );
+      routes[`${handler[1]} ${route.replace(/\/$/, '')}`] = [...new Set(actions)];
+    });
+  }
+
+  return routes;
+}
+
+function principalFor(role: UserRole): Principal {
+  return {
+    id: `${role.toLowerCase()}-1`,
+    name: role,
+    role,
+    permissions: roleDefinitions[role].permissions,
+  };
+}
+
+const cases = (Object.keys(POLICIES) as Action[]).flatMap((action) =>
+  EVERYONE.map((role) => {
+    const { roles, others = EVERYONE } = EXPECTED[action];
+    const allowed = roles.includes(role);
+    const seesEveryone = others.includes(role);
+    return { action, role, allowed, allowedOnOthers: allowed && seesEveryone, seesEveryone };
+  })
+);
+
+describe('POLICIES', () => {
+  it('has an expectation for every action', () => {
+    expect(Object.keys(EXPECTED).sort()).toEqual(Object.keys(POLICIES).sort());
+  });
+
+  describe.each(cases)('$action as $role', ({ action, role, allowed, allowedOnOthers, seesEveryone }) => {
+    const principal = principalFor(role);
+
+    it(allowed ? 'is allowed' : 'is denied', () => {
+      expect(can(principal, action)).toBe(allowed);
+    });
+
+    it(`${allowed ? 'may' : 'may not'} act on their own records`, () => {
+      expect(can(principal, action, { ownerId: principal.id })).toBe(allowed);
+    });
+
+    it(`${allowedOnOthers ? 'may' : 'may not'} act on other users' records`, () => {
+      expect(can(principal, action, { ownerId: 'someone-else' })).toBe(allowedOnOthers);
+      expect(can(principal, action, { ownerId: null })).toBe(allowedOnOthers);
+    });
+
+    it(`lists ${seesEveryone ? "everyone's" : 'only their own'} records`, () => {
+      expect(getOwnerScope(principal, action)).toBe(seesEveryone ? undefined : principal.id);
+    });
+  });
+});
+
+const routeCases = Object.entries(ROUTE_ACTIONS)
+  .filter(([, actions]) => actions.length > 0)
+  .flatMap(([route, actions]) =>
+    EVERYONE.map((role) => {
+      // Handlers with more than one action authorize whichever fits the request
+      const allowed = actions.some((action) => EXPECTED[action].roles.includes(role));
+      const allowedOnOthers = actions.some((action) => {
+        const { roles, others = EVERYONE } = EXPECTED[action];
+        return roles.includes(role) && others.includes(role);
+      });
+      return { route, actions, role, allowed, allowedOnOthers };
+    })
+  );
+
+describe('API routes', () => {
+  it('authorize the actions listed for them', () => {
+    expect(readRouteActions()).toEqual(ROUTE_ACTIONS);
+  });
+
+  describe.each(routeCases)('$route as $role', ({ actions, role, allowed, allowedOnOthers }) => {
+    const principal = principalFor(role);
+
+    it(allowed ? 'is allowed' : 'is denied', () => {
+      expect(actions.some((action) => can(principal, action))).toBe(allowed);
+    });
+
+    it(`${allowedOnOthers ? 'may' : 'may not'} act on other users' records`, () => {
+      expect(actions.some((action) => can(principal, action, { ownerId: 'someone-else' }))).toBe(allowedOnOthers);
+    });
+  });
+});
@@ -0,0 +1,232 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { UserRole } from '@prisma/client';
+import { authOptions } from '../auth-options';
+import { Permission } from './rbac/types';
+
+/**
+ * Authorization policy for the API. Every route names the action it performs and
+ * calls `authorize`; what each action needs is defined here and nowhere else.
+ *
+ * An action is allowed when the user holds one of its `permissions` (or the action
+ * has none, in which case any signed-in user may perform it). Actions on records
+ * that belong to a member (loans, fines, reservations) may also have
+ * `othersPermissions`: without one of those, users may only act on their own records.
+ */
+export interface PolicyRule {
+  // Completes "You don't have permission to ..."
+  description: string;
+  // Any one of these allows the action; omit to allow any signed-in user
+  permissions?: Permission[];
+  // Any one of these allows acting on other users' records; omit if ownership doesn't matter
+  othersPermissions?: Permission[];
+}
+
+// Staff who work with every member's records; members only see their own
+const STAFF = [Permission.USER_READ];
+
+export const POLICIES = {
+  // Own account (profile, password, two-factor, sessions, notifications)
+  'account:manage': { description: 'manage this account' },
+  // Book covers and profile pictures
+  'file:upload': { description: 'upload files' },
+  'file:delete': { description: 'delete files' },
+
+  'book:read': { description: 'view books', permissions: [Permission.BOOK_READ] },
+  'book:create': { description: 'add books', permissions: [Permission.BOOK_CREATE] },
+  'book:update': { description: 'update books', permissions: [Permission.BOOK_UPDATE] },
+  'book:delete': { description: 'delete books', permissions: [Permission.BOOK_DELETE] },
+  'category:manage': {
+    description: 'manage categories and tags',
+    permissions: [Permission.BOOK_MANAGE_CATEGORIES],
+  },
+
+  'transaction:read': {
+    description: 'view transactions',
+    permissions: [Permission.TRANSACTION_READ],
+    othersPermissions: STAFF,
+  },
+  'transaction:create': { description: 'create transactions', permissions: [Permission.TRANSACTION_CREATE] },
+  'transaction:update': { description: 'update transactions', permissions: [Permission.TRANSACTION_UPDATE] },
+  'transaction:override': {
+    description: 'override borrowing limits',
+    permissions: [Permission.TRANSACTION_OVERRIDE],
+  },
+  // Members can renew their own loans, librarians and admins can renew any
+  'transaction:renew': {
+    description: 'renew this loan',
+    othersPermissions: [Permission.TRANSACTION_UPDATE],
+  },
+
+  'fine:read': {
+    description: 'view fines',
+    permissions: [Permission.TRANSACTION_READ],
+    othersPermissions: STAFF,
+  },
+  'fine:pay': { description: 'record payments', permissions: [Permission.TRANSACTION_UPDATE] },
+  'fine:waive': { description: 'waive fines', permissions: [Permission.TRANSACTION_OVERRIDE] },
+
+  'reservation:read': {
+    description: 'view reservations',
+    permissions: [Permission.RESERVATION_READ],
+    othersPermissions: STAFF,
+  },
+  // Members place holds in their own name, staff for anyone at the desk
+  'reservation:create': {
+    description: 'create reservations',
+    permissions: [Permission.RESERVATION_CREATE],
+    othersPermissions: STAFF,
+  },
+  'reservation:update': {
+    description: 'update this reservation',
+    permissions: [Permission.RESERVATION_UPDATE],
+    othersPermissions: STAFF,
+  },
+  // Anything beyond cancelling: setting a copy aside, expiry dates and notes
+  'reservation:manage': {
+    description: 'change the status, expiry date or notes of reservations',
+    permissions: STAFF,
+  },
+  // Members can cancel their own reservations
+  'reservation:delete': {
+    description: 'cancel this reservation',
+    othersPermissions: [Permission.RESERVATION_DELETE],
+  },
+  // Expires holds library-wide and passes their copies on, like the other circulation jobs
+  'reservation:expire': {
+    description: 'process expired reservations',
+    permissions: [Permission.TRANSACTION_UPDATE],
+  },
+
+  'circulation-policy:read': {
+    description: 'view circulation policies',
+    permissions: [Permission.TRANSACTION_READ, Permission.SYSTEM_SETTINGS_UPDATE],
+  },
+  'circulation-policy:manage': {
+    description: 'manage circulation policies',
+    permissions: [Permission.SYSTEM_SETTINGS_UPDATE],
+  },
+
+  'member:read': { description: 'view members', permissions: [Permission.USER_READ] },
+  'member:create': { description: 'create members', permissions: [Permission.USER_CREATE] },
+  'member:update': { description: 'update members', permissions: [Permission.USER_UPDATE] },
+  'member:delete': { description: 'delete members', permissions: [Permission.USER_DELETE] },
+  'member:export': { description: "export members' personal data", permissions: [Permission.USER_UPDATE] },
+  // Users can see their own activity
+  'member:activity': { description: "view this member's activity", othersPermissions: STAFF },
+  'role:manage': { description: 'manage roles', permissions: [Permission.USER_MANAGE_ROLES] },
+
+  'report:view': { description: 'view reports', permissions: [Permission.REPORT_VIEW] },
+  // Dashboard widgets; popular titles are only checkout counts, so any reader may see them
+  'dashboard:read': { description: 'view library statistics', permissions: STAFF },
+  'dashboard:popular-books': { description: 'view popular books', permissions: [Permission.BOOK_READ] },
+  // Live updates; each event is then checked against what the user may read
+  'event:stream': { description: 'receive live updates' },
+  // Reminders and notices are part of running circulation
+  'notification:manage': { description: 'manage notifications', permissions: [Permission.TRANSACTION_UPDATE] },
+  'job:manage': { description: 'manage background jobs', permissions: [Permission.SYSTEM_MAINTENANCE] },
+  // Staff who can queue notification runs can also follow them
+  'job-run:read': {
+    description: 'view job runs',
+    permissions: [Permission.SYSTEM_MAINTENANCE, Permission.TRANSACTION_UPDATE],
+  },
+  'security:manage': { description: 'manage security settings', permissions: [Permission.SYSTEM_SETTINGS_UPDATE] },
+  'audit:read': { description: 'view the audit log', permissions: [Permission.SYSTEM_SETTINGS_UPDATE] },
+  // The history tab on a book or member page
+  'audit:history': { description: 'view change history', permissions: STAFF },
+} satisfies Record<string, PolicyRule>;
+
+export type Action = keyof typeof POLICIES;
+
+// The signed-in user as far as authorization is concerned
+export interface Principal {
+  id: string;
+  name: string | null;
+  role: UserRole;
+  permissions: Permission[];
+}
+
+// A record that belongs to a user, e.g. a loan or a fine
+export interface OwnedResource {
+  ownerId: string | null | undefined;
+}
+
+export type AuthorizationResult =
+  | { ok: true; user: Principal }
+  | { ok: false; response: NextResponse };
+
+function holdsAny(principal: Principal, permissions: Permission[] | undefined): boolean {
+  return !permissions || permissions.some((permission) => principal.permissions.includes(permission));
+}
+
+/**
+ * Whether the user may act on records belonging to other users
+ */
+export function canActOnOthers(principal: Principal, action: Action): boolean {
+  const rule: PolicyRule = POLICIES[action];
+  return holdsAny(principal, rule.othersPermissions);
+}
+
+/**
+ * Whether the user may perform an action, optionally on a specific record
+ * Without a resource only the permission is checked, not ownership.
+ */
+export function can(principal: Principal, action: Action, resource?: OwnedResource): boolean {
+  const rule: PolicyRule = POLICIES[action];
+
+  if (!holdsAny(principal, rule.permissions)) {
+    return false;
+  }
+
+  if (!resource || canActOnOthers(principal, action)) {
+    return true;
+  }
+
+  return !!resource.ownerId && resource.ownerId === principal.id;
+}
+
+/**
+ * User ID to restrict a listing to, or undefined if the user may see everyone's records
+ */
+export function getOwnerScope(principal: Principal, action: Action): string | undefined {
+  return canActOnOthers(principal, action) ? undefined : principal.id;
+}
+
+/**
+ * 403 response for an action the user isn't allowed to perform
+ */
+export function forbidden(action: Action): NextResponse {
+  const rule: PolicyRule = POLICIES[action];
+  return NextResponse.json(
+    { error: `You don't have permission to ${rule.description}` },
+    { status: 403 }
+  );
+}
+
+/**
+ * Check that the request comes from a signed-in user allowed to perform an action
+ * Routes return `response` as-is when `ok` is false (401 or 403).
+ */
+export async function authorize(action: Action, resource?: OwnedResource): Promise<AuthorizationResult> {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    return {
+      ok: false,
+      response: NextResponse.json({ error: 'Authentication required' }, { status: 401 }),
+    };
+  }
+
+  const user: Principal = {
+    id: session.user.id,
+    name: session.user.name ?? null,
+    role: session.user.role,
+    permissions: (session.user.permissions ?? []) as Permission[],
+  };
+
+  if (!can(user, action, resource)) {
+    return { ok: false, response: forbidden(action) };
+  }
+
+  return { ok: true, user };
+}
@@ -1,12 +1,11 @@
 import { prisma } from "@/lib/prisma";
 import { Permission } from "./types";
-import { getPermissionsForRoles } from "./roles";
-import { UserRole as PrismaUserRole } from '@prisma/client';
 
 /**
  * Fetches user roles from the database
+ * Besides the built-in roles these can include custom roles created by admins.
  */
-export async function getUserRoles(userId: string): Promise<PrismaUserRole[]> {
+export async function getUserRoles(userId: string): Promise<string[]> {
   try {
     // Fetch the primary role from the user table
     const user = await prisma.user.findUnique({
@@ -21,7 +20,7 @@ export async function getUserRoles(userId: string): Promise<PrismaUserRole[]> {
     });
 
     // Combine the primary role with additional roles
-    const roles: PrismaUserRole[] = user ? [user.role] : [];
+    const roles: string[] = user ? [user.role] : [];
     roleMappings.forEach(mapping => {
       if (!roles.includes(mapping.role)) {
         roles.push(mapping.role);
@@ -35,6 +34,19 @@ export async function getUserRoles(userId: string): Promise<PrismaUserRole[]> {
   }
 }
 
+/**
+ * Gets the permissions granted by a set of roles, as stored in the database
+ */
+export async function getPermissionsForRoleNames(roles: string[]): Promise<Permission[]> {
+  const rolePermissions = await prisma.rolePermission.findMany({
+    where: { role: { in: roles } },
+    select: { permission: true },
+    distinct: ["permission"],
+  });
+
+  return rolePermissions.map(({ permission }) => permission as Permission);
+}
+
 /**
  * Gets all permissions for a user based on their roles
  */
@@ -43,9 +55,7 @@ export async function getUserPermissions(userId: string): Promise<Permission[]>
     const roles = await getUserRoles(userId);
     
     // Get all permissions for these roles
-    const permissions = getPermissionsForRoles(roles);
-    
-    return permissions;
+    return await getPermissionsForRoleNames(roles);
   } catch (error) {
     console.error("Error fetching user permissions:", error);
     return [];
@@ -63,7 +73,7 @@ export async function enhanceSessionWithRBAC(session: any, userId: string) {
     const roles = await getUserRoles(userId);
     
     // Get permissions for these roles
-    const permissions = getPermissionsForRoles(roles);
+    const permissions = await getPermissionsForRoleNames(roles);
     
     // Add roles and permissions to session
     session.user.roles = roles;
@@ -0,0 +1,350 @@
+import { AuditAction, AuditEntityType, Permission, PrismaClient, RoleChangeAction, UserRole } from '@prisma/client';
+import { prisma, PrismaTransaction } from '../../prisma';
+import { recordAuditEvent } from '../../audit/events';
+import { revokeUserSessions } from '../session-revocation';
+import { roleDefinitions } from './roles';
+
+/**
+ * Roles and their permissions live in the database. The built-in roles from the
+ * UserRole enum are system roles: they are created by `syncSystemRoles` with the
+ * defaults from `roleDefinitions` and can't be deleted. Admins can add custom roles
+ * and assign any role to a user through UserRoleMapping. Every change is recorded
+ * in RoleChangeLog with the permissions (or roles) added and removed, and in the
+ * audit trail. `request` is the API request the change came in on, for the audit trail.
+ */
+
+export const SYSTEM_ROLES = Object.values(UserRole);
+
+export interface RoleChanges {
+  added: string[];
+  removed: string[];
+}
+
+export function isSystemRole(name: string): name is UserRole {
+  return (SYSTEM_ROLES as string[]).includes(name);
+}
+
+/**
+ * Admins always have every permission, so nobody can lock themselves out of the editor
+ */
+export function isRoleEditable(name: string): boolean {
+  return name !== UserRole.ADMIN;
+}
+
+function diff(before: string[], after: string[]): RoleChanges {
+  return {
+    added: after.filter((item) => !before.includes(item)),
+    removed: before.filter((item) => !after.includes(item)),
+  };
+}
+
+/**
+ * All roles with their permissions and how many users have each
+ */
+export async function listRoles() {
+  const roles = await prisma.role.findMany({
+    include: {
+      permissions: { select: { permission: true } },
+    },
+    orderBy: [{ isSystem: 'desc' }, { name: 'asc' }],
+  });
+
+  return Promise.all(
+    roles.map(async ({ permissions, ...role }) => ({
+      ...role,
+      permissions: permissions.map((p) => p.permission),
+      userCount: await countUsersWithRole(role.name),
+      editable: isRoleEditable(role.name),
+    }))
+  );
+}
+
+/**
+ * Number of users holding a role, either as their primary role or through a role mapping
+ */
+export async function countUsersWithRole(name: string): Promise<number> {
+  return prisma.user.count({
+    where: {
+      deletedAt: null,
+      OR: [
+        ...(isSystemRole(name) ? [{ role: name }] : []),
+        { userRoles: { some: { role: name } } },
+      ],
+    },
+  });
+}
+
+/**
+ * Recent changes to a role's permissions or to a user's roles, newest first
+ */
+export async function getRoleChangeHistory(
+  filter: { role?: string; userId?: string },
+  take: number = 50
+) {
+  return prisma.roleChangeLog.findMany({
+    where: filter,
+    include: {
+      changedBy: { select: { id: true, name: true, email: true } },
+      user: { select: { id: true, name: true, email: true } },
+    },
+    orderBy: { createdAt: 'desc' },
+    take,
+  });
+}
+
+/**
+ * Create a custom role
+ */
+export async function createRole(
+  data: { name: string; description?: string | null; permissions: Permission[] },
+  changedById: string,
+  request?: Request
+) {
+  return prisma.$transaction(async (tx) => {
+    const role = await tx.role.create({
+      data: {
+        name: data.name,
+        description: data.description || null,
+        isSystem: false,
+        permissions: {
+          create: data.permissions.map((permission) => ({ permission })),
+        },
+      },
+    });
+
+    await tx.roleChangeLog.create({
+      data: {
+        action: RoleChangeAction.ROLE_CREATED,
+        role: role.name,
+        added: data.permissions,
+        removed: [],
+        changedById,
+      },
+    });
+
+    await recordAuditEvent({
+      actorId: changedById,
+      action: AuditAction.CREATED,
+      entityType: AuditEntityType.ROLE,
+      entityId: role.name,
+      after: { description: role.description, permissions: data.permissions },
+      request,
+    }, tx);
+
+    return role;
+  });
+}
+
+/**
+ * Update a role's description and replace its permissions
+ * @returns The permissions added and removed
+ */
+export async function updateRole(
+  name: string,
+  data: { description?: string | null; permissions?: Permission[] },
+  changedById: string,
+  request?: Request
+): Promise<RoleChanges> {
+  return prisma.$transaction(async (tx) => {
+    const [role, current] = await Promise.all([
+      tx.role.findUniqueOrThrow({ where: { name }, select: { description: true } }),
+      tx.rolePermission.findMany({
+        where: { role: name },
+        select: { permission: true },
+      }),
+    ]);
+
+    const changes = data.permissions
+      ? diff(current.map((p) => p.permission), data.permissions)
+      : { added: [], removed: [] };
+
+    if (data.description !== undefined) {
+      await tx.role.update({
+        where: { name },
+        data: { description: data.description || null },
+      });
+    }
+
+    if (changes.removed.length > 0) {
+      await tx.rolePermission.deleteMany({
+        where: { role: name, permission: { in: changes.removed as Permission[] } },
+      });
+    }
+
+    if (changes.added.length > 0) {
+      await tx.rolePermission.createMany({
+        data: changes.added.map((permission) => ({ role: name, permission: permission as Permission })),
+      });
+    }
+
+    if (data.description !== undefined || changes.added.length > 0 || changes.removed.length > 0) {
+      await tx.roleChangeLog.create({
+        data: {
+          action: RoleChangeAction.ROLE_UPDATED,
+          role: name,
+          ...changes,
+          changedById,
+        },
+      });
+
+      await recordAuditEvent({
+        actorId: changedById,
+        action: AuditAction.UPDATED,
+        entityType: AuditEntityType.ROLE,
+        entityId: name,
+        before: { description: role.description, permissions: current.map((p) => p.permission) },
+        after: {
+          description: data.description !== undefined ? data.description || null : role.description,
+          permissions: data.permissions ?? current.map((p) => p.permission),
+        },
+        request,
+      }, tx);
+    }
+
+    return changes;
+  });
+}
+
+/**
+ * Delete a custom role that nobody is assigned to
+ */
+export async function deleteRole(name: string, changedById: string, request?: Request): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    const permissions = await tx.rolePermission.findMany({
+      where: { role: name },
+      select: { permission: true },
+    });
+
+    const role = await tx.role.delete({ where: { name } });
+
+    await tx.roleChangeLog.create({
+      data: {
+        action: RoleChangeAction.ROLE_DELETED,
+        role: name,
+        added: [],
+        removed: permissions.map((p) => p.permission),
+        changedById,
+      },
+    });
+
+    await recordAuditEvent({
+      actorId: changedById,
+      action: AuditAction.DELETED,
+      entityType: AuditEntityType.ROLE,
+      entityId: name,
+      before: { description: role.description, permissions: permissions.map((p) => p.permission) },
+      request,
+    }, tx);
+  });
+}
+
+/**
+ * Replace the roles a user holds through UserRoleMapping
+ * The user's primary role is always kept. Changing roles signs the user out
+ * everywhere so they pick up the new roles when they sign in again.
+ * @returns The roles added and removed
+ */
+export async function setUserRoles(
+  userId: string,
+  roles: string[],
+  changedById: string,
+  request?: Request
+): Promise<RoleChanges> {
+  return prisma.$transaction(async (tx) => {
+    const user = await tx.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { role: true, userRoles: { select: { role: true } } },
+    });
+
+    const requested = Array.from(new Set([user.role, ...roles]));
+    const changes = diff(user.userRoles.map((mapping) => mapping.role), requested);
+
+    if (changes.added.length === 0 && changes.removed.length === 0) {
+      return changes;
+    }
+
+    await tx.userRoleMapping.deleteMany({
+      where: { userId, role: { in: changes.removed } },
+    });
+
+    await tx.userRoleMapping.createMany({
+      data: changes.added.map((role) => ({ userId, role })),
+    });
+
+    await tx.roleChangeLog.create({
+      data: {
+        action: RoleChangeAction.USER_ROLES_CHANGED,
+        userId,
+        ...changes,
+        changedById,
+      },
+    });
+
+    await recordAuditEvent({
+      actorId: changedById,
+      action: AuditAction.ROLES_CHANGED,
+      entityType: AuditEntityType.MEMBER,
+      entityId: userId,
+      before: { roles: user.userRoles.map((mapping) => mapping.role) },
+      after: { roles: requested },
+      request,
+    }, tx);
+
+    await revokeUserSessions(userId, tx);
+
+    return changes;
+  });
+}
+
+/**
+ * Make sure the system roles exist with their default permissions
+ * Run from the seed script. Defaults an admin has since removed from a role stay
+ * removed, and the admin role always gets every permission.
+ * @returns The permissions added to each role
+ */
+export async function syncSystemRoles(
+  db: PrismaClient | PrismaTransaction = prisma
+): Promise<Record<UserRole, Permission[]>> {
+  const added = {} as Record<UserRole, Permission[]>;
+
+  for (const role of SYSTEM_ROLES) {
+    const definition = roleDefinitions[role];
+
+    await db.role.upsert({
+      where: { name: role },
+      update: { isSystem: true },
+      create: {
+        name: role,
+        description: definition.description,
+        isSystem: true,
+      },
+    });
+
+    const [current, removals] = await Promise.all([
+      db.rolePermission.findMany({ where: { role }, select: { permission: true } }),
+      isRoleEditable(role)
+        ? db.roleChangeLog.findMany({
+            where: { role, action: RoleChangeAction.ROLE_UPDATED },
+            select: { removed: true },
+          })
+        : Promise.resolve([]),
+    ]);
+
+    const existing = current.map((p) => p.permission as string);
+    const removedByAdmin = removals.flatMap((log) => log.removed);
+    const missing = (definition.permissions as string[]).filter(
+      (permission) => !existing.includes(permission) && !removedByAdmin.includes(permission)
+    ) as Permission[];
+
+    if (missing.length > 0) {
+      await db.rolePermission.createMany({
+        data: missing.map((permission) => ({ role, permission })),
+        skipDuplicates: true,
+      });
+    }
+
+    added[role] = missing;
+  }
+
+  return added;
+}
@@ -1,7 +1,8 @@
 import { UserRole } from '@prisma/client';
 import { Permission, RoleDefinition } from './types';
 
-// Define permissions for each role
+// Default permissions for the system roles. Permissions are read from the database;
+// these only seed it, through syncSystemRoles in role-management.ts
 export const roleDefinitions: Record<UserRole, RoleDefinition> = {
   [UserRole.ADMIN]: {
     name: UserRole.ADMIN,
@@ -71,6 +72,9 @@ export const roleDefinitions: Record<UserRole, RoleDefinition> = {
   },
 };
 
+// Roles with access to staff tools; these are the roles a two-factor policy can apply to
+export const STAFF_ROLES: UserRole[] = [UserRole.ADMIN, UserRole.LIBRARIAN];
+
 // Helper functions for role checking
 export const hasRole = (userRoles: UserRole[], role: UserRole): boolean => {
   return userRoles.includes(role);
@@ -81,22 +85,6 @@ export const hasAnyRole = (userRoles: UserRole[], roles: UserRole[]): boolean =>
 };
 
 // Helper functions for permission checking
-export const getPermissionsForRole = (role: UserRole): Permission[] => {
-  return roleDefinitions[role].permissions;
-};
-
-export const getPermissionsForRoles = (roles: UserRole[]): Permission[] => {
-  const permissions = new Set<Permission>();
-  
-  roles.forEach(role => {
-    roleDefinitions[role].permissions.forEach(permission => {
-      permissions.add(permission);
-    });
-  });
-  
-  return Array.from(permissions);
-};
-
 export const hasPermission = (
   userPermissions: Permission[],
   permission: Permission
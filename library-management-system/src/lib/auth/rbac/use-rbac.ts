@@ -4,7 +4,6 @@ import { useSession } from "next-auth/react";
 import { Permission, UserRole } from "./types";
 import { hasAnyPermission, hasAnyRole, hasPermission, hasRole } from "./roles";
 import { UserRole as PrismaUserRole } from '@prisma/client';
-import { SessionUser } from "./middleware";
 
 /**
  * Hook to use role-based access control in React components
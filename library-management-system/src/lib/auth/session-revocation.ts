@@ -0,0 +1,61 @@
+import { Prisma, UserStatus } from '@prisma/client';
+import type { JWT } from 'next-auth/jwt';
+import { prisma } from '../prisma';
+
+/**
+ * Sessions are JWTs, so they can't be deleted server-side. Instead each user has a
+ * session version that is copied into the token at sign-in; bumping it invalidates
+ * every token issued before, and the `jwt` callback rejects tokens that don't match.
+ */
+
+// Thrown from the `jwt` callback; NextAuth then clears the session cookie
+export const SESSION_REVOKED_ERROR = 'SessionRevoked';
+
+/**
+ * Current session version of a user, stored in the token at sign-in
+ */
+export async function getSessionVersion(userId: string): Promise<number> {
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { sessionVersion: true },
+  });
+
+  return user.sessionVersion;
+}
+
+/**
+ * Whether a session token is still valid: the user must still exist, be active and
+ * not have had their sessions revoked since the token was issued
+ */
+export async function isSessionTokenActive(token: Pick<JWT, 'id' | 'sessionVersion'>): Promise<boolean> {
+  if (!token.id) {
+    return false;
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: token.id },
+    select: { status: true, deletedAt: true, sessionVersion: true },
+  });
+
+  return (
+    !!user &&
+    user.status === UserStatus.ACTIVE &&
+    !user.deletedAt &&
+    // Tokens issued before session versions existed count as version 0
+    user.sessionVersion === (token.sessionVersion ?? 0)
+  );
+}
+
+/**
+ * Sign a user out of every device by invalidating all of their existing sessions
+ * Pass a transaction client to revoke as part of a larger update.
+ */
+export async function revokeUserSessions(
+  userId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<void> {
+  await db.user.update({
+    where: { id: userId },
+    data: { sessionVersion: { increment: 1 } },
+  });
+}
@@ -0,0 +1,318 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { UserRole } from '@prisma/client';
+import { prisma } from '../prisma';
+import { STAFF_ROLES } from './rbac/roles';
+import { base32Encode, generateTotpSecret, getTotpAuthUrl, verifyTotpCode } from './totp';
+
+export const TWO_FACTOR_ISSUER = 'Library Management System';
+export const RECOVERY_CODE_COUNT = 10;
+
+// Error codes thrown from `authorize`; the sign-in form switches step on the first two
+export const TWO_FACTOR_REQUIRED_ERROR = 'TwoFactorRequired';
+export const TWO_FACTOR_SETUP_REQUIRED_ERROR = 'TwoFactorSetupRequired';
+export const INVALID_TWO_FACTOR_CODE_ERROR = 'Invalid authentication code. Please try again.';
+
+export type TwoFactorCheckResult = 'ok' | 'code-required' | 'setup-required' | 'invalid-code';
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  recoveryCodes: string[];
+}
+
+// Fields needed to check a code
+const twoFactorSelect = {
+  id: true,
+  twoFactorSecret: true,
+  twoFactorEnabledAt: true,
+  twoFactorLastUsedStep: true,
+} as const;
+
+/**
+ * Key for encrypting TOTP secrets at rest, derived from the application secret
+ */
+function getEncryptionKey(): Buffer {
+  const secret = process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error('NEXTAUTH_SECRET must be set to use two-factor authentication');
+  }
+
+  return createHash('sha256').update(`two-factor:${secret}`).digest();
+}
+
+function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64url')).join('.');
+}
+
+function decryptSecret(value: string): string {
+  const [iv, authTag, ciphertext] = value.split('.').map((part) => Buffer.from(part, 'base64url'));
+  const decipher = createDecipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Recovery codes are random, so a fast hash is enough to keep them unreadable at rest
+ */
+function hashRecoveryCode(code: string): string {
+  const normalized = code.replace(/[\s-]/g, '').toLowerCase();
+  return createHash('sha256').update(normalized).digest('hex');
+}
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = base32Encode(randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+/**
+ * Whether the two-factor policy applies to any of the given roles
+ * Only staff roles can be made to require it.
+ */
+export async function isTwoFactorRequiredForRoles(roles: string[]): Promise<boolean> {
+  const staffRoles = roles.filter((role) => (STAFF_ROLES as string[]).includes(role));
+  if (staffRoles.length === 0) {
+    return false;
+  }
+
+  const count = await prisma.role.count({
+    where: {
+      name: { in: staffRoles },
+      requireTwoFactor: true,
+    },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Whether the two-factor policy applies to a user, through their primary role or any mapped role
+ */
+export async function isTwoFactorRequiredForUser(user: { id: string; role: UserRole }): Promise<boolean> {
+  const mappings = await prisma.userRoleMapping.findMany({
+    where: { userId: user.id },
+    select: { role: true },
+  });
+
+  return isTwoFactorRequiredForRoles([user.role, ...mappings.map((mapping) => mapping.role)]);
+}
+
+/**
+ * Two-factor state of a user for display in their security settings
+ */
+export async function getTwoFactorStatus(userId: string): Promise<{
+  enabled: boolean;
+  enabledAt: Date | null;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}> {
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: {
+      role: true,
+      twoFactorEnabledAt: true,
+      _count: {
+        select: {
+          twoFactorRecoveryCodes: { where: { usedAt: null } },
+        },
+      },
+    },
+  });
+
+  return {
+    enabled: user.twoFactorEnabledAt !== null,
+    enabledAt: user.twoFactorEnabledAt,
+    required: await isTwoFactorRequiredForUser({ id: userId, role: user.role }),
+    recoveryCodesRemaining: user.twoFactorEnabledAt ? user._count.twoFactorRecoveryCodes : 0,
+  };
+}
+
+/**
+ * Start enrolling a user: store a new (not yet enabled) secret and recovery codes
+ * Replaces any enrollment that was started but not confirmed.
+ * @returns The secret and recovery codes in plain text; they are only shown this once
+ */
+export async function beginTwoFactorEnrollment(user: { id: string; email: string }): Promise<TwoFactorEnrollment> {
+  const secret = generateTotpSecret();
+  const recoveryCodes = generateRecoveryCodes();
+
+  await prisma.$transaction([
+    prisma.twoFactorRecoveryCode.deleteMany({ where: { userId: user.id } }),
+    prisma.user.update({
+      where: { id: user.id },
+      data: {
+        twoFactorSecret: encryptSecret(secret),
+        twoFactorEnabledAt: null,
+        twoFactorLastUsedStep: null,
+        twoFactorRecoveryCodes: {
+          create: recoveryCodes.map((code) => ({ codeHash: hashRecoveryCode(code) })),
+        },
+      },
+    }),
+  ]);
+
+  return {
+    secret,
+    otpauthUrl: getTotpAuthUrl({ secret, accountName: user.email, issuer: TWO_FACTOR_ISSUER }),
+    recoveryCodes,
+  };
+}
+
+/**
+ * Check an authenticator code, refusing a code that has already been used
+ */
+async function verifyAuthenticatorCode(
+  user: { id: string; twoFactorSecret: string | null; twoFactorLastUsedStep: number | null },
+  code: string
+): Promise<boolean> {
+  if (!user.twoFactorSecret) {
+    return false;
+  }
+
+  const step = verifyTotpCode(decryptSecret(user.twoFactorSecret), code);
+  if (step === null || (user.twoFactorLastUsedStep !== null && step <= user.twoFactorLastUsedStep)) {
+    return false;
+  }
+
+  // Only record the step if no concurrent sign-in used the same or a later one
+  const { count } = await prisma.user.updateMany({
+    where: {
+      id: user.id,
+      OR: [
+        { twoFactorLastUsedStep: null },
+        { twoFactorLastUsedStep: { lt: step } },
+      ],
+    },
+    data: { twoFactorLastUsedStep: step },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Use up a recovery code
+ */
+async function redeemRecoveryCode(userId: string, code: string): Promise<boolean> {
+  const { count } = await prisma.twoFactorRecoveryCode.updateMany({
+    where: {
+      userId,
+      codeHash: hashRecoveryCode(code),
+      usedAt: null,
+    },
+    data: { usedAt: new Date() },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Confirm an enrollment with the first code from the authenticator app
+ * @returns Whether the code was right and two-factor authentication is now on
+ */
+export async function confirmTwoFactorEnrollment(userId: string, code: string): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: twoFactorSelect,
+  });
+
+  if (!user || user.twoFactorEnabledAt || !(await verifyAuthenticatorCode(user, code))) {
+    return false;
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorEnabledAt: new Date() },
+  });
+
+  return true;
+}
+
+/**
+ * Check the second factor for a user who has entered the right password
+ * Users whose role requires two-factor authentication but who have not enrolled
+ * finish enrolling here, with the first code from their app.
+ */
+export async function checkTwoFactor(
+  user: { id: string; role: UserRole },
+  code?: string | null
+): Promise<TwoFactorCheckResult> {
+  const state = await prisma.user.findUniqueOrThrow({
+    where: { id: user.id },
+    select: twoFactorSelect,
+  });
+
+  if (state.twoFactorEnabledAt) {
+    if (!code) {
+      return 'code-required';
+    }
+
+    return (await verifyTwoFactorCode(user.id, code)) ? 'ok' : 'invalid-code';
+  }
+
+  if (!(await isTwoFactorRequiredForUser(user))) {
+    return 'ok';
+  }
+
+  if (!code || !state.twoFactorSecret) {
+    return 'setup-required';
+  }
+
+  return (await confirmTwoFactorEnrollment(user.id, code)) ? 'ok' : 'invalid-code';
+}
+
+/**
+ * Turn two-factor authentication off and discard the secret and recovery codes
+ */
+export async function disableTwoFactor(userId: string): Promise<void> {
+  await prisma.$transaction([
+    prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorSecret: null,
+        twoFactorEnabledAt: null,
+        twoFactorLastUsedStep: null,
+      },
+    }),
+  ]);
+}
+
+/**
+ * Replace a user's recovery codes with a fresh set
+ * @returns The new codes in plain text
+ */
+export async function regenerateRecoveryCodes(userId: string): Promise<string[]> {
+  const recoveryCodes = generateRecoveryCodes();
+
+  await prisma.$transaction([
+    prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+    prisma.twoFactorRecoveryCode.createMany({
+      data: recoveryCodes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) })),
+    }),
+  ]);
+
+  return recoveryCodes;
+}
+
+/**
+ * Check a code from the user's authenticator app or a recovery code, for
+ * confirming sensitive changes to an account that already has 2FA on
+ */
+export async function verifyTwoFactorCode(userId: string, code: string): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: twoFactorSelect,
+  });
+
+  if (!user?.twoFactorEnabledAt) {
+    return false;
+  }
+
+  return (await verifyAuthenticatorCode(user, code)) || (await redeemRecoveryCode(userId, code));
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it, vi } from 'vitest';
+import { BookStatus } from '@prisma/client';
+import { OUT_OF_CIRCULATION_STATUSES } from '../circulation/copies';
+
+vi.mock('../prisma', () => ({ prisma: {} }));
+vi.mock('../audit/events', () => ({ recordAuditEvent: vi.fn() }));
+
+import { STATUS_TRANSITIONS } from './status';
+
+describe('STATUS_TRANSITIONS', () => {
+  // Anything else would be overwritten from the copies at the next checkout or return
+  it.each(Object.keys(STATUS_TRANSITIONS) as BookStatus[])(
+    'only moves %s back into circulation or to a status that keeps it out',
+    (from) => {
+      STATUS_TRANSITIONS[from].forEach((to) => {
+        expect([BookStatus.AVAILABLE, ...OUT_OF_CIRCULATION_STATUSES]).toContain(to);
+      });
+    }
+  );
+
+  it.each([BookStatus.LOST, BookStatus.DAMAGED])('leaves %s to the copies', (status) => {
+    Object.values(STATUS_TRANSITIONS).forEach((targets) => {
+      expect(targets).not.toContain(status);
+    });
+  });
+});
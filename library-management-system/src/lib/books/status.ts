@@ -0,0 +1,188 @@
+import { AuditAction, AuditEntityType, Book, BookStatus, TransactionStatus } from '@prisma/client';
+import { prisma, PrismaTransaction } from '../prisma';
+import { recordAuditEvent } from '../audit/events';
+
+/**
+ * Lifecycle of a book's status. Staff move a book between states along
+ * STATUS_TRANSITIONS only, giving a reason each time; every change is kept in
+ * BookStatusChange so reports can tell how long books spend in each state.
+ * DISCARDED is terminal. CHECKED_OUT and RESERVED are only ever set by circulation,
+ * from the book's copies. LOST and DAMAGED belong to copies too: a title shows them
+ * once none of its copies can circulate, and copies are found or repaired one by one.
+ * `request` is the API request the change came in on, for the audit trail.
+ */
+
+export const STATUS_TRANSITIONS: Record<BookStatus, BookStatus[]> = {
+  [BookStatus.AVAILABLE]: [BookStatus.UNDER_MAINTENANCE, BookStatus.DISCARDED],
+  [BookStatus.CHECKED_OUT]: [BookStatus.AVAILABLE],
+  [BookStatus.RESERVED]: [BookStatus.AVAILABLE, BookStatus.UNDER_MAINTENANCE],
+  [BookStatus.LOST]: [BookStatus.DISCARDED],
+  [BookStatus.DAMAGED]: [BookStatus.UNDER_MAINTENANCE, BookStatus.DISCARDED],
+  [BookStatus.UNDER_MAINTENANCE]: [BookStatus.AVAILABLE, BookStatus.DISCARDED],
+  [BookStatus.DISCARDED]: [],
+};
+
+const ACTIVE_LOAN_STATUSES = [TransactionStatus.CHECKED_OUT, TransactionStatus.OVERDUE];
+
+export type StatusChangeResult =
+  | { ok: true; book: Book }
+  | { ok: false; error: string; allowedTransitions: BookStatus[] };
+
+export interface StatusDuration {
+  status: BookStatus;
+  // Time spent in the state, in days
+  days: number;
+}
+
+/**
+ * Why a book can't move to a status, or null when the transition is allowed
+ */
+async function getTransitionError(
+  db: PrismaTransaction,
+  book: Pick<Book, 'id' | 'status'>,
+  to: BookStatus
+): Promise<string | null> {
+  if (book.status === to) {
+    return `The book is already ${formatStatus(to)}`;
+  }
+
+  if (!STATUS_TRANSITIONS[book.status].includes(to)) {
+    return book.status === BookStatus.DISCARDED
+      ? 'Discarded books can\'t change status'
+      : `A book can't go from ${formatStatus(book.status)} to ${formatStatus(to)}`;
+  }
+
+  if (to === BookStatus.AVAILABLE) {
+    const activeLoans = await db.transaction.count({
+      where: { bookId: book.id, returnDate: null, status: { in: ACTIVE_LOAN_STATUSES } },
+    });
+
+    if (activeLoans > 0) {
+      return 'The book is still on loan; check it in before making it available';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Move a book to a new status along STATUS_TRANSITIONS and record why
+ * Returns why not when the transition isn't allowed from the book's current status.
+ */
+export async function changeBookStatus(
+  bookId: string,
+  to: BookStatus,
+  reason: string,
+  actorId: string,
+  request?: Request
+): Promise<StatusChangeResult> {
+  return prisma.$transaction(async (tx): Promise<StatusChangeResult> => {
+    const before = await tx.book.findUniqueOrThrow({ where: { id: bookId } });
+    const refuse = (error: string): StatusChangeResult => ({
+      ok: false,
+      error,
+      allowedTransitions: STATUS_TRANSITIONS[before.status],
+    });
+
+    const transitionError = await getTransitionError(tx, before, to);
+    if (transitionError) {
+      return refuse(transitionError);
+    }
+
+    // Only from the status that was checked, so a checkout or another change made
+    // meanwhile isn't overwritten
+    const { count } = await tx.book.updateMany({
+      where: { id: bookId, status: before.status },
+      data: { status: to },
+    });
+
+    if (count === 0) {
+      return refuse('The book\'s status was just changed by someone else. Reload it and try again.');
+    }
+
+    const book = await tx.book.findUniqueOrThrow({ where: { id: bookId } });
+
+    await tx.bookStatusChange.create({
+      data: {
+        bookId,
+        fromStatus: before.status,
+        toStatus: to,
+        reason,
+        changedById: actorId,
+      },
+    });
+
+    await recordAuditEvent({
+      actorId,
+      action: AuditAction.STATUS_CHANGED,
+      entityType: AuditEntityType.BOOK,
+      entityId: bookId,
+      before: { status: before.status },
+      after: { status: to },
+      reason,
+      request,
+    }, tx);
+
+    return { ok: true, book };
+  });
+}
+
+/**
+ * A book's status changes, newest first
+ */
+export async function getStatusHistory(bookId: string, take: number = 50) {
+  return prisma.bookStatusChange.findMany({
+    where: { bookId },
+    include: {
+      changedBy: { select: { id: true, name: true, email: true } },
+    },
+    orderBy: { createdAt: 'desc' },
+    take,
+  });
+}
+
+/**
+ * How long each book has spent in each state since `since` (or since its first
+ * recorded change), from its status history. The current state counts up to now.
+ * Time before a book's first recorded change isn't known and isn't counted.
+ */
+export async function getStatusDurations(
+  bookIds: string[],
+  since: Date | null,
+  now: Date = new Date()
+): Promise<Map<string, StatusDuration[]>> {
+  const changes = await prisma.bookStatusChange.findMany({
+    where: { bookId: { in: bookIds } },
+    select: { bookId: true, toStatus: true, createdAt: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const durations = new Map<string, StatusDuration[]>();
+
+  for (const bookId of bookIds) {
+    const history = changes.filter((change) => change.bookId === bookId);
+    const totals = new Map<BookStatus, number>();
+
+    history.forEach((change, index) => {
+      const end = history[index + 1]?.createdAt ?? now;
+      const start = since && change.createdAt < since ? since : change.createdAt;
+      if (end > start) {
+        totals.set(change.toStatus, (totals.get(change.toStatus) ?? 0) + (end.getTime() - start.getTime()));
+      }
+    });
+
+    durations.set(
+      bookId,
+      Array.from(totals.entries()).map(([status, ms]) => ({
+        status,
+        days: Math.round((ms / (24 * 60 * 60 * 1000)) * 10) / 10,
+      }))
+    );
+  }
+
+  return durations;
+}
+
+function formatStatus(status: BookStatus): string {
+  return status.toLowerCase().replace(/_/g, ' ');
+}
@@ -0,0 +1,371 @@
+import { AuditAction, AuditEntityType, Category, Tag } from '@prisma/client';
+import { prisma, PrismaTransaction } from '../prisma';
+import { recordAuditEvent } from '../audit/events';
+import type { CategorySummary, TagSummary } from '@/types/taxonomy';
+
+/**
+ * Categories and tags librarians can file books under. Books store the category
+ * name in Book.category and tag names in Book.tags (circulation policies also name
+ * their category), so renaming or merging a term rewrites every book that uses it.
+ * Categories form a hierarchy through parentId. `request` is the API request the
+ * change came in on, for the audit trail.
+ */
+
+export interface CategoryInput {
+  name: string;
+  description?: string | null;
+  parentId?: string | null;
+}
+
+/**
+ * All categories with how many books and subcategories each has, by name
+ */
+export async function listCategories(): Promise<CategorySummary[]> {
+  const [categories, bookCounts] = await Promise.all([
+    prisma.category.findMany({
+      select: {
+        id: true,
+        name: true,
+        description: true,
+        parentId: true,
+        _count: { select: { children: true } },
+      },
+      orderBy: { name: 'asc' },
+    }),
+    prisma.book.groupBy({
+      by: ['category'],
+      where: { isDeleted: false },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const countByName = new Map(bookCounts.map((row) => [row.category, row._count._all]));
+
+  return categories.map(({ _count, ...category }) => ({
+    ...category,
+    bookCount: countByName.get(category.name) ?? 0,
+    childCount: _count.children,
+  }));
+}
+
+/**
+ * All tags with how many books carry each, by name
+ */
+export async function listTags(): Promise<TagSummary[]> {
+  const tags = await prisma.tag.findMany({ orderBy: { name: 'asc' } });
+
+  return Promise.all(
+    tags.map(async ({ id, name }) => ({
+      id,
+      name,
+      bookCount: await prisma.book.count({ where: { isDeleted: false, tags: { has: name } } }),
+    }))
+  );
+}
+
+/**
+ * Number of books (not deleted) filed under a category
+ */
+export async function countBooksInCategory(name: string): Promise<number> {
+  return prisma.book.count({ where: { isDeleted: false, category: name } });
+}
+
+/**
+ * Ids of a category's subcategories at every depth
+ */
+export async function getDescendantIds(id: string): Promise<string[]> {
+  const categories = await prisma.category.findMany({ select: { id: true, parentId: true } });
+  const descendants: string[] = [];
+  let frontier = [id];
+
+  while (frontier.length > 0) {
+    const children = categories.filter((c) => c.parentId && frontier.includes(c.parentId)).map((c) => c.id);
+    descendants.push(...children);
+    frontier = children;
+  }
+
+  return descendants;
+}
+
+/**
+ * Names of the given categories together with all their subcategories, for filtering
+ * books by a category and everything under it
+ */
+export async function expandCategoryNames(names: string[]): Promise<string[]> {
+  const roots = await prisma.category.findMany({ where: { name: { in: names } }, select: { id: true } });
+  const descendantIds = (await Promise.all(roots.map((root) => getDescendantIds(root.id)))).flat();
+  const descendants = await prisma.category.findMany({
+    where: { id: { in: descendantIds } },
+    select: { name: true },
+  });
+
+  return Array.from(new Set([...names, ...descendants.map((c) => c.name)]));
+}
+
+/**
+ * Describe any category or tag names that aren't in the vocabulary
+ * @returns An error message, or null when every name is known
+ */
+export async function findUnknownTerms(terms: { category?: string; tags?: string[] }): Promise<string | null> {
+  if (terms.category && !(await prisma.category.findUnique({ where: { name: terms.category } }))) {
+    return `Unknown category "${terms.category}"`;
+  }
+
+  if (terms.tags && terms.tags.length > 0) {
+    const known = await prisma.tag.findMany({ where: { name: { in: terms.tags } }, select: { name: true } });
+    const unknown = terms.tags.filter((tag) => !known.some((k) => k.name === tag));
+    if (unknown.length > 0) {
+      return `Unknown tag${unknown.length === 1 ? '' : 's'}: ${unknown.join(', ')}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Roles whose circulation policy exists under both category names, so the policies
+ * can't be folded together by a merge
+ */
+export async function findPolicyConflicts(fromName: string, toName: string): Promise<string[]> {
+  const policies = await prisma.circulationPolicy.findMany({
+    where: { category: { in: [fromName, toName] } },
+    select: { role: true, category: true },
+  });
+
+  return policies
+    .filter((p) => p.category === fromName)
+    .filter((p) => policies.some((other) => other.category === toName && other.role === p.role))
+    .map((p) => p.role ?? 'all roles');
+}
+
+// Books and circulation policies follow the category to its new name
+async function renameCategoryReferences(tx: PrismaTransaction, from: string, to: string): Promise<number> {
+  const { count } = await tx.book.updateMany({ where: { category: from }, data: { category: to } });
+  await tx.circulationPolicy.updateMany({ where: { category: from }, data: { category: to } });
+  return count;
+}
+
+// Replace one tag with another on every book carrying it, without duplicating the new tag
+async function replaceTagOnBooks(tx: PrismaTransaction, from: string, to: string | null): Promise<number> {
+  const books = await tx.book.findMany({ where: { tags: { has: from } }, select: { id: true, tags: true } });
+
+  for (const book of books) {
+    const tags = book.tags.map((tag) => (tag === from ? to : tag)).filter((tag): tag is string => tag !== null);
+    await tx.book.update({ where: { id: book.id }, data: { tags: Array.from(new Set(tags)) } });
+  }
+
+  return books.length;
+}
+
+export async function createCategory(data: CategoryInput, actorId: string, request?: Request): Promise<Category> {
+  return prisma.$transaction(async (tx) => {
+    const category = await tx.category.create({
+      data: {
+        name: data.name,
+        description: data.description || null,
+        parentId: data.parentId || null,
+      },
+    });
+
+    await recordAuditEvent({
+      actorId,
+      action: AuditAction.CREATED,
+      entityType: AuditEntityType.CATEGORY,
+      entityId: category.id,
+      after: category,
+      request,
+    }, tx);
+
+    return category;
+  });
+}
+
+/**
+ * Update a category; a new name is written to its books and circulation policies
+ * @returns The category and how many books were renamed
+ */
+export async function updateCategory(
+  id: string,
+  data: Partial<CategoryInput>,
+  actorId: string,
+  request?: Request
+): Promise<{ category: Category; booksUpdated: number }> {
+  return prisma.$transaction(async (tx) => {
+    const before = await tx.category.findUniqueOrThrow({ where: { id } });
+
+    const category = await tx.category.update({
+      where: { id },
+      data: {
+        name: data.name,
+        description: data.description === undefined ? undefined : data.description || null,
+        parentId: data.parentId === undefined ? undefined : data.parentId || null,
+      },
+    });
+
+    const booksUpdated = category.name !== before.name
+      ? await renameCategoryReferences(tx, before.name, category.name)
+      : 0;
+
+    await recordAuditEvent({
+      actorId,
+      action: AuditAction.UPDATED,
+      entityType: AuditEntityType.CATEGORY,
+      entityId: id,
+      before,
+      after: category,
+      request,
+    }, tx);
+
+    return { category, booksUpdated };
+  });
+}
+
+/**
+ * Fold a category into another: its books, circulation policies and subcategories
+ * move to the target and the category is deleted
+ * @returns How many books were moved
+ */
+export async function mergeCategory(
+  id: string,
+  targetId: string,
+  actorId: string,
+  request?: Request
+): Promise<number> {
+  return prisma.$transaction(async (tx) => {
+    const [source, target] = await Promise.all([
+      tx.category.findUniqueOrThrow({ where: { id } }),
+      tx.category.findUniqueOrThrow({ where: { id: targetId } }),
+    ]);
+
+    const booksMoved = await renameCategoryReferences(tx, source.name, target.name);
+    await tx.category.updateMany({ where: { parentId: id }, data: { parentId: targetId } });
+    await tx.category.delete({ where: { id } });
+
+    await recordAuditEvent({
+      actorId,
+      action: AuditAction.MERGED,
+      entityType: AuditEntityType.CATEGORY,
+      entityId: id,
+      before: source,
+      after: { mergedInto: { id: target.id, name: target.name }, booksMoved },
+      request,
+    }, tx);
+
+    return booksMoved;
+  });
+}
+
+/**
+ * Delete a category that no books or subcategories use
+ */
+export async function deleteCategory(id: string, actorId: string, request?: Request): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    const category = await tx.category.delete({ where: { id } });
+
+    await recordAuditEvent({
+      actorId,
+      action: AuditAction.DELETED,
+      entityType: AuditEntityType.CATEGORY,
+      entityId: id,
+      before: category,
+      request,
+    }, tx);
+  });
+}
+
+export async function createTag(name: string, actorId: string, request?: Request): Promise<Tag> {
+  return prisma.$transaction(async (tx) => {
+    const tag = await tx.tag.create({ data: { name } });
+
+    await recordAuditEvent({
+      actorId,
+      action: AuditAction.CREATED,
+      entityType: AuditEntityType.TAG,
+      entityId: tag.id,
+      after: tag,
+      request,
+    }, tx);
+
+    return tag;
+  });
+}
+
+/**
+ * Rename a tag on every book carrying it
+ * @returns The tag and how many books were updated
+ */
+export async function renameTag(
+  id: string,
+  name: string,
+  actorId: string,
+  request?: Request
+): Promise<{ tag: Tag; booksUpdated: number }> {
+  return prisma.$transaction(async (tx) => {
+    const before = await tx.tag.findUniqueOrThrow({ where: { id } });
+    const tag = await tx.tag.update({ where: { id }, data: { name } });
+    const booksUpdated = await replaceTagOnBooks(tx, before.name, tag.name);
+
+    await recordAuditEvent({
+      actorId,
+      action: AuditAction.UPDATED,
+      entityType: AuditEntityType.TAG,
+      entityId: id,
+      before,
+      after: tag,
+      request,
+    }, tx);
+
+    return { tag, booksUpdated };
+  });
+}
+
+/**
+ * Fold a tag into another on every book carrying it and delete it
+ * @returns How many books were updated
+ */
+export async function mergeTag(id: string, targetId: string, actorId: string, request?: Request): Promise<number> {
+  return prisma.$transaction(async (tx) => {
+    const [source, target] = await Promise.all([
+      tx.tag.findUniqueOrThrow({ where: { id } }),
+      tx.tag.findUniqueOrThrow({ where: { id: targetId } }),
+    ]);
+
+    const booksUpdated = await replaceTagOnBooks(tx, source.name, target.name);
+    await tx.tag.delete({ where: { id } });
+
+    await recordAuditEvent({
+      actorId,
+      action: AuditAction.MERGED,
+      entityType: AuditEntityType.TAG,
+      entityId: id,
+      before: source,
+      after: { mergedInto: { id: target.id, name: target.name }, booksUpdated },
+      request,
+    }, tx);
+
+    return booksUpdated;
+  });
+}
+
+/**
+ * Delete a tag and take it off every book carrying it
+ * @returns How many books were updated
+ */
+export async function deleteTag(id: string, actorId: string, request?: Request): Promise<number> {
+  return prisma.$transaction(async (tx) => {
+    const tag = await tx.tag.delete({ where: { id } });
+    const booksUpdated = await replaceTagOnBooks(tx, tag.name, null);
+
+    await recordAuditEvent({
+      actorId,
+      action: AuditAction.DELETED,
+      entityType: AuditEntityType.TAG,
+      entityId: id,
+      before: tag,
+      after: { booksUpdated },
+      request,
+    }, tx);
+
+    return booksUpdated;
+  });
+}
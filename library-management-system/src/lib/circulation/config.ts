@@ -0,0 +1,19 @@
+// Circulation rule configuration types
+export type CirculationConfig = {
+  // Maximum number of times a single loan can be renewed
+  maxRenewals: number;
+  // Loans overdue by more than this many days can no longer be renewed
+  renewalOverdueGraceDays: number;
+  // Number of months a library card is valid for, from issue or renewal
+  membershipPeriodMonths: number;
+};
+
+// Default configuration using environment variables
+const defaultConfig: CirculationConfig = {
+  maxRenewals: parseInt(process.env.LOAN_MAX_RENEWALS || '2', 10),
+  renewalOverdueGraceDays: parseInt(process.env.LOAN_RENEWAL_OVERDUE_GRACE_DAYS || '3', 10),
+  membershipPeriodMonths: parseInt(process.env.MEMBERSHIP_PERIOD_MONTHS || '12', 10),
+};
+
+// Export default configuration
+export default defaultConfig;
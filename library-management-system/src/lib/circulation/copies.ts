@@ -0,0 +1,204 @@
+import { randomBytes } from 'crypto';
+import { BookStatus, ReservationStatus } from '@prisma/client';
+import { PrismaTransaction } from '@/lib/prisma';
+
+// Copy statuses in which a copy still counts as part of the lendable collection
+const CIRCULATING_STATUSES: BookStatus[] = [
+  BookStatus.AVAILABLE,
+  BookStatus.CHECKED_OUT,
+  BookStatus.RESERVED,
+];
+
+// Title statuses staff set through the book lifecycle: the copies don't override them,
+// and no copy of the title can be lent while it is in one
+export const OUT_OF_CIRCULATION_STATUSES: BookStatus[] = [
+  BookStatus.UNDER_MAINTENANCE,
+  BookStatus.DISCARDED,
+];
+
+// Days a member has to collect a copy once it has been set aside for them
+export const PICKUP_WINDOW_DAYS = 7;
+
+export interface CopyAvailability {
+  totalCopies: number;
+  availableCopies: number;
+  checkedOutCopies: number;
+  reservedCopies: number;
+  unavailableCopies: number;
+}
+
+/**
+ * Generate a unique-enough barcode for a new copy (e.g. "LMS-LX3K9A2F-7C1D9E0B")
+ */
+export function generateBarcode(): string {
+  const timestamp = Date.now().toString(36).toUpperCase();
+  const random = randomBytes(4).toString('hex').toUpperCase();
+  return `LMS-${timestamp}-${random}`;
+}
+
+/**
+ * Find the oldest available copy of a title
+ */
+export async function findAvailableCopy(db: PrismaTransaction, bookId: string) {
+  return db.bookCopy.findFirst({
+    where: {
+      bookId,
+      isDeleted: false,
+      status: BookStatus.AVAILABLE,
+    },
+    orderBy: {
+      acquisitionDate: 'asc',
+    },
+  });
+}
+
+/**
+ * Count copies of a title by availability
+ */
+export async function getCopyAvailability(
+  db: PrismaTransaction,
+  bookId: string
+): Promise<CopyAvailability> {
+  const statusCounts = await db.bookCopy.groupBy({
+    by: ['status'],
+    _count: {
+      id: true,
+    },
+    where: {
+      bookId,
+      isDeleted: false,
+    },
+  });
+
+  const countFor = (status: BookStatus) =>
+    statusCounts.find((s) => s.status === status)?._count.id || 0;
+
+  const totalCopies = statusCounts.reduce((sum, s) => sum + s._count.id, 0);
+  const availableCopies = countFor(BookStatus.AVAILABLE);
+  const checkedOutCopies = countFor(BookStatus.CHECKED_OUT);
+  const reservedCopies = countFor(BookStatus.RESERVED);
+
+  return {
+    totalCopies,
+    availableCopies,
+    checkedOutCopies,
+    reservedCopies,
+    unavailableCopies: totalCopies - availableCopies - checkedOutCopies - reservedCopies,
+  };
+}
+
+/**
+ * Derive the title-level status from its copies.
+ * A title is AVAILABLE while any copy is on the shelf, otherwise it takes the
+ * most relevant status among its copies. Titles without copies, and titles staff
+ * took out of circulation, are left untouched. A change is kept in the status history.
+ */
+export async function syncBookStatus(db: PrismaTransaction, bookId: string): Promise<BookStatus | null> {
+  const book = await db.book.findUniqueOrThrow({
+    where: { id: bookId },
+    select: { status: true },
+  });
+
+  if (OUT_OF_CIRCULATION_STATUSES.includes(book.status)) {
+    return book.status;
+  }
+
+  const copies = await db.bookCopy.findMany({
+    where: { bookId, isDeleted: false },
+    select: { status: true },
+  });
+
+  if (copies.length === 0) {
+    return null;
+  }
+
+  const statuses = copies.map((copy) => copy.status);
+  const status =
+    CIRCULATING_STATUSES.find((candidate) => statuses.includes(candidate)) ?? statuses[0];
+
+  if (status !== book.status) {
+    await db.book.update({
+      where: { id: bookId },
+      data: { status },
+    });
+
+    await db.bookStatusChange.create({
+      data: {
+        bookId,
+        fromStatus: book.status,
+        toStatus: status,
+        reason: 'Updated from the status of its copies',
+      },
+    });
+  }
+
+  return status;
+}
+
+/**
+ * Deadline for collecting a copy set aside today
+ */
+export function getPickupDeadline(from: Date = new Date()): Date {
+  const deadline = new Date(from);
+  deadline.setDate(deadline.getDate() + PICKUP_WINDOW_DAYS);
+  return deadline;
+}
+
+/**
+ * Release a copy that is no longer held or borrowed.
+ * The copy is handed to the next pending reservation for its title if there is
+ * one, otherwise it goes back on the shelf. The promoted reservation gets a
+ * fresh pickup window and is returned.
+ */
+export async function releaseCopy(
+  db: PrismaTransaction,
+  copy: { id: string; bookId: string },
+  options: { excludeReservationId?: string } = {}
+) {
+  const nextReservation = await db.reservation.findFirst({
+    where: {
+      bookId: copy.bookId,
+      status: ReservationStatus.PENDING,
+      expiryDate: { gt: new Date() },
+      ...(options.excludeReservationId ? { id: { not: options.excludeReservationId } } : {}),
+    },
+    orderBy: {
+      reservationDate: 'asc',
+    },
+    include: {
+      book: {
+        select: {
+          id: true,
+          title: true,
+        },
+      },
+      user: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+        },
+      },
+    },
+  });
+
+  if (nextReservation) {
+    await db.reservation.update({
+      where: { id: nextReservation.id },
+      data: {
+        status: ReservationStatus.READY_FOR_PICKUP,
+        copyId: copy.id,
+        expiryDate: getPickupDeadline(),
+      },
+    });
+  }
+
+  await db.bookCopy.update({
+    where: { id: copy.id },
+    data: { status: nextReservation ? BookStatus.RESERVED : BookStatus.AVAILABLE },
+  });
+
+  await syncBookStatus(db, copy.bookId);
+
+  return nextReservation;
+}
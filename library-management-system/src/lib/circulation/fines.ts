@@ -0,0 +1,187 @@
+import { FineStatus, FineType, PaymentMethod } from '@prisma/client';
+import { PrismaTransaction } from '@/lib/prisma';
+
+// Statuses in which a fine still has money owing
+export const OPEN_FINE_STATUSES: FineStatus[] = [FineStatus.UNPAID, FineStatus.PARTIALLY_PAID];
+
+type FineAmounts = {
+  amount: number;
+  amountPaid: number;
+  amountWaived: number;
+};
+
+// Round to cents to keep float arithmetic from leaving fractions of a cent behind
+function toCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Amount still owed on a fine
+ */
+export function getOutstandingAmount(fine: FineAmounts): number {
+  return Math.max(0, toCents(fine.amount - fine.amountPaid - fine.amountWaived));
+}
+
+/**
+ * Derive a fine's status from how much of it has been paid or waived
+ */
+export function getFineStatus(fine: FineAmounts): FineStatus {
+  if (getOutstandingAmount(fine) > 0) {
+    return fine.amountPaid > 0 || fine.amountWaived > 0 ? FineStatus.PARTIALLY_PAID : FineStatus.UNPAID;
+  }
+
+  // Fully settled: only count it as waived when nothing was paid
+  return fine.amountPaid > 0 ? FineStatus.PAID : FineStatus.WAIVED;
+}
+
+/**
+ * Total amount a member still owes across all open fines
+ */
+export async function getMemberFineBalance(db: PrismaTransaction, userId: string): Promise<number> {
+  const totals = await db.fineCharge.aggregate({
+    _sum: {
+      amount: true,
+      amountPaid: true,
+      amountWaived: true,
+    },
+    where: {
+      userId,
+      status: { in: OPEN_FINE_STATUSES },
+    },
+  });
+
+  return getOutstandingAmount({
+    amount: totals._sum.amount || 0,
+    amountPaid: totals._sum.amountPaid || 0,
+    amountWaived: totals._sum.amountWaived || 0,
+  });
+}
+
+/**
+ * Record the fines for a returned loan: one charge for lateness and one for
+ * the condition the book came back in. Zero amounts are skipped. Also used for
+ * the late fee on a loan renewed while overdue.
+ */
+export async function createReturnFineCharges(
+  db: PrismaTransaction,
+  loan: { transactionId: string; userId: string },
+  fees: { lateFee: number; conditionFee: number; condition: 'GOOD' | 'DAMAGED' | 'LOST' }
+) {
+  const charges: { type: FineType; amount: number }[] = [];
+
+  if (fees.lateFee > 0) {
+    charges.push({ type: FineType.OVERDUE, amount: toCents(fees.lateFee) });
+  }
+
+  if (fees.conditionFee > 0 && fees.condition !== 'GOOD') {
+    charges.push({ type: fees.condition, amount: toCents(fees.conditionFee) });
+  }
+
+  return Promise.all(
+    charges.map((charge) =>
+      db.fineCharge.create({
+        data: {
+          userId: loan.userId,
+          transactionId: loan.transactionId,
+          type: charge.type,
+          amount: charge.amount,
+        },
+      })
+    )
+  );
+}
+
+// Matches the fine only while it is open and nothing has been paid or waived on it
+// since it was read, so a concurrent payment or waiver can't be overwritten
+function unchangedFineWhere(fine: FineAmounts & { id: string }) {
+  return {
+    id: fine.id,
+    status: { in: OPEN_FINE_STATUSES },
+    amountPaid: fine.amountPaid,
+    amountWaived: fine.amountWaived,
+  };
+}
+
+/**
+ * Apply a payment to a fine and update its status
+ * @returns The payment and updated fine, or null if the fine changed since it was read
+ */
+export async function recordFinePayment(
+  db: PrismaTransaction,
+  fine: FineAmounts & { id: string },
+  payment: {
+    amount: number;
+    method?: PaymentMethod;
+    reference?: string;
+    notes?: string;
+    receivedById?: string;
+  }
+) {
+  const amountPaid = toCents(fine.amountPaid + payment.amount);
+
+  const { count } = await db.fineCharge.updateMany({
+    where: unchangedFineWhere(fine),
+    data: {
+      amountPaid,
+      status: getFineStatus({ ...fine, amountPaid }),
+    },
+  });
+
+  if (count === 0) {
+    return null;
+  }
+
+  const createdPayment = await db.payment.create({
+    data: {
+      fineChargeId: fine.id,
+      amount: toCents(payment.amount),
+      method: payment.method,
+      reference: payment.reference,
+      notes: payment.notes,
+      receivedById: payment.receivedById,
+    },
+  });
+
+  const updatedFine = await db.fineCharge.findUniqueOrThrow({ where: { id: fine.id } });
+
+  return { payment: createdPayment, fine: updatedFine };
+}
+
+/**
+ * Waive all or part of the outstanding amount on a fine
+ * @returns The updated fine, or null if the fine changed since it was read
+ */
+export async function waiveFine(
+  db: PrismaTransaction,
+  fine: FineAmounts & { id: string },
+  waiver: { amount: number; reason: string; waivedById: string }
+) {
+  const amountWaived = toCents(fine.amountWaived + waiver.amount);
+
+  const { count } = await db.fineCharge.updateMany({
+    where: unchangedFineWhere(fine),
+    data: {
+      amountWaived,
+      status: getFineStatus({ ...fine, amountWaived }),
+      waivedById: waiver.waivedById,
+      waiverReason: waiver.reason,
+      waivedAt: new Date(),
+    },
+  });
+
+  if (count === 0) {
+    return null;
+  }
+
+  // Kept per waiver so reports can place each one in the period it was granted
+  await db.fineWaiver.create({
+    data: {
+      fineChargeId: fine.id,
+      amount: toCents(waiver.amount),
+      reason: waiver.reason,
+      waivedById: waiver.waivedById,
+    },
+  });
+
+  return db.fineCharge.findUniqueOrThrow({ where: { id: fine.id } });
+}
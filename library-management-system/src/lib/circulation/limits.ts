@@ -0,0 +1,77 @@
+import { TransactionStatus } from '@prisma/client';
+import { PrismaTransaction } from '@/lib/prisma';
+import { getMemberFineBalance } from '@/lib/circulation/fines';
+import { ResolvedCirculationPolicy } from '@/lib/circulation/policy';
+
+export type BorrowingLimitRule = 'MAX_ACTIVE_LOANS' | 'MAX_OVERDUE_ITEMS' | 'MAX_FINE_BALANCE';
+
+export interface BorrowingLimitViolation {
+  rule: BorrowingLimitRule;
+  message: string;
+  limit: number;
+  current: number;
+}
+
+/**
+ * Check a member against the borrowing limits of a circulation policy.
+ * Returns one entry per limit that blocks a new checkout; an empty list means
+ * the member may borrow. For a checkout, call it in the transaction that creates
+ * the loan, with the member's row locked, so concurrent checkouts can't both pass.
+ */
+export async function evaluateBorrowingLimits(
+  db: PrismaTransaction,
+  userId: string,
+  policy: ResolvedCirculationPolicy
+): Promise<BorrowingLimitViolation[]> {
+  const violations: BorrowingLimitViolation[] = [];
+
+  const [activeLoans, overdueItems, fineBalance] = await Promise.all([
+    db.transaction.count({
+      where: {
+        userId,
+        status: { in: [TransactionStatus.CHECKED_OUT, TransactionStatus.OVERDUE] },
+      },
+    }),
+    // Loans past their due date count even before the overdue job has flagged them
+    db.transaction.count({
+      where: {
+        userId,
+        OR: [
+          { status: TransactionStatus.OVERDUE },
+          { status: TransactionStatus.CHECKED_OUT, dueDate: { lt: new Date() } },
+        ],
+      },
+    }),
+    getMemberFineBalance(db, userId),
+  ]);
+
+  // A new loan would take the member past the limit
+  if (policy.maxActiveLoans !== null && activeLoans >= policy.maxActiveLoans) {
+    violations.push({
+      rule: 'MAX_ACTIVE_LOANS',
+      message: `Member already has ${activeLoans} item(s) on loan (limit ${policy.maxActiveLoans})`,
+      limit: policy.maxActiveLoans,
+      current: activeLoans,
+    });
+  }
+
+  if (policy.maxOverdueItems !== null && overdueItems > policy.maxOverdueItems) {
+    violations.push({
+      rule: 'MAX_OVERDUE_ITEMS',
+      message: `Member has ${overdueItems} overdue item(s) (limit ${policy.maxOverdueItems})`,
+      limit: policy.maxOverdueItems,
+      current: overdueItems,
+    });
+  }
+
+  if (policy.maxFineBalance !== null && fineBalance > policy.maxFineBalance) {
+    violations.push({
+      rule: 'MAX_FINE_BALANCE',
+      message: `Member owes $${fineBalance.toFixed(2)} in fines (limit $${policy.maxFineBalance.toFixed(2)})`,
+      limit: policy.maxFineBalance,
+      current: fineBalance,
+    });
+  }
+
+  return violations;
+}
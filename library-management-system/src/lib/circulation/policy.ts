@@ -0,0 +1,151 @@
+import { UserRole } from '@prisma/client';
+import { PrismaTransaction } from '@/lib/prisma';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export type ReturnCondition = 'GOOD' | 'DAMAGED' | 'LOST';
+
+export interface ResolvedCirculationPolicy {
+  // ID of the matching policy, or null when the built-in defaults apply
+  policyId: string | null;
+  name: string;
+  loanPeriodDays: number;
+  dailyFineRate: number;
+  maxFine: number | null;
+  gracePeriodDays: number;
+  lostItemFee: number;
+  damagedItemFee: number;
+  // Borrowing limits; null means the limit is not enforced
+  maxActiveLoans: number | null;
+  maxOverdueItems: number | null;
+  maxFineBalance: number | null;
+}
+
+// Rules used when no policy has been configured for a role/category
+export const DEFAULT_CIRCULATION_POLICY: ResolvedCirculationPolicy = {
+  policyId: null,
+  name: 'Default',
+  loanPeriodDays: 14,
+  dailyFineRate: 0.5,
+  maxFine: null,
+  gracePeriodDays: 0,
+  lostItemFee: 50,
+  damagedItemFee: 15,
+  maxActiveLoans: 5,
+  maxOverdueItems: 0,
+  maxFineBalance: 10,
+};
+
+/**
+ * Resolve the circulation policy for a member role and book category.
+ * A policy matching both wins over one matching the role only, which wins over
+ * one matching the category only, which wins over a catch-all policy.
+ */
+export async function resolveCirculationPolicy(
+  db: PrismaTransaction,
+  criteria: { role?: UserRole | null; category?: string | null }
+): Promise<ResolvedCirculationPolicy> {
+  // Policies without a role or category apply to every role or category
+  const policies = await db.circulationPolicy.findMany({
+    where: {
+      isActive: true,
+      AND: [
+        { OR: [{ role: null }, ...(criteria.role ? [{ role: criteria.role }] : [])] },
+        { OR: [{ category: null }, ...(criteria.category ? [{ category: criteria.category }] : [])] },
+      ],
+    },
+  });
+
+  const specificity = (policy: { role: UserRole | null; category: string | null }) =>
+    (policy.role ? 2 : 0) + (policy.category ? 1 : 0);
+
+  const [match] = policies.sort((a, b) => specificity(b) - specificity(a));
+
+  if (!match) {
+    return DEFAULT_CIRCULATION_POLICY;
+  }
+
+  return {
+    policyId: match.id,
+    name: match.name,
+    loanPeriodDays: match.loanPeriodDays,
+    dailyFineRate: match.dailyFineRate,
+    maxFine: match.maxFine,
+    gracePeriodDays: match.gracePeriodDays,
+    lostItemFee: match.lostItemFee,
+    damagedItemFee: match.damagedItemFee,
+    maxActiveLoans: match.maxActiveLoans,
+    maxOverdueItems: match.maxOverdueItems,
+    maxFineBalance: match.maxFineBalance,
+  };
+}
+
+/**
+ * The policy (other than `excludeId`) that already targets a role and category.
+ * The unique constraint on the pair doesn't cover this when either is null, as
+ * Postgres treats nulls as distinct, so writes check here inside a serializable
+ * transaction instead.
+ */
+export async function findPolicyForScope(
+  db: PrismaTransaction,
+  scope: { role: UserRole | null; category: string | null },
+  excludeId?: string
+) {
+  return db.circulationPolicy.findFirst({
+    where: {
+      role: scope.role,
+      category: scope.category,
+      ...(excludeId ? { id: { not: excludeId } } : {}),
+    },
+  });
+}
+
+/**
+ * Calculate the due date for a loan starting on the checkout date
+ */
+export function calculateDueDate(policy: ResolvedCirculationPolicy, checkoutDate: Date): Date {
+  const dueDate = new Date(checkoutDate);
+  dueDate.setDate(dueDate.getDate() + policy.loanPeriodDays);
+  return dueDate;
+}
+
+/**
+ * Count whole days a loan is past due on the given date (0 if not overdue)
+ */
+export function getDaysOverdue(dueDate: Date, asOf: Date): number {
+  if (asOf <= dueDate) {
+    return 0;
+  }
+
+  return Math.ceil((asOf.getTime() - dueDate.getTime()) / MS_PER_DAY);
+}
+
+/**
+ * Calculate the fine for a loan returned (or assessed) on the given date.
+ * No late fee is charged within the grace period; after it, every day past the
+ * due date is charged, up to the policy's cap. Lost and damaged fees are added
+ * on top of the late fee and are not capped.
+ */
+export function calculateFine(
+  policy: ResolvedCirculationPolicy,
+  dueDate: Date,
+  returnDate: Date,
+  condition: ReturnCondition = 'GOOD'
+): number {
+  let conditionFee = 0;
+
+  if (condition === 'DAMAGED') {
+    conditionFee = policy.damagedItemFee;
+  } else if (condition === 'LOST') {
+    conditionFee = policy.lostItemFee;
+  }
+
+  const daysOverdue = getDaysOverdue(dueDate, returnDate);
+  let lateFine = daysOverdue > policy.gracePeriodDays ? daysOverdue * policy.dailyFineRate : 0;
+
+  if (policy.maxFine !== null) {
+    lateFine = Math.min(lateFine, policy.maxFine);
+  }
+
+  return parseFloat((conditionFee + lateFine).toFixed(2));
+}
@@ -0,0 +1,120 @@
+import { ReservationStatus } from '@prisma/client';
+import { prisma, PrismaTransaction } from '@/lib/prisma';
+import NotificationScheduler from '@/lib/email/schedulers/notification-scheduler';
+import { publishHoldReady } from '@/lib/events/circulation';
+import { releaseCopy, syncBookStatus } from './copies';
+
+// Reservations that are still waiting to be collected
+export const ACTIVE_RESERVATION_STATUSES: ReservationStatus[] = [
+  ReservationStatus.PENDING,
+  ReservationStatus.READY_FOR_PICKUP,
+];
+
+export type ReservationExpiryResult = {
+  processed: number;
+  expired: number;
+  promoted: number;
+  failed: number;
+  // Availability emails for promoted holds (and any others still owed one)
+  notified: number;
+  deferred: number;
+};
+
+/**
+ * Mark a reservation as expired and pass any copy it was holding to the next
+ * person in line. Returns false if the reservation was no longer active, e.g.
+ * because it was collected or cancelled in the meantime.
+ */
+export async function expireReservation(
+  db: PrismaTransaction,
+  reservation: { id: string; bookId: string; copyId: string | null; status: ReservationStatus }
+): Promise<{ expired: boolean; promotedReservation: Awaited<ReturnType<typeof releaseCopy>> }> {
+  // Only expire it if nothing else has changed its status since it was read
+  const { count } = await db.reservation.updateMany({
+    where: {
+      id: reservation.id,
+      status: { in: ACTIVE_RESERVATION_STATUSES },
+    },
+    data: { status: ReservationStatus.EXPIRED },
+  });
+
+  if (count === 0) {
+    return { expired: false, promotedReservation: null };
+  }
+
+  if (reservation.status !== ReservationStatus.READY_FOR_PICKUP) {
+    return { expired: true, promotedReservation: null };
+  }
+
+  if (!reservation.copyId) {
+    // Holds from before copies were tracked have nothing to hand on
+    await syncBookStatus(db, reservation.bookId);
+    return { expired: true, promotedReservation: null };
+  }
+
+  const promoted = await releaseCopy(
+    db,
+    { id: reservation.copyId, bookId: reservation.bookId },
+    { excludeReservationId: reservation.id }
+  );
+
+  return { expired: true, promotedReservation: promoted };
+}
+
+/**
+ * Expire every active reservation past its expiry date, advance the queue for
+ * the affected titles and send availability emails to the members promoted
+ */
+export async function processExpiredReservations(now: Date = new Date()): Promise<ReservationExpiryResult> {
+  const expiredReservations = await prisma.reservation.findMany({
+    where: {
+      expiryDate: { lt: now },
+      status: { in: ACTIVE_RESERVATION_STATUSES },
+    },
+    select: {
+      id: true,
+      bookId: true,
+      copyId: true,
+      status: true,
+    },
+    // Oldest first, so a title's queue advances in order
+    orderBy: { expiryDate: 'asc' },
+  });
+
+  const result: ReservationExpiryResult = {
+    processed: expiredReservations.length,
+    expired: 0,
+    promoted: 0,
+    failed: 0,
+    notified: 0,
+    deferred: 0,
+  };
+
+  // One at a time: expiring a hold can promote another reservation for the same title
+  for (const reservation of expiredReservations) {
+    try {
+      const outcome = await prisma.$transaction((tx) => expireReservation(tx, reservation));
+
+      if (outcome.expired) {
+        result.expired++;
+      }
+      if (outcome.promotedReservation) {
+        result.promoted++;
+        publishHoldReady(outcome.promotedReservation);
+      }
+    } catch (error) {
+      console.error(`Error expiring reservation ${reservation.id}:`, error);
+      result.failed++;
+    }
+  }
+
+  if (result.promoted > 0) {
+    // The availability job only emails holds that have not been notified yet,
+    // and respects the member's notification preferences
+    const notifications = await new NotificationScheduler().processReservationAvailability();
+    result.notified = notifications.sent;
+    result.deferred = notifications.deferred;
+  }
+
+  return result;
+}
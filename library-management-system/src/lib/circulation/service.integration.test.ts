@@ -0,0 +1,301 @@
+import { afterAll, beforeEach, describe, expect, it } from 'vitest';
+import {
+  AuditAction,
+  BookStatus,
+  FineType,
+  ReservationStatus,
+  TransactionStatus,
+  UserRole,
+} from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { Principal } from '@/lib/auth/policy';
+import { roleDefinitions } from '@/lib/auth/rbac/roles';
+import { checkoutBook, CirculationContext, returnBook } from './service';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+let sequence = 0;
+
+async function resetDatabase() {
+  const tables = await prisma.$queryRaw<{ tablename: string }[]>`
+    SELECT tablename FROM pg_tables WHERE schemaname = 'public'
+  `;
+
+  if (tables.length > 0) {
+    const names = tables.map(({ tablename }) => `"public"."${tablename}"`).join(', ');
+    await prisma.$executeRawUnsafe(`TRUNCATE TABLE ${names} CASCADE`);
+  }
+}
+
+async function createUser(role: UserRole) {
+  sequence += 1;
+  return prisma.user.create({
+    data: {
+      email: `${role.toLowerCase()}-${sequence}@example.com`,
+      name: `${role} ${sequence}`,
+      passwordHash: 'not-a-hash',
+      role,
+    },
+  });
+}
+
+async function createBook(copies: number = 1) {
+  sequence += 1;
+  return prisma.book.create({
+    data: {
+      isbn: `978-0-00-${String(sequence).padStart(6, '0')}`,
+      title: `Book ${sequence}`,
+      author: 'Test Author',
+      category: 'Fiction',
+      copies: {
+        create: Array.from({ length: copies }, (_, index) => ({
+          barcode: `TEST-${sequence}-${index + 1}`,
+          // Oldest first, so the copy a checkout picks is predictable
+          acquisitionDate: new Date(Date.now() - (copies - index) * MS_PER_DAY),
+        })),
+      },
+    },
+    include: { copies: { orderBy: { acquisitionDate: 'asc' } } },
+  });
+}
+
+async function createStaffContext(): Promise<CirculationContext> {
+  const librarian = await createUser(UserRole.LIBRARIAN);
+  const actor: Principal = {
+    id: librarian.id,
+    name: librarian.name,
+    role: librarian.role,
+    permissions: roleDefinitions[UserRole.LIBRARIAN].permissions,
+  };
+
+  return { actor };
+}
+
+async function checkOut(context: CirculationContext, input: Parameters<typeof checkoutBook>[0]) {
+  const result = await checkoutBook(input, context);
+
+  if (!result.ok) {
+    throw new Error(`Checkout failed: ${result.error}`);
+  }
+
+  // A checkout always lends a specific copy
+  const { copyId } = result.transaction;
+  if (!copyId) {
+    throw new Error('Checkout did not record a copy');
+  }
+
+  return { ...result.transaction, copyId };
+}
+
+describe.skipIf(!process.env.TEST_DATABASE_URL)('circulation service', () => {
+  let context: CirculationContext;
+
+  beforeEach(async () => {
+    await resetDatabase();
+    context = await createStaffContext();
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  describe('checkoutBook', () => {
+    it('lends the oldest available copy and records the checkout', async () => {
+      const member = await createUser(UserRole.MEMBER);
+      const book = await createBook(2);
+
+      const loan = await checkOut(context, { bookId: book.id, userId: member.id });
+
+      expect(loan.copyId).toBe(book.copies[0].id);
+      expect(loan.status).toBe(TransactionStatus.CHECKED_OUT);
+
+      const copy = await prisma.bookCopy.findUniqueOrThrow({ where: { id: loan.copyId } });
+      expect(copy.status).toBe(BookStatus.CHECKED_OUT);
+
+      // The other copy is still on the shelf
+      const title = await prisma.book.findUniqueOrThrow({ where: { id: book.id } });
+      expect(title.status).toBe(BookStatus.AVAILABLE);
+
+      const events = await prisma.auditEvent.findMany({ where: { entityId: loan.id } });
+      expect(events.map((event) => event.action)).toEqual([AuditAction.CHECKED_OUT]);
+    });
+
+    it('refuses a copy that is already on loan with 409', async () => {
+      const [first, second] = [await createUser(UserRole.MEMBER), await createUser(UserRole.MEMBER)];
+      const book = await createBook(1);
+
+      await checkOut(context, { copyId: book.copies[0].id, userId: first.id });
+      const result = await checkoutBook({ copyId: book.copies[0].id, userId: second.id }, context);
+
+      expect(result).toMatchObject({ ok: false, status: 409 });
+    });
+
+    it('lends the last copy only once when two checkouts race for it', async () => {
+      const [first, second] = [await createUser(UserRole.MEMBER), await createUser(UserRole.MEMBER)];
+      const book = await createBook(1);
+
+      const results = await Promise.all([
+        checkoutBook({ bookId: book.id, userId: first.id }, context),
+        checkoutBook({ bookId: book.id, userId: second.id }, context),
+      ]);
+
+      expect(results.filter((result) => result.ok)).toHaveLength(1);
+      expect(results.find((result) => !result.ok)).toMatchObject({ status: 409 });
+      expect(await prisma.transaction.count({ where: { bookId: book.id } })).toBe(1);
+    });
+
+    it('holds a member to the loan limit when two of their checkouts race', async () => {
+      const member = await createUser(UserRole.MEMBER);
+      const [first, second] = [await createBook(1), await createBook(1)];
+      await prisma.circulationPolicy.create({
+        data: { name: 'One loan', role: UserRole.MEMBER, maxActiveLoans: 1 },
+      });
+
+      const results = await Promise.all([
+        checkoutBook({ bookId: first.id, userId: member.id }, context),
+        checkoutBook({ bookId: second.id, userId: member.id }, context),
+      ]);
+
+      expect(results.filter((result) => result.ok)).toHaveLength(1);
+      expect(results.find((result) => !result.ok)).toMatchObject({
+        status: 409,
+        details: { violations: [{ rule: 'MAX_ACTIVE_LOANS' }] },
+      });
+      expect(await prisma.transaction.count({ where: { userId: member.id } })).toBe(1);
+    });
+
+    it('refuses to lend a title staff took out of circulation', async () => {
+      const member = await createUser(UserRole.MEMBER);
+      const book = await createBook(1);
+      await prisma.book.update({ where: { id: book.id }, data: { status: BookStatus.UNDER_MAINTENANCE } });
+
+      const result = await checkoutBook({ copyId: book.copies[0].id, userId: member.id }, context);
+
+      expect(result).toMatchObject({ ok: false, status: 409 });
+      const copy = await prisma.bookCopy.findUniqueOrThrow({ where: { id: book.copies[0].id } });
+      expect(copy.status).toBe(BookStatus.AVAILABLE);
+    });
+
+    it('keeps the title status history in step with circulation', async () => {
+      const member = await createUser(UserRole.MEMBER);
+      const book = await createBook(1);
+
+      const loan = await checkOut(context, { bookId: book.id, userId: member.id });
+      await returnBook({ transactionId: loan.id, condition: 'GOOD' }, context);
+
+      const changes = await prisma.bookStatusChange.findMany({
+        where: { bookId: book.id },
+        orderBy: { createdAt: 'asc' },
+      });
+      expect(changes.map((change) => [change.fromStatus, change.toStatus])).toEqual([
+        [BookStatus.AVAILABLE, BookStatus.CHECKED_OUT],
+        [BookStatus.CHECKED_OUT, BookStatus.AVAILABLE],
+      ]);
+    });
+  });
+
+  describe('returnBook', () => {
+    it('puts a copy returned on time back on the shelf without a fine', async () => {
+      const member = await createUser(UserRole.MEMBER);
+      const book = await createBook(1);
+      const loan = await checkOut(context, { bookId: book.id, userId: member.id });
+
+      const result = await returnBook({ transactionId: loan.id, condition: 'GOOD' }, context);
+
+      expect(result.ok).toBe(true);
+      const returned = await prisma.transaction.findUniqueOrThrow({ where: { id: loan.id } });
+      expect(returned.status).toBe(TransactionStatus.RETURNED);
+      expect(returned.returnDate).not.toBeNull();
+
+      const copy = await prisma.bookCopy.findUniqueOrThrow({ where: { id: loan.copyId } });
+      expect(copy.status).toBe(BookStatus.AVAILABLE);
+      expect(await prisma.fineCharge.count({ where: { transactionId: loan.id } })).toBe(0);
+    });
+
+    it('charges the late fee for an overdue return', async () => {
+      const member = await createUser(UserRole.MEMBER);
+      const book = await createBook(1);
+      // Three days late by the time it comes back, at the default 0.50 a day
+      const dueDate = new Date(Date.now() - 3 * MS_PER_DAY + 60 * 60 * 1000);
+      const loan = await checkOut(context, { bookId: book.id, userId: member.id, dueDate });
+
+      const result = await returnBook({ transactionId: loan.id, condition: 'GOOD' }, context);
+
+      expect(result.ok).toBe(true);
+      const charges = await prisma.fineCharge.findMany({ where: { transactionId: loan.id } });
+      expect(charges).toMatchObject([{ type: FineType.OVERDUE, amount: 1.5, userId: member.id }]);
+
+      const returned = await prisma.transaction.findUniqueOrThrow({ where: { id: loan.id } });
+      expect(returned.fine).toBe(1.5);
+    });
+
+    it('charges the replacement fee for a lost copy and keeps it off the shelf', async () => {
+      const member = await createUser(UserRole.MEMBER);
+      const book = await createBook(1);
+      const loan = await checkOut(context, { bookId: book.id, userId: member.id });
+
+      await returnBook({ transactionId: loan.id, condition: 'LOST' }, context);
+
+      const charges = await prisma.fineCharge.findMany({ where: { transactionId: loan.id } });
+      expect(charges).toMatchObject([{ type: FineType.LOST, amount: 50 }]);
+
+      const copy = await prisma.bookCopy.findUniqueOrThrow({ where: { id: loan.copyId } });
+      expect(copy.status).toBe(BookStatus.LOST);
+    });
+
+    it('refuses a second return of the same loan with 409', async () => {
+      const member = await createUser(UserRole.MEMBER);
+      const book = await createBook(1);
+      const dueDate = new Date(Date.now() - 2 * MS_PER_DAY);
+      const loan = await checkOut(context, { bookId: book.id, userId: member.id, dueDate });
+
+      const results = await Promise.all([
+        returnBook({ transactionId: loan.id, condition: 'GOOD' }, context),
+        returnBook({ transactionId: loan.id, condition: 'GOOD' }, context),
+      ]);
+
+      expect(results.filter((result) => result.ok)).toHaveLength(1);
+      expect(results.find((result) => !result.ok)).toMatchObject({ status: 409 });
+      // The late fee is charged once
+      expect(await prisma.fineCharge.count({ where: { transactionId: loan.id } })).toBe(1);
+    });
+  });
+
+  describe('reservation handoff', () => {
+    it('holds a returned copy for the next member in line and lends it only to them', async () => {
+      const [borrower, waiting, other] = [
+        await createUser(UserRole.MEMBER),
+        await createUser(UserRole.MEMBER),
+        await createUser(UserRole.MEMBER),
+      ];
+      const book = await createBook(1);
+      const loan = await checkOut(context, { bookId: book.id, userId: borrower.id });
+
+      const reservation = await prisma.reservation.create({
+        data: {
+          bookId: book.id,
+          userId: waiting.id,
+          expiryDate: new Date(Date.now() + 7 * MS_PER_DAY),
+        },
+      });
+
+      await returnBook({ transactionId: loan.id, condition: 'GOOD' }, context);
+
+      const held = await prisma.reservation.findUniqueOrThrow({ where: { id: reservation.id } });
+      expect(held.status).toBe(ReservationStatus.READY_FOR_PICKUP);
+      expect(held.copyId).toBe(loan.copyId);
+
+      const copy = await prisma.bookCopy.findUniqueOrThrow({ where: { id: loan.copyId } });
+      expect(copy.status).toBe(BookStatus.RESERVED);
+
+      const refused = await checkoutBook({ copyId: loan.copyId, userId: other.id }, context);
+      expect(refused).toMatchObject({ ok: false, status: 409 });
+
+      const pickup = await checkOut(context, { bookId: book.id, userId: waiting.id });
+      expect(pickup.copyId).toBe(loan.copyId);
+
+      const fulfilled = await prisma.reservation.findUniqueOrThrow({ where: { id: reservation.id } });
+      expect(fulfilled.status).toBe(ReservationStatus.FULFILLED);
+    });
+  });
+});
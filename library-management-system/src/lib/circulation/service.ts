@@ -0,0 +1,684 @@
+import { NextResponse } from 'next/server';
+import {
+  AuditAction,
+  AuditEntityType,
+  BookStatus,
+  Prisma,
+  ReservationStatus,
+  TransactionStatus,
+  UserStatus,
+} from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { can, Principal } from '@/lib/auth/policy';
+import { recordAuditEvent } from '@/lib/audit/events';
+import { publishCheckout, publishHoldReady, publishReturn } from '@/lib/events/circulation';
+import { isMembershipExpired } from '@/lib/members/library-card';
+import {
+  findAvailableCopy,
+  OUT_OF_CIRCULATION_STATUSES,
+  releaseCopy,
+  syncBookStatus,
+} from './copies';
+import {
+  createReturnFineCharges,
+  getMemberFineBalance,
+  OPEN_FINE_STATUSES,
+  recordFinePayment,
+} from './fines';
+import { evaluateBorrowingLimits } from './limits';
+import {
+  calculateDueDate,
+  calculateFine,
+  resolveCirculationPolicy,
+  ReturnCondition,
+} from './policy';
+import { Borrowing, BorrowingStatus } from '@/types/borrowings';
+
+/**
+ * Checking books out and in. Both /api/transactions and /api/borrowings go
+ * through here, so every checkout and return gets the same checks, fines,
+ * reservation handoff, audit trail and live events.
+ */
+
+// A checkout or return that was refused; routes pass it on with failureResponse
+export interface CirculationFailure {
+  ok: false;
+  status: 400 | 404 | 409;
+  error: string;
+  // Extra fields for the response body, e.g. the limits that blocked a checkout
+  details?: Record<string, unknown>;
+}
+
+// Who is doing it, and the request it came in on for the audit log
+export interface CirculationContext {
+  actor: Principal;
+  request?: Request;
+}
+
+export interface CheckoutInput {
+  // A specific copy can be given by ID or barcode; otherwise any available copy of the book is used
+  bookId?: string;
+  copyId?: string;
+  barcode?: string;
+  userId: string;
+  // Defaults to the loan period from the circulation policy
+  dueDate?: Date;
+  notes?: string;
+  // Staff with override permission can check out past the member's borrowing limits
+  overrideReason?: string;
+}
+
+export interface ReturnInput {
+  transactionId: string;
+  condition: ReturnCondition;
+  notes?: string;
+  // The member paid the fines for this return at the desk
+  finesPaid?: boolean;
+}
+
+function fail(
+  status: CirculationFailure['status'],
+  error: string,
+  details?: Record<string, unknown>
+): CirculationFailure {
+  return { ok: false, status, error, details };
+}
+
+/**
+ * Response for a refused checkout or return
+ */
+export function failureResponse(failure: CirculationFailure): NextResponse {
+  return NextResponse.json({ error: failure.error, ...failure.details }, { status: failure.status });
+}
+
+/**
+ * Lend a copy to a member. Checks the member's account, card and borrowing
+ * limits, picks the copy (one held for the member comes first), fulfils the
+ * member's reservation and passes any other copy held for them to the next in line.
+ */
+export async function checkoutBook(input: CheckoutInput, context: CirculationContext) {
+  const { bookId, copyId, barcode, userId, dueDate, notes, overrideReason } = input;
+  const { actor, request } = context;
+
+  // Resolve the requested copy when one was given by ID or barcode
+  let copy = null;
+
+  if (copyId || barcode) {
+    copy = await prisma.bookCopy.findFirst({
+      where: copyId ? { id: copyId } : { barcode },
+    });
+
+    if (!copy || copy.isDeleted) {
+      return fail(404, 'Copy not found');
+    }
+
+    if (bookId && copy.bookId !== bookId) {
+      return fail(400, 'Copy does not belong to the requested book');
+    }
+  }
+
+  const resolvedBookId = copy?.bookId ?? bookId;
+
+  if (!resolvedBookId) {
+    return fail(400, 'A book ID, copy ID or barcode is required');
+  }
+
+  // Check if the book exists
+  const book = await prisma.book.findUnique({
+    where: { id: resolvedBookId },
+  });
+
+  if (!book || book.isDeleted) {
+    return fail(404, 'Book not found');
+  }
+
+  if (OUT_OF_CIRCULATION_STATUSES.includes(book.status)) {
+    return fail(409, `This book is out of circulation. Current status: ${book.status}`);
+  }
+
+  // Check if the user exists and is active
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+  });
+
+  if (!user) {
+    return fail(404, 'User not found');
+  }
+
+  if (user.status !== UserStatus.ACTIVE) {
+    return fail(409, `User account is not active. Current status: ${user.status}`);
+  }
+
+  // An expired card has to be renewed at the desk before the member can borrow again
+  if (isMembershipExpired(user)) {
+    return fail(
+      409,
+      `Library card expired on ${user.membershipExpiresAt!.toISOString().split('T')[0]}. Renew the membership to check out.`,
+      { membershipStatus: 'EXPIRED' }
+    );
+  }
+
+  // Borrowing limits come from the policy for this role and category
+  const policy = await resolveCirculationPolicy(prisma, {
+    role: user.role,
+    category: book.category,
+  });
+  const canOverride = can(actor, 'transaction:override');
+
+  // Check if this user holds an active reservation for the book
+  const userReservation = await prisma.reservation.findFirst({
+    where: {
+      bookId: resolvedBookId,
+      userId,
+      status: { in: [ReservationStatus.PENDING, ReservationStatus.READY_FOR_PICKUP] },
+      expiryDate: { gt: new Date() },
+    },
+  });
+
+  if (copy) {
+    // A copy set aside for pickup can only go to the member it is held for
+    if (copy.status === BookStatus.RESERVED) {
+      const holdingReservation = await prisma.reservation.findFirst({
+        where: {
+          copyId: copy.id,
+          status: ReservationStatus.READY_FOR_PICKUP,
+        },
+      });
+
+      if (holdingReservation && holdingReservation.userId !== userId) {
+        return fail(409, 'This copy is reserved by another user', {
+          reservationId: holdingReservation.id,
+        });
+      }
+    } else if (copy.status !== BookStatus.AVAILABLE) {
+      return fail(409, `Copy is not available for checkout. Current status: ${copy.status}`);
+    }
+  } else if (
+    userReservation?.status === ReservationStatus.READY_FOR_PICKUP &&
+    userReservation.copyId
+  ) {
+    // Hand over the copy that was set aside for this member
+    copy = await prisma.bookCopy.findUnique({
+      where: { id: userReservation.copyId },
+    });
+  } else {
+    copy = await findAvailableCopy(prisma, resolvedBookId);
+  }
+
+  if (!copy) {
+    return fail(409, `No copies of this book are available for checkout. Current status: ${book.status}`);
+  }
+
+  const checkoutCopy = copy;
+
+  // Use the requested due date, or the loan period from the circulation policy
+  const checkoutDate = new Date();
+  const loanDueDate = dueDate ?? calculateDueDate(policy, checkoutDate);
+
+  const checkout = await prisma.$transaction(async (tx) => {
+    // Lock the member so their checkouts are counted one at a time; two at once
+    // could otherwise both pass the loan limit
+    await tx.$queryRaw`SELECT id FROM "users" WHERE id = ${userId} FOR UPDATE`;
+
+    const violations = await evaluateBorrowingLimits(tx, userId, policy);
+    const isOverride = violations.length > 0;
+
+    if (isOverride && (!canOverride || !overrideReason)) {
+      return fail(409, 'Checkout blocked by borrowing limits', { violations, canOverride });
+    }
+
+    // Claim the copy only if it is still on the shelf, or still held for this member, and
+    // the title is still in circulation, so two checkouts racing for the same copy can't
+    // both lend it
+    const { count } = await tx.bookCopy.updateMany({
+      where: {
+        id: checkoutCopy.id,
+        isDeleted: false,
+        book: { status: { notIn: OUT_OF_CIRCULATION_STATUSES } },
+        ...(checkoutCopy.status === BookStatus.RESERVED
+          ? {
+              status: BookStatus.RESERVED,
+              reservations: {
+                none: { status: ReservationStatus.READY_FOR_PICKUP, userId: { not: userId } },
+              },
+            }
+          : { status: BookStatus.AVAILABLE }),
+      },
+      data: { status: BookStatus.CHECKED_OUT },
+    });
+
+    if (count === 0) {
+      return fail(409, 'This copy was just checked out, set aside or taken out of circulation. Try again.');
+    }
+
+    // Create the transaction record
+    const transaction = await tx.transaction.create({
+      data: {
+        copyId: checkoutCopy.id,
+        bookId: resolvedBookId,
+        userId,
+        checkoutDate,
+        dueDate: loanDueDate,
+        status: TransactionStatus.CHECKED_OUT,
+        fine: 0,
+        ...(notes && { notes }),
+        ...(isOverride && {
+          overriddenById: actor.id,
+          overrideReason,
+        }),
+      },
+      include: {
+        book: {
+          select: {
+            id: true,
+            title: true,
+            author: true,
+            isbn: true,
+          },
+        },
+        copy: {
+          select: {
+            id: true,
+            barcode: true,
+          },
+        },
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+    });
+
+    let promotedReservation = null;
+
+    // If there was a reservation for this user, mark it as fulfilled
+    if (userReservation) {
+      await tx.reservation.update({
+        where: { id: userReservation.id },
+        data: { status: ReservationStatus.FULFILLED },
+      });
+
+      // A different copy held for this member goes to the next person in line
+      if (userReservation.copyId && userReservation.copyId !== checkoutCopy.id) {
+        promotedReservation = await releaseCopy(tx, { id: userReservation.copyId, bookId: resolvedBookId });
+      }
+    }
+
+    // Keep the title-level status in line with its copies
+    await syncBookStatus(tx, resolvedBookId);
+
+    await recordAuditEvent({
+      actorId: actor.id,
+      action: AuditAction.CHECKED_OUT,
+      entityType: AuditEntityType.TRANSACTION,
+      entityId: transaction.id,
+      after: {
+        bookId: transaction.bookId,
+        copyId: transaction.copyId,
+        userId: transaction.userId,
+        checkoutDate: transaction.checkoutDate,
+        dueDate: transaction.dueDate,
+        status: transaction.status,
+      },
+      reason: isOverride ? overrideReason : null,
+      request,
+    }, tx);
+
+    return { ok: true as const, transaction, promotedReservation };
+  });
+
+  if (!checkout.ok) {
+    return checkout;
+  }
+
+  const { transaction, promotedReservation } = checkout;
+
+  publishCheckout(transaction);
+  if (promotedReservation) {
+    publishHoldReady(promotedReservation);
+  }
+
+  return { ok: true as const, transaction };
+}
+
+/**
+ * Take a loan back. Charges the late fee and any damage or replacement fee
+ * from the member's circulation policy, then hands a copy in good condition to
+ * the next reservation in the queue or puts it back on the shelf.
+ */
+export async function returnBook(input: ReturnInput, context: CirculationContext) {
+  const { transactionId, condition, notes, finesPaid } = input;
+  const { actor, request } = context;
+
+  // Check if the transaction exists and is active
+  const transaction = await prisma.transaction.findUnique({
+    where: { id: transactionId },
+    include: {
+      book: {
+        select: {
+          id: true,
+          title: true,
+          category: true,
+          status: true,
+        },
+      },
+      user: {
+        select: {
+          id: true,
+          role: true,
+        },
+      },
+      copy: {
+        select: {
+          id: true,
+          barcode: true,
+          status: true,
+        },
+      },
+    },
+  });
+
+  if (!transaction) {
+    return fail(404, 'Transaction not found');
+  }
+
+  if (transaction.status !== TransactionStatus.CHECKED_OUT &&
+      transaction.status !== TransactionStatus.OVERDUE) {
+    return fail(
+      409,
+      `Cannot return book with transaction status: ${transaction.status}. Only CHECKED_OUT or OVERDUE transactions can be returned.`
+    );
+  }
+
+  const returnDate = new Date();
+  const dueDate = new Date(transaction.dueDate);
+
+  // Calculate fine based on due date, return condition and the member's circulation policy
+  const policy = await resolveCirculationPolicy(prisma, {
+    role: transaction.user.role,
+    category: transaction.book.category,
+  });
+  const fine = calculateFine(policy, dueDate, returnDate, condition);
+  const lateFee = calculateFine(policy, dueDate, returnDate);
+
+  // Determine transaction status based on condition
+  let newTransactionStatus: TransactionStatus;
+  let newCopyStatus: BookStatus;
+
+  switch (condition) {
+    case 'DAMAGED':
+      newTransactionStatus = TransactionStatus.DAMAGED;
+      newCopyStatus = BookStatus.DAMAGED;
+      break;
+    case 'LOST':
+      newTransactionStatus = TransactionStatus.LOST;
+      newCopyStatus = BookStatus.LOST;
+      break;
+    default: // 'GOOD'
+      newTransactionStatus = TransactionStatus.RETURNED;
+      newCopyStatus = BookStatus.AVAILABLE;
+  }
+
+  const result = await prisma.$transaction(async (tx) => {
+    // Close the loan only if it is still out, so a return recorded twice at once
+    // can't charge the fines twice
+    const { count } = await tx.transaction.updateMany({
+      where: {
+        id: transactionId,
+        status: { in: [TransactionStatus.CHECKED_OUT, TransactionStatus.OVERDUE] },
+      },
+      data: {
+        status: newTransactionStatus,
+        returnDate,
+        // Added to any late fee already charged when the loan was renewed overdue
+        fine: { increment: fine },
+      },
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    const updatedTransaction = await tx.transaction.findUniqueOrThrow({
+      where: { id: transactionId },
+      include: {
+        book: {
+          select: {
+            id: true,
+            title: true,
+            author: true,
+            isbn: true,
+          },
+        },
+        copy: {
+          select: {
+            id: true,
+            barcode: true,
+            shelfLocation: true,
+          },
+        },
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+    });
+
+    // Record the fines on the member's account
+    let fineCharges = await createReturnFineCharges(
+      tx,
+      { transactionId, userId: transaction.userId },
+      { lateFee, conditionFee: fine - lateFee, condition }
+    );
+
+    // Find next reservation for this book if it's being returned in good condition
+    let nextReservation = null;
+
+    if (!transaction.copyId) {
+      // A loan from before copies were tracked has no copy to put back until the backfill links one
+      await syncBookStatus(tx, transaction.bookId);
+    } else if (newCopyStatus === BookStatus.AVAILABLE) {
+      // Hand the copy to the next person in the queue, or put it back on the shelf
+      nextReservation = await releaseCopy(tx, { id: transaction.copyId, bookId: transaction.bookId });
+    } else {
+      // Damaged or lost copies are taken out of circulation
+      await tx.bookCopy.update({
+        where: { id: transaction.copyId },
+        data: { status: newCopyStatus },
+      });
+
+      await syncBookStatus(tx, transaction.bookId);
+    }
+
+    await recordAuditEvent({
+      actorId: actor.id,
+      action: AuditAction.RETURNED,
+      entityType: AuditEntityType.TRANSACTION,
+      entityId: transactionId,
+      before: { status: transaction.status, returnDate: null, fine: transaction.fine },
+      after: { status: updatedTransaction.status, returnDate, fine: updatedTransaction.fine, condition },
+      reason: notes,
+      request,
+    }, tx);
+
+    for (const charge of fineCharges) {
+      await recordAuditEvent({
+        actorId: actor.id,
+        action: AuditAction.CREATED,
+        entityType: AuditEntityType.FINE,
+        entityId: charge.id,
+        after: charge,
+        request,
+      }, tx);
+    }
+
+    // Settle the new charges in full when the member paid at the desk
+    if (finesPaid) {
+      fineCharges = await Promise.all(
+        fineCharges.map(async (charge) => {
+          const recorded = await recordFinePayment(tx, charge, {
+            amount: charge.amount,
+            notes: 'Paid at return',
+            receivedById: actor.id,
+          });
+
+          // The charge was created in this transaction, so nothing else can have touched it
+          if (!recorded) {
+            throw new Error(`Fine ${charge.id} changed while it was being paid`);
+          }
+
+          const paidCharge = recorded.fine;
+
+          await recordAuditEvent({
+            actorId: actor.id,
+            action: AuditAction.PAYMENT_RECORDED,
+            entityType: AuditEntityType.FINE,
+            entityId: charge.id,
+            before: { status: charge.status, amountPaid: charge.amountPaid },
+            after: { status: paidCharge.status, amountPaid: paidCharge.amountPaid },
+            request,
+          }, tx);
+
+          return paidCharge;
+        })
+      );
+    }
+
+    return {
+      transaction: updatedTransaction,
+      nextReservation,
+      fine,
+      fineCharges,
+      outstandingBalance: await getMemberFineBalance(tx, transaction.userId),
+    };
+  });
+
+  if (!result) {
+    return fail(409, 'This loan was just returned by someone else.');
+  }
+
+  publishReturn(result.transaction);
+  if (result.nextReservation) {
+    publishHoldReady(result.nextReservation);
+  }
+
+  return { ok: true as const, receipt: result };
+}
+
+export interface BorrowingFilter {
+  statuses?: BorrowingStatus[];
+  memberId?: string;
+  bookId?: string;
+}
+
+const borrowingSelect = {
+  id: true,
+  bookId: true,
+  userId: true,
+  checkoutDate: true,
+  dueDate: true,
+  returnDate: true,
+  status: true,
+  renewalCount: true,
+  fine: true,
+  book: { select: { title: true, author: true, isbn: true } },
+  user: { select: { name: true, email: true, membershipNumber: true } },
+  fineCharges: { select: { status: true } },
+} satisfies Prisma.TransactionSelect;
+
+type BorrowingRow = Prisma.TransactionGetPayload<{ select: typeof borrowingSelect }>;
+
+// Loans past their due date count as overdue even before the overdue job has flagged them
+function borrowingStatusWhere(status: BorrowingStatus, now: Date): Prisma.TransactionWhereInput {
+  switch (status) {
+    case 'ACTIVE':
+      return { status: TransactionStatus.CHECKED_OUT, dueDate: { gte: now } };
+    case 'OVERDUE':
+      return {
+        OR: [
+          { status: TransactionStatus.OVERDUE },
+          { status: TransactionStatus.CHECKED_OUT, dueDate: { lt: now } },
+        ],
+      };
+    case 'RETURNED':
+      return { status: { in: [TransactionStatus.RETURNED, TransactionStatus.DAMAGED] } };
+    case 'LOST':
+      return { status: TransactionStatus.LOST };
+  }
+}
+
+function getBorrowingStatus(loan: BorrowingRow, now: Date): BorrowingStatus {
+  switch (loan.status) {
+    case TransactionStatus.CHECKED_OUT:
+      return loan.dueDate < now ? 'OVERDUE' : 'ACTIVE';
+    case TransactionStatus.OVERDUE:
+      return 'OVERDUE';
+    case TransactionStatus.LOST:
+      return 'LOST';
+    default:
+      return 'RETURNED';
+  }
+}
+
+function toBorrowing(loan: BorrowingRow, now: Date): Borrowing {
+  return {
+    id: loan.id,
+    bookId: loan.bookId,
+    memberId: loan.userId,
+    bookTitle: loan.book.title,
+    bookAuthor: loan.book.author,
+    bookIsbn: loan.book.isbn,
+    memberName: loan.user.name ?? loan.user.email,
+    // Members who joined before library cards were issued have no number yet
+    membershipNumber: loan.user.membershipNumber ?? '',
+    checkoutDate: loan.checkoutDate.toISOString(),
+    dueDate: loan.dueDate.toISOString(),
+    returnDate: loan.returnDate?.toISOString() ?? null,
+    status: getBorrowingStatus(loan, now),
+    renewalCount: loan.renewalCount,
+    fineAmount: loan.fine > 0 ? loan.fine : null,
+    finePaid:
+      loan.fineCharges.length > 0 &&
+      loan.fineCharges.every((charge) => !OPEN_FINE_STATUSES.includes(charge.status)),
+  };
+}
+
+/**
+ * Loans for the borrowing desk, newest first
+ */
+export async function listBorrowings(filter: BorrowingFilter): Promise<Borrowing[]> {
+  const now = new Date();
+  const { statuses = [], memberId, bookId } = filter;
+
+  const loans = await prisma.transaction.findMany({
+    where: {
+      ...(memberId && { userId: memberId }),
+      ...(bookId && { bookId }),
+      ...(statuses.length > 0 && {
+        OR: statuses.map((status) => borrowingStatusWhere(status, now)),
+      }),
+    },
+    select: borrowingSelect,
+    orderBy: { checkoutDate: 'desc' },
+  });
+
+  return loans.map((loan) => toBorrowing(loan, now));
+}
+
+/**
+ * A single loan in the borrowing desk's shape, or null if there is no such loan
+ */
+export async function getBorrowing(transactionId: string): Promise<Borrowing | null> {
+  const loan = await prisma.transaction.findUnique({
+    where: { id: transactionId },
+    select: borrowingSelect,
+  });
+
+  return loan ? toBorrowing(loan, new Date()) : null;
+}
@@ -0,0 +1,50 @@
+import { subscribe } from '@/lib/events/bus';
+
+/**
+ * Short-lived in-process cache for dashboard statistics. Every dashboard load asks
+ * for the same handful of aggregates, so they are computed at most once per TTL
+ * per server process, and concurrent requests share one computation.
+ */
+
+interface CacheEntry<T> {
+  expiresAt: number;
+  value: Promise<T>;
+}
+
+const entries = new Map<string, CacheEntry<unknown>>();
+
+// Widgets refetch when a live event arrives, so they must not get the figures from before it
+subscribe(() => entries.clear());
+
+function pruneExpired(now: number) {
+  for (const [key, entry] of entries) {
+    if (entry.expiresAt <= now) {
+      entries.delete(key);
+    }
+  }
+}
+
+/**
+ * Return the cached value for a key, computing and caching it if missing or stale
+ * A computation that fails is not cached, so the next request tries again.
+ */
+export function getCached<T>(key: string, ttlMs: number, compute: () => Promise<T>): Promise<T> {
+  const now = Date.now();
+  const cached = entries.get(key) as CacheEntry<T> | undefined;
+
+  if (cached && cached.expiresAt > now) {
+    return cached.value;
+  }
+
+  pruneExpired(now);
+
+  const value = compute();
+  entries.set(key, { expiresAt: now + ttlMs, value });
+  value.catch(() => {
+    if (entries.get(key)?.value === value) {
+      entries.delete(key);
+    }
+  });
+
+  return value;
+}
@@ -0,0 +1,364 @@
+import { TransactionStatus, UserRole } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getDaysOverdue } from '@/lib/circulation/policy';
+import { getCached } from '@/lib/dashboard/cache';
+import {
+  ActivityItem,
+  ActivityPage,
+  ActivityType,
+  DashboardTimeRange,
+  OverdueLoans,
+  PeriodComparison,
+  PopularBooks,
+} from '@/types/dashboard';
+
+/**
+ * Statistics behind the dashboard widgets, computed from loans, reservations and
+ * members. Results are cached briefly since every dashboard load asks for them.
+ */
+
+// How long a computed statistic is served before it is recomputed
+const CACHE_TTL_MS = 60 * 1000;
+
+const POPULAR_BOOKS_LIMIT = 5;
+const OVERDUE_LOANS_LIMIT = 20;
+
+// Loans past their due date count even before the overdue job has flagged them
+function overdueLoansWhere(now: Date) {
+  return {
+    OR: [
+      { status: TransactionStatus.OVERDUE },
+      { status: TransactionStatus.CHECKED_OUT, dueDate: { lt: now } },
+    ],
+  };
+}
+
+/**
+ * Start of the current period: midnight for a day, otherwise one week, month or year ago
+ */
+export function getPeriodStart(timeRange: DashboardTimeRange, from: Date = new Date()): Date {
+  const start = new Date(from);
+
+  switch (timeRange) {
+    case 'day':
+      start.setHours(0, 0, 0, 0);
+      break;
+    case 'week':
+      start.setDate(start.getDate() - 7);
+      break;
+    case 'month':
+      start.setMonth(start.getMonth() - 1);
+      break;
+    case 'year':
+      start.setFullYear(start.getFullYear() - 1);
+      break;
+  }
+
+  return start;
+}
+
+/**
+ * Start of the period before the current one (yesterday, the week before, ...)
+ */
+function getPreviousPeriodStart(timeRange: DashboardTimeRange, currentStart: Date): Date {
+  if (timeRange === 'day') {
+    const start = new Date(currentStart);
+    start.setDate(start.getDate() - 1);
+    return start;
+  }
+
+  return getPeriodStart(timeRange, currentStart);
+}
+
+/**
+ * Loans checked out in the current period compared with the previous one
+ */
+export function getCheckoutComparison(timeRange: DashboardTimeRange): Promise<PeriodComparison> {
+  return getCached(`checkouts:${timeRange}`, CACHE_TTL_MS, async () => {
+    const currentStart = getPeriodStart(timeRange);
+    const previousStart = getPreviousPeriodStart(timeRange, currentStart);
+
+    const [current, previous] = await Promise.all([
+      prisma.transaction.count({ where: { checkoutDate: { gte: currentStart } } }),
+      prisma.transaction.count({
+        where: { checkoutDate: { gte: previousStart, lt: currentStart } },
+      }),
+    ]);
+
+    return { timeRange, current, previous };
+  });
+}
+
+/**
+ * Members who borrowed something in the current period compared with the previous one
+ */
+export function getActiveMemberComparison(timeRange: DashboardTimeRange): Promise<PeriodComparison> {
+  return getCached(`active-members:${timeRange}`, CACHE_TTL_MS, async () => {
+    const currentStart = getPeriodStart(timeRange);
+    const previousStart = getPreviousPeriodStart(timeRange, currentStart);
+
+    const [current, previous] = await Promise.all([
+      prisma.transaction.groupBy({
+        by: ['userId'],
+        where: { checkoutDate: { gte: currentStart } },
+      }),
+      prisma.transaction.groupBy({
+        by: ['userId'],
+        where: { checkoutDate: { gte: previousStart, lt: currentStart } },
+      }),
+    ]);
+
+    return { timeRange, current: current.length, previous: previous.length };
+  });
+}
+
+/**
+ * The most overdue loans still out, with the member's contact details for chasing them
+ */
+export function getOverdueLoans(): Promise<OverdueLoans> {
+  return getCached('overdue-loans', CACHE_TTL_MS, async () => {
+    const now = new Date();
+    const where = overdueLoansWhere(now);
+
+    const [total, loans] = await Promise.all([
+      prisma.transaction.count({ where }),
+      prisma.transaction.findMany({
+        where,
+        select: {
+          id: true,
+          dueDate: true,
+          book: { select: { id: true, title: true } },
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              phoneNumber: true,
+              membershipNumber: true,
+            },
+          },
+        },
+        orderBy: { dueDate: 'asc' },
+        take: OVERDUE_LOANS_LIMIT,
+      }),
+    ]);
+
+    return {
+      total,
+      loans: loans.map((loan) => ({
+        id: loan.id,
+        bookId: loan.book.id,
+        title: loan.book.title,
+        memberId: loan.user.id,
+        memberName: loan.user.name ?? loan.user.email,
+        membershipNumber: loan.user.membershipNumber,
+        memberEmail: loan.user.email,
+        memberPhone: loan.user.phoneNumber ?? undefined,
+        dueDate: loan.dueDate.toISOString(),
+        daysOverdue: getDaysOverdue(loan.dueDate, now),
+      })),
+    };
+  });
+}
+
+/**
+ * Titles checked out most often in the period. Only counts, so fine for any reader.
+ */
+export function getPopularBooks(timeRange: DashboardTimeRange): Promise<PopularBooks> {
+  return getCached(`popular-books:${timeRange}`, CACHE_TTL_MS, async () => {
+    const checkoutCounts = await prisma.transaction.groupBy({
+      by: ['bookId'],
+      // Deleted titles are left out before the limit, so they don't take a place in the list
+      where: { checkoutDate: { gte: getPeriodStart(timeRange) }, book: { isDeleted: false } },
+      _count: { id: true },
+      orderBy: { _count: { id: 'desc' } },
+      take: POPULAR_BOOKS_LIMIT,
+    });
+
+    const books = await prisma.book.findMany({
+      where: { id: { in: checkoutCounts.map((entry) => entry.bookId) } },
+      select: { id: true, title: true, author: true },
+    });
+
+    return {
+      timeRange,
+      books: checkoutCounts.flatMap((entry) => {
+        const book = books.find((candidate) => candidate.id === entry.bookId);
+        return book ? [{ ...book, checkoutCount: entry._count.id }] : [];
+      }),
+    };
+  });
+}
+
+interface ActivityQuery {
+  page: number;
+  limit: number;
+  type?: ActivityType;
+  // Only activity after this moment, for picking up what happened since the last look
+  since?: Date;
+}
+
+/**
+ * Recent circulation and membership activity, newest first.
+ * Each source is read up to the end of the requested page and the results merged,
+ * so deep pages cost more; the feed is meant for the last few dozen events.
+ */
+export async function getActivities(query: ActivityQuery): Promise<ActivityPage> {
+  const { page, limit, type, since } = query;
+  const compute = () => loadActivities(query);
+
+  const activities = since
+    ? await compute()
+    : await getCached(`activities:${type ?? 'ALL'}:${page}:${limit}`, CACHE_TTL_MS, compute);
+
+  return {
+    activities: activities.slice((page - 1) * limit, page * limit),
+    page,
+    hasMore: activities.length > page * limit,
+  };
+}
+
+async function loadActivities({ page, limit, type, since }: ActivityQuery): Promise<ActivityItem[]> {
+  const now = new Date();
+  // One more than the page needs, to tell whether there is another page
+  const take = page * limit + 1;
+  const after = since ? { gt: since } : undefined;
+  const wants = (candidate: ActivityType) => !type || type === candidate;
+
+  const [checkouts, returns, overdue, reservations, signups, booksAdded] = await Promise.all([
+    wants('CHECKOUT')
+      ? prisma.transaction.findMany({
+          where: { checkoutDate: after },
+          select: {
+            id: true,
+            checkoutDate: true,
+            book: { select: { id: true, title: true } },
+            user: { select: { id: true, name: true, email: true } },
+          },
+          orderBy: { checkoutDate: 'desc' },
+          take,
+        })
+      : [],
+    wants('RETURN')
+      ? prisma.transaction.findMany({
+          where: { returnDate: after ?? { not: null } },
+          select: {
+            id: true,
+            returnDate: true,
+            book: { select: { id: true, title: true } },
+            user: { select: { id: true, name: true, email: true } },
+          },
+          orderBy: { returnDate: 'desc' },
+          take,
+        })
+      : [],
+    // A loan becomes overdue when its due date passes
+    wants('OVERDUE')
+      ? prisma.transaction.findMany({
+          where: { ...overdueLoansWhere(now), dueDate: { lt: now, ...after } },
+          select: {
+            id: true,
+            dueDate: true,
+            book: { select: { id: true, title: true } },
+            user: { select: { id: true, name: true, email: true } },
+          },
+          orderBy: { dueDate: 'desc' },
+          take,
+        })
+      : [],
+    wants('RESERVATION')
+      ? prisma.reservation.findMany({
+          where: { reservationDate: after },
+          select: {
+            id: true,
+            reservationDate: true,
+            book: { select: { id: true, title: true } },
+            user: { select: { id: true, name: true, email: true } },
+          },
+          orderBy: { reservationDate: 'desc' },
+          take,
+        })
+      : [],
+    wants('MEMBER_SIGNUP')
+      ? prisma.user.findMany({
+          where: {
+            role: { in: [UserRole.MEMBER, UserRole.USER] },
+            deletedAt: null,
+            createdAt: after,
+          },
+          select: { id: true, name: true, email: true, createdAt: true },
+          orderBy: { createdAt: 'desc' },
+          take,
+        })
+      : [],
+    wants('BOOK_ADDED')
+      ? prisma.book.findMany({
+          where: { isDeleted: false, createdAt: after },
+          select: { id: true, title: true, createdAt: true },
+          orderBy: { createdAt: 'desc' },
+          take,
+        })
+      : [],
+  ]);
+
+  const memberName = (user: { name: string | null; email: string }) => user.name ?? user.email;
+
+  const activities: ActivityItem[] = [
+    ...checkouts.map((loan) => ({
+      id: `checkout-${loan.id}`,
+      type: 'CHECKOUT' as const,
+      timestamp: loan.checkoutDate.toISOString(),
+      title: 'Book Checkout',
+      description: `${loan.book.title} was checked out by ${memberName(loan.user)}`,
+      bookId: loan.book.id,
+      memberId: loan.user.id,
+    })),
+    ...returns.map((loan) => ({
+      id: `return-${loan.id}`,
+      type: 'RETURN' as const,
+      timestamp: loan.returnDate!.toISOString(),
+      title: 'Book Return',
+      description: `${loan.book.title} was returned by ${memberName(loan.user)}`,
+      bookId: loan.book.id,
+      memberId: loan.user.id,
+    })),
+    ...overdue.map((loan) => ({
+      id: `overdue-${loan.id}`,
+      type: 'OVERDUE' as const,
+      timestamp: loan.dueDate.toISOString(),
+      title: 'Overdue Notice',
+      description: `${loan.book.title} is ${getDaysOverdue(loan.dueDate, now)} day(s) overdue from ${memberName(loan.user)}`,
+      bookId: loan.book.id,
+      memberId: loan.user.id,
+    })),
+    ...reservations.map((reservation) => ({
+      id: `reservation-${reservation.id}`,
+      type: 'RESERVATION' as const,
+      timestamp: reservation.reservationDate.toISOString(),
+      title: 'New Reservation',
+      description: `${reservation.book.title} was reserved by ${memberName(reservation.user)}`,
+      bookId: reservation.book.id,
+      memberId: reservation.user.id,
+    })),
+    ...signups.map((member) => ({
+      id: `signup-${member.id}`,
+      type: 'MEMBER_SIGNUP' as const,
+      timestamp: member.createdAt.toISOString(),
+      title: 'New Member',
+      description: `${memberName(member)} joined the library`,
+      memberId: member.id,
+    })),
+    ...booksAdded.map((book) => ({
+      id: `book-${book.id}`,
+      type: 'BOOK_ADDED' as const,
+      timestamp: book.createdAt.toISOString(),
+      title: 'New Book Added',
+      description: `${book.title} was added to the collection`,
+      bookId: book.id,
+    })),
+  ];
+
+  return activities
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    .slice(0, take);
+}
@@ -0,0 +1,144 @@
+import { DigestFrequency, Prisma, UserNotificationPreference } from '@prisma/client';
+import { PrismaTransaction } from '@/lib/prisma';
+
+// Per-type switches on a user's notification preferences
+export type NotificationType =
+  | 'dueDateReminders'
+  | 'overdueNotices'
+  | 'reservationNotifications'
+  | 'libraryUpdates';
+
+export type NotificationPreferenceSettings = Omit<
+  UserNotificationPreference,
+  'id' | 'userId' | 'lastDigestSentAt' | 'createdAt' | 'updatedAt'
+>;
+
+// Settings for users who have never saved their preferences
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferenceSettings = {
+  emailEnabled: true,
+  inAppEnabled: true,
+  dueDateReminders: true,
+  overdueNotices: true,
+  reservationNotifications: true,
+  libraryUpdates: false,
+  quietHoursStart: null,
+  quietHoursEnd: null,
+  timezone: 'UTC',
+  digestFrequency: DigestFrequency.NONE,
+};
+
+// Routine notices that are folded into the digest for users who chose one
+export const DIGEST_NOTIFICATION_TYPES: NotificationType[] = ['dueDateReminders', 'overdueNotices'];
+
+/**
+ * Get a user's notification preferences, falling back to the defaults
+ */
+export async function getNotificationPreferences(
+  db: PrismaTransaction,
+  userId: string
+): Promise<NotificationPreferenceSettings> {
+  const preference = await db.userNotificationPreference.findUnique({
+    where: { userId },
+    select: {
+      emailEnabled: true,
+      inAppEnabled: true,
+      dueDateReminders: true,
+      overdueNotices: true,
+      reservationNotifications: true,
+      libraryUpdates: true,
+      quietHoursStart: true,
+      quietHoursEnd: true,
+      timezone: true,
+      digestFrequency: true,
+    },
+  });
+
+  return preference ?? DEFAULT_NOTIFICATION_PREFERENCES;
+}
+
+/**
+ * Filter for users who should get an individual email of the given type.
+ * Users without saved preferences get every type enabled by default.
+ */
+export function acceptsEmailNotification(type: NotificationType): Prisma.UserWhereInput {
+  const acceptsDefault = DEFAULT_NOTIFICATION_PREFERENCES[type];
+
+  return {
+    OR: [
+      ...(acceptsDefault ? [{ notificationPreference: { is: null } }] : []),
+      {
+        notificationPreference: {
+          is: {
+            emailEnabled: true,
+            [type]: true,
+            // Digest users get routine notices in their digest instead
+            ...(DIGEST_NOTIFICATION_TYPES.includes(type) && { digestFrequency: DigestFrequency.NONE }),
+          },
+        },
+      },
+    ],
+  };
+}
+
+// Minutes since midnight for an HH:mm string
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+type QuietHours = Pick<NotificationPreferenceSettings, 'quietHoursStart' | 'quietHoursEnd' | 'timezone'>;
+
+// Minutes since midnight at the given moment in the user's timezone
+function localMinutes(timezone: string, now: Date): number {
+  let localTime: string;
+  try {
+    localTime = new Intl.DateTimeFormat('en-GB', {
+      timeZone: timezone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).format(now);
+  } catch {
+    // Unknown timezone: fall back to UTC rather than never sending
+    localTime = now.toISOString().slice(11, 16);
+  }
+
+  return toMinutes(localTime);
+}
+
+/**
+ * Whether the given moment falls in the user's quiet hours.
+ * Quiet hours may wrap past midnight (e.g. 22:00 to 07:00).
+ */
+export function isWithinQuietHours(preference: QuietHours | null, now: Date = new Date()): boolean {
+  if (!preference?.quietHoursStart || !preference.quietHoursEnd) {
+    return false;
+  }
+
+  const current = localMinutes(preference.timezone, now);
+  const start = toMinutes(preference.quietHoursStart);
+  const end = toMinutes(preference.quietHoursEnd);
+
+  if (start === end) {
+    return false;
+  }
+
+  return start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+}
+
+/**
+ * When the user's quiet hours end, if the given moment falls in them; null otherwise
+ */
+export function getQuietHoursEnd(preference: QuietHours | null, now: Date = new Date()): Date | null {
+  if (!preference?.quietHoursEnd || !isWithinQuietHours(preference, now)) {
+    return null;
+  }
+
+  const minutesPerDay = 24 * 60;
+  const minutesLeft =
+    (toMinutes(preference.quietHoursEnd) - localMinutes(preference.timezone, now) + minutesPerDay) % minutesPerDay;
+
+  return new Date(now.getTime() + minutesLeft * 60 * 1000);
+}
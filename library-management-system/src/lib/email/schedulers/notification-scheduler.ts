@@ -1,15 +1,60 @@
 import { prisma } from '@/lib/prisma';
-import { EmailService } from '../service';
+import { EmailLinks, EmailOptions, EmailService } from '../service';
+import { EmailTemplate } from '../templates/types';
 import { 
   dueDateReminderTemplate, 
   overdueNoticeTemplate,
-  reservationAvailabilityTemplate
+  reservationAvailabilityTemplate,
+  notificationDigestTemplate
 } from '../templates';
-import { TransactionStatus, ReservationStatus, BookStatus } from '@prisma/client';
+import { TransactionStatus, ReservationStatus, BookStatus, DigestFrequency } from '@prisma/client';
+import { syncBookStatus } from '@/lib/circulation/copies';
+import { getDaysOverdue } from '@/lib/circulation/policy';
+import { acceptsEmailNotification, getQuietHoursEnd } from '../preferences';
+
+// Counts for one run of a notification job. Deferred notifications fell in the
+// recipient's quiet hours and are queued to go out when they end.
+export type NotificationRunResult = {
+  processed: number;
+  sent: number;
+  deferred: number;
+  failed: number;
+};
+
+type SendOutcome = 'sent' | 'deferred' | 'failed';
+
+// How far ahead a digest looks for loans coming due
+const DIGEST_DUE_SOON_DAYS = 7;
+
+// Minimum time between digests; an hour of slack keeps a daily run from drifting later each day
+const DIGEST_INTERVAL_HOURS: Record<'DAILY' | 'WEEKLY', number> = {
+  DAILY: 24 - 1,
+  WEEKLY: 7 * 24 - 1,
+};
+
+type QuietHoursPreference = Parameters<typeof getQuietHoursEnd>[0];
+
+// Only the quiet hours are needed once the query has applied the other preferences
+const quietHoursSelect = {
+  select: {
+    quietHoursStart: true,
+    quietHoursEnd: true,
+    timezone: true,
+  },
+};
+
+function tally(outcomes: SendOutcome[]): Omit<NotificationRunResult, 'processed'> {
+  return {
+    sent: outcomes.filter((outcome) => outcome === 'sent').length,
+    deferred: outcomes.filter((outcome) => outcome === 'deferred').length,
+    failed: outcomes.filter((outcome) => outcome === 'failed').length,
+  };
+}
 
 /**
  * Notification scheduler service
  * Handles scheduling and sending automated email notifications
+ * Each process* method rethrows unexpected errors so the job run is recorded as failed
  */
 export class NotificationScheduler {
   private emailService: EmailService;
@@ -18,18 +63,38 @@ export class NotificationScheduler {
     this.emailService = new EmailService();
   }
 
+  /**
+   * Send a notification now, or queue it for the end of the recipient's quiet hours.
+   * The log is linked to its loan or reservation so later runs don't notify again.
+   * `logged` is true once an email log exists, which the retry job takes over if the send failed.
+   */
+  private async deliver<T>(
+    template: EmailTemplate<T>,
+    data: T,
+    options: Omit<EmailOptions, 'html' | 'text'>,
+    preference: QuietHoursPreference,
+    links: EmailLinks = {}
+  ): Promise<{ outcome: SendOutcome; logged: boolean }> {
+    const sendAfter = getQuietHoursEnd(preference);
+
+    if (sendAfter) {
+      const deferred = await this.emailService.deferTemplatedEmail(template, data, options, sendAfter, links);
+      return { outcome: deferred.success ? 'deferred' : 'failed', logged: deferred.success };
+    }
+
+    // A failed send stays linked, so the retry job resends it rather than a later run queuing another
+    const result = await this.emailService.sendTemplatedEmail(template, data, options, links);
+    return { outcome: result.success ? 'sent' : 'failed', logged: Boolean(result.id) };
+  }
+
   /**
    * Process due date reminders
    * Sends reminders for books due in 1, 3, and 7 days
    */
-  async processDueDateReminders(): Promise<{
-    processed: number;
-    sent: number;
-    failed: number;
-  }> {
+  async processDueDateReminders(): Promise<NotificationRunResult> {
     try {
       const today = new Date();
-      const results = { processed: 0, sent: 0, failed: 0 };
+      const results = { processed: 0, sent: 0, deferred: 0, failed: 0 };
 
       // Get dates for 1, 3, and 7 days in the future
       const reminderDays = [1, 3, 7];
@@ -42,10 +107,11 @@ export class NotificationScheduler {
           // Set time to end of day for comparison
           targetDate.setHours(23, 59, 59, 999);
           
-          // Find transactions due on the target date
+          // Find transactions due on the target date, for users who want individual reminders
           const transactions = await prisma.transaction.findMany({
             where: {
               status: TransactionStatus.CHECKED_OUT,
+              user: acceptsEmailNotification('dueDateReminders'),
               dueDate: {
                 // Match transactions due on the target date (within 24 hours)
                 gte: new Date(targetDate.setHours(0, 0, 0, 0)),
@@ -72,7 +138,7 @@ export class NotificationScheduler {
                   id: true,
                   name: true,
                   email: true,
-                  userPreferences: true,
+                  notificationPreference: quietHoursSelect,
                 },
               },
               book: {
@@ -89,22 +155,16 @@ export class NotificationScheduler {
           results.processed += transactions.length;
           
           // Process each transaction
-          const sentResults = await Promise.all(
+          const outcomes: SendOutcome[] = await Promise.all(
             transactions.map(async (transaction) => {
               try {
-                // Skip if user has disabled due date reminders
-                const preferences = transaction.user.userPreferences?.[0];
-                if (preferences && preferences.dueDateReminders === false) {
-                  return false;
-                }
-
-                // Send due date reminder
-                const result = await this.emailService.sendTemplatedEmail(
+                // Send due date reminder, held until the user's quiet hours are over
+                const { outcome } = await this.deliver(
                   dueDateReminderTemplate,
                   {
                     user: {
                       id: transaction.user.id,
-                      name: transaction.user.name,
+                      name: transaction.user.name ?? '',
                       email: transaction.user.email,
                     },
                     transaction: {
@@ -118,32 +178,24 @@ export class NotificationScheduler {
                   {
                     to: transaction.user.email,
                     subject: `Due Soon: "${transaction.book.title}" is due in ${days} ${days === 1 ? 'day' : 'days'}`,
-                  }
+                  },
+                  transaction.user.notificationPreference,
+                  { transactionId: transaction.id }
                 );
-
-                // Log that this reminder was sent
-                if (result.success) {
-                  await prisma.emailLog.update({
-                    where: { id: result.id },
-                    data: {
-                      transactionId: transaction.id,
-                    },
-                  });
-                  return true;
-                }
-                return false;
+                return outcome;
               } catch (error) {
                 console.error(`Failed to send due date reminder for transaction ${transaction.id}:`, error);
-                return false;
+                return 'failed';
               }
             })
           );
 
-          const sentCount = sentResults.filter(Boolean).length;
-          results.sent += sentCount;
-          results.failed += transactions.length - sentCount;
+          const counts = tally(outcomes);
+          results.sent += counts.sent;
+          results.deferred += counts.deferred;
+          results.failed += counts.failed;
           
-          return { days, sent: sentCount, total: transactions.length };
+          return { days, ...counts, total: transactions.length };
         })
       );
 
@@ -151,7 +203,7 @@ export class NotificationScheduler {
       return results;
     } catch (error) {
       console.error('Failed to process due date reminders:', error);
-      return { processed: 0, sent: 0, failed: 0 };
+      throw error;
     }
   }
 
@@ -159,14 +211,10 @@ export class NotificationScheduler {
    * Process overdue notices
    * Sends overdue notices for books that are 1, 7, and 14 days overdue
    */
-  async processOverdueNotices(): Promise<{
-    processed: number;
-    sent: number;
-    failed: number;
-  }> {
+  async processOverdueNotices(): Promise<NotificationRunResult> {
     try {
       const today = new Date();
-      const results = { processed: 0, sent: 0, failed: 0 };
+      const results = { processed: 0, sent: 0, deferred: 0, failed: 0 };
 
       // Get dates for 1, 7, and 14 days in the past
       const overdueDays = [1, 7, 14];
@@ -179,15 +227,29 @@ export class NotificationScheduler {
           // Set time to end of day for comparison
           targetDate.setHours(23, 59, 59, 999);
           
-          // Find overdue transactions
+          // Match transactions due on the target date (within 24 hours)
+          const dueDateWindow = {
+            gte: new Date(targetDate.setHours(0, 0, 0, 0)),
+            lte: new Date(targetDate.setHours(23, 59, 59, 999)),
+          };
+          
+          // Update transaction status to OVERDUE whether or not the user gets a notice
+          await prisma.transaction.updateMany({
+            where: {
+              status: TransactionStatus.CHECKED_OUT,
+              dueDate: dueDateWindow,
+            },
+            data: {
+              status: TransactionStatus.OVERDUE,
+            },
+          });
+          
+          // Find overdue transactions for users who want individual notices
           const transactions = await prisma.transaction.findMany({
             where: {
               status: { in: [TransactionStatus.CHECKED_OUT, TransactionStatus.OVERDUE] },
-              dueDate: {
-                // Match transactions due on the target date (within 24 hours)
-                gte: new Date(targetDate.setHours(0, 0, 0, 0)),
-                lte: new Date(targetDate.setHours(23, 59, 59, 999)),
-              },
+              dueDate: dueDateWindow,
+              user: acceptsEmailNotification('overdueNotices'),
               // Don't send notices for transactions that already have one for this interval
               NOT: {
                 emailLogs: {
@@ -209,7 +271,7 @@ export class NotificationScheduler {
                   id: true,
                   name: true,
                   email: true,
-                  userPreferences: true,
+                  notificationPreference: quietHoursSelect,
                 },
               },
               book: {
@@ -225,39 +287,22 @@ export class NotificationScheduler {
 
           results.processed += transactions.length;
           
-          // Update transaction status to OVERDUE if needed
-          await prisma.transaction.updateMany({
-            where: {
-              id: { in: transactions.map(t => t.id) },
-              status: TransactionStatus.CHECKED_OUT,
-            },
-            data: {
-              status: TransactionStatus.OVERDUE,
-            },
-          });
-          
           // Process each transaction
-          const sentResults = await Promise.all(
+          const outcomes: SendOutcome[] = await Promise.all(
             transactions.map(async (transaction) => {
               try {
-                // Skip if user has disabled overdue notices
-                const preferences = transaction.user.userPreferences?.[0];
-                if (preferences && preferences.overdueNotices === false) {
-                  return false;
-                }
-
                 // Calculate fine
                 const dueDate = new Date(transaction.dueDate);
                 const fineRate = 0.5; // $0.50 per day
                 const fine = parseFloat((days * fineRate).toFixed(2));
 
-                // Send overdue notice
-                const result = await this.emailService.sendTemplatedEmail(
+                // Send overdue notice, held until the user's quiet hours are over
+                const { outcome } = await this.deliver(
                   overdueNoticeTemplate,
                   {
                     user: {
                       id: transaction.user.id,
-                      name: transaction.user.name,
+                      name: transaction.user.name ?? '',
                       email: transaction.user.email,
                     },
                     transaction: {
@@ -272,41 +317,33 @@ export class NotificationScheduler {
                   {
                     to: transaction.user.email,
                     subject: `Overdue Notice: "${transaction.book.title}" is ${days} ${days === 1 ? 'day' : 'days'} overdue`,
-                  }
+                  },
+                  transaction.user.notificationPreference,
+                  { transactionId: transaction.id }
                 );
 
-                // Log that this notice was sent
-                if (result.success) {
-                  await prisma.emailLog.update({
-                    where: { id: result.id },
-                    data: {
-                      transactionId: transaction.id,
-                    },
+                // Update fine in transaction if needed
+                if (outcome !== 'failed' && transaction.fine < fine) {
+                  await prisma.transaction.update({
+                    where: { id: transaction.id },
+                    data: { fine },
                   });
-                  
-                  // Update fine in transaction if needed
-                  if (transaction.fine < fine) {
-                    await prisma.transaction.update({
-                      where: { id: transaction.id },
-                      data: { fine },
-                    });
-                  }
-                  
-                  return true;
                 }
-                return false;
+
+                return outcome;
               } catch (error) {
                 console.error(`Failed to send overdue notice for transaction ${transaction.id}:`, error);
-                return false;
+                return 'failed';
               }
             })
           );
 
-          const sentCount = sentResults.filter(Boolean).length;
-          results.sent += sentCount;
-          results.failed += transactions.length - sentCount;
+          const counts = tally(outcomes);
+          results.sent += counts.sent;
+          results.deferred += counts.deferred;
+          results.failed += counts.failed;
           
-          return { days, sent: sentCount, total: transactions.length };
+          return { days, ...counts, total: transactions.length };
         })
       );
 
@@ -314,7 +351,7 @@ export class NotificationScheduler {
       return results;
     } catch (error) {
       console.error('Failed to process overdue notices:', error);
-      return { processed: 0, sent: 0, failed: 0 };
+      throw error;
     }
   }
 
@@ -322,18 +359,15 @@ export class NotificationScheduler {
    * Process reservation availability notifications
    * Sends notifications when reserved books become available
    */
-  async processReservationAvailability(): Promise<{
-    processed: number;
-    sent: number;
-    failed: number;
-  }> {
+  async processReservationAvailability(): Promise<NotificationRunResult> {
     try {
-      const results = { processed: 0, sent: 0, failed: 0 };
+      const results = { processed: 0, sent: 0, deferred: 0, failed: 0 };
 
       // Find reservations that are ready for pickup but haven't been notified
       const reservations = await prisma.reservation.findMany({
         where: {
           status: ReservationStatus.READY_FOR_PICKUP,
+          user: acceptsEmailNotification('reservationNotifications'),
           // Don't send notifications for reservations that already have one
           NOT: {
             emailLogs: {
@@ -349,7 +383,7 @@ export class NotificationScheduler {
               id: true,
               name: true,
               email: true,
-              userPreferences: true,
+              notificationPreference: quietHoursSelect,
             },
           },
           book: {
@@ -361,41 +395,43 @@ export class NotificationScheduler {
               status: true,
             },
           },
+          copy: {
+            select: {
+              id: true,
+              barcode: true,
+              status: true,
+            },
+          },
         },
       });
 
       results.processed = reservations.length;
       
       // Process each reservation
-      const sentResults = await Promise.all(
+      const outcomes: SendOutcome[] = await Promise.all(
         reservations.map(async (reservation) => {
           try {
-            // Ensure book is actually reserved
-            if (reservation.book.status !== BookStatus.RESERVED) {
-              console.warn(`Book ${reservation.book.id} is not in RESERVED status for ready reservation ${reservation.id}`);
-              // Update book status if needed
-              await prisma.book.update({
-                where: { id: reservation.book.id },
+            // Ensure the copy set aside for pickup is actually reserved
+            if (reservation.copy && reservation.copy.status !== BookStatus.RESERVED) {
+              console.warn(`Copy ${reservation.copy.barcode} is not in RESERVED status for ready reservation ${reservation.id}`);
+              // Update copy status if needed
+              await prisma.bookCopy.update({
+                where: { id: reservation.copy.id },
                 data: { status: BookStatus.RESERVED },
               });
+              await syncBookStatus(prisma, reservation.book.id);
             }
             
-            // Skip if user has disabled reservation notifications
-            const preferences = reservation.user.userPreferences?.[0];
-            if (preferences && preferences.reservationNotifications === false) {
-              return false;
-            }
-
             // Calculate pickup deadline (typically 7 days from now)
             const pickupDeadline = new Date(reservation.expiryDate);
             
-            // Send reservation availability notification
-            const result = await this.emailService.sendTemplatedEmail(
+            // Send reservation availability notification, held until the user's quiet hours are over
+            const { outcome } = await this.deliver(
               reservationAvailabilityTemplate,
               {
                 user: {
                   id: reservation.user.id,
-                  name: reservation.user.name,
+                  name: reservation.user.name ?? '',
                   email: reservation.user.email,
                 },
                 reservation: {
@@ -409,41 +445,31 @@ export class NotificationScheduler {
               {
                 to: reservation.user.email,
                 subject: `Your Reserved Book "${reservation.book.title}" is Ready for Pickup`,
-              }
+              },
+              reservation.user.notificationPreference,
+              { reservationId: reservation.id }
             );
-
-            // Log that this notification was sent
-            if (result.success) {
-              await prisma.emailLog.update({
-                where: { id: result.id },
-                data: {
-                  reservationId: reservation.id,
-                },
-              });
-              return true;
-            }
-            return false;
+            return outcome;
           } catch (error) {
             console.error(`Failed to send reservation availability notification for reservation ${reservation.id}:`, error);
-            return false;
+            return 'failed';
           }
         })
       );
 
-      const sentCount = sentResults.filter(Boolean).length;
-      results.sent = sentCount;
-      results.failed = reservations.length - sentCount;
+      Object.assign(results, tally(outcomes));
       
       console.log('Reservation availability results:', {
         processed: results.processed,
         sent: results.sent,
+        deferred: results.deferred,
         failed: results.failed,
       });
       
       return results;
     } catch (error) {
       console.error('Failed to process reservation availability notifications:', error);
-      return { processed: 0, sent: 0, failed: 0 };
+      throw error;
     }
   }
 
@@ -451,14 +477,10 @@ export class NotificationScheduler {
    * Process reservation expiration notifications
    * Sends notifications when reservations are about to expire
    */
-  async processReservationExpirations(): Promise<{
-    processed: number;
-    sent: number;
-    failed: number;
-  }> {
+  async processReservationExpirations(): Promise<NotificationRunResult> {
     try {
       const today = new Date();
-      const results = { processed: 0, sent: 0, failed: 0 };
+      const results = { processed: 0, sent: 0, deferred: 0, failed: 0 };
 
       // Calculate date for tomorrow
       const tomorrow = new Date(today);
@@ -468,6 +490,7 @@ export class NotificationScheduler {
       const expiringReservations = await prisma.reservation.findMany({
         where: {
           status: ReservationStatus.READY_FOR_PICKUP,
+          user: acceptsEmailNotification('reservationNotifications'),
           expiryDate: {
             gte: new Date(tomorrow.setHours(0, 0, 0, 0)),
             lte: new Date(tomorrow.setHours(23, 59, 59, 999)),
@@ -490,7 +513,7 @@ export class NotificationScheduler {
               id: true,
               name: true,
               email: true,
-              userPreferences: true,
+              notificationPreference: quietHoursSelect,
             },
           },
           book: {
@@ -507,22 +530,16 @@ export class NotificationScheduler {
       results.processed = expiringReservations.length;
       
       // Process each expiring reservation
-      const sentResults = await Promise.all(
+      const outcomes: SendOutcome[] = await Promise.all(
         expiringReservations.map(async (reservation) => {
           try {
-            // Skip if user has disabled reservation notifications
-            const preferences = reservation.user.userPreferences?.[0];
-            if (preferences && preferences.reservationNotifications === false) {
-              return false;
-            }
-
-            // Send reservation expiration notification
-            const result = await this.emailService.sendTemplatedEmail(
+            // Send reservation expiration notification, held until the user's quiet hours are over
+            const { outcome } = await this.deliver(
               reservationAvailabilityTemplate, // Reuse the availability template with modified content
               {
                 user: {
                   id: reservation.user.id,
-                  name: reservation.user.name,
+                  name: reservation.user.name ?? '',
                   email: reservation.user.email,
                 },
                 reservation: {
@@ -536,41 +553,166 @@ export class NotificationScheduler {
               {
                 to: reservation.user.email,
                 subject: `Reminder: Your reservation for "${reservation.book.title}" expires tomorrow`,
-              }
+              },
+              reservation.user.notificationPreference,
+              { reservationId: reservation.id }
             );
-
-            // Log that this notification was sent
-            if (result.success) {
-              await prisma.emailLog.update({
-                where: { id: result.id },
-                data: {
-                  reservationId: reservation.id,
-                },
-              });
-              return true;
-            }
-            return false;
+            return outcome;
           } catch (error) {
             console.error(`Failed to send reservation expiration notification for reservation ${reservation.id}:`, error);
-            return false;
+            return 'failed';
           }
         })
       );
 
-      const sentCount = sentResults.filter(Boolean).length;
-      results.sent = sentCount;
-      results.failed = expiringReservations.length - sentCount;
+      Object.assign(results, tally(outcomes));
       
       console.log('Reservation expiration results:', {
         processed: results.processed,
         sent: results.sent,
+        deferred: results.deferred,
         failed: results.failed,
       });
       
       return results;
     } catch (error) {
       console.error('Failed to process reservation expirations:', error);
-      return { processed: 0, sent: 0, failed: 0 };
+      throw error;
+    }
+  }
+
+  /**
+   * Process notification digests
+   * Sends one summary of loans due soon and overdue to users who chose a daily
+   * or weekly digest instead of individual reminders
+   */
+  async processNotificationDigests(): Promise<NotificationRunResult> {
+    try {
+      const now = new Date();
+      const results = { processed: 0, sent: 0, deferred: 0, failed: 0 };
+
+      const preferences = await prisma.userNotificationPreference.findMany({
+        where: {
+          emailEnabled: true,
+          digestFrequency: { not: DigestFrequency.NONE },
+          OR: [{ dueDateReminders: true }, { overdueNotices: true }],
+        },
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
+          },
+        },
+      });
+
+      // Only users whose last digest is older than their digest interval are due one
+      const duePreferences = preferences.filter((preference) => {
+        if (!preference.lastDigestSentAt) {
+          return true;
+        }
+        const frequency = preference.digestFrequency as 'DAILY' | 'WEEKLY';
+        const hoursSinceLast = (now.getTime() - preference.lastDigestSentAt.getTime()) / (1000 * 60 * 60);
+        return hoursSinceLast >= DIGEST_INTERVAL_HOURS[frequency];
+      });
+
+      const dueSoonCutoff = new Date(now);
+      dueSoonCutoff.setDate(now.getDate() + DIGEST_DUE_SOON_DAYS);
+
+      const outcomes: SendOutcome[] = await Promise.all(
+        duePreferences.map(async (preference) => {
+          try {
+            const loans = await prisma.transaction.findMany({
+              where: {
+                userId: preference.userId,
+                status: { in: [TransactionStatus.CHECKED_OUT, TransactionStatus.OVERDUE] },
+                dueDate: { lte: dueSoonCutoff },
+              },
+              include: {
+                book: {
+                  select: {
+                    id: true,
+                    title: true,
+                    author: true,
+                  },
+                },
+              },
+              orderBy: { dueDate: 'asc' },
+            });
+
+            const overdue = preference.overdueNotices
+              ? loans
+                  .filter((loan) => loan.dueDate < now)
+                  .map((loan) => ({
+                    transactionId: loan.id,
+                    dueDate: loan.dueDate,
+                    daysOverdue: getDaysOverdue(loan.dueDate, now),
+                    book: loan.book,
+                  }))
+              : [];
+            const dueSoon = preference.dueDateReminders
+              ? loans
+                  .filter((loan) => loan.dueDate >= now)
+                  .map((loan) => ({
+                    transactionId: loan.id,
+                    dueDate: loan.dueDate,
+                    book: loan.book,
+                  }))
+              : [];
+
+            // Nothing to report: leave lastDigestSentAt alone so the next run checks again
+            if (overdue.length === 0 && dueSoon.length === 0) {
+              return null;
+            }
+
+            // Held until the user's quiet hours are over
+            const { outcome, logged } = await this.deliver(
+              notificationDigestTemplate,
+              {
+                user: {
+                  id: preference.user.id,
+                  // An empty name drops the greeting line
+                  name: preference.user.name ?? '',
+                  email: preference.user.email,
+                },
+                frequency: preference.digestFrequency as 'DAILY' | 'WEEKLY',
+                dueSoon,
+                overdue,
+              },
+              {
+                to: preference.user.email,
+                subject: `Your library summary: ${overdue.length} overdue, ${dueSoon.length} due soon`,
+              },
+              preference
+            );
+
+            // A deferred or failed digest is already queued for the retry job, so it
+            // counts as this period's digest
+            if (logged) {
+              await prisma.userNotificationPreference.update({
+                where: { id: preference.id },
+                data: { lastDigestSentAt: now },
+              });
+            }
+            return outcome;
+          } catch (error) {
+            console.error(`Failed to send notification digest for user ${preference.userId}:`, error);
+            return 'failed';
+          }
+        })
+      ).then((sendOutcomes) => sendOutcomes.filter((outcome): outcome is SendOutcome => outcome !== null));
+
+      results.processed = outcomes.length;
+      Object.assign(results, tally(outcomes));
+
+      console.log('Notification digest results:', results);
+
+      return results;
+    } catch (error) {
+      console.error('Failed to process notification digests:', error);
+      throw error;
     }
   }
 
@@ -578,21 +720,25 @@ export class NotificationScheduler {
    * Run all notification processes at once
    */
   async processAllNotifications(): Promise<{
-    dueDate: { processed: number; sent: number; failed: number };
-    overdue: { processed: number; sent: number; failed: number };
-    reservationAvailability: { processed: number; sent: number; failed: number };
-    reservationExpiration: { processed: number; sent: number; failed: number };
-    total: { processed: number; sent: number; failed: number };
+    dueDate: NotificationRunResult;
+    overdue: NotificationRunResult;
+    reservationAvailability: NotificationRunResult;
+    reservationExpiration: NotificationRunResult;
+    digest: NotificationRunResult;
+    total: NotificationRunResult;
   }> {
     const dueDate = await this.processDueDateReminders();
     const overdue = await this.processOverdueNotices();
     const reservationAvailability = await this.processReservationAvailability();
     const reservationExpiration = await this.processReservationExpirations();
+    const digest = await this.processNotificationDigests();
     
+    const runs = [dueDate, overdue, reservationAvailability, reservationExpiration, digest];
     const total = {
-      processed: dueDate.processed + overdue.processed + reservationAvailability.processed + reservationExpiration.processed,
-      sent: dueDate.sent + overdue.sent + reservationAvailability.sent + reservationExpiration.sent,
-      failed: dueDate.failed + overdue.failed + reservationAvailability.failed + reservationExpiration.failed,
+      processed: runs.reduce((sum, run) => sum + run.processed, 0),
+      sent: runs.reduce((sum, run) => sum + run.sent, 0),
+      deferred: runs.reduce((sum, run) => sum + run.deferred, 0),
+      failed: runs.reduce((sum, run) => sum + run.failed, 0),
     };
     
     return {
@@ -600,6 +746,7 @@ export class NotificationScheduler {
       overdue,
       reservationAvailability,
       reservationExpiration,
+      digest,
       total,
     };
   }
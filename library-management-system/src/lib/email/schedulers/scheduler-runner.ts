@@ -1,67 +1,77 @@
-import NotificationScheduler from './notification-scheduler';
+import { prisma } from '@/lib/prisma';
+import { JOB_DEFINITIONS, getNotificationJobNames } from '@/lib/jobs/definitions';
+import { runJobNow, syncJobDefinitions } from '@/lib/jobs/queue';
+import { getWorkerId, startJobScheduler, stopJobScheduler } from '@/lib/jobs/scheduler';
 
 /**
- * Script to run notification scheduler jobs
- * This can be called from a cron job or scheduled task
- * Example: node -r ts-node/register scheduler-runner.ts --job=due-date
+ * Script to run background jobs outside the Next.js server
+ * Jobs normally run on their schedule inside the app (see src/lib/jobs); this script is for
+ * running one by hand or for a dedicated worker process.
+ * Example: npx ts-node --transpile-only scheduler-runner.ts --job=due-date
+ *          npx ts-node --transpile-only scheduler-runner.ts --worker
  */
 async function main() {
+  // Parse command line arguments
+  const args = process.argv.slice(2);
+
+  // Long-running worker: poll for due and queued jobs until stopped
+  if (args.includes('--worker')) {
+    await startJobScheduler();
+
+    // The polling timer keeps the process alive; stopping it lets the process exit
+    const shutdown = async () => {
+      console.log('Stopping job worker');
+      stopJobScheduler();
+      await prisma.$disconnect();
+    };
+
+    process.once('SIGINT', shutdown);
+    process.once('SIGTERM', shutdown);
+    return;
+  }
+
+  const jobTypeArg = args.find(arg => arg.startsWith('--job='));
+  const jobType = jobTypeArg ? jobTypeArg.split('=')[1] : 'all';
+
+  // `all` covers the notification jobs; email retries run on their own schedule
+  const jobNames = jobType === 'all' ? getNotificationJobNames() : [jobType];
+
   try {
-    // Parse command line arguments
-    const args = process.argv.slice(2);
-    const jobTypeArg = args.find(arg => arg.startsWith('--job='));
-    const jobType = jobTypeArg ? jobTypeArg.split('=')[1] : 'all';
-    
-    console.log(`Starting notification scheduler job: ${jobType}`);
-    const scheduler = new NotificationScheduler();
-    
-    let result;
-    const startTime = Date.now();
-    
-    // Run the specified job type
-    switch (jobType) {
-      case 'due-date':
-        result = await scheduler.processDueDateReminders();
-        console.log('Due date reminder job completed:', result);
-        break;
-      case 'overdue':
-        result = await scheduler.processOverdueNotices();
-        console.log('Overdue notice job completed:', result);
-        break;
-      case 'reservation-availability':
-        result = await scheduler.processReservationAvailability();
-        console.log('Reservation availability job completed:', result);
-        break;
-      case 'reservation-expiration':
-        result = await scheduler.processReservationExpirations();
-        console.log('Reservation expiration job completed:', result);
-        break;
-      case 'all':
-      default:
-        result = await scheduler.processAllNotifications();
-        console.log('All notification jobs completed:', result);
-        break;
+    await syncJobDefinitions();
+    const workerId = getWorkerId();
+    let failed = false;
+
+    for (const jobName of jobNames) {
+      console.log(`Starting job: ${jobName}`);
+      const run = await runJobNow(jobName, workerId);
+
+      if (!run) {
+        console.error(`Unknown job: ${jobName}. Valid jobs are: ${JOB_DEFINITIONS.map(d => d.name).join(', ')}, all`);
+        failed = true;
+        continue;
+      }
+
+      if (run.status === 'QUEUED') {
+        console.log(`Job ${jobName} is locked by another worker; run ${run.id} was queued for it`);
+        continue;
+      }
+
+      const duration = run.startedAt && run.finishedAt
+        ? ((run.finishedAt.getTime() - run.startedAt.getTime()) / 1000).toFixed(2)
+        : '?';
+      console.log(`Job ${jobName} ${run.status.toLowerCase()} in ${duration}s`, run.result ?? run.error);
+
+      if (run.status === 'FAILED') {
+        failed = true;
+      }
     }
-    
-    const duration = ((Date.now() - startTime) / 1000).toFixed(2);
-    console.log(`Job ${jobType} completed in ${duration}s`);
-    
-    // Provide summary stats
-    const totalProcessed = result.total?.processed || result.processed || 0;
-    const totalSent = result.total?.sent || result.sent || 0;
-    const totalFailed = result.total?.failed || result.failed || 0;
-    
-    console.log(`Summary: Processed ${totalProcessed} notifications, sent ${totalSent}, failed ${totalFailed}`);
-    
-    return { success: true, result };
+
+    process.exitCode = failed ? 1 : 0;
   } catch (error) {
-    console.error('Error running notification scheduler:', error);
-    return { success: false, error };
+    console.error('Error running jobs:', error);
+    process.exitCode = 1;
   } finally {
-    // Give time for logs to flush
-    setTimeout(() => {
-      process.exit(0);
-    }, 1000);
+    await prisma.$disconnect();
   }
 }
 
@@ -1,5 +1,7 @@
 import { SentMessageInfo, Transporter } from 'nodemailer';
 import { getEmailTransporter, EmailConfig } from './config';
+import { EmailStatus } from '@prisma/client';
+import { addMinutes } from 'date-fns';
 import { prisma } from '@/lib/prisma';
 import { EmailTemplate } from './templates/types';
 
@@ -20,16 +22,26 @@ export interface EmailOptions {
 }
 
 // Email status tracking
-export enum EmailStatus {
-  QUEUED = 'QUEUED',
-  SENDING = 'SENDING',
-  SENT = 'SENT',
-  FAILED = 'FAILED',
-  DELIVERED = 'DELIVERED',
-}
+export { EmailStatus };
+
+// Maximum send attempts before an email is left as FAILED for good
+export const MAX_RETRY_ATTEMPTS = 3;
+
+// Base delay before the retry job picks up a failed email; doubles per attempt
+const RETRY_BASE_DELAY_MINUTES = 5;
+
+// Emails still QUEUED after this long were never attempted (e.g. the process died)
+const STALE_QUEUED_MINUTES = 15;
+
+// Emails still SENDING after this long were cut off mid-attempt by a crash. Retrying
+// them may deliver a second copy if the crash came after the mail server accepted it.
+const STALE_SENDING_MINUTES = 15;
 
-// Maximum retry attempts for failed emails
-const MAX_RETRY_ATTEMPTS = 3;
+// What a notification is about, so schedulers can tell it has already been queued
+export interface EmailLinks {
+  transactionId?: string;
+  reservationId?: string;
+}
 
 /**
  * Email service for sending and tracking emails
@@ -46,6 +58,8 @@ export class EmailService {
    */
   async sendEmail(options: EmailOptions): Promise<{ success: boolean; id?: string; error?: any }> {
     try {
+      const text = options.text || this.stripHtml(options.html);
+
       // Create an email tracking record in the database
       const emailRecord = await prisma.emailLog.create({
         data: {
@@ -53,11 +67,13 @@ export class EmailService {
           subject: options.subject,
           status: EmailStatus.QUEUED,
           attempts: 0,
+          htmlContent: options.html,
+          textContent: text,
         },
       });
 
       // Attempt to send the email
-      return await this.attemptSend(emailRecord.id, options);
+      return await this.attemptSend(emailRecord.id, { ...options, text });
     } catch (error) {
       console.error('Failed to create email tracking record:', error);
       return { success: false, error };
@@ -65,7 +81,8 @@ export class EmailService {
   }
 
   /**
-   * Attempt to send an email with retry logic
+   * Attempt to send an email once. Failures are recorded on the log and
+   * scheduled for the retry job rather than retried in-process.
    */
   private async attemptSend(
     emailId: string,
@@ -80,6 +97,7 @@ export class EmailService {
           status: EmailStatus.SENDING,
           attempts: attempt,
           lastAttemptAt: new Date(),
+          nextAttemptAt: null,
         },
       });
 
@@ -103,6 +121,7 @@ export class EmailService {
           status: EmailStatus.SENT,
           messageId: result.messageId,
           sentAt: new Date(),
+          error: null,
         },
       });
 
@@ -110,65 +129,83 @@ export class EmailService {
     } catch (error) {
       console.error(`Email sending attempt ${attempt} failed:`, error);
 
-      // Determine if we should retry
-      if (attempt < MAX_RETRY_ATTEMPTS) {
-        // Exponential backoff: wait longer between retries
-        const delayMs = Math.pow(2, attempt) * 1000;
-        await new Promise(resolve => setTimeout(resolve, delayMs));
-
-        // Retry the send
-        return this.attemptSend(emailId, options, attempt + 1);
-      } else {
-        // Max retries reached, update status to failed
-        await prisma.emailLog.update({
-          where: { id: emailId },
-          data: {
-            status: EmailStatus.FAILED,
-            error: error.message || 'Unknown error',
-          },
-        });
-
-        return { success: false, id: emailId, error };
-      }
+      // Exponential backoff: later attempts wait longer before the retry job picks them up
+      const nextAttemptAt = attempt < MAX_RETRY_ATTEMPTS
+        ? addMinutes(new Date(), RETRY_BASE_DELAY_MINUTES * Math.pow(2, attempt - 1))
+        : null;
+
+      await prisma.emailLog.update({
+        where: { id: emailId },
+        data: {
+          status: EmailStatus.FAILED,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          nextAttemptAt,
+        },
+      });
+
+      return { success: false, id: emailId, error };
     }
   }
 
   /**
    * Process the email queue to retry failed emails
+   * Picks up FAILED emails whose backoff has elapsed, deferred emails whose send time
+   * has come, QUEUED emails that were never attempted and SENDING emails whose attempt
+   * never finished
    */
-  async processQueue(): Promise<{ processed: number; successful: number; failed: number }> {
+  async processQueue(batchSize = 25): Promise<{ processed: number; sent: number; failed: number }> {
     try {
-      // Find emails that are queued or failed with less than max attempts
+      const now = new Date();
+
       const pendingEmails = await prisma.emailLog.findMany({
         where: {
           OR: [
-            { status: EmailStatus.QUEUED },
+            {
+              status: EmailStatus.QUEUED,
+              nextAttemptAt: null,
+              createdAt: { lte: addMinutes(now, -STALE_QUEUED_MINUTES) },
+            },
+            {
+              status: EmailStatus.QUEUED,
+              nextAttemptAt: { lte: now },
+            },
+            {
+              status: EmailStatus.SENDING,
+              lastAttemptAt: { lte: addMinutes(now, -STALE_SENDING_MINUTES) },
+            },
             {
               status: EmailStatus.FAILED,
               attempts: { lt: MAX_RETRY_ATTEMPTS },
+              nextAttemptAt: { lte: now },
             },
           ],
         },
-        take: 10, // Process in batches
+        orderBy: { createdAt: 'asc' },
+        take: batchSize,
       });
 
       if (pendingEmails.length === 0) {
-        return { processed: 0, successful: 0, failed: 0 };
+        return { processed: 0, sent: 0, failed: 0 };
       }
 
-      let successful = 0;
+      let sent = 0;
       let failed = 0;
 
       // Process each pending email
       for (const email of pendingEmails) {
         try {
-          // We need to retrieve the email content from the templates table
-          const emailContent = await prisma.emailTemplate.findFirst({
-            where: { emailLogId: email.id },
-          });
-
-          if (!emailContent) {
+          if (!email.htmlContent) {
             console.error(`No email content found for email ID: ${email.id}`);
+
+            // Nothing to send, so stop the job from picking it up again
+            await prisma.emailLog.update({
+              where: { id: email.id },
+              data: {
+                status: EmailStatus.FAILED,
+                error: 'No stored content to retry',
+                nextAttemptAt: null,
+              },
+            });
             failed++;
             continue;
           }
@@ -179,14 +216,14 @@ export class EmailService {
             {
               to: email.to,
               subject: email.subject,
-              html: emailContent.htmlContent,
-              text: emailContent.textContent,
+              html: email.htmlContent,
+              text: email.textContent ?? undefined,
             },
             email.attempts + 1
           );
 
           if (result.success) {
-            successful++;
+            sent++;
           } else {
             failed++;
           }
@@ -198,12 +235,53 @@ export class EmailService {
 
       return {
         processed: pendingEmails.length,
-        successful,
+        sent,
         failed,
       };
     } catch (error) {
       console.error('Failed to process email queue:', error);
-      return { processed: 0, successful: 0, failed: 0 };
+      throw error;
+    }
+  }
+
+  /**
+   * Resend a logged email as a new message
+   * The original log is left untouched so the outbox keeps the full history
+   */
+  async resendEmail(emailId: string): Promise<{ success: boolean; id?: string; error?: unknown }> {
+    try {
+      const original = await prisma.emailLog.findUnique({
+        where: { id: emailId },
+      });
+
+      if (!original || !original.htmlContent) {
+        return { success: false, error: new Error('Email content not available for resend') };
+      }
+
+      const emailRecord = await prisma.emailLog.create({
+        data: {
+          to: original.to,
+          subject: original.subject,
+          status: EmailStatus.QUEUED,
+          attempts: 0,
+          template: original.template,
+          templateData: original.templateData,
+          htmlContent: original.htmlContent,
+          textContent: original.textContent,
+          transactionId: original.transactionId,
+          reservationId: original.reservationId,
+        },
+      });
+
+      return await this.attemptSend(emailRecord.id, {
+        to: original.to,
+        subject: original.subject,
+        html: original.htmlContent,
+        text: original.textContent ?? undefined,
+      });
+    } catch (error) {
+      console.error('Failed to resend email:', error);
+      return { success: false, error };
     }
   }
 
@@ -213,7 +291,8 @@ export class EmailService {
   async sendTemplatedEmail<T = any>(
     template: EmailTemplate<T>,
     data: T,
-    options: Omit<EmailOptions, 'html' | 'text'>
+    options: Omit<EmailOptions, 'html' | 'text'>,
+    links: EmailLinks = {}
   ): Promise<{ success: boolean; id?: string; error?: any }> {
     try {
       // Render the template
@@ -228,15 +307,10 @@ export class EmailService {
           attempts: 0,
           template: template.name,
           templateData: JSON.stringify(data),
-        },
-      });
-
-      // Store the rendered content
-      await prisma.emailTemplate.create({
-        data: {
-          emailLogId: emailRecord.id,
           htmlContent: html,
           textContent: text || this.stripHtml(html),
+          // Linked up front so a failed send still counts as this notice for the schedulers
+          ...links,
         },
       });
 
@@ -252,6 +326,42 @@ export class EmailService {
     }
   }
 
+  /**
+   * Render a templated email now and queue it for the retry job to send once
+   * `sendAfter` has passed, e.g. when the recipient's quiet hours end
+   */
+  async deferTemplatedEmail<T>(
+    template: EmailTemplate<T>,
+    data: T,
+    options: Omit<EmailOptions, 'html' | 'text'>,
+    sendAfter: Date,
+    links: EmailLinks = {}
+  ): Promise<{ success: boolean; id?: string; error?: unknown }> {
+    try {
+      const { html, text } = await template.render(data);
+
+      const emailRecord = await prisma.emailLog.create({
+        data: {
+          to: Array.isArray(options.to) ? options.to.join(', ') : options.to,
+          subject: options.subject,
+          status: EmailStatus.QUEUED,
+          attempts: 0,
+          nextAttemptAt: sendAfter,
+          template: template.name,
+          templateData: JSON.stringify(data),
+          htmlContent: html,
+          textContent: text || this.stripHtml(html),
+          ...links,
+        },
+      });
+
+      return { success: true, id: emailRecord.id };
+    } catch (error) {
+      console.error('Failed to queue deferred email:', error);
+      return { success: false, error };
+    }
+  }
+
   /**
    * Track delivery status update (for webhook integration)
    */
@@ -0,0 +1,124 @@
+import React from 'react';
+import { Text, Link, Button, Section } from '@react-email/components';
+import BaseTemplate, { renderEmailTemplate } from './base-template';
+import { EmailTemplate, EmailVerificationData } from './types';
+
+interface EmailVerificationTemplateProps {
+  data: EmailVerificationData;
+}
+
+export const EmailVerificationTemplate: React.FC<EmailVerificationTemplateProps> = ({ data }) => {
+  const { user, verificationUrl, expiresAt } = data;
+
+  // Format the expiry time for display
+  const formattedExpiry = new Date(expiresAt).toLocaleString('en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+  return (
+    <BaseTemplate
+      previewText="Confirm your email address to activate your library account"
+      heading="Verify Your Email Address"
+      userName={user.name}
+    >
+      <Text style={styles.infoText}>
+        Thanks for signing up! Please confirm that {user.email} is your email address to activate your library account.
+      </Text>
+
+      <Section style={{ margin: '24px 0', textAlign: 'center' }}>
+        <Button href={verificationUrl} style={styles.primaryButton}>
+          Verify Email Address
+        </Button>
+      </Section>
+
+      <Text style={styles.infoText}>
+        This link expires on {formattedExpiry}. If it has expired, you can request a new one from the sign-in page.
+      </Text>
+
+      <Text style={styles.fallbackText}>
+        If the button doesn&apos;t work, copy and paste this link into your browser:
+        <br />
+        <Link href={verificationUrl} style={styles.fallbackLink}>
+          {verificationUrl}
+        </Link>
+      </Text>
+
+      <Text style={styles.securityNote}>
+        If you didn&apos;t create an account, you can safely ignore this email.
+      </Text>
+    </BaseTemplate>
+  );
+};
+
+// Template implementation
+export const emailVerificationTemplate: EmailTemplate<EmailVerificationData> = {
+  name: 'email-verification',
+  description: 'Verification link sent when a new member registers',
+  category: 'account',
+
+  render: async (data: EmailVerificationData) => {
+    return renderEmailTemplate(<EmailVerificationTemplate data={data} />);
+  },
+
+  getPreview: async () => {
+    const sampleData: EmailVerificationData = {
+      user: {
+        id: 'user-12345678',
+        name: 'Alex Thompson',
+        email: 'alex.thompson@example.com',
+      },
+      verificationUrl: 'https://library-management-system.com/api/auth/verify-email?token=sample-token.signature',
+      expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    };
+
+    const rendered = await renderEmailTemplate(<EmailVerificationTemplate data={sampleData} />);
+    return {
+      ...rendered,
+      sampleData,
+    };
+  },
+};
+
+// Styles
+const styles = {
+  infoText: {
+    fontSize: '16px',
+    color: '#374151',
+    lineHeight: '24px',
+  },
+  primaryButton: {
+    backgroundColor: '#4F46E5',
+    color: '#ffffff',
+    padding: '12px 28px',
+    borderRadius: '4px',
+    textDecoration: 'none',
+    fontWeight: 'bold',
+    fontSize: '16px',
+  },
+  fallbackText: {
+    fontSize: '14px',
+    color: '#4B5563',
+    margin: '16px 0',
+    lineHeight: '22px',
+    wordBreak: 'break-all' as const,
+  },
+  fallbackLink: {
+    color: '#4F46E5',
+    textDecoration: 'underline',
+  },
+  securityNote: {
+    fontSize: '14px',
+    color: '#4B5563',
+    margin: '20px 0',
+    padding: '12px',
+    backgroundColor: '#FEF3C7',
+    borderRadius: '4px',
+    borderLeft: '4px solid #F59E0B',
+  },
+};
+
+export default emailVerificationTemplate;
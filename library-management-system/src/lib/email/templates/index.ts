@@ -3,6 +3,8 @@ import overdueNoticeTemplate from './overdue-notice';
 import reservationAvailabilityTemplate from './reservation-availability';
 import accountUpdateTemplate from './account-update';
 import welcomeEmailTemplate from './welcome-email';
+import notificationDigestTemplate from './notification-digest';
+import emailVerificationTemplate from './email-verification';
 import { EmailTemplate } from './types';
 
 // Registry of all email templates
@@ -12,6 +14,8 @@ const templates: Record<string, EmailTemplate<any>> = {
   'reservation-availability': reservationAvailabilityTemplate,
   'account-update': accountUpdateTemplate,
   'welcome-email': welcomeEmailTemplate,
+  'notification-digest': notificationDigestTemplate,
+  'email-verification': emailVerificationTemplate,
 };
 
 // Get a specific template by name
@@ -36,6 +40,8 @@ export {
   reservationAvailabilityTemplate,
   accountUpdateTemplate,
   welcomeEmailTemplate,
+  notificationDigestTemplate,
+  emailVerificationTemplate,
 };
 
 // Export template registry
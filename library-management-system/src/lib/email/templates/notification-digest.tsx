@@ -0,0 +1,188 @@
+import React from 'react';
+import { Text, Link, Button, Section } from '@react-email/components';
+import BaseTemplate, { renderEmailTemplate } from './base-template';
+import { EmailTemplate, NotificationDigestData } from './types';
+
+interface NotificationDigestTemplateProps {
+  data: NotificationDigestData;
+}
+
+export const NotificationDigestTemplate: React.FC<NotificationDigestTemplateProps> = ({ data }) => {
+  const { user, frequency, dueSoon, overdue } = data;
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'https://library-management-system.com';
+  const accountUrl = `${baseUrl}/account/borrowings`;
+  const period = frequency === 'DAILY' ? 'daily' : 'weekly';
+
+  // Format dates for display
+  const formatDate = (date: Date) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric'
+    });
+  };
+
+  return (
+    <BaseTemplate
+      previewText={`Your ${period} library summary: ${overdue.length} overdue, ${dueSoon.length} due soon`}
+      heading="Your Library Summary"
+      userName={user.name}
+    >
+      <Text style={styles.infoText}>
+        Here is your {period} summary of books on loan.
+      </Text>
+
+      {overdue.length > 0 && (
+        <Section style={styles.overdueSection}>
+          <Text style={styles.sectionTitle}>Overdue</Text>
+          {overdue.map((item) => (
+            <Text key={item.transactionId} style={styles.itemRow}>
+              <strong>{item.book.title}</strong> by {item.book.author}
+              {' '}&mdash; {item.daysOverdue} {item.daysOverdue === 1 ? 'day' : 'days'} overdue
+            </Text>
+          ))}
+        </Section>
+      )}
+
+      {dueSoon.length > 0 && (
+        <Section style={styles.dueSoonSection}>
+          <Text style={styles.sectionTitle}>Due Soon</Text>
+          {dueSoon.map((item) => (
+            <Text key={item.transactionId} style={styles.itemRow}>
+              <strong>{item.book.title}</strong> by {item.book.author}
+              {' '}&mdash; due {formatDate(item.dueDate)}
+            </Text>
+          ))}
+        </Section>
+      )}
+
+      <Text style={styles.infoText}>
+        Please return overdue books as soon as possible to avoid further fines. Books that
+        no one else has reserved can be renewed through your account.
+      </Text>
+
+      <Section style={styles.buttonContainer}>
+        <Button href={accountUrl} style={styles.primaryButton}>
+          View My Borrowings
+        </Button>
+      </Section>
+
+      <Text style={styles.helpText}>
+        You are receiving this summary instead of individual reminders. You can change this in your{' '}
+        <Link href={`${baseUrl}/dashboard/profile`} style={styles.link}>
+          notification preferences
+        </Link>
+        .
+      </Text>
+    </BaseTemplate>
+  );
+};
+
+// Template implementation
+export const notificationDigestTemplate: EmailTemplate<NotificationDigestData> = {
+  name: 'notification-digest',
+  description: 'Daily or weekly summary of loans due soon and overdue, sent instead of individual reminders',
+  category: 'transaction',
+
+  render: async (data: NotificationDigestData) => {
+    return renderEmailTemplate(<NotificationDigestTemplate data={data} />);
+  },
+
+  getPreview: async () => {
+    const sampleData: NotificationDigestData = {
+      user: {
+        id: '123',
+        name: 'Jane Smith',
+        email: 'jane.smith@example.com',
+      },
+      frequency: 'WEEKLY',
+      dueSoon: [
+        {
+          transactionId: 'tr-123',
+          dueDate: new Date(new Date().setDate(new Date().getDate() + 3)),
+          book: {
+            id: 'b-123',
+            title: 'The Great Gatsby',
+            author: 'F. Scott Fitzgerald',
+          },
+        },
+      ],
+      overdue: [
+        {
+          transactionId: 'tr-456',
+          dueDate: new Date(new Date().setDate(new Date().getDate() - 2)),
+          daysOverdue: 2,
+          book: {
+            id: 'b-456',
+            title: 'To Kill a Mockingbird',
+            author: 'Harper Lee',
+          },
+        },
+      ],
+    };
+
+    const rendered = await renderEmailTemplate(<NotificationDigestTemplate data={sampleData} />);
+    return {
+      ...rendered,
+      sampleData,
+    };
+  },
+};
+
+// Styles
+const styles = {
+  infoText: {
+    fontSize: '16px',
+    color: '#374151',
+    lineHeight: '24px',
+    margin: '20px 0',
+  },
+  overdueSection: {
+    backgroundColor: '#FEE2E2',
+    padding: '16px',
+    borderRadius: '4px',
+    margin: '20px 0',
+  },
+  dueSoonSection: {
+    backgroundColor: '#F9FAFB',
+    padding: '16px',
+    borderRadius: '4px',
+    margin: '20px 0',
+  },
+  sectionTitle: {
+    fontSize: '18px',
+    fontWeight: 'bold',
+    margin: '0 0 8px 0',
+    color: '#1F2937',
+  },
+  itemRow: {
+    fontSize: '14px',
+    color: '#374151',
+    margin: '4px 0',
+  },
+  buttonContainer: {
+    display: 'flex',
+    justifyContent: 'center',
+    gap: '12px',
+    margin: '24px 0',
+  },
+  primaryButton: {
+    backgroundColor: '#3B82F6',
+    color: '#ffffff',
+    padding: '12px 20px',
+    borderRadius: '4px',
+    textDecoration: 'none',
+    fontWeight: 'bold',
+  },
+  helpText: {
+    fontSize: '14px',
+    color: '#4B5563',
+    margin: '12px 0',
+  },
+  link: {
+    color: '#3B82F6',
+    textDecoration: 'underline',
+  },
+};
+
+export default notificationDigestTemplate;
@@ -91,6 +91,32 @@ export interface ReservationAvailabilityData extends UserEmailData {
   pickupDeadline: Date;
 }
 
+/**
+ * Interface for notification digest emails
+ */
+export interface NotificationDigestData extends UserEmailData {
+  frequency: 'DAILY' | 'WEEKLY';
+  dueSoon: {
+    transactionId: string;
+    dueDate: Date;
+    book: {
+      id: string;
+      title: string;
+      author: string;
+    };
+  }[];
+  overdue: {
+    transactionId: string;
+    dueDate: Date;
+    daysOverdue: number;
+    book: {
+      id: string;
+      title: string;
+      author: string;
+    };
+  }[];
+}
+
 /**
  * Interface for account update emails
  */
@@ -107,3 +133,11 @@ export interface WelcomeEmailData extends UserEmailData {
   libraryName: string;
   loginUrl: string;
 }
+
+/**
+ * Interface for email verification emails
+ */
+export interface EmailVerificationData extends UserEmailData {
+  verificationUrl: string;
+  expiresAt: Date;
+}
@@ -0,0 +1,58 @@
+import { Action, can, Principal } from '@/lib/auth/policy';
+import { LiveEvent, LiveEventType } from '@/types/events';
+
+/**
+ * In-process pub/sub for live circulation events. Routes publish once their
+ * changes are committed; the /api/events stream forwards them to the browser.
+ * Only reaches subscribers connected to the same server process.
+ */
+
+export type LiveEventListener = (event: LiveEvent) => void;
+
+declare global {
+  // Kept on `global` so every route bundle and hot reload shares one set of subscribers
+  // eslint-disable-next-line no-var
+  var liveEventListeners: Set<LiveEventListener> | undefined;
+}
+
+const listeners: Set<LiveEventListener> = (global.liveEventListeners ??= new Set());
+
+// What a subscriber must be allowed to read to receive each kind of event
+const EVENT_ACTIONS: Record<LiveEventType, Action> = {
+  CHECKOUT: 'transaction:read',
+  RETURN: 'transaction:read',
+  RESERVATION: 'reservation:read',
+  HOLD_READY: 'reservation:read',
+  MEMBER_STATUS_CHANGED: 'member:activity',
+};
+
+/**
+ * Listen for live events. Returns a function that stops listening.
+ */
+export function subscribe(listener: LiveEventListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Send an event to every subscriber. A failing listener doesn't stop the others
+ * or the request that published the event.
+ */
+export function publish(event: LiveEvent): void {
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('Error delivering live event:', error);
+    }
+  }
+}
+
+/**
+ * Whether a user may receive an event: staff get everyone's, members only their own
+ */
+export function canReceive(principal: Principal, event: LiveEvent): boolean {
+  return can(principal, EVENT_ACTIONS[event.type], { ownerId: event.memberId });
+}
@@ -0,0 +1,99 @@
+import { UserStatus } from '@prisma/client';
+import { publish } from './bus';
+
+/**
+ * Live events for circulation changes, built from the records the routes
+ * already load. Call these after the change has been committed.
+ */
+
+interface EventMember {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+interface EventBook {
+  id: string;
+  title: string;
+}
+
+interface EventLoan {
+  id: string;
+  book: EventBook;
+  user: EventMember;
+}
+
+interface EventReservation {
+  id: string;
+  book: EventBook;
+  user: EventMember;
+}
+
+function memberName(member: EventMember): string {
+  return member.name ?? member.email;
+}
+
+export function publishCheckout(loan: EventLoan): void {
+  publish({
+    id: `checkout-${loan.id}`,
+    type: 'CHECKOUT',
+    timestamp: new Date().toISOString(),
+    title: 'Book Checkout',
+    description: `${loan.book.title} was checked out by ${memberName(loan.user)}`,
+    bookId: loan.book.id,
+    memberId: loan.user.id,
+    transactionId: loan.id,
+  });
+}
+
+export function publishReturn(loan: EventLoan): void {
+  publish({
+    id: `return-${loan.id}`,
+    type: 'RETURN',
+    timestamp: new Date().toISOString(),
+    title: 'Book Return',
+    description: `${loan.book.title} was returned by ${memberName(loan.user)}`,
+    bookId: loan.book.id,
+    memberId: loan.user.id,
+    transactionId: loan.id,
+  });
+}
+
+export function publishReservationCreated(reservation: EventReservation): void {
+  publish({
+    id: `reservation-${reservation.id}`,
+    type: 'RESERVATION',
+    timestamp: new Date().toISOString(),
+    title: 'New Reservation',
+    description: `${reservation.book.title} was reserved by ${memberName(reservation.user)}`,
+    bookId: reservation.book.id,
+    memberId: reservation.user.id,
+    reservationId: reservation.id,
+  });
+}
+
+export function publishHoldReady(reservation: EventReservation): void {
+  publish({
+    id: `hold-ready-${reservation.id}`,
+    type: 'HOLD_READY',
+    timestamp: new Date().toISOString(),
+    title: 'Hold Ready for Pickup',
+    description: `${reservation.book.title} is waiting for ${memberName(reservation.user)}`,
+    bookId: reservation.book.id,
+    memberId: reservation.user.id,
+    reservationId: reservation.id,
+  });
+}
+
+export function publishMemberStatusChanged(member: EventMember & { status: UserStatus }): void {
+  const timestamp = new Date().toISOString();
+
+  publish({
+    id: `member-status-${member.id}-${timestamp}`,
+    type: 'MEMBER_STATUS_CHANGED',
+    timestamp,
+    title: 'Member Status Changed',
+    description: `${memberName(member)} is now ${member.status.toLowerCase()}`,
+    memberId: member.id,
+  });
+}
@@ -0,0 +1,151 @@
+// Minimal five-field cron support: minute hour day-of-month month day-of-week.
+// Each field accepts `*`, numbers, ranges (`1-5`), lists (`1,15`) and steps (`*/10`, `0-30/5`).
+// Expressions are evaluated in the server's local time.
+
+interface CronField {
+  min: number;
+  max: number;
+}
+
+const FIELDS: CronField[] = [
+  { min: 0, max: 59 }, // minute
+  { min: 0, max: 23 }, // hour
+  { min: 1, max: 31 }, // day of month
+  { min: 1, max: 12 }, // month
+  { min: 0, max: 6 }, // day of week (0 = Sunday; 7 is accepted as Sunday too)
+];
+
+// Give up looking for a match after this many steps; enough to cover leap-day schedules
+const MAX_SEARCH_STEPS = 366 * 24 * 60 * 4;
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Standard cron semantics: when both day fields are restricted, either may match
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+function parseField(source: string, field: CronField, isDayOfWeek: boolean): Set<number> {
+  const values = new Set<number>();
+  const max = isDayOfWeek ? 7 : field.max;
+
+  for (const part of source.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepPart}" in cron field "${source}"`);
+    }
+
+    let start: number;
+    let end: number;
+
+    if (rangePart === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-').map(Number);
+      start = from;
+      end = to;
+    } else {
+      start = Number(rangePart);
+      // `5/15` means every 15 starting at 5
+      end = stepPart === undefined ? start : field.max;
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < field.min || end > max || start > end) {
+      throw new Error(`Invalid value "${part}" in cron field "${source}"`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(isDayOfWeek && value === 7 ? 0 : value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression
+ * Throws if the expression is malformed
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+
+  if (parts.length !== 5) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) =>
+    parseField(part, FIELDS[index], index === 4)
+  );
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: parts[2] !== '*',
+    dayOfWeekRestricted: parts[4] !== '*',
+  };
+}
+
+/**
+ * Check whether a cron expression is valid without throwing
+ */
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Get the first time strictly after `from` that matches the cron expression
+ */
+export function getNextCronDate(expression: string, from: Date = new Date()): Date {
+  const schedule = parseCronExpression(expression);
+
+  const candidate = new Date(from);
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+
+  for (let i = 0; i < MAX_SEARCH_STEPS; i++) {
+    if (!schedule.months.has(candidate.getMonth() + 1) || !matchesDay(schedule, candidate)) {
+      // Skip to the start of the next day
+      candidate.setHours(24, 0, 0, 0);
+      continue;
+    }
+
+    if (!schedule.hours.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+
+    if (schedule.minutes.has(candidate.getMinutes())) {
+      return candidate;
+    }
+
+    candidate.setMinutes(candidate.getMinutes() + 1);
+  }
+
+  throw new Error(`Cron expression "${expression}" never matches`);
+}
@@ -0,0 +1,88 @@
+import NotificationScheduler from '@/lib/email/schedulers/notification-scheduler';
+import { EmailService } from '@/lib/email/service';
+import { processExpiredReservations } from '@/lib/circulation/reservations';
+
+// Counts returned by a job handler, stored on the JobRun
+export type JobResult = Record<string, number>;
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  // Notification jobs are the ones run together by `all`
+  category: 'notifications' | 'maintenance';
+  // Schedule used when the job is first registered; admins can change it afterwards
+  defaultCronExpression: string;
+  handler: () => Promise<JobResult>;
+}
+
+/**
+ * Background jobs known to the application
+ * Rows in `scheduled_jobs` are created from these on startup; the handler always comes from code.
+ */
+export const JOB_DEFINITIONS: JobDefinition[] = [
+  {
+    name: 'due-date',
+    description: 'Sends reminders for books due in 1, 3, and 7 days',
+    category: 'notifications',
+    defaultCronExpression: '0 1 * * *',
+    handler: () => new NotificationScheduler().processDueDateReminders(),
+  },
+  {
+    name: 'overdue',
+    description: 'Flags overdue loans and sends notices at 1, 7, and 14 days overdue',
+    category: 'notifications',
+    defaultCronExpression: '0 1 * * *',
+    handler: () => new NotificationScheduler().processOverdueNotices(),
+  },
+  {
+    name: 'reservation-availability',
+    description: 'Sends notifications when reserved books become available',
+    category: 'notifications',
+    defaultCronExpression: '*/15 * * * *',
+    handler: () => new NotificationScheduler().processReservationAvailability(),
+  },
+  {
+    name: 'reservation-expiration',
+    description: 'Sends notifications when reservations are about to expire',
+    category: 'notifications',
+    defaultCronExpression: '0 * * * *',
+    handler: () => new NotificationScheduler().processReservationExpirations(),
+  },
+  {
+    name: 'digest',
+    description: 'Sends daily or weekly summaries to users who opted into a digest',
+    category: 'notifications',
+    defaultCronExpression: '0 7 * * *',
+    handler: () => new NotificationScheduler().processNotificationDigests(),
+  },
+  {
+    name: 'reservation-expiry',
+    description: 'Expires lapsed reservations and offers held copies to the next member in line',
+    category: 'maintenance',
+    defaultCronExpression: '*/30 * * * *',
+    handler: () => processExpiredReservations(),
+  },
+  {
+    name: 'email-retry',
+    description: 'Retries failed emails whose backoff has elapsed',
+    category: 'maintenance',
+    defaultCronExpression: '*/10 * * * *',
+    handler: () => new EmailService().processQueue(),
+  },
+];
+
+/**
+ * Look up a job definition by name
+ */
+export function getJobDefinition(name: string): JobDefinition | undefined {
+  return JOB_DEFINITIONS.find((definition) => definition.name === name);
+}
+
+/**
+ * Names of the jobs that send member notifications
+ */
+export function getNotificationJobNames(): string[] {
+  return JOB_DEFINITIONS
+    .filter((definition) => definition.category === 'notifications')
+    .map((definition) => definition.name);
+}
@@ -0,0 +1,287 @@
+import { JobRun, JobRunStatus, JobTrigger, Prisma, ScheduledJob } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getNextCronDate } from './cron';
+import { JOB_DEFINITIONS, getJobDefinition } from './definitions';
+
+// How long a worker holds a job lock before another instance may take it over
+const LOCK_TTL_MS = 10 * 60 * 1000;
+
+// How often a worker renews a lock it holds, well within the TTL so a long run keeps it
+const LOCK_HEARTBEAT_MS = LOCK_TTL_MS / 4;
+
+export interface EnqueueJobOptions {
+  trigger?: JobTrigger;
+  triggeredById?: string;
+}
+
+// Compute the next scheduled time, or null if the stored expression is broken
+function nextRunFor(job: Pick<ScheduledJob, 'name' | 'cronExpression'>, from: Date): Date | null {
+  try {
+    return getNextCronDate(job.cronExpression, from);
+  } catch (error) {
+    console.error(`Invalid cron expression for job ${job.name}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Create a scheduled_jobs row for every job defined in code
+ * Existing rows keep their schedule and pause state
+ */
+export async function syncJobDefinitions(): Promise<void> {
+  const now = new Date();
+
+  for (const definition of JOB_DEFINITIONS) {
+    await prisma.scheduledJob.upsert({
+      where: { name: definition.name },
+      create: {
+        name: definition.name,
+        description: definition.description,
+        cronExpression: definition.defaultCronExpression,
+        nextRunAt: getNextCronDate(definition.defaultCronExpression, now),
+      },
+      update: {
+        description: definition.description,
+      },
+    });
+  }
+}
+
+/**
+ * Queue a run of a job by name
+ * Returns null if no such job is registered
+ */
+export async function enqueueJobRun(
+  jobName: string,
+  options: EnqueueJobOptions = {}
+): Promise<JobRun | null> {
+  let job = await prisma.scheduledJob.findUnique({ where: { name: jobName } });
+
+  // The job may be defined in code but not yet synced (e.g. no scheduler has started)
+  if (!job && getJobDefinition(jobName)) {
+    await syncJobDefinitions();
+    job = await prisma.scheduledJob.findUnique({ where: { name: jobName } });
+  }
+
+  if (!job) {
+    return null;
+  }
+
+  return prisma.jobRun.create({
+    data: {
+      jobId: job.id,
+      trigger: options.trigger ?? JobTrigger.MANUAL,
+      triggeredById: options.triggeredById,
+    },
+  });
+}
+
+/**
+ * Take the job lock for this worker
+ * The update only matches when the lock is free or expired, so at most one worker wins.
+ */
+async function acquireJobLock(jobId: string, workerId: string): Promise<boolean> {
+  const now = new Date();
+
+  const { count } = await prisma.scheduledJob.updateMany({
+    where: {
+      id: jobId,
+      OR: [
+        { lockedBy: null },
+        { lockExpiresAt: { lt: now } },
+      ],
+    },
+    data: {
+      lockedBy: workerId,
+      lockExpiresAt: new Date(now.getTime() + LOCK_TTL_MS),
+    },
+  });
+
+  return count === 1;
+}
+
+async function extendJobLock(jobId: string, workerId: string): Promise<void> {
+  await prisma.scheduledJob.updateMany({
+    where: { id: jobId, lockedBy: workerId },
+    data: { lockExpiresAt: new Date(Date.now() + LOCK_TTL_MS) },
+  });
+}
+
+/**
+ * Renew the job lock on an interval until the returned function is called, so a
+ * run that outlasts the TTL can't be started again by another worker
+ */
+function keepJobLockAlive(jobId: string, workerId: string): () => void {
+  const timer = setInterval(() => {
+    extendJobLock(jobId, workerId).catch((error) => {
+      console.error(`Failed to extend lock for job ${jobId}:`, error);
+    });
+  }, LOCK_HEARTBEAT_MS);
+
+  return () => clearInterval(timer);
+}
+
+async function releaseJobLock(jobId: string, workerId: string): Promise<void> {
+  await prisma.scheduledJob.updateMany({
+    where: { id: jobId, lockedBy: workerId },
+    data: { lockedBy: null, lockExpiresAt: null },
+  });
+}
+
+/**
+ * Execute one queued run and record its outcome
+ */
+async function executeJobRun(job: ScheduledJob, run: JobRun): Promise<JobRun> {
+  // Another worker may have claimed the run between listing and now
+  const { count } = await prisma.jobRun.updateMany({
+    where: { id: run.id, status: JobRunStatus.QUEUED },
+    data: { status: JobRunStatus.RUNNING, startedAt: new Date() },
+  });
+
+  if (count === 0) {
+    return run;
+  }
+
+  const definition = getJobDefinition(job.name);
+
+  try {
+    if (!definition) {
+      throw new Error(`No handler is registered for job "${job.name}"`);
+    }
+
+    const result = await definition.handler();
+
+    return await prisma.jobRun.update({
+      where: { id: run.id },
+      data: {
+        status: JobRunStatus.SUCCEEDED,
+        result: result as Prisma.InputJsonObject,
+        finishedAt: new Date(),
+      },
+    });
+  } catch (error) {
+    console.error(`Job ${job.name} run ${run.id} failed:`, error);
+
+    return await prisma.jobRun.update({
+      where: { id: run.id },
+      data: {
+        status: JobRunStatus.FAILED,
+        error: error instanceof Error ? error.message : String(error),
+        finishedAt: new Date(),
+      },
+    });
+  } finally {
+    await prisma.scheduledJob.update({
+      where: { id: job.id },
+      data: { lastRunAt: new Date() },
+    });
+  }
+}
+
+/**
+ * Run everything that is pending for one job: the scheduled run if it is due, then
+ * queued runs in order. Does nothing if another worker holds the job lock.
+ */
+async function processJob(jobId: string, workerId: string, now: Date): Promise<JobRun[]> {
+  if (!(await acquireJobLock(jobId, workerId))) {
+    return [];
+  }
+
+  const stopHeartbeat = keepJobLockAlive(jobId, workerId);
+
+  try {
+    // Re-read under the lock so a schedule another worker just advanced is not run twice
+    const job = await prisma.scheduledJob.findUniqueOrThrow({ where: { id: jobId } });
+
+    // Holding the lock means no other worker is executing this job, so anything
+    // still RUNNING was left behind by an instance that died mid-run
+    await prisma.jobRun.updateMany({
+      where: { jobId: job.id, status: JobRunStatus.RUNNING },
+      data: {
+        status: JobRunStatus.FAILED,
+        error: 'Run was interrupted before it finished',
+        finishedAt: now,
+      },
+    });
+
+    if (job.enabled && job.nextRunAt && job.nextRunAt <= now) {
+      await prisma.$transaction([
+        prisma.jobRun.create({
+          data: { jobId: job.id, trigger: JobTrigger.SCHEDULE },
+        }),
+        prisma.scheduledJob.update({
+          where: { id: job.id },
+          data: { nextRunAt: nextRunFor(job, now) },
+        }),
+      ]);
+    }
+
+    const queuedRuns = await prisma.jobRun.findMany({
+      where: { jobId: job.id, status: JobRunStatus.QUEUED },
+      orderBy: { queuedAt: 'asc' },
+    });
+
+    const finishedRuns: JobRun[] = [];
+    for (const run of queuedRuns) {
+      finishedRuns.push(await executeJobRun(job, run));
+    }
+
+    return finishedRuns;
+  } finally {
+    stopHeartbeat();
+    await releaseJobLock(jobId, workerId);
+  }
+}
+
+/**
+ * Run every job that is due or has queued runs
+ * Paused jobs skip their schedule but still execute manually queued runs.
+ */
+export async function runPendingJobs(workerId: string): Promise<JobRun[]> {
+  const now = new Date();
+
+  const jobs = await prisma.scheduledJob.findMany({
+    select: { id: true },
+    where: {
+      OR: [
+        { enabled: true, nextRunAt: { lte: now } },
+        { runs: { some: { status: JobRunStatus.QUEUED } } },
+      ],
+    },
+    orderBy: { name: 'asc' },
+  });
+
+  const finishedRuns: JobRun[] = [];
+  for (const job of jobs) {
+    finishedRuns.push(...(await processJob(job.id, workerId, now)));
+  }
+
+  return finishedRuns;
+}
+
+/**
+ * Queue a job and run it in this process
+ * If another worker holds the lock the run stays queued for that worker to pick up.
+ */
+export async function runJobNow(
+  jobName: string,
+  workerId: string,
+  options: EnqueueJobOptions = {}
+): Promise<JobRun | null> {
+  const run = await enqueueJobRun(jobName, options);
+
+  if (!run) {
+    return null;
+  }
+
+  await processJob(run.jobId, workerId, new Date());
+
+  return prisma.jobRun.findUnique({ where: { id: run.id } });
+}
+
+/**
+ * Recompute a job's next scheduled time, e.g. after its schedule changed or it was resumed
+ */
+export function getNextScheduledRun(job: Pick<ScheduledJob, 'name' | 'cronExpression' | 'enabled'>): Date | null {
+  return job.enabled ? nextRunFor(job, new Date()) : null;
+}
@@ -0,0 +1,84 @@
+import { hostname } from 'os';
+import { runPendingJobs, syncJobDefinitions } from './queue';
+
+// How often the scheduler checks for due and queued jobs
+const DEFAULT_POLL_INTERVAL_MS = 30 * 1000;
+
+interface JobSchedulerState {
+  timer: ReturnType<typeof setInterval>;
+  ticking: boolean;
+  workerId: string;
+}
+
+// Kept on `global` so hot reloads in development don't start a second loop
+declare global {
+  // eslint-disable-next-line no-var
+  var jobScheduler: JobSchedulerState | undefined;
+}
+
+/**
+ * Identify this process when taking job locks
+ */
+export function getWorkerId(): string {
+  return `${hostname()}:${process.pid}`;
+}
+
+async function tick(state: JobSchedulerState): Promise<void> {
+  // A slow job can outlast the poll interval; skip until it finishes
+  if (state.ticking) {
+    return;
+  }
+
+  state.ticking = true;
+  try {
+    await runPendingJobs(state.workerId);
+  } catch (error) {
+    console.error('Job scheduler tick failed:', error);
+  } finally {
+    state.ticking = false;
+  }
+}
+
+/**
+ * Start polling for due jobs in this process
+ * Safe to call more than once; only the first call starts a loop.
+ */
+export async function startJobScheduler(pollIntervalMs = DEFAULT_POLL_INTERVAL_MS): Promise<void> {
+  if (global.jobScheduler) {
+    return;
+  }
+
+  await syncJobDefinitions();
+
+  const state: JobSchedulerState = {
+    timer: setInterval(() => {
+      void tick(state);
+    }, pollIntervalMs),
+    ticking: false,
+    workerId: getWorkerId(),
+  };
+
+  global.jobScheduler = state;
+
+  console.log(`Job scheduler started (${state.workerId}, every ${pollIntervalMs / 1000}s)`);
+}
+
+/**
+ * Stop the polling loop. A job that is already running finishes on its own.
+ */
+export function stopJobScheduler(): void {
+  if (global.jobScheduler) {
+    clearInterval(global.jobScheduler.timer);
+    global.jobScheduler = undefined;
+  }
+}
+
+/**
+ * Check for work right away instead of waiting for the next poll,
+ * e.g. after a run was queued manually. No-op if the scheduler isn't running here.
+ */
+export function wakeJobScheduler(): void {
+  if (global.jobScheduler) {
+    void tick(global.jobScheduler);
+  }
+}
@@ -0,0 +1,115 @@
+import { randomInt } from 'crypto';
+import { UserStatus } from '@prisma/client';
+import { PrismaTransaction } from '../prisma';
+import circulationConfig from '../circulation/config';
+
+/**
+ * Library cards: a unique membership number printed on the card and an expiry
+ * date. An active member whose card has expired can't borrow until it is renewed.
+ */
+
+// Account status as far as borrowing goes; EXPIRED is derived from the card's expiry
+export type MembershipStatus = UserStatus | 'EXPIRED';
+
+export interface LibraryCard {
+  membershipNumber: string;
+  membershipExpiresAt: Date;
+}
+
+interface CardHolder {
+  status: UserStatus;
+  membershipExpiresAt: Date | null;
+}
+
+// Attempts at drawing a membership number nobody holds yet
+const MAX_NUMBER_ATTEMPTS = 5;
+
+/**
+ * Generate a random membership number (e.g. "LIB4820175396")
+ */
+export function generateMembershipNumber(): string {
+  const digits = Array.from({ length: 10 }, () => randomInt(10)).join('');
+  return `LIB${digits}`;
+}
+
+/**
+ * Generate a membership number that isn't on any existing card
+ */
+export async function issueMembershipNumber(db: PrismaTransaction): Promise<string> {
+  for (let attempt = 0; attempt < MAX_NUMBER_ATTEMPTS; attempt++) {
+    const membershipNumber = generateMembershipNumber();
+    const existing = await db.user.findUnique({
+      where: { membershipNumber },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return membershipNumber;
+    }
+  }
+
+  throw new Error('Could not generate a unique membership number');
+}
+
+/**
+ * Expiry date of a card issued or renewed on the given date
+ */
+export function getMembershipExpiry(from: Date = new Date()): Date {
+  const expiry = new Date(from);
+  expiry.setMonth(expiry.getMonth() + circulationConfig.membershipPeriodMonths);
+  return expiry;
+}
+
+/**
+ * Number and expiry date for a new member's card
+ */
+export async function issueLibraryCard(db: PrismaTransaction): Promise<LibraryCard> {
+  return {
+    membershipNumber: await issueMembershipNumber(db),
+    membershipExpiresAt: getMembershipExpiry(),
+  };
+}
+
+/**
+ * Extend a member's card by one membership period, issuing a number if they have none.
+ * A card renewed before it expires keeps the time it had left.
+ */
+export async function renewLibraryCard(db: PrismaTransaction, userId: string): Promise<LibraryCard> {
+  const user = await db.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { membershipNumber: true, membershipExpiresAt: true },
+  });
+
+  const now = new Date();
+  const renewFrom =
+    user.membershipExpiresAt && user.membershipExpiresAt > now ? user.membershipExpiresAt : now;
+
+  const renewed = await db.user.update({
+    where: { id: userId },
+    data: {
+      membershipNumber: user.membershipNumber ?? (await issueMembershipNumber(db)),
+      membershipExpiresAt: getMembershipExpiry(renewFrom),
+    },
+    select: { membershipNumber: true, membershipExpiresAt: true },
+  });
+
+  return renewed as LibraryCard;
+}
+
+/**
+ * Whether a member's card has expired. Members without a card have nothing to expire.
+ */
+export function isMembershipExpired(holder: CardHolder, asOf: Date = new Date()): boolean {
+  return !!holder.membershipExpiresAt && holder.membershipExpiresAt <= asOf;
+}
+
+/**
+ * A member's status for borrowing: an expired card only matters while the account is active
+ */
+export function getMembershipStatus(holder: CardHolder, asOf: Date = new Date()): MembershipStatus {
+  if (holder.status === UserStatus.ACTIVE && isMembershipExpired(holder, asOf)) {
+    return 'EXPIRED';
+  }
+
+  return holder.status;
+}
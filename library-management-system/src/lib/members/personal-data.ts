@@ -0,0 +1,334 @@
+import {
+  AuditAction,
+  AuditEntityType,
+  LoginThrottleScope,
+  ReservationStatus,
+  TransactionStatus,
+  UserStatus,
+} from '@prisma/client';
+import { prisma, PrismaTransaction } from '../prisma';
+import { recordAuditEvent, redactAuditSnapshots } from '../audit/events';
+import { normalizeEmail } from '../auth/email-address';
+import { getMemberFineBalance, OPEN_FINE_STATUSES } from '../circulation/fines';
+import { releaseCopy } from '../circulation/copies';
+
+/**
+ * A member's right to a copy of their data and to have it erased. Erasure
+ * pseudonymizes the user row instead of deleting it, so loans, fines and payments
+ * stay in circulation statistics and the fine history without pointing at a person.
+ */
+
+export type ErasureBlockerReason = 'ACTIVE_LOANS' | 'UNPAID_FINES';
+
+export interface ErasureBlocker {
+  reason: ErasureBlockerReason;
+  message: string;
+  count: number;
+}
+
+// Personal details that member snapshots in the audit trail may hold
+const PERSONAL_FIELDS = ['email', 'name', 'phoneNumber', 'address', 'membershipNumber'];
+
+// Reservations still waiting for a copy or to be picked up
+const ACTIVE_RESERVATION_STATUSES: ReservationStatus[] = [
+  ReservationStatus.PENDING,
+  ReservationStatus.READY_FOR_PICKUP,
+];
+
+/**
+ * Everything the library holds about a member, as a machine-readable archive
+ * Returns null if the member doesn't exist.
+ */
+export async function getPersonalDataExport(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      phoneNumber: true,
+      address: true,
+      membershipNumber: true,
+      membershipExpiresAt: true,
+      status: true,
+      role: true,
+      twoFactorEnabledAt: true,
+      createdAt: true,
+      updatedAt: true,
+      userRoles: { select: { role: true } },
+      notificationPreference: {
+        select: {
+          emailEnabled: true,
+          inAppEnabled: true,
+          dueDateReminders: true,
+          overdueNotices: true,
+          reservationNotifications: true,
+          libraryUpdates: true,
+          quietHoursStart: true,
+          quietHoursEnd: true,
+          timezone: true,
+          digestFrequency: true,
+        },
+      },
+    },
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  const [loans, holds, fines, notifications, signIns] = await Promise.all([
+    prisma.transaction.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        book: { select: { title: true, author: true, isbn: true } },
+        copy: { select: { barcode: true } },
+        checkoutDate: true,
+        dueDate: true,
+        returnDate: true,
+        status: true,
+        fine: true,
+        renewals: {
+          select: { previousDueDate: true, newDueDate: true, renewedAt: true },
+          orderBy: { renewedAt: 'asc' },
+        },
+      },
+      orderBy: { checkoutDate: 'desc' },
+    }),
+    prisma.reservation.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        book: { select: { title: true, author: true, isbn: true } },
+        reservationDate: true,
+        expiryDate: true,
+        status: true,
+      },
+      orderBy: { reservationDate: 'desc' },
+    }),
+    prisma.fineCharge.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        transactionId: true,
+        type: true,
+        amount: true,
+        amountPaid: true,
+        amountWaived: true,
+        status: true,
+        waiverReason: true,
+        waivedAt: true,
+        createdAt: true,
+        payments: {
+          select: { amount: true, method: true, reference: true, createdAt: true },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    }),
+    prisma.emailLog.findMany({
+      where: {
+        OR: [
+          { to: user.email },
+          { transaction: { userId } },
+          { reservation: { userId } },
+        ],
+      },
+      select: {
+        id: true,
+        to: true,
+        subject: true,
+        template: true,
+        status: true,
+        textContent: true,
+        sentAt: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: 'desc' },
+    }),
+    prisma.loginEvent.findMany({
+      where: { userId },
+      select: { success: true, ipAddress: true, userAgent: true, createdAt: true },
+      orderBy: { createdAt: 'desc' },
+    }),
+  ]);
+
+  const { userRoles, notificationPreference, twoFactorEnabledAt, ...profile } = user;
+
+  return {
+    exportedAt: new Date().toISOString(),
+    profile: {
+      ...profile,
+      additionalRoles: userRoles.map((mapping) => mapping.role),
+      twoFactorEnabled: !!twoFactorEnabledAt,
+    },
+    notificationPreferences: notificationPreference,
+    loans,
+    holds,
+    fines,
+    notifications,
+    signIns,
+  };
+}
+
+/**
+ * What stops a member's data from being erased: loans still out and fines still owed.
+ * An empty list means the member can be anonymized.
+ */
+export async function getErasureBlockers(
+  db: PrismaTransaction,
+  userId: string
+): Promise<ErasureBlocker[]> {
+  const blockers: ErasureBlocker[] = [];
+
+  const [activeLoans, openFines, fineBalance] = await Promise.all([
+    db.transaction.count({
+      where: {
+        userId,
+        status: { in: [TransactionStatus.CHECKED_OUT, TransactionStatus.OVERDUE] },
+      },
+    }),
+    db.fineCharge.count({
+      where: { userId, status: { in: OPEN_FINE_STATUSES } },
+    }),
+    getMemberFineBalance(db, userId),
+  ]);
+
+  if (activeLoans > 0) {
+    blockers.push({
+      reason: 'ACTIVE_LOANS',
+      message: `${activeLoans} item(s) must be returned first`,
+      count: activeLoans,
+    });
+  }
+
+  if (openFines > 0) {
+    blockers.push({
+      reason: 'UNPAID_FINES',
+      message: `$${fineBalance.toFixed(2)} in fines must be paid or waived first`,
+      count: openFines,
+    });
+  }
+
+  return blockers;
+}
+
+/**
+ * Erase a member's personal data
+ * The user row is pseudonymized and deactivated, which also signs the member out
+ * everywhere. Their active reservations are cancelled, and tokens, preferences and
+ * the contents of emails sent to them are deleted, as are their personal details in
+ * the audit trail. Loans, fines and payments are kept.
+ * Returns what blocks the erasure; an empty list means the member was anonymized.
+ */
+export async function anonymizeMember(
+  userId: string,
+  actorId: string,
+  request?: Request
+): Promise<ErasureBlocker[]> {
+  return prisma.$transaction(async (tx) => {
+    const blockers = await getErasureBlockers(tx, userId);
+
+    if (blockers.length > 0) {
+      return blockers;
+    }
+
+    const user = await tx.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { email: true, status: true, deletedAt: true },
+    });
+    const pseudonymousEmail = `anonymized-${userId}@deleted.invalid`;
+
+    // Holds would otherwise keep copies set aside for someone who no longer exists
+    const activeReservations = await tx.reservation.findMany({
+      where: { userId, status: { in: ACTIVE_RESERVATION_STATUSES } },
+      select: { id: true, bookId: true, copyId: true, status: true },
+    });
+
+    for (const reservation of activeReservations) {
+      await tx.reservation.update({
+        where: { id: reservation.id },
+        data: { status: ReservationStatus.CANCELLED },
+      });
+
+      if (reservation.status === ReservationStatus.READY_FOR_PICKUP && reservation.copyId) {
+        await releaseCopy(tx, { id: reservation.copyId, bookId: reservation.bookId });
+      }
+    }
+
+    await tx.passwordResetToken.deleteMany({ where: { userId } });
+    await tx.emailVerificationToken.deleteMany({ where: { userId } });
+    await tx.twoFactorRecoveryCode.deleteMany({ where: { userId } });
+    await tx.userRoleMapping.deleteMany({ where: { userId } });
+    await tx.userNotificationPreference.deleteMany({ where: { userId } });
+    // Sign-in throttling and history are keyed on the normalized address
+    const signInEmail = normalizeEmail(user.email);
+    await tx.loginThrottle.deleteMany({
+      where: { scope: LoginThrottleScope.ACCOUNT, key: signInEmail },
+    });
+
+    // Keep that emails were sent for the delivery history, not what they said
+    await tx.emailLog.updateMany({
+      where: {
+        OR: [
+          { to: user.email },
+          { transaction: { userId } },
+          { reservation: { userId } },
+        ],
+      },
+      data: {
+        to: pseudonymousEmail,
+        templateData: null,
+        htmlContent: null,
+        textContent: null,
+        deliveryDetails: null,
+      },
+    });
+
+    await tx.loginEvent.updateMany({
+      where: { OR: [{ userId }, { email: signInEmail }] },
+      data: { email: pseudonymousEmail, ipAddress: null, userAgent: null },
+    });
+
+    // The history of the account stays, without who it belonged to or where they signed in from
+    await redactAuditSnapshots(tx, AuditEntityType.MEMBER, userId, PERSONAL_FIELDS);
+    await tx.auditEvent.updateMany({
+      where: { actorId: userId },
+      data: { ipAddress: null },
+    });
+
+    const anonymized = await tx.user.update({
+      where: { id: userId },
+      data: {
+        email: pseudonymousEmail,
+        name: 'Anonymized member',
+        phoneNumber: null,
+        address: null,
+        membershipNumber: null,
+        membershipExpiresAt: null,
+        // Not a valid hash, so no password will ever match
+        passwordHash: '',
+        twoFactorSecret: null,
+        twoFactorEnabledAt: null,
+        twoFactorLastUsedStep: null,
+        status: UserStatus.INACTIVE,
+        deletedAt: new Date(),
+        sessionVersion: { increment: 1 },
+      },
+    });
+
+    // Snapshots stay free of the erased details
+    await recordAuditEvent({
+      actorId,
+      action: AuditAction.ANONYMIZED,
+      entityType: AuditEntityType.MEMBER,
+      entityId: userId,
+      before: { status: user.status, deletedAt: user.deletedAt },
+      after: { status: anonymized.status, deletedAt: anonymized.deletedAt },
+      request,
+    }, tx);
+
+    return [];
+  });
+}
@@ -19,5 +19,5 @@ export { prisma };
 
 export type PrismaTransaction = Omit<
   PrismaClient,
-  '$connect' | '$disconnect' | '$on' | '$transaction' | '$use'
+  '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'
 >;
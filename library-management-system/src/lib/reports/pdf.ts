@@ -0,0 +1,77 @@
+// Minimal text-only PDF writer for report exports. Lays out lines of text in
+// Helvetica on A4 pages; enough for tabular summaries without a PDF dependency.
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const FONT_SIZE = 10;
+const LINE_HEIGHT = 14;
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - MARGIN * 2) / LINE_HEIGHT);
+
+// Escape PDF string delimiters and drop characters outside the standard font's range
+function escapePdfText(text: string): string {
+  return text
+    .replace(/[^\x20-\x7e]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
+
+/**
+ * Render a title and lines of text as a PDF document.
+ * Lines starting with '# ' are printed in bold as section headings.
+ */
+export function renderTextPdf(title: string, lines: string[]): Buffer {
+  const allLines = [`# ${title}`, '', ...lines];
+  const pages: string[][] = [];
+
+  for (let i = 0; i < allLines.length; i += LINES_PER_PAGE) {
+    pages.push(allLines.slice(i, i + LINES_PER_PAGE));
+  }
+
+  // Objects 1-4 are the catalog, page tree and fonts; each page then takes two objects
+  const objects: string[] = [];
+  const pageIds = pages.map((_, index) => 5 + index * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold >>';
+
+  pages.forEach((pageLines, index) => {
+    const pageId = pageIds[index];
+    const content = pageLines
+      .map((line, lineIndex) => {
+        const isHeading = line.startsWith('# ');
+        const text = escapePdfText(isHeading ? line.slice(2) : line);
+        const y = PAGE_HEIGHT - MARGIN - lineIndex * LINE_HEIGHT;
+        return `BT /${isHeading ? 'F2' : 'F1'} ${FONT_SIZE} Tf ${MARGIN} ${y} Td (${text}) Tj ET`;
+      })
+      .join('\n');
+
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  // Content is ASCII only, so string lengths are byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'ascii');
+}
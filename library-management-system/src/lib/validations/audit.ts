@@ -0,0 +1,21 @@
+import * as z from 'zod';
+import { AuditAction, AuditEntityType } from '@prisma/client';
+
+// Dates from the viewer's date inputs; `to` covers the whole day
+const dateParam = z.string().refine((value) => !isNaN(new Date(value).getTime()), {
+  message: 'Must be a valid date',
+});
+
+export const auditEventFilterSchema = z.object({
+  entityType: z.nativeEnum(AuditEntityType).optional(),
+  entityId: z.string().trim().min(1).optional(),
+  action: z.nativeEnum(AuditAction).optional(),
+  actorId: z.string().uuid().optional(),
+  from: dateParam.optional(),
+  to: dateParam.optional(),
+  format: z.enum(['json', 'csv']).default('json'),
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(25),
+});
+
+export type AuditEventFilterValues = z.infer<typeof auditEventFilterSchema>;
@@ -1,4 +1,5 @@
 import * as z from 'zod';
+import { BookStatus } from '@prisma/client';
 
 export const bookFormSchema = z.object({
   isbn: z.string()
@@ -40,8 +41,8 @@ export const bookFormSchema = z.object({
     .max(2000, { message: 'Description cannot be longer than 2000 characters' })
     .optional(),
   coverImage: z.string().url({ message: 'Please enter a valid URL' }).optional(),
-  status: z.enum(['AVAILABLE', 'CHECKED_OUT', 'RESERVED', 'LOST', 'DAMAGED', 'PROCESSING'])
-    .default('AVAILABLE'),
+  tags: z.array(z.string()).default([]),
+  status: z.nativeEnum(BookStatus).default(BookStatus.AVAILABLE),
 });
 
 export type BookFormValues = z.infer<typeof bookFormSchema>;
@@ -59,3 +60,14 @@ export type CreateBookValues = z.infer<typeof createBookSchema>;
 // Schema for updating a book (all fields optional except ID)
 export const updateBookSchema = bookFormSchema.partial();
 export type UpdateBookValues = z.infer<typeof updateBookSchema>;
+
+// Schema for moving a book to another status; every change needs a reason
+export const bookStatusChangeSchema = z.object({
+  status: z.nativeEnum(BookStatus),
+  reason: z.string()
+    .trim()
+    .min(3, { message: 'Please give a reason for the change' })
+    .max(500, { message: 'Reason cannot be longer than 500 characters' }),
+});
+
+export type BookStatusChangeValues = z.infer<typeof bookStatusChangeSchema>;
@@ -39,3 +39,23 @@ export const transactionFilterSchema = z.object({
 });
 
 export type TransactionFilterValues = z.infer<typeof transactionFilterSchema>;
+
+// Query for GET /api/borrowings; repeat `status` to ask for several
+export const borrowingQuerySchema = z.object({
+  status: z.array(z.enum(['ACTIVE', 'OVERDUE', 'RETURNED', 'LOST'])).default([]),
+  memberId: z.string().uuid().optional(),
+  bookId: z.string().uuid().optional(),
+});
+
+// Body of POST /api/borrowings
+export const borrowingCheckoutSchema = borrowingFormSchema.extend({
+  // Staff with override permission can check out past the member's borrowing limits
+  overrideReason: z.string().trim().min(3).max(500).optional(),
+});
+
+// Body of POST /api/borrowings/[id]/return
+export const borrowingReturnSchema = returnFormSchema.pick({
+  condition: true,
+  isPaid: true,
+  notes: true,
+});
@@ -0,0 +1,54 @@
+import * as z from 'zod';
+
+export const circulationPolicySchema = z.object({
+  name: z.string()
+    .min(1, { message: 'Name is required' })
+    .max(100, { message: 'Name cannot be longer than 100 characters' }),
+  // Leave role or category empty to apply the policy to all of them
+  role: z.enum(['USER', 'ADMIN', 'LIBRARIAN', 'MEMBER']).nullable().optional(),
+  category: z.string()
+    .min(1, { message: 'Category cannot be empty' })
+    .max(100, { message: 'Category cannot be longer than 100 characters' })
+    .nullable()
+    .optional(),
+  loanPeriodDays: z.number()
+    .int({ message: 'Loan period must be a whole number of days' })
+    .positive({ message: 'Loan period must be at least 1 day' })
+    .max(365, { message: 'Loan period cannot be longer than 365 days' }),
+  dailyFineRate: z.number()
+    .min(0, { message: 'Fine rate cannot be negative' }),
+  maxFine: z.number()
+    .min(0, { message: 'Maximum fine cannot be negative' })
+    .nullable()
+    .optional(),
+  gracePeriodDays: z.number()
+    .int({ message: 'Grace period must be a whole number of days' })
+    .min(0, { message: 'Grace period cannot be negative' })
+    .max(365, { message: 'Grace period cannot be longer than 365 days' }),
+  lostItemFee: z.number()
+    .min(0, { message: 'Lost item fee cannot be negative' }),
+  damagedItemFee: z.number()
+    .min(0, { message: 'Damaged item fee cannot be negative' }),
+  // Leave a limit empty to not enforce it at checkout
+  maxActiveLoans: z.number()
+    .int({ message: 'Loan limit must be a whole number' })
+    .min(0, { message: 'Loan limit cannot be negative' })
+    .nullable()
+    .optional(),
+  maxOverdueItems: z.number()
+    .int({ message: 'Overdue limit must be a whole number' })
+    .min(0, { message: 'Overdue limit cannot be negative' })
+    .nullable()
+    .optional(),
+  maxFineBalance: z.number()
+    .min(0, { message: 'Fine balance limit cannot be negative' })
+    .nullable()
+    .optional(),
+  isActive: z.boolean().optional(),
+});
+
+export type CirculationPolicyValues = z.infer<typeof circulationPolicySchema>;
+
+// Schema for updating a policy (all fields optional)
+export const updateCirculationPolicySchema = circulationPolicySchema.partial();
+export type UpdateCirculationPolicyValues = z.infer<typeof updateCirculationPolicySchema>;
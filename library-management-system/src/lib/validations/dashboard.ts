@@ -0,0 +1,23 @@
+import * as z from 'zod';
+
+const timeRange = z.enum(['day', 'week', 'month', 'year']);
+
+export const dashboardComparisonSchema = z.object({
+  timeRange: timeRange.default('day'),
+});
+
+export const popularBooksQuerySchema = z.object({
+  timeRange: timeRange.default('month'),
+});
+
+export const activityQuerySchema = z.object({
+  page: z.coerce.number().int().positive().max(10).default(1),
+  limit: z.coerce.number().int().positive().max(50).default(10),
+  type: z
+    .enum(['CHECKOUT', 'RETURN', 'OVERDUE', 'RESERVATION', 'MEMBER_SIGNUP', 'BOOK_ADDED'])
+    .optional(),
+  since: z
+    .string()
+    .refine((value) => !isNaN(new Date(value).getTime()), { message: 'Must be a valid date' })
+    .optional(),
+});
@@ -0,0 +1,20 @@
+import * as z from 'zod';
+import { isValidCronExpression } from '@/lib/jobs/cron';
+
+export const updateScheduledJobSchema = z.object({
+  // Pausing a job stops its schedule; manual runs still go through
+  enabled: z.boolean().optional(),
+  cronExpression: z.string()
+    .trim()
+    .refine(isValidCronExpression, {
+      message: 'Enter a five-field cron expression, e.g. "0 1 * * *"',
+    })
+    .optional(),
+});
+
+export type UpdateScheduledJobValues = z.infer<typeof updateScheduledJobSchema>;
+
+export const jobRunHistorySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+});
@@ -0,0 +1,36 @@
+import * as z from 'zod';
+
+const timeOfDay = z.string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'Time must be in HH:mm format' });
+
+export const notificationPreferencesSchema = z.object({
+  emailEnabled: z.boolean(),
+  inAppEnabled: z.boolean(),
+  dueDateReminders: z.boolean(),
+  overdueNotices: z.boolean(),
+  reservationNotifications: z.boolean(),
+  libraryUpdates: z.boolean(),
+  // Leave both empty to turn quiet hours off
+  quietHoursStart: timeOfDay.nullable(),
+  quietHoursEnd: timeOfDay.nullable(),
+  timezone: z.string()
+    .min(1, { message: 'Timezone is required' })
+    .max(64)
+    .refine((value) => {
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone: value });
+        return true;
+      } catch {
+        return false;
+      }
+    }, { message: 'Unknown timezone' }),
+  digestFrequency: z.enum(['NONE', 'DAILY', 'WEEKLY']),
+}).refine(
+  (data) => (data.quietHoursStart === null) === (data.quietHoursEnd === null),
+  {
+    message: 'Quiet hours need both a start and an end time',
+    path: ['quietHoursEnd'],
+  }
+);
+
+export type NotificationPreferencesValues = z.infer<typeof notificationPreferencesSchema>;
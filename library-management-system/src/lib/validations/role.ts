@@ -0,0 +1,31 @@
+import * as z from 'zod';
+import { Permission } from '@prisma/client';
+
+export const roleSchema = z.object({
+  name: z.string()
+    .trim()
+    .min(2, { message: 'Role name must be at least 2 characters' })
+    .max(50, { message: 'Role name cannot be longer than 50 characters' })
+    .regex(/^[A-Za-z][A-Za-z0-9 ]*$/, {
+      message: 'Role name must start with a letter and can only contain letters, numbers and spaces',
+    }),
+  description: z.string()
+    .trim()
+    .max(255, { message: 'Description cannot be longer than 255 characters' })
+    .nullable()
+    .optional(),
+  permissions: z.array(z.nativeEnum(Permission)),
+});
+
+export type RoleFormValues = z.infer<typeof roleSchema>;
+
+// The name can't be changed once a role exists
+export const updateRoleSchema = roleSchema.omit({ name: true }).partial();
+
+export type UpdateRoleValues = z.infer<typeof updateRoleSchema>;
+
+export const userRolesSchema = z.object({
+  roles: z.array(z.string().min(1)).max(20, { message: 'A user cannot have more than 20 roles' }),
+});
+
+export type UserRolesValues = z.infer<typeof userRolesSchema>;
@@ -0,0 +1,37 @@
+import * as z from 'zod';
+
+export const categorySchema = z.object({
+  name: z.string()
+    .trim()
+    .min(1, { message: 'Category name is required' })
+    .max(100, { message: 'Category name cannot be longer than 100 characters' }),
+  description: z.string()
+    .trim()
+    .max(255, { message: 'Description cannot be longer than 255 characters' })
+    .nullable()
+    .optional(),
+  // Leave empty for a top-level category
+  parentId: z.string().uuid({ message: 'Invalid parent category' }).nullable().optional(),
+});
+
+export type CategoryFormValues = z.infer<typeof categorySchema>;
+
+export const updateCategorySchema = categorySchema.partial();
+
+export type UpdateCategoryValues = z.infer<typeof updateCategorySchema>;
+
+export const tagSchema = z.object({
+  name: z.string()
+    .trim()
+    .min(1, { message: 'Tag name is required' })
+    .max(50, { message: 'Tag name cannot be longer than 50 characters' }),
+});
+
+export type TagFormValues = z.infer<typeof tagSchema>;
+
+// Merging folds the category or tag in the URL into the target
+export const mergeTermSchema = z.object({
+  targetId: z.string().uuid({ message: 'Choose what to merge into' }),
+});
+
+export type MergeTermValues = z.infer<typeof mergeTermSchema>;
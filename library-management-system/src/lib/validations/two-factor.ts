@@ -0,0 +1,35 @@
+import * as z from 'zod';
+import { UserRole } from '@prisma/client';
+import { STAFF_ROLES } from '@/lib/auth/rbac/roles';
+
+// A six-digit authenticator code or a recovery code (xxxxx-xxxxx)
+export const twoFactorCodeSchema = z.object({
+  code: z.string()
+    .trim()
+    .min(6, { message: 'Enter the code from your authenticator app' })
+    .max(20, { message: 'Enter the code from your authenticator app' }),
+});
+
+export type TwoFactorCodeValues = z.infer<typeof twoFactorCodeSchema>;
+
+export const disableTwoFactorSchema = z.object({
+  password: z.string().min(1, { message: 'Password is required' }),
+  code: twoFactorCodeSchema.shape.code,
+});
+
+export type DisableTwoFactorValues = z.infer<typeof disableTwoFactorSchema>;
+
+// Enrollment started from the sign-in form, before the user has a session
+export const twoFactorSignInSetupSchema = z.object({
+  email: z.string().trim().email({ message: 'Please enter a valid email address.' }),
+  password: z.string().min(1, { message: 'Password is required' }),
+});
+
+export const twoFactorPolicySchema = z.object({
+  role: z.nativeEnum(UserRole).refine((role) => STAFF_ROLES.includes(role), {
+    message: 'Two-factor authentication can only be required for staff roles',
+  }),
+  requireTwoFactor: z.boolean(),
+});
+
+export type TwoFactorPolicyValues = z.infer<typeof twoFactorPolicySchema>;
@@ -50,11 +50,65 @@ const publicRoutes = [
   "/auth/register",
   "/auth/forgot-password",
   "/auth/reset-password",
+  "/auth/verify-email",
   "/api/auth/[...nextauth]",
+  "/api/auth/verify-email",
+  "/api/auth/two-factor",
   "/_next",
   "/favicon.ico",
 ];
 
+// Revocation checks are cached briefly so every request doesn't need a round trip;
+// API routes check the session against the database themselves on every call
+const SESSION_STATUS_TTL_MS = 30 * 1000;
+const MAX_CACHED_SESSION_STATUSES = 1000;
+const sessionStatusCache = new Map<string, { active: boolean; checkedAt: number }>();
+
+/**
+ * Check whether a session has been revoked (signed out everywhere, password,
+ * status or role change) since it was issued
+ * The edge runtime has no database access, so this asks the session-status route.
+ */
+async function isSessionActive(request: NextRequest, userId: string, sessionVersion: number): Promise<boolean> {
+  const cacheKey = `${userId}:${sessionVersion}`;
+  const cached = sessionStatusCache.get(cacheKey);
+  if (cached && Date.now() - cached.checkedAt < SESSION_STATUS_TTL_MS) {
+    return cached.active;
+  }
+
+  try {
+    const response = await fetch(new URL("/api/auth/session-status", request.url), {
+      headers: { cookie: request.headers.get("cookie") ?? "" },
+    });
+    if (!response.ok) {
+      // Let the request through; the route's own session check still applies
+      return true;
+    }
+
+    const { active } = await response.json();
+    if (sessionStatusCache.size >= MAX_CACHED_SESSION_STATUSES) {
+      sessionStatusCache.clear();
+    }
+    sessionStatusCache.set(cacheKey, { active, checkedAt: Date.now() });
+    return active;
+  } catch (error) {
+    console.error("Failed to check session status:", error);
+    return true;
+  }
+}
+
+/**
+ * Drop the (possibly chunked) session cookie so the browser stops sending a revoked session
+ */
+function clearSessionCookies(request: NextRequest, response: NextResponse): NextResponse {
+  for (const cookie of request.cookies.getAll()) {
+    if (cookie.name.includes("next-auth.session-token")) {
+      response.cookies.delete(cookie.name);
+    }
+  }
+  return response;
+}
+
 /**
  * Check if user has required permissions for a route
  */
@@ -81,15 +135,33 @@ export async function checkPermissions(
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
 
+  // Get the token from the request
+  const token = await getToken({ req: request });
+
+  // Sign out revoked sessions, on public routes too; NextAuth's own routes are
+  // skipped so signing in and out keeps working
+  if (token && !pathname.startsWith("/api/auth")) {
+    const active = await isSessionActive(request, token.id, token.sessionVersion ?? 0);
+    if (!active) {
+      if (pathname.startsWith("/api")) {
+        return clearSessionCookies(
+          request,
+          NextResponse.json({ error: "Your session has ended. Please sign in again." }, { status: 401 })
+        );
+      }
+
+      const url = new URL('/auth/signin', request.url);
+      url.searchParams.set('callbackUrl', pathname);
+      return clearSessionCookies(request, NextResponse.redirect(url));
+    }
+  }
+
   // Check if the route is public
   const isPublicRoute = publicRoutes.some(route => pathname.startsWith(route));
   if (isPublicRoute) {
     return NextResponse.next();
   }
   
-  // Get the token from the request
-  const token = await getToken({ req: request });
-  
   // If there's no token and the route is protected, redirect to login
   if (!token) {
     const url = new URL('/auth/signin', request.url);
@@ -0,0 +1,23 @@
+// Loans as the borrowing desk groups them: out, out past the due date, back, or lost
+export type BorrowingStatus = 'ACTIVE' | 'OVERDUE' | 'RETURNED' | 'LOST';
+
+// A loan as listed by GET /api/borrowings
+export type Borrowing = {
+  id: string;
+  bookId: string;
+  memberId: string;
+  bookTitle: string;
+  bookAuthor: string;
+  bookIsbn: string;
+  memberName: string;
+  membershipNumber: string;
+  checkoutDate: string;
+  dueDate: string;
+  returnDate: string | null;
+  status: BorrowingStatus;
+  renewalCount: number;
+  // Fines charged when the loan came back, and whether they have been settled
+  fineAmount: number | null;
+  finePaid: boolean;
+};
+
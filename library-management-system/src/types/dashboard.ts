@@ -0,0 +1,66 @@
+// Periods the dashboard widgets can be switched between
+export type DashboardTimeRange = 'day' | 'week' | 'month' | 'year';
+
+// A count for the current period and the one before it, e.g. today and yesterday
+export type PeriodComparison = {
+  timeRange: DashboardTimeRange;
+  current: number;
+  previous: number;
+};
+
+export type OverdueLoan = {
+  id: string;
+  bookId: string;
+  title: string;
+  memberId: string;
+  memberName: string;
+  membershipNumber: string | null;
+  memberEmail?: string;
+  memberPhone?: string;
+  dueDate: string;
+  daysOverdue: number;
+};
+
+// Response body of GET /api/dashboard/overdue-books
+export type OverdueLoans = {
+  total: number;
+  loans: OverdueLoan[];
+};
+
+export type PopularBook = {
+  id: string;
+  title: string;
+  author: string;
+  checkoutCount: number;
+};
+
+// Response body of GET /api/dashboard/popular-books
+export type PopularBooks = {
+  timeRange: DashboardTimeRange;
+  books: PopularBook[];
+};
+
+export type ActivityType =
+  | 'CHECKOUT'
+  | 'RETURN'
+  | 'OVERDUE'
+  | 'RESERVATION'
+  | 'MEMBER_SIGNUP'
+  | 'BOOK_ADDED';
+
+export type ActivityItem = {
+  id: string;
+  type: ActivityType;
+  timestamp: string;
+  title: string;
+  description: string;
+  bookId?: string;
+  memberId?: string;
+};
+
+// Response body of GET /api/dashboard/activities
+export type ActivityPage = {
+  activities: ActivityItem[];
+  page: number;
+  hasMore: boolean;
+};
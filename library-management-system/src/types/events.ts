@@ -0,0 +1,20 @@
+// Circulation changes pushed to the browser over GET /api/events
+export type LiveEventType =
+  | 'CHECKOUT'
+  | 'RETURN'
+  | 'RESERVATION'
+  | 'HOLD_READY'
+  | 'MEMBER_STATUS_CHANGED';
+
+// Shaped like a dashboard activity item so the activity feed can show it as-is
+export type LiveEvent = {
+  id: string;
+  type: LiveEventType;
+  timestamp: string;
+  title: string;
+  description: string;
+  bookId?: string;
+  memberId?: string;
+  transactionId?: string;
+  reservationId?: string;
+};
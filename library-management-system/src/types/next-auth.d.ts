@@ -10,7 +10,7 @@ declare module 'next-auth' {
     user: {
       id: string;
       role: UserRole;
-      roles: { role: UserRole }[];
+      roles: { role: string }[];
       status: string;
       permissions?: Permission[];
     } & DefaultSession['user'];
@@ -22,9 +22,10 @@ declare module 'next-auth' {
   interface User {
     id: string;
     role: UserRole;
-    roles: { role: UserRole }[];
+    roles: { role: string }[];
     status: string;
     permissions?: Permission[];
+    sessionVersion?: number;
   }
 }
 
@@ -35,8 +36,10 @@ declare module 'next-auth/jwt' {
   interface JWT {
     id: string;
     role: UserRole;
-    roles: { role: UserRole }[];
+    roles: { role: string }[];
     status: string;
     permissions?: Permission[];
+    // Compared with the user's current version to detect revoked sessions
+    sessionVersion?: number;
   }
 }
@@ -0,0 +1,48 @@
+import type { FineType } from '@prisma/client';
+
+export type FinePeriodTotals = {
+  period: string;
+  assessed: number;
+  collected: number;
+  waived: number;
+};
+
+export type FineAgingBucket = {
+  label: string;
+  count: number;
+  outstanding: number;
+};
+
+export type FineDebtor = {
+  userId: string;
+  name: string | null;
+  email: string;
+  openFines: number;
+  outstanding: number;
+  oldestFineDate: string;
+};
+
+export type FineTypeTotals = {
+  type: FineType;
+  count: number;
+  assessed: number;
+  collected: number;
+  waived: number;
+};
+
+// Response body of GET /api/reports/fines
+export type FineReport = {
+  generatedAt: string;
+  timeframe: string;
+  totals: {
+    assessed: number;
+    collected: number;
+    waived: number;
+    outstanding: number;
+    collectionRate: number; // percentage of assessed that was collected
+  };
+  periods: FinePeriodTotals[];
+  aging: FineAgingBucket[];
+  topDebtors: FineDebtor[];
+  byType: FineTypeTotals[];
+};
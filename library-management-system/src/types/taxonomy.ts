@@ -0,0 +1,15 @@
+export interface CategorySummary {
+  id: string;
+  name: string;
+  description: string | null;
+  parentId: string | null;
+  // Books filed directly under this category, not its subcategories
+  bookCount: number;
+  childCount: number;
+}
+
+export interface TagSummary {
+  id: string;
+  name: string;
+  bookCount: number;
+}
@@ -0,0 +1,16 @@
+import { fileURLToPath } from "url";
+import { configDefaults, defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL("./src", import.meta.url)),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["src/**/*.test.ts"],
+    // Integration tests need a database; they run with `npm run test:integration`
+    exclude: [...configDefaults.exclude, "src/**/*.integration.test.ts"],
+  },
+});
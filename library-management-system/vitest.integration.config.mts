@@ -0,0 +1,22 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+// Integration tests run against the Postgres database in TEST_DATABASE_URL, which is
+// reset to the schema first: never point it at a database with data you want to keep
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL("./src", import.meta.url)),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["src/**/*.integration.test.ts"],
+    globalSetup: ["./vitest.integration.setup.ts"],
+    env: {
+      DATABASE_URL: process.env.TEST_DATABASE_URL ?? "",
+    },
+    // The tests share one database
+    fileParallelism: false,
+  },
+});
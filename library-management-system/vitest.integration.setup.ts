@@ -0,0 +1,13 @@
+import { execSync } from "child_process";
+
+// Reset the test database to the current schema before the integration tests run
+export default function setup() {
+  if (!process.env.TEST_DATABASE_URL) {
+    return;
+  }
+
+  execSync("npx prisma db push --skip-generate --force-reset", {
+    stdio: "inherit",
+    env: { ...process.env, DATABASE_URL: process.env.TEST_DATABASE_URL },
+  });
+}